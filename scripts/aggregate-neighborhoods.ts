@@ -0,0 +1,42 @@
+/**
+ * Recompute neighborhood baselines from properties and snapshot market trends
+ *
+ * Usage:
+ *   npm run aggregate-neighborhoods                      # every neighborhood, rescoring moved ones
+ *   npm run aggregate-neighborhoods -- --ids a,b,c       # specific neighborhoods
+ *   npm run aggregate-neighborhoods -- --min-sample 10   # require more listings per baseline
+ *   npm run aggregate-neighborhoods -- --no-rescore      # leave stored scores alone
+ *   npm run aggregate-neighborhoods -- --dry-run         # report without writing
+ */
+
+import { aggregateNeighborhoodStats } from '../src/lib/neighborhood-stats'
+import { getSupabaseAdmin } from '../src/lib/supabase-admin'
+import { loadCpiTableFromEnv } from '../src/lib/cpi-file'
+
+async function main() {
+  await loadCpiTableFromEnv() // Rent caps in stored scores use CPI_TABLE_PATH when set
+  const args = process.argv.slice(2)
+  const idsIndex = args.indexOf('--ids')
+  const minSampleIndex = args.indexOf('--min-sample')
+  const minSampleSize = minSampleIndex >= 0 ? Number(args[minSampleIndex + 1]) : undefined
+
+  if (minSampleSize !== undefined && (!Number.isInteger(minSampleSize) || minSampleSize < 1)) {
+    console.error('--min-sample must be a positive whole number')
+    process.exit(1)
+  }
+
+  const report = await aggregateNeighborhoodStats(getSupabaseAdmin(), {
+    neighborhoodIds: idsIndex >= 0 ? args[idsIndex + 1]?.split(',').filter(Boolean) : undefined,
+    minSampleSize,
+    rescore: !args.includes('--no-rescore'),
+    dryRun: args.includes('--dry-run')
+  })
+
+  console.log(JSON.stringify(report, null, 2))
+  if (report.failed.length > 0 || (report.rescore?.failed.length ?? 0) > 0) process.exitCode = 1
+}
+
+main().catch(error => {
+  console.error('Neighborhood aggregation failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,46 @@
+/**
+ * Import a CSV or RESO Web API JSON listing feed into properties
+ *
+ * Usage:
+ *   npm run import-listings -- feed.csv --source redfin
+ *   npm run import-listings -- feed.json --source mls            # .json files are read as RESO
+ *   npm run import-listings -- feed.txt --source mls --format reso
+ *   npm run import-listings -- feed.csv --source redfin --dry-run
+ */
+
+import { readFile } from 'fs/promises'
+import { extname } from 'path'
+import { importListings } from '../src/lib/listing-ingestion'
+import type { ListingFeedFormat } from '../src/lib/listing-feeds'
+import { getSupabaseAdmin } from '../src/lib/supabase-admin'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const option = (name: string) => {
+    const index = args.indexOf(name)
+    return index >= 0 ? args[index + 1] : undefined
+  }
+
+  const filePath = args.find((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'))
+  const source = option('--source')
+  if (!filePath || !source) {
+    throw new Error('Usage: npm run import-listings -- <file> --source <name> [--format csv|reso] [--dry-run]')
+  }
+
+  const format = (option('--format') ?? (extname(filePath).toLowerCase() === '.json' ? 'reso' : 'csv')) as ListingFeedFormat
+  if (format !== 'csv' && format !== 'reso') throw new Error('--format must be csv or reso')
+
+  const report = await importListings(getSupabaseAdmin(), await readFile(filePath, 'utf8'), {
+    source,
+    format,
+    dryRun: args.includes('--dry-run')
+  })
+
+  console.log(JSON.stringify(report, null, 2))
+  if (report.rejected > 0) process.exitCode = 1
+}
+
+main().catch(error => {
+  console.error('Listing import failed:', error)
+  process.exit(1)
+})
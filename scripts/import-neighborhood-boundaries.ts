@@ -0,0 +1,51 @@
+/**
+ * Import neighborhood boundary polygons from GeoJSON and reassign properties
+ *
+ * Usage:
+ *   npm run import-boundaries -- neighborhoods.geojson
+ *   npm run import-boundaries -- la.geojson --city "Los Angeles" --name-property NAME
+ *   npm run import-boundaries -- neighborhoods.geojson --dry-run
+ *   npm run import-boundaries -- --backfill-only           # reassign properties from current boundaries
+ */
+
+import { readFile } from 'fs/promises'
+import { basename } from 'path'
+import { backfillPropertyNeighborhoods, importNeighborhoodBoundaries } from '../src/lib/neighborhood-boundaries'
+import { getSupabaseAdmin } from '../src/lib/supabase-admin'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const option = (name: string) => {
+    const index = args.indexOf(name)
+    return index >= 0 ? args[index + 1] : undefined
+  }
+
+  if (args.includes('--backfill-only')) {
+    console.log(JSON.stringify(await backfillPropertyNeighborhoods(getSupabaseAdmin()), null, 2))
+    return
+  }
+
+  const filePath = args.find((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'))
+  if (!filePath) {
+    throw new Error(
+      'Usage: npm run import-boundaries -- <file.geojson> [--source <name>] [--name-property <name>] ' +
+      '[--city-property <name> | --city <city>] [--dry-run]'
+    )
+  }
+
+  const report = await importNeighborhoodBoundaries(getSupabaseAdmin(), await readFile(filePath, 'utf8'), {
+    source: option('--source') ?? basename(filePath),
+    nameProperty: option('--name-property'),
+    cityProperty: option('--city-property'),
+    city: option('--city'),
+    dryRun: args.includes('--dry-run')
+  })
+
+  console.log(JSON.stringify(report, null, 2))
+  if (report.rejected.length > 0) process.exitCode = 1
+}
+
+main().catch(error => {
+  console.error('Boundary import failed:', error)
+  process.exit(1)
+})
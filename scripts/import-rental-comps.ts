@@ -0,0 +1,40 @@
+/**
+ * Import a CSV of leased rentals into rental_comps to calibrate market rent estimates
+ *
+ * Usage:
+ *   npm run import-rental-comps -- leases.csv --source mls
+ *   npm run import-rental-comps -- leases.csv --source mls --dry-run
+ *
+ * Imported comps flag their neighborhood's properties stale; run `npm run rescore` afterwards.
+ */
+
+import { readFile } from 'fs/promises'
+import { importRentalComps } from '../src/lib/rental-comps'
+import { getSupabaseAdmin } from '../src/lib/supabase-admin'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const option = (name: string) => {
+    const index = args.indexOf(name)
+    return index >= 0 ? args[index + 1] : undefined
+  }
+
+  const filePath = args.find((arg, index) => !arg.startsWith('--') && !args[index - 1]?.startsWith('--'))
+  const source = option('--source')
+  if (!filePath || !source) {
+    throw new Error('Usage: npm run import-rental-comps -- <file.csv> --source <name> [--dry-run]')
+  }
+
+  const report = await importRentalComps(getSupabaseAdmin(), await readFile(filePath, 'utf8'), {
+    source,
+    dryRun: args.includes('--dry-run')
+  })
+
+  console.log(JSON.stringify(report, null, 2))
+  if (report.rejected.length > 0) process.exitCode = 1
+}
+
+main().catch(error => {
+  console.error('Rental comps import failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,32 @@
+/**
+ * Recompute stored deal scores with the TypeScript scorer
+ *
+ * Usage:
+ *   npm run rescore                  # stale or outdated scores only
+ *   npm run rescore -- --all         # every property
+ *   npm run rescore -- --ids a,b,c   # specific properties
+ */
+
+import { rescoreProperties } from '../src/lib/rescoring'
+import { getSupabaseAdmin } from '../src/lib/supabase-admin'
+import { loadCpiTableFromEnv } from '../src/lib/cpi-file'
+
+async function main() {
+  await loadCpiTableFromEnv() // Rent caps in stored scores use CPI_TABLE_PATH when set
+  const args = process.argv.slice(2)
+  const idsIndex = args.indexOf('--ids')
+  const propertyIds = idsIndex >= 0 ? args[idsIndex + 1]?.split(',').filter(Boolean) : undefined
+
+  const report = await rescoreProperties(getSupabaseAdmin(), {
+    propertyIds,
+    staleOnly: !args.includes('--all') && !propertyIds
+  })
+
+  console.log(JSON.stringify(report, null, 2))
+  if (report.failed.length > 0) process.exitCode = 1
+}
+
+main().catch(error => {
+  console.error('Rescoring failed:', error)
+  process.exit(1)
+})
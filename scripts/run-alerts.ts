@@ -0,0 +1,30 @@
+/**
+ * Evaluate saved searches and email alert digests
+ *
+ * Usage:
+ *   npm run alerts                 # evaluate and send digests
+ *   npm run alerts -- --no-email   # evaluate only; alerts stay queued for the next digest
+ *
+ * Sending needs RESEND_API_KEY and EMAIL_FROM; EMAIL_OUTBOX=1 logs digests instead and leaves alerts queued.
+ */
+
+import { evaluateSavedSearches, sendAlertDigests } from '../src/lib/saved-search-alerts'
+import { getEmailSender } from '../src/lib/email'
+import { getSupabaseAdmin } from '../src/lib/supabase-admin'
+
+async function main() {
+  const sendEmail = !process.argv.includes('--no-email')
+  const sender = sendEmail ? getEmailSender() : null // Fails before evaluating when email isn't configured
+
+  const client = getSupabaseAdmin()
+  const evaluation = await evaluateSavedSearches(client)
+  const digests = sender ? await sendAlertDigests(client, sender) : null
+
+  console.log(JSON.stringify({ evaluation, digests }, null, 2))
+  if (evaluation.failed.length > 0 || (digests && digests.failed.length > 0)) process.exitCode = 1
+}
+
+main().catch(error => {
+  console.error('Alert run failed:', error)
+  process.exit(1)
+})
@@ -0,0 +1,107 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { useUser } from '@/components/auth/use-user'
+import { fetchAlerts, markAlertsRead, type PropertyAlert } from '@/lib/saved-search-store'
+
+const ALERT_TYPE_LABELS: Record<PropertyAlert['alert_type'], string> = {
+  new_match: 'New Match',
+  price_drop: 'Price Drop',
+  score_threshold: 'Score Alert'
+}
+
+export default function AlertsPage() {
+  const { user, loading: userLoading } = useUser()
+  const [alerts, setAlerts] = useState<PropertyAlert[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    if (!user) return
+
+    fetchAlerts()
+      .then(setAlerts)
+      .catch(error => console.error('Error fetching alerts:', error))
+      .finally(() => setLoading(false))
+  }, [user])
+
+  const handleMarkAllRead = async () => {
+    const unreadIds = alerts.filter(alert => !alert.read_at).map(alert => alert.id)
+    try {
+      await markAlertsRead(unreadIds)
+      const readAt = new Date().toISOString()
+      setAlerts(prev => prev.map(alert => (alert.read_at ? alert : { ...alert, read_at: readAt })))
+    } catch (error) {
+      console.error('Error marking alerts read:', error)
+    }
+  }
+
+  if (userLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center space-y-4">
+        <p className="text-gray-600">Sign in to see alerts from your saved searches.</p>
+        <Link href="/sign-in?next=/alerts">
+          <Button>Sign In</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  const hasUnread = alerts.some(alert => !alert.read_at)
+
+  return (
+    <div className="container mx-auto px-4 py-8 max-w-3xl">
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Alerts</h1>
+          <p className="text-gray-600">New matches, price drops and score changes from your saved searches</p>
+        </div>
+        {hasUnread && (
+          <Button variant="outline" onClick={handleMarkAllRead}>Mark All Read</Button>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="text-center">Loading alerts...</div>
+      ) : alerts.length === 0 ? (
+        <div className="text-center py-12 space-y-4">
+          <p className="text-gray-500">No alerts yet. Save a search on the discovery page to get notified.</p>
+          <Link href="/discovery">
+            <Button variant="outline">Find Deals</Button>
+          </Link>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {alerts.map(alert => (
+            <Card key={alert.id} className={alert.read_at ? 'opacity-70' : ''}>
+              <CardContent className="flex items-start justify-between gap-4">
+                <div>
+                  <Badge variant={alert.read_at ? 'outline' : 'default'} className="mb-2">
+                    {ALERT_TYPE_LABELS[alert.alert_type]}
+                  </Badge>
+                  <p className="text-sm">
+                    <Link href={`/property/${alert.property_id}`} className="hover:underline">{alert.message}</Link>
+                  </p>
+                </div>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {new Date(alert.created_at).toLocaleDateString()}
+                </span>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
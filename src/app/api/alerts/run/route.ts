@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedJobRequest } from '@/lib/job-auth'
+import { evaluateSavedSearches, sendAlertDigests } from '@/lib/saved-search-alerts'
+import { EmailConfigurationError, getEmailSender, type EmailSender } from '@/lib/email'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+
+export const maxDuration = 300
+
+/**
+ * Scheduled alerts: evaluate saved searches, then email each user a digest
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  // Without a sender, alerts would pile up unsent; fail the run so the misconfiguration is noticed
+  let sender: EmailSender
+  try {
+    sender = getEmailSender()
+  } catch (error) {
+    if (!(error instanceof EmailConfigurationError)) throw error
+    console.error('Email is not configured for alert digests:', error.message)
+    return NextResponse.json({ error: 'Email delivery is not configured' }, { status: 500 })
+  }
+
+  try {
+    const client = getSupabaseAdmin()
+    const evaluation = await evaluateSavedSearches(client)
+    const digests = await sendAlertDigests(client, sender)
+    return NextResponse.json({ evaluation, digests })
+  } catch (error) {
+    console.error('Error running saved search alerts:', error)
+    return NextResponse.json({ error: 'Alert run failed' }, { status: 500 })
+  }
+}
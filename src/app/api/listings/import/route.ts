@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedJobRequest } from '@/lib/job-auth'
+import { importListings } from '@/lib/listing-ingestion'
+import { ListingFeedError, type ListingFeedFormat } from '@/lib/listing-feeds'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+
+export const maxDuration = 300
+
+/**
+ * Import a listing feed posted as the request body
+ * Query: source (required), format=csv|reso (default from Content-Type), dry_run=true
+ */
+export async function POST(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const { searchParams } = new URL(request.url)
+  const source = searchParams.get('source')
+  const contentType = request.headers.get('content-type') ?? ''
+  const format = searchParams.get('format') ?? (contentType.includes('json') ? 'reso' : 'csv')
+
+  if (!source) {
+    return NextResponse.json({ error: 'source is required' }, { status: 400 })
+  }
+  if (format !== 'csv' && format !== 'reso') {
+    return NextResponse.json({ error: 'format must be csv or reso' }, { status: 400 })
+  }
+
+  try {
+    const report = await importListings(getSupabaseAdmin(), await request.text(), {
+      source,
+      format: format as ListingFeedFormat,
+      dryRun: searchParams.get('dry_run') === 'true'
+    })
+    return NextResponse.json(report)
+  } catch (error) {
+    if (error instanceof ListingFeedError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    console.error('Error importing listings:', error)
+    return NextResponse.json({ error: 'Listing import failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedJobRequest } from '@/lib/job-auth'
+import { aggregateNeighborhoodStats } from '@/lib/neighborhood-stats'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+
+export const maxDuration = 300
+
+/**
+ * Scheduled aggregation: recompute neighborhood baselines, snapshot market trends and rescore moved neighborhoods
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const report = await aggregateNeighborhoodStats(getSupabaseAdmin())
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error aggregating neighborhood stats:', error)
+    return NextResponse.json({ error: 'Neighborhood aggregation failed' }, { status: 500 })
+  }
+}
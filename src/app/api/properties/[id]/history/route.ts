@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { fetchPropertyHistory, type PropertyHistory } from '@/lib/property-history'
+
+/**
+ * Price, listing status and deal score history for a property
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  let history: PropertyHistory | null
+  try {
+    history = await fetchPropertyHistory(id)
+  } catch (error) {
+    console.error('Error fetching property history:', error)
+    return NextResponse.json({ error: 'Could not load property history' }, { status: 500 })
+  }
+
+  if (!history) {
+    return NextResponse.json({ error: 'Property not found' }, { status: 404 })
+  }
+  return NextResponse.json(history)
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { fetchDealMemoInputs, renderDealMemo, toDealMemoFilename, type DealMemoInputs } from '@/lib/deal-memo'
+
+/**
+ * Deal memo PDF for a property: facts, score breakdown, recommendation, rent cap notice and a map snapshot
+ */
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  let inputs: DealMemoInputs | null
+  try {
+    inputs = await fetchDealMemoInputs(id)
+  } catch (error) {
+    console.error('Error fetching deal memo inputs:', error)
+    return NextResponse.json({ error: 'Could not load property' }, { status: 500 })
+  }
+
+  if (!inputs) {
+    return NextResponse.json({ error: 'Property not found' }, { status: 404 })
+  }
+
+  return new NextResponse(new Uint8Array(renderDealMemo(inputs)), {
+    headers: {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${toDealMemoFilename(inputs.details.property)}"`
+    }
+  })
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { parseRentRoll, RentRollError, type RentRoll } from '@/lib/rent-roll'
+import {
+  fetchRentRollProperty,
+  planRentIncreases,
+  renderRentIncreaseNotices,
+  toNoticesFilename
+} from '@/lib/rent-increase-planner'
+
+/**
+ * Plan rent increases for a rent roll CSV posted as the request body
+ * Query: format=json|pdf (pdf returns the drafted notices), served_on=YYYY-MM-DD (default today), mailed=true
+ */
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+  const { searchParams } = new URL(request.url)
+  const format = searchParams.get('format') ?? 'json'
+  const servedOnText = searchParams.get('served_on')
+  const servedOn = servedOnText ? new Date(`${servedOnText}T00:00:00Z`) : new Date()
+
+  if (format !== 'json' && format !== 'pdf') {
+    return NextResponse.json({ error: 'format must be json or pdf' }, { status: 400 })
+  }
+  if (servedOnText && (!/^\d{4}-\d{2}-\d{2}$/.test(servedOnText) || Number.isNaN(servedOn.getTime()))) {
+    return NextResponse.json({ error: 'served_on must be a YYYY-MM-DD date' }, { status: 400 })
+  }
+
+  let rentRoll: RentRoll
+  try {
+    rentRoll = parseRentRoll(await request.text())
+  } catch (error) {
+    if (error instanceof RentRollError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    throw error
+  }
+
+  try {
+    const property = await fetchRentRollProperty(id)
+    if (!property) {
+      return NextResponse.json({ error: 'Property not found' }, { status: 404 })
+    }
+
+    const plan = planRentIncreases(rentRoll, property, { servedOn, mailed: searchParams.get('mailed') === 'true' })
+    if (format === 'json') return NextResponse.json(plan)
+
+    return new NextResponse(new Uint8Array(renderRentIncreaseNotices(plan)), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${toNoticesFilename(property, plan.servedOn)}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error planning rent increases:', error)
+    return NextResponse.json({ error: 'Rent increase planning failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { fetchPropertyDetails, type PropertyDetails } from '@/lib/property-details'
+import { analyzePropertySensitivity } from '@/lib/score-sensitivity'
+import { DEFAULT_SCORING_PROFILE, getBuiltInScoringProfile } from '@/lib/scoring-profiles'
+
+/**
+ * Deal score what-ifs for a property: price scenarios, offers per deal category and neighborhood drivers
+ * `?profile=` selects a built-in scoring profile (default: balanced)
+ */
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params
+
+  const profileId = new URL(request.url).searchParams.get('profile')
+  const profile = profileId ? getBuiltInScoringProfile(profileId) : DEFAULT_SCORING_PROFILE
+  if (!profile) {
+    return NextResponse.json({ error: `Unknown scoring profile: ${profileId}` }, { status: 400 })
+  }
+
+  let details: PropertyDetails | null
+  try {
+    details = await fetchPropertyDetails(id)
+  } catch (error) {
+    console.error('Error fetching property for sensitivity analysis:', error)
+    return NextResponse.json({ error: 'Could not load property' }, { status: 500 })
+  }
+
+  if (!details) {
+    return NextResponse.json({ error: 'Property not found' }, { status: 404 })
+  }
+
+  const sensitivity = analyzePropertySensitivity(details, profile)
+  if (!sensitivity) {
+    return NextResponse.json({ error: 'Property has no neighborhood statistics to score against' }, { status: 422 })
+  }
+  return NextResponse.json(sensitivity)
+}
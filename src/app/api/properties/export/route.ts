@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server'
+import { parseSearchParams } from '@/lib/property-search'
+import {
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  fetchExportProperties,
+  toExportFilename,
+  toExportRows,
+  toExportSummaryRows,
+  type ExportFormat
+} from '@/lib/property-export'
+import { getBuiltInScoringProfile } from '@/lib/scoring-profiles'
+import { toCsv } from '@/lib/csv'
+import { buildXlsx } from '@/lib/xlsx'
+import { supabase } from '@/lib/supabase'
+
+/**
+ * Download every property matching the discovery filters as CSV or XLSX
+ * Query: format=csv|xlsx, optional profile=<built-in scoring profile id> to recompute scores with,
+ * plus the search params read by parseSearchParams
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+  const format = (url.searchParams.get('format') ?? 'csv') as ExportFormat
+  const { params, errors } = parseSearchParams(url.searchParams)
+  if (!EXPORT_FORMATS.includes(format)) errors.push(`format must be one of ${EXPORT_FORMATS.join(', ')}`)
+  const profileId = url.searchParams.get('profile')
+  const profile = profileId ? getBuiltInScoringProfile(profileId) ?? null : null
+  if (profileId && !profile) errors.push(`Unknown scoring profile: ${profileId}`)
+  if (errors.length > 0) {
+    return NextResponse.json({ error: 'Invalid export parameters', details: errors }, { status: 400 })
+  }
+
+  try {
+    const now = new Date()
+    const result = await fetchExportProperties(supabase, params, profile)
+    const rows = toExportRows(result.properties, url.origin, result.profile)
+
+    const body = format === 'xlsx'
+      ? buildXlsx([
+          { name: 'Properties', rows },
+          { name: 'Search', rows: toExportSummaryRows(params, result, now) }
+        ])
+      : '\uFEFF' + toCsv(rows) // The byte order mark makes Excel read the file as UTF-8
+
+    return new NextResponse(new Uint8Array(Buffer.from(body)), {
+      headers: {
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${toExportFilename(format, now)}"`,
+        'X-Export-Truncated': String(result.truncated)
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting properties:', error)
+    return NextResponse.json({ error: 'Export failed' }, { status: 500 })
+  }
+}
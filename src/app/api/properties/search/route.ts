@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { parseSearchParams, searchProperties } from '@/lib/property-search'
+import { supabase } from '@/lib/supabase'
+
+/**
+ * Search properties with every discovery filter applied in Postgres
+ * Query: see parseSearchParams in src/lib/property-search.ts
+ */
+export async function GET(request: Request) {
+  const { params, errors } = parseSearchParams(new URL(request.url).searchParams)
+  if (errors.length > 0) {
+    return NextResponse.json({ error: 'Invalid search parameters', details: errors }, { status: 400 })
+  }
+
+  try {
+    const result = await searchProperties(supabase, params)
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error searching properties:', error)
+    return NextResponse.json({ error: 'Search failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server'
+import { isAuthorizedJobRequest } from '@/lib/job-auth'
+import { rescoreProperties, type RescoreOptions } from '@/lib/rescoring'
+import { getSupabaseAdmin } from '@/lib/supabase-admin'
+
+export const maxDuration = 300
+
+/**
+ * Scheduled rescoring: recompute every stale or outdated stored score
+ */
+export async function GET(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const report = await rescoreProperties(getSupabaseAdmin(), { staleOnly: true })
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error rescoring properties:', error)
+    return NextResponse.json({ error: 'Rescoring failed' }, { status: 500 })
+  }
+}
+
+/**
+ * On-demand rescoring of specific properties, neighborhoods or everything
+ * Body: { propertyIds?: string[], neighborhoodIds?: string[], staleOnly?: boolean }
+ */
+export async function POST(request: Request) {
+  if (!isAuthorizedJobRequest(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  let options: RescoreOptions
+  try {
+    const body = await request.json()
+    options = {
+      propertyIds: Array.isArray(body?.propertyIds) ? body.propertyIds.map(String) : undefined,
+      neighborhoodIds: Array.isArray(body?.neighborhoodIds) ? body.neighborhoodIds.map(String) : undefined,
+      staleOnly: body?.staleOnly === true
+    }
+  } catch {
+    return NextResponse.json({ error: 'Request body must be JSON' }, { status: 400 })
+  }
+
+  try {
+    const report = await rescoreProperties(getSupabaseAdmin(), options)
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Error rescoring properties:', error)
+    return NextResponse.json({ error: 'Rescoring failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,118 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, X } from 'lucide-react'
+import { CopyLinkButton } from '@/components/property/CopyLinkButton'
+import {
+  buildComparisonSections,
+  fetchComparedProperties,
+  parseCompareIds,
+  toCompareHref
+} from '@/lib/property-comparison'
+import { formatPrice } from '@/lib/format'
+
+export const metadata: Metadata = {
+  title: 'Compare properties | CalReal Deals'
+}
+
+interface ComparePageProps {
+  searchParams: Promise<{ ids?: string | string[] }>
+}
+
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { ids } = await searchParams
+  const properties = await fetchComparedProperties(parseCompareIds(ids))
+  const selectedIds = properties.map(({ details }) => details.property.id)
+
+  if (properties.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center space-y-4">
+        <p className="text-gray-600">Select properties to compare from Discover or My Deals.</p>
+        <div className="flex justify-center gap-2">
+          <Link href="/discovery">
+            <Button variant="outline">Discover</Button>
+          </Link>
+          <Link href="/deals">
+            <Button variant="outline">My Deals</Button>
+          </Link>
+        </div>
+      </div>
+    )
+  }
+
+  const sections = buildComparisonSections(properties)
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <Link href="/discovery">
+          <Button variant="ghost">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Discovery
+          </Button>
+        </Link>
+        <CopyLinkButton />
+      </div>
+
+      <h1 className="text-3xl font-bold mb-6">Compare Properties</h1>
+
+      <Card>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left align-top">
+                <th className="font-normal w-48" />
+                {properties.map(({ details: { property } }) => (
+                  <th key={property.id} className="font-normal pb-4 pr-4">
+                    <div className="flex justify-between gap-2">
+                      <Link href={`/property/${property.id}`} className="font-semibold text-blue-600 hover:underline">
+                        {property.address}
+                      </Link>
+                      <Link
+                        href={toCompareHref(selectedIds.filter(id => id !== property.id))}
+                        aria-label={`Remove ${property.address} from comparison`}
+                        className="text-gray-400 hover:text-gray-700"
+                      >
+                        <X className="w-4 h-4" />
+                      </Link>
+                    </div>
+                    <p className="text-gray-600">{property.city}, {property.state} {property.zip_code}</p>
+                    <p className="text-gray-600">{formatPrice(property.price)}</p>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            {sections.map(section => (
+              <tbody key={section.title}>
+                <tr>
+                  <th colSpan={properties.length + 1} className="text-left font-semibold pt-4 pb-2 border-b">
+                    {section.title}
+                  </th>
+                </tr>
+                {section.rows.map(row => (
+                  <tr key={row.label} className="border-b last:border-b-0">
+                    <td className="py-2 text-gray-500">{row.label}</td>
+                    {row.cells.map((cell, index) => (
+                      <td
+                        key={selectedIds[index]}
+                        className={`py-2 pr-4 ${row.best.includes(index) ? 'font-semibold text-green-700 bg-green-50' : ''}`}
+                      >
+                        {cell}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            ))}
+          </table>
+        </CardContent>
+      </Card>
+
+      <p className="text-xs text-gray-500 mt-4">
+        Best value in each row is highlighted. Cash flow uses the calculator&apos;s default assumptions (25% down,
+        6.75% interest, estimated market rent); open a property to adjust them.
+      </p>
+    </div>
+  )
+}
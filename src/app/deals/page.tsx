@@ -0,0 +1,140 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { DealCard } from '@/components/deals/DealCard'
+import { CompareBar } from '@/components/compare/CompareBar'
+import { useCompareSelection } from '@/components/compare/use-compare-selection'
+import { useUser } from '@/components/auth/use-user'
+import {
+  DEAL_STATUSES,
+  DEAL_STATUS_LABELS,
+  DealTransitionError,
+  canTransitionDeal,
+  type DealStatus
+} from '@/lib/deal-pipeline'
+import { fetchSavedDeals, removeSavedDeal, updateDealStatus, type SavedDeal } from '@/lib/saved-deals-store'
+
+export default function DealsPage() {
+  const { user, loading: userLoading } = useUser()
+  const [deals, setDeals] = useState<SavedDeal[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [draggedDeal, setDraggedDeal] = useState<SavedDeal | null>(null)
+  const compareSelection = useCompareSelection()
+
+  useEffect(() => {
+    if (!user) return
+
+    fetchSavedDeals()
+      .then(setDeals)
+      .catch(error => console.error('Error fetching saved deals:', error))
+      .finally(() => setLoading(false))
+  }, [user])
+
+  const moveDeal = async (deal: SavedDeal, status: DealStatus, note = ''): Promise<boolean> => {
+    setError(null)
+    try {
+      const updated = await updateDealStatus(deal, status, note)
+      setDeals(prev => prev.map(d => (d.id === deal.id ? { ...d, ...updated } : d)))
+      return true
+    } catch (error) {
+      if (!(error instanceof DealTransitionError)) console.error('Error updating deal status:', error)
+      setError(error instanceof Error ? error.message : 'Could not update deal')
+      return false
+    }
+  }
+
+  const handleRemove = async (deal: SavedDeal) => {
+    try {
+      await removeSavedDeal(deal.id)
+      setDeals(prev => prev.filter(d => d.id !== deal.id))
+    } catch (error) {
+      console.error('Error removing saved deal:', error)
+    }
+  }
+
+  const handleDrop = (status: DealStatus) => {
+    if (draggedDeal && draggedDeal.status !== status) moveDeal(draggedDeal, status)
+    setDraggedDeal(null)
+  }
+
+  if (userLoading) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="text-center">Loading...</div>
+      </div>
+    )
+  }
+
+  if (!user) {
+    return (
+      <div className="container mx-auto px-4 py-16 text-center space-y-4">
+        <p className="text-gray-600">Sign in to see and track your saved deals.</p>
+        <Link href="/sign-in?next=/deals">
+          <Button>Sign In</Button>
+        </Link>
+      </div>
+    )
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <h1 className="text-3xl font-bold mb-2">My Deals</h1>
+        <p className="text-gray-600">Drag deals between stages or use the buttons on each card</p>
+      </div>
+
+      {error && (
+        <div className="mb-4 p-3 rounded bg-red-50 text-sm text-red-700">{error}</div>
+      )}
+
+      {loading ? (
+        <div className="text-center">Loading deals...</div>
+      ) : deals.length === 0 ? (
+        <div className="text-center py-12 space-y-4">
+          <p className="text-gray-500">No saved deals yet.</p>
+          <Link href="/discovery">
+            <Button variant="outline">Find Deals</Button>
+          </Link>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+          {DEAL_STATUSES.map(status => {
+            const columnDeals = deals.filter(deal => deal.status === status)
+            const isDropTarget = draggedDeal !== null && canTransitionDeal(draggedDeal.status, status)
+
+            return (
+              <div
+                key={status}
+                className={`rounded-lg p-3 min-h-48 space-y-3 ${isDropTarget ? 'bg-blue-50 ring-2 ring-blue-300' : 'bg-gray-50'}`}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={() => handleDrop(status)}
+              >
+                <h2 className="font-semibold text-sm flex justify-between">
+                  {DEAL_STATUS_LABELS[status]}
+                  <span className="text-gray-400">{columnDeals.length}</span>
+                </h2>
+                {columnDeals.map(deal => (
+                  <DealCard
+                    key={deal.id}
+                    deal={deal}
+                    onMove={moveDeal}
+                    onRemove={handleRemove}
+                    onDragStart={setDraggedDeal}
+                    compareSelected={compareSelection.isSelected(deal.property_id)}
+                    compareDisabled={compareSelection.isFull}
+                    onToggleCompare={(deal) => compareSelection.toggle(deal.property_id)}
+                  />
+                ))}
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      <CompareBar selectedIds={compareSelection.selectedIds} onClear={compareSelection.clear} />
+    </div>
+  )
+}
@@ -1,47 +1,56 @@
 'use client'
 
-import { useState, useEffect } from 'react'
-import { MapContainer, TileLayer, Marker, Popup, useMapEvents } from 'react-leaflet'
-import L from 'leaflet'
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react'
+import { useRouter } from 'next/navigation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Badge } from '@/components/ui/badge'
-import { Search, Filter, MapPin, Home, Calendar, TrendingUp, Shield } from 'lucide-react'
+import { Search, Filter, MapPin, Home, Calendar, Clock, TrendingUp, Shield, Download } from 'lucide-react'
 import { supabase } from '@/lib/supabase'
 import { Database } from '@/lib/supabase'
-import 'leaflet/dist/leaflet.css'
+import { DiscoveryMap, type AreaDrawMode, type MapViewport } from '@/components/discovery/DiscoveryMap'
+import { SearchAreaToolbar } from '@/components/discovery/SearchAreaToolbar'
+import { SavedSearchToolbar } from '@/components/discovery/SavedSearchToolbar'
+import { SaveDealButton } from '@/components/deals/SaveDealButton'
+import { CompareToggle } from '@/components/compare/CompareToggle'
+import { CompareBar } from '@/components/compare/CompareBar'
+import { useCompareSelection } from '@/components/compare/use-compare-selection'
+import { useUser } from '@/components/auth/use-user'
+import { fetchSavedPropertyIds } from '@/lib/saved-deals-store'
+import { decodeSearchArea, encodeSearchArea, type SearchArea } from '@/lib/search-areas'
+import { MAX_SEARCH_LIMIT, toSearchQueryString, type GeoBounds, type PropertySearchParams, type PropertySearchResult, type PropertySearchRow, type PropertySortField } from '@/lib/property-search'
+import { toExportHref } from '@/lib/property-export'
+import { calculateDealScore, type PropertyMetrics } from '@/lib/deal-score'
+import { BUILT_IN_SCORING_PROFILES, getBuiltInScoringProfile, type ScoringProfile } from '@/lib/scoring-profiles'
+import { fetchUserScoringProfiles } from '@/lib/scoring-profile-store'
+import { toNeighborhoodData, toPropertyMetrics } from '@/lib/scoring-inputs'
+import { rentalCompCutoffDate } from '@/lib/rent-estimate'
+import { formatPrice } from '@/lib/format'
+import { RENT_CONTROL_JURISDICTIONS, type RentRegime } from '@/lib/rent-control-jurisdictions'
+import { getDealScoreColor } from '@/lib/score-bands'
 
-// Fix for default markers in react-leaflet
-delete (L.Icon.Default.prototype as any)._getIconUrl
-L.Icon.Default.mergeOptions({
-  iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png',
-  iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png',
-  shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
-})
+type Property = PropertySearchRow
+type Neighborhood = Database['public']['Tables']['neighborhood_stats']['Row']
+type RentalCompRow = Database['public']['Tables']['rental_comps']['Row']
+type PropertyUnitRow = Database['public']['Tables']['property_units']['Row']
+type PropertyRow = Database['public']['Tables']['properties']['Row']
 
-type Property = Database['public']['Tables']['properties']['Row']
+// Sentinel profile id: rank by the stored deal_score column
+const STORED_SCORE_PROFILE = 'stored'
 
-interface MapEventsProps {
-  onLocationSelect: (lat: number, lng: number) => void
-}
-
-function MapEvents({ onLocationSelect }: MapEventsProps) {
-  useMapEvents({
-    click: (e) => {
-      onLocationSelect(e.latlng.lat, e.latlng.lng)
-    },
-  })
-  return null
-}
+const SEARCH_DEBOUNCE_MS = 300
 
 export default function DiscoveryPage() {
+  const router = useRouter()
+  const { user } = useUser()
+  const compareSelection = useCompareSelection()
   const [properties, setProperties] = useState<Property[]>([])
-  const [filteredProperties, setFilteredProperties] = useState<Property[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [viewMode, setViewMode] = useState<'map' | 'list'>('list')
-  const [selectedProperty, setSelectedProperty] = useState<Property | null>(null)
   
   // Filters
   const [searchTerm, setSearchTerm] = useState('')
@@ -49,96 +58,296 @@ export default function DiscoveryPage() {
   const [propertyType, setPropertyType] = useState<string>('all')
   const [minDealScore, setMinDealScore] = useState<string>('0')
   const [rentStabilizedOnly, setRentStabilizedOnly] = useState(false)
+  const [rentRegime, setRentRegime] = useState<string>('all')
+  const [minBeds, setMinBeds] = useState('')
+  const [minBaths, setMinBaths] = useState('')
+  const [yearBuiltRange, setYearBuiltRange] = useState({ min: '', max: '' })
+  const [sqftRange, setSqftRange] = useState({ min: '', max: '' })
+  const [radiusMiles, setRadiusMiles] = useState<string>('any')
+  const [priceReducedDays, setPriceReducedDays] = useState<string>('any')
+  const [daysOnMarketRange, setDaysOnMarketRange] = useState({ min: '', max: '' })
+  const [sortBy, setSortBy] = useState<PropertySortField>('deal_score')
+
+  // Client-side re-ranking under a scoring profile
+  const [scoringProfileId, setScoringProfileId] = useState<string>(STORED_SCORE_PROFILE)
+  const [userProfiles, setUserProfiles] = useState<ScoringProfile[]>([])
+  const [neighborhoods, setNeighborhoods] = useState<Record<string, Neighborhood>>({})
+  const [rentalComps, setRentalComps] = useState<Record<string, RentalCompRow[]>>({})
+  const [compCandidates, setCompCandidates] = useState<Record<string, PropertyMetrics[]>>({}) // Comparable sales pool per neighborhood
+  const [propertyUnits, setPropertyUnits] = useState<Record<string, PropertyUnitRow[]>>({}) // Rent rolls of multi-family properties
   
   // Map state
   const [mapCenter, setMapCenter] = useState<[number, number]>([37.7749, -122.4194]) // San Francisco
   const [mapZoom, setMapZoom] = useState(12)
+  const [mapBounds, setMapBounds] = useState<GeoBounds | null>(null)
+
+  // Drawn search area, mirrored into the `area` URL parameter so it can be shared
+  const [searchArea, setSearchArea] = useState<SearchArea | null>(null)
+  const [drawMode, setDrawMode] = useState<AreaDrawMode | null>(null)
+
+  // Property id -> saved deal id for the signed-in user
+  const [savedDealIds, setSavedDealIds] = useState<Map<string, string>>(new Map())
+
+  // Bumped by every new search; responses for an older search (or its next pages) are dropped
+  const searchRequestId = useRef(0)
 
   useEffect(() => {
-    fetchProperties()
+    const encodedArea = new URLSearchParams(window.location.search).get('area')
+    const area = encodedArea ? decodeSearchArea(encodedArea) : null
+    if (area) {
+      setSearchArea(area)
+      setViewMode('map')
+    }
+
+    fetchUserScoringProfiles()
+      .then(setUserProfiles)
+      .catch(error => console.error('Error fetching scoring profiles:', error))
   }, [])
 
   useEffect(() => {
-    applyFilters()
-  }, [properties, searchTerm, priceRange, propertyType, minDealScore, rentStabilizedOnly])
+    if (!user) {
+      setSavedDealIds(new Map())
+      return
+    }
+    fetchSavedPropertyIds()
+      .then(setSavedDealIds)
+      .catch(error => console.error('Error fetching saved deals:', error))
+  }, [user])
+
+  const handleSavedDealChange = (propertyId: string, savedDealId: string | null) => {
+    setSavedDealIds(prev => {
+      const next = new Map(prev)
+      if (savedDealId) next.set(propertyId, savedDealId)
+      else next.delete(propertyId)
+      return next
+    })
+  }
+
+  useEffect(() => {
+    if (scoringProfileId !== STORED_SCORE_PROFILE) {
+      fetchNeighborhoods()
+    }
+  }, [properties, scoringProfileId])
+
+  // Filters run server-side; refetch the first page whenever they change
+  // Only distance filters and sorting depend on the map center, so panning doesn't refetch otherwise
+  const searchCenter = useMemo(() => {
+    if (radiusMiles === 'any' && sortBy !== 'distance') return undefined
+    return { latitude: mapCenter[0], longitude: mapCenter[1] }
+  }, [radiusMiles, sortBy, mapCenter])
 
-  const fetchProperties = async () => {
+  const searchParams = useMemo((): PropertySearchParams => {
+    const toNumber = (value: string) => (value === '' ? undefined : Number(value))
+
+    return {
+      text: searchTerm || undefined,
+      minPrice: toNumber(priceRange.min),
+      maxPrice: toNumber(priceRange.max),
+      propertyTypes: propertyType === 'all' ? undefined : [propertyType as Property['property_type']],
+      minDealScore: minDealScore === '0' ? undefined : Number(minDealScore),
+      rentStabilizedOnly,
+      rentRegime: rentRegime === 'all' ? undefined : rentRegime as RentRegime,
+      minBeds: toNumber(minBeds),
+      minBaths: toNumber(minBaths),
+      minYearBuilt: toNumber(yearBuiltRange.min),
+      maxYearBuilt: toNumber(yearBuiltRange.max),
+      minSqft: toNumber(sqftRange.min),
+      maxSqft: toNumber(sqftRange.max),
+      center: searchCenter,
+      radiusMiles: radiusMiles === 'any' ? undefined : Number(radiusMiles),
+      priceReducedWithinDays: priceReducedDays === 'any' ? undefined : Number(priceReducedDays),
+      minDaysOnMarket: toNumber(daysOnMarketRange.min),
+      maxDaysOnMarket: toNumber(daysOnMarketRange.max),
+      // The map view loads whatever is inside the current viewport
+      bounds: viewMode === 'map' ? mapBounds ?? undefined : undefined,
+      area: searchArea ?? undefined,
+      sortBy,
+      limit: viewMode === 'map' ? MAX_SEARCH_LIMIT : undefined
+    }
+  }, [searchTerm, priceRange, propertyType, minDealScore, rentStabilizedOnly, rentRegime, minBeds, minBaths,
+    yearBuiltRange, sqftRange, radiusMiles, priceReducedDays, daysOnMarketRange, sortBy, searchCenter, viewMode, mapBounds, searchArea])
+
+  useEffect(() => {
+    const timeout = setTimeout(() => fetchProperties(searchParams), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timeout)
+  }, [searchParams])
+
+  const fetchSearchPage = async (params: PropertySearchParams): Promise<PropertySearchResult> => {
+    const response = await fetch(`/api/properties/search?${toSearchQueryString(params)}`)
+    if (!response.ok) {
+      const body = await response.json().catch(() => null)
+      throw new Error(body?.details?.join('; ') ?? body?.error ?? `Search failed (${response.status})`)
+    }
+    return response.json()
+  }
+
+  const fetchProperties = async (params: PropertySearchParams) => {
+    const requestId = ++searchRequestId.current
     try {
-      const { data, error } = await supabase
-        .from('properties')
-        .select('*')
-        .order('deal_score', { ascending: false })
-        .limit(100)
-
-      if (error) throw error
-      setProperties(data || [])
+      const result = await fetchSearchPage(params)
+      if (requestId !== searchRequestId.current) return
+      setProperties(result.properties)
+      setNextCursor(result.nextCursor)
     } catch (error) {
-      console.error('Error fetching properties:', error)
+      if (requestId === searchRequestId.current) console.error('Error fetching properties:', error)
     } finally {
-      setLoading(false)
+      if (requestId === searchRequestId.current) setLoading(false)
     }
   }
 
-  const applyFilters = () => {
-    let filtered = [...properties]
+  const loadMoreProperties = async () => {
+    if (!nextCursor) return
 
-    // Search term
-    if (searchTerm) {
-      filtered = filtered.filter(p => 
-        p.address.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        p.city.toLowerCase().includes(searchTerm.toLowerCase()) ||
-        p.zip_code.includes(searchTerm)
-      )
+    const requestId = searchRequestId.current
+    setLoadingMore(true)
+    try {
+      const result = await fetchSearchPage({ ...searchParams, cursor: nextCursor })
+      if (requestId !== searchRequestId.current) return
+      setProperties(prev => [...prev, ...result.properties])
+      setNextCursor(result.nextCursor)
+    } catch (error) {
+      if (requestId === searchRequestId.current) console.error('Error fetching more properties:', error)
+    } finally {
+      setLoadingMore(false)
     }
+  }
 
-    // Price range
-    if (priceRange.min) {
-      filtered = filtered.filter(p => p.price >= Number(priceRange.min))
-    }
-    if (priceRange.max) {
-      filtered = filtered.filter(p => p.price <= Number(priceRange.max))
-    }
+  const fetchNeighborhoods = async () => {
+    const missingIds = Array.from(new Set(
+      properties
+        .map(p => p.neighborhood_id)
+        .filter((id): id is string => !!id && !neighborhoods[id])
+    ))
+    // Multi-family buildings are scored by their rent roll, as the stored score is
+    const missingUnitIds = properties
+      .filter(p => p.property_type === 'multi_family' && !propertyUnits[p.id])
+      .map(p => p.id)
+    if (missingIds.length === 0 && missingUnitIds.length === 0) return
 
-    // Property type
-    if (propertyType !== 'all') {
-      filtered = filtered.filter(p => p.property_type === propertyType)
-    }
+    try {
+      // Comparable sales come from the whole neighborhood, as in the stored score and the export
+      const [neighborhoodsResult, compCandidatesResult, rentalCompsResult, unitsResult] = await Promise.all([
+        supabase.from('neighborhood_stats').select('*').in('id', missingIds),
+        supabase.from('properties').select('*').in('neighborhood_id', missingIds),
+        supabase.from('rental_comps').select('*').in('neighborhood_id', missingIds).gte('leased_on', rentalCompCutoffDate()),
+        supabase.from('property_units').select('*').in('property_id', missingUnitIds).order('unit_number')
+      ])
 
-    // Deal score
-    if (minDealScore !== '0') {
-      filtered = filtered.filter(p => (p.deal_score || 0) >= Number(minDealScore))
+      if (neighborhoodsResult.error) throw neighborhoodsResult.error
+      if (compCandidatesResult.error) throw compCandidatesResult.error
+      if (rentalCompsResult.error) throw rentalCompsResult.error
+      if (unitsResult.error) throw unitsResult.error
+      setPropertyUnits(prev => {
+        const next = { ...prev }
+        for (const id of missingUnitIds) next[id] = []
+        for (const row of (unitsResult.data || []) as PropertyUnitRow[]) next[row.property_id].push(row)
+        return next
+      })
+      setCompCandidates(prev => {
+        const next = { ...prev }
+        for (const id of missingIds) next[id] = []
+        for (const row of (compCandidatesResult.data || []) as PropertyRow[]) next[row.neighborhood_id!].push(toPropertyMetrics(row))
+        return next
+      })
+      setRentalComps(prev => {
+        const next = { ...prev }
+        for (const id of missingIds) next[id] = []
+        for (const row of (rentalCompsResult.data || []) as RentalCompRow[]) next[row.neighborhood_id!].push(row)
+        return next
+      })
+      setNeighborhoods(prev => {
+        const next = { ...prev }
+        for (const row of (neighborhoodsResult.data || []) as Neighborhood[]) next[row.id] = row
+        return next
+      })
+    } catch (error) {
+      console.error('Error fetching neighborhoods:', error)
     }
+  }
 
-    // Rent stabilized
-    if (rentStabilizedOnly) {
-      filtered = filtered.filter(p => p.is_rent_stabilized)
+  const profileScores = useMemo(() => {
+    const scores = new Map<string, number>()
+    const profile = [...BUILT_IN_SCORING_PROFILES, ...userProfiles].find(p => p.id === scoringProfileId)
+    if (!profile) return scores
+
+    for (const property of properties) {
+      const neighborhood = property.neighborhood_id ? neighborhoods[property.neighborhood_id] : undefined
+      if (!neighborhood) continue
+      // Until its rent roll loads, a multi-family building keeps its stored score
+      const units = propertyUnits[property.id]
+      if (property.property_type === 'multi_family' && !units) continue
+
+      const dealScore = calculateDealScore(
+        toPropertyMetrics(property, units),
+        toNeighborhoodData(neighborhood, rentalComps[neighborhood.id]),
+        compCandidates[neighborhood.id] ?? [],
+        profile
+      )
+      scores.set(property.id, dealScore.totalScore)
     }
+    return scores
+  }, [properties, neighborhoods, compCandidates, rentalComps, propertyUnits, userProfiles, scoringProfileId])
 
-    setFilteredProperties(filtered)
-  }
+  // Properties without neighborhood data can't be re-scored and sink to the bottom
+  const rankedProperties = useMemo(() => {
+    if (profileScores.size === 0) return properties
+    return [...properties].sort(
+      (a, b) => (profileScores.get(b.id) ?? -1) - (profileScores.get(a.id) ?? -1)
+    )
+  }, [properties, profileScores])
+
+  // The export route re-scores with built-in profiles only; it can't read a user's saved profiles
+  const exportProfileId = getBuiltInScoringProfile(scoringProfileId) ? scoringProfileId : undefined
+  const exportTitle = scoringProfileId !== STORED_SCORE_PROFILE && !exportProfileId
+    ? 'Custom profiles are not applied to exports; stored scores are exported'
+    : undefined
 
-  const handleLocationSelect = (lat: number, lng: number) => {
-    setMapCenter([lat, lng])
-    setMapZoom(14)
+  const getDisplayScore = (property: Property) => {
+    return profileScores.get(property.id) ?? property.deal_score
   }
 
-  const formatPrice = (price: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      maximumFractionDigits: 0,
-    }).format(price)
+  const handleSearchAreaChange = useCallback((area: SearchArea | null) => {
+    setSearchArea(area)
+    setDrawMode(null)
+
+    const url = new URL(window.location.href)
+    if (area) url.searchParams.set('area', encodeSearchArea(area))
+    else url.searchParams.delete('area')
+    window.history.replaceState(null, '', url)
+  }, [])
+
+  const applySavedSearch = (filters: PropertySearchParams) => {
+    const toInput = (value: number | undefined) => (value === undefined ? '' : String(value))
+
+    setSearchTerm(filters.text ?? '')
+    setPriceRange({ min: toInput(filters.minPrice), max: toInput(filters.maxPrice) })
+    setPropertyType(filters.propertyTypes?.[0] ?? 'all')
+    setMinDealScore(filters.minDealScore === undefined ? '0' : String(filters.minDealScore))
+    setRentStabilizedOnly(filters.rentStabilizedOnly ?? false)
+    setRentRegime(filters.rentRegime ?? 'all')
+    setMinBeds(toInput(filters.minBeds))
+    setMinBaths(toInput(filters.minBaths))
+    setYearBuiltRange({ min: toInput(filters.minYearBuilt), max: toInput(filters.maxYearBuilt) })
+    setSqftRange({ min: toInput(filters.minSqft), max: toInput(filters.maxSqft) })
+    setRadiusMiles(filters.radiusMiles === undefined ? 'any' : String(filters.radiusMiles))
+    setPriceReducedDays(filters.priceReducedWithinDays === undefined ? 'any' : String(filters.priceReducedWithinDays))
+    setDaysOnMarketRange({ min: toInput(filters.minDaysOnMarket), max: toInput(filters.maxDaysOnMarket) })
+    if (filters.center) setMapCenter([filters.center.latitude, filters.center.longitude])
+    handleSearchAreaChange(filters.area ?? null)
   }
 
-  const getDealScoreColor = (score: number | null) => {
-    if (!score) return 'bg-gray-500'
-    if (score >= 80) return 'bg-green-500'
-    if (score >= 60) return 'bg-yellow-500'
-    return 'bg-red-500'
+  const handleViewportChange = useCallback((viewport: MapViewport) => {
+    setMapBounds(viewport.bounds)
+    setMapCenter(viewport.center)
+    setMapZoom(viewport.zoom)
+  }, [])
+
+  const getJurisdictionName = (id: string | null) => {
+    return RENT_CONTROL_JURISDICTIONS.find(j => j.id === id)?.name ?? 'Local'
   }
 
   const PropertyCard = ({ property }: { property: Property }) => (
-    <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => setSelectedProperty(property)}>
+    <Card className="hover:shadow-lg transition-shadow cursor-pointer" onClick={() => router.push(`/property/${property.id}`)}>
       <CardHeader className="pb-3">
         <div className="flex justify-between items-start">
           <div className="flex-1">
@@ -146,15 +355,25 @@ export default function DiscoveryPage() {
             <p className="text-sm text-gray-600">{property.city}, CA {property.zip_code}</p>
           </div>
           <div className="flex flex-col items-end space-y-2">
-            <Badge className={`${getDealScoreColor(property.deal_score)} text-white`}>
-              Score: {property.deal_score?.toFixed(1) || 'N/A'}
+            <Badge className={`${getDealScoreColor(getDisplayScore(property))} text-white`}>
+              Score: {getDisplayScore(property)?.toFixed(1) || 'N/A'}
             </Badge>
             {property.is_rent_stabilized && (
               <Badge variant="secondary" className="text-xs">
                 <Shield className="w-3 h-3 mr-1" />
-                Rent Cap
+                {property.rent_regime === 'local' ? `${getJurisdictionName(property.rent_control_jurisdiction)} Rent Control` : 'Rent Cap'}
               </Badge>
             )}
+            <SaveDealButton
+              propertyId={property.id}
+              savedDealId={savedDealIds.get(property.id)}
+              onChange={(savedDealId) => handleSavedDealChange(property.id, savedDealId)}
+            />
+            <CompareToggle
+              selected={compareSelection.isSelected(property.id)}
+              disabled={compareSelection.isFull}
+              onToggle={() => compareSelection.toggle(property.id)}
+            />
           </div>
         </div>
       </CardHeader>
@@ -177,6 +396,10 @@ export default function DiscoveryPage() {
               <MapPin className="w-4 h-4 mr-1" />
               {property.sqft.toLocaleString()} sqft
             </div>
+            <div className="flex items-center">
+              <Clock className="w-4 h-4 mr-1" />
+              {property.days_on_market} days on market
+            </div>
           </div>
         </div>
         {property.rent_cap_percentage && (
@@ -265,6 +488,110 @@ export default function DiscoveryPage() {
             </Select>
           </div>
 
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+            <div className="flex gap-2">
+              <Input
+                placeholder="Min Beds"
+                type="number"
+                value={minBeds}
+                onChange={(e) => setMinBeds(e.target.value)}
+              />
+              <Input
+                placeholder="Min Baths"
+                type="number"
+                step="0.5"
+                value={minBaths}
+                onChange={(e) => setMinBaths(e.target.value)}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Built After"
+                type="number"
+                value={yearBuiltRange.min}
+                onChange={(e) => setYearBuiltRange(prev => ({ ...prev, min: e.target.value }))}
+              />
+              <Input
+                placeholder="Built Before"
+                type="number"
+                value={yearBuiltRange.max}
+                onChange={(e) => setYearBuiltRange(prev => ({ ...prev, max: e.target.value }))}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Min Sqft"
+                type="number"
+                value={sqftRange.min}
+                onChange={(e) => setSqftRange(prev => ({ ...prev, min: e.target.value }))}
+              />
+              <Input
+                placeholder="Max Sqft"
+                type="number"
+                value={sqftRange.max}
+                onChange={(e) => setSqftRange(prev => ({ ...prev, max: e.target.value }))}
+              />
+            </div>
+
+            <div className="flex gap-2">
+              <Select value={radiusMiles} onValueChange={setRadiusMiles}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Distance" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any Distance</SelectItem>
+                  <SelectItem value="1">Within 1 mi of map center</SelectItem>
+                  <SelectItem value="5">Within 5 mi of map center</SelectItem>
+                  <SelectItem value="10">Within 10 mi of map center</SelectItem>
+                  <SelectItem value="25">Within 25 mi of map center</SelectItem>
+                </SelectContent>
+              </Select>
+
+              <Select value={sortBy} onValueChange={(value) => setSortBy(value as PropertySortField)}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Sort By" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="deal_score">Best Score</SelectItem>
+                  <SelectItem value="price">Lowest Price</SelectItem>
+                  <SelectItem value="price_per_sqft">Lowest $/Sqft</SelectItem>
+                  <SelectItem value="distance">Nearest to Map Center</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mt-4">
+            <Select value={priceReducedDays} onValueChange={setPriceReducedDays}>
+              <SelectTrigger>
+                <SelectValue placeholder="Price Reduced" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any Price History</SelectItem>
+                <SelectItem value="7">Price reduced in last 7 days</SelectItem>
+                <SelectItem value="30">Price reduced in last 30 days</SelectItem>
+                <SelectItem value="90">Price reduced in last 90 days</SelectItem>
+              </SelectContent>
+            </Select>
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Min Days on Market"
+                type="number"
+                value={daysOnMarketRange.min}
+                onChange={(e) => setDaysOnMarketRange(prev => ({ ...prev, min: e.target.value }))}
+              />
+              <Input
+                placeholder="Max Days on Market"
+                type="number"
+                value={daysOnMarketRange.max}
+                onChange={(e) => setDaysOnMarketRange(prev => ({ ...prev, max: e.target.value }))}
+              />
+            </div>
+          </div>
+
           <div className="flex gap-4 mt-4">
             <Button
               variant={rentStabilizedOnly ? "default" : "outline"}
@@ -274,7 +601,33 @@ export default function DiscoveryPage() {
               <Shield className="w-4 h-4 mr-2" />
               Rent Stabilized Only
             </Button>
+
+            <Select value={rentRegime} onValueChange={setRentRegime}>
+              <SelectTrigger>
+                <SelectValue placeholder="Rent Regime" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Any Rent Regime</SelectItem>
+                <SelectItem value="local">Local Rent Control</SelectItem>
+                <SelectItem value="ab1482">AB 1482 Only</SelectItem>
+                <SelectItem value="none">Not Rent Capped</SelectItem>
+              </SelectContent>
+            </Select>
             
+            <Select value={scoringProfileId} onValueChange={setScoringProfileId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Scoring Profile" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={STORED_SCORE_PROFILE}>Default Score</SelectItem>
+                {[...BUILT_IN_SCORING_PROFILES, ...userProfiles].map(profile => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name} (v{profile.version})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
             <div className="flex gap-2 ml-auto">
               <Button
                 variant={viewMode === 'list' ? 'default' : 'outline'}
@@ -289,65 +642,100 @@ export default function DiscoveryPage() {
                 Map View
               </Button>
             </div>
+
+            {/* Exports run server-side over every match, not just the loaded pages */}
+            <div className="flex gap-2">
+              <a href={toExportHref('csv', searchParams, exportProfileId)} title={exportTitle} download>
+                <Button variant="outline">
+                  <Download className="w-4 h-4 mr-2" />
+                  CSV
+                </Button>
+              </a>
+              <a href={toExportHref('xlsx', searchParams, exportProfileId)} title={exportTitle} download>
+                <Button variant="outline">
+                  <Download className="w-4 h-4 mr-2" />
+                  XLSX
+                </Button>
+              </a>
+            </div>
           </div>
         </CardContent>
       </Card>
 
+      {/* Saved searches */}
+      {user && (
+        <div className="mb-4">
+          <SavedSearchToolbar filters={searchParams} onApply={applySavedSearch} />
+        </div>
+      )}
+
+      {/* Search area */}
+      {(viewMode === 'map' || searchArea) && (
+        <div className="mb-4">
+          <SearchAreaToolbar
+            searchArea={searchArea}
+            drawMode={drawMode}
+            onDrawModeChange={(mode) => {
+              setDrawMode(mode)
+              if (mode) setViewMode('map')
+            }}
+            onSearchAreaChange={handleSearchAreaChange}
+          />
+        </div>
+      )}
+
       {/* Results */}
       <div className="mb-4">
         <p className="text-sm text-gray-600">
-          Showing {filteredProperties.length} of {properties.length} properties
+          Showing {properties.length}{nextCursor ? '+' : ''} properties
         </p>
       </div>
 
       {viewMode === 'list' ? (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-          {filteredProperties.map((property) => (
+          {rankedProperties.map((property) => (
             <PropertyCard key={property.id} property={property} />
           ))}
         </div>
       ) : (
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
           <div className="h-[600px] rounded-lg overflow-hidden border">
-            <MapContainer center={mapCenter} zoom={mapZoom} style={{ height: '100%', width: '100%' }}>
-              <TileLayer
-                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-              />
-              <MapEvents onLocationSelect={handleLocationSelect} />
-              {filteredProperties.map((property) => (
-                <Marker
-                  key={property.id}
-                  position={[property.latitude, property.longitude]}
-                >
-                  <Popup>
-                    <div className="p-2">
-                      <h3 className="font-semibold">{property.address}</h3>
-                      <p className="text-sm">{formatPrice(property.price)}</p>
-                      <p className="text-sm">Score: {property.deal_score?.toFixed(1) || 'N/A'}</p>
-                      {property.is_rent_stabilized && (
-                        <p className="text-sm text-blue-600">✓ Rent Stabilized</p>
-                      )}
-                    </div>
-                  </Popup>
-                </Marker>
-              ))}
-            </MapContainer>
+            <DiscoveryMap
+              properties={rankedProperties}
+              searchArea={searchArea}
+              drawMode={drawMode}
+              onAreaDrawn={handleSearchAreaChange}
+              initialCenter={mapCenter}
+              initialZoom={mapZoom}
+              getDisplayScore={getDisplayScore}
+              onViewportChange={handleViewportChange}
+              onPropertySelect={(id) => router.push(`/property/${id}`)}
+            />
           </div>
           
           <div className="h-[600px] overflow-y-auto space-y-4">
-            {filteredProperties.map((property) => (
+            {rankedProperties.map((property) => (
               <PropertyCard key={property.id} property={property} />
             ))}
           </div>
         </div>
       )}
 
-      {filteredProperties.length === 0 && (
+      {nextCursor && (
+        <div className="text-center mt-6">
+          <Button variant="outline" onClick={loadMoreProperties} disabled={loadingMore}>
+            {loadingMore ? 'Loading...' : 'Load More'}
+          </Button>
+        </div>
+      )}
+
+      {properties.length === 0 && (
         <div className="text-center py-12">
           <p className="text-gray-500">No properties found matching your criteria.</p>
         </div>
       )}
+
+      <CompareBar selectedIds={compareSelection.selectedIds} onClear={compareSelection.clear} />
     </div>
   )
 }
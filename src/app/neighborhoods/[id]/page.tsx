@@ -0,0 +1,148 @@
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, TrendingUp } from 'lucide-react'
+import { TrendChart } from '@/components/neighborhoods/TrendChart'
+import { ChangeValue } from '@/components/neighborhoods/ChangeValue'
+import { MarketConditionBadge } from '@/components/neighborhoods/MarketConditionBadge'
+import { fetchNeighborhoodMarkets, TREND_METRIC_LABELS, TREND_METRICS, type TrendMetric } from '@/lib/market-trends'
+import { formatPrice } from '@/lib/format'
+
+interface NeighborhoodPageProps {
+  params: Promise<{ id: string }>
+}
+
+const PRICE_METRICS: TrendMetric[] = ['median_price', 'median_price_per_sqft']
+const RECENT_SNAPSHOT_COUNT = 12
+
+// Shared between generateMetadata and the page so the neighborhood loads once per request
+const getNeighborhoodMarket = cache(async (id: string) => (await fetchNeighborhoodMarkets([id]))[0] ?? null)
+
+export async function generateMetadata({ params }: NeighborhoodPageProps): Promise<Metadata> {
+  const { id } = await params
+  const market = await getNeighborhoodMarket(id)
+  if (!market) return { title: 'Neighborhood not found | CalReal Deals' }
+
+  return {
+    title: `${market.neighborhood.name}, ${market.neighborhood.city} market trends | CalReal Deals`,
+    description: `Median price ${formatPrice(market.neighborhood.median_price)} · ${formatPrice(market.neighborhood.median_price_per_sqft)}/sqft`
+  }
+}
+
+export default async function NeighborhoodPage({ params }: NeighborhoodPageProps) {
+  const { id } = await params
+  const market = await getNeighborhoodMarket(id)
+  if (!market) notFound()
+
+  const { neighborhood, trends, summary } = market
+  const recentTrends = trends.slice(-RECENT_SNAPSHOT_COUNT).reverse()
+  const formatMetric = (metric: TrendMetric, value: number | null | undefined) => {
+    if (value === null || value === undefined) return 'N/A'
+    return PRICE_METRICS.includes(metric) ? formatPrice(value) : value.toLocaleString()
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <Link href="/neighborhoods">
+          <Button variant="ghost">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            All Neighborhoods
+          </Button>
+        </Link>
+        <Link href={`/neighborhoods?compare=${neighborhood.id}`}>
+          <Button variant="outline">Compare</Button>
+        </Link>
+      </div>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-1">{neighborhood.name}</h1>
+        <p className="text-gray-600">{neighborhood.city}, {neighborhood.state}</p>
+        <div className="flex flex-wrap items-center gap-4 mt-4">
+          <MarketConditionBadge condition={summary.marketCondition} />
+          {summary.monthsOfInventory !== null && (
+            <span className="text-gray-600">{summary.monthsOfInventory} months of inventory</span>
+          )}
+          {summary.asOf && <span className="text-sm text-gray-500">As of {summary.asOf}</span>}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
+        {TREND_METRICS.map(metric => (
+          <Card key={metric}>
+            <CardContent className="space-y-1">
+              <p className="text-sm text-gray-500">{TREND_METRIC_LABELS[metric]}</p>
+              <p className="text-2xl font-bold">{formatMetric(metric, summary.latest?.[metric])}</p>
+              <p className="text-sm">
+                <ChangeValue change={summary.changes[metric].yoy} invert={!PRICE_METRICS.includes(metric)} /> YoY
+                {' · '}
+                <ChangeValue change={summary.changes[metric].mom} invert={!PRICE_METRICS.includes(metric)} /> MoM
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-6">
+        {TREND_METRICS.map(metric => (
+          <Card key={metric}>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <TrendingUp className="w-5 h-5 mr-2" />
+                {TREND_METRIC_LABELS[metric]}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <TrendChart
+                format={PRICE_METRICS.includes(metric) ? 'price' : 'count'}
+                series={[{
+                  label: TREND_METRIC_LABELS[metric],
+                  points: trends
+                    .filter(trend => trend[metric] !== null)
+                    .map(trend => ({ date: trend.date, value: Number(trend[metric]) }))
+                }]}
+              />
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {recentTrends.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Snapshots</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-normal">Date</th>
+                  <th className="font-normal text-right">Median</th>
+                  <th className="font-normal text-right">$/sqft</th>
+                  <th className="font-normal text-right">DOM</th>
+                  <th className="font-normal text-right">Inventory</th>
+                  <th className="font-normal text-right">Sales (30 days)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {recentTrends.map(trend => (
+                  <tr key={trend.id}>
+                    <td>{trend.date}</td>
+                    <td className="text-right">{formatMetric('median_price', trend.median_price)}</td>
+                    <td className="text-right">{formatMetric('median_price_per_sqft', trend.median_price_per_sqft)}</td>
+                    <td className="text-right">{trend.days_on_market ?? 'N/A'}</td>
+                    <td className="text-right">{trend.inventory_count ?? 'N/A'}</td>
+                    <td className="text-right">{trend.sales_count ?? 'N/A'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,184 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { TrendChart } from '@/components/neighborhoods/TrendChart'
+import { ChangeValue } from '@/components/neighborhoods/ChangeValue'
+import { MarketConditionBadge } from '@/components/neighborhoods/MarketConditionBadge'
+import { fetchNeighborhoodMarkets, fetchNeighborhoods, type NeighborhoodMarket } from '@/lib/market-trends'
+import { formatPrice } from '@/lib/format'
+
+export const metadata: Metadata = {
+  title: 'Neighborhood market trends | CalReal Deals'
+}
+
+interface NeighborhoodsPageProps {
+  searchParams: Promise<{ compare?: string | string[] }>
+}
+
+const MAX_COMPARED = 4
+
+export default async function NeighborhoodsPage({ searchParams }: NeighborhoodsPageProps) {
+  const { compare } = await searchParams
+  const compareIds = Array.from(new Set([compare ?? []].flat().flatMap(value => value.split(',')).filter(Boolean)))
+    .slice(0, MAX_COMPARED)
+
+  const [neighborhoods, compared] = await Promise.all([
+    fetchNeighborhoods(),
+    fetchNeighborhoodMarkets(compareIds)
+  ])
+
+  return (
+    <div className="container mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold mb-1">Neighborhoods</h1>
+        <p className="text-gray-600">
+          Market momentum from dated snapshots. Select up to {MAX_COMPARED} neighborhoods to compare them side by side.
+        </p>
+      </div>
+
+      {compared.length > 0 && <ComparisonCard markets={compared} />}
+
+      <Card>
+        <CardContent>
+          <form action="/neighborhoods" className="space-y-4">
+            {neighborhoods.length === 0 ? (
+              <p className="text-gray-500">No neighborhoods yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="font-normal w-8"><span className="sr-only">Compare</span></th>
+                    <th className="font-normal">Neighborhood</th>
+                    <th className="font-normal text-right">Median price</th>
+                    <th className="font-normal text-right">$/sqft</th>
+                    <th className="font-normal text-right">$/sqft YoY</th>
+                    <th className="font-normal text-right">$/sqft MoM</th>
+                    <th className="font-normal text-right">Months of inventory</th>
+                    <th className="font-normal text-right">Market</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {neighborhoods.map(neighborhood => (
+                    <tr key={neighborhood.id} className="border-t">
+                      <td className="py-2">
+                        <input
+                          type="checkbox"
+                          name="compare"
+                          value={neighborhood.id}
+                          defaultChecked={compareIds.includes(neighborhood.id)}
+                          aria-label={`Compare ${neighborhood.name}`}
+                        />
+                      </td>
+                      <td>
+                        <Link href={`/neighborhoods/${neighborhood.id}`} className="text-blue-600 hover:underline">
+                          {neighborhood.name}
+                        </Link>
+                        <span className="text-gray-500"> · {neighborhood.city}</span>
+                      </td>
+                      <td className="text-right">{formatPrice(neighborhood.median_price)}</td>
+                      <td className="text-right">{formatPrice(neighborhood.median_price_per_sqft)}</td>
+                      <td className="text-right"><ChangeValue change={neighborhood.price_momentum_yoy} /></td>
+                      <td className="text-right"><ChangeValue change={neighborhood.price_momentum_mom} /></td>
+                      <td className="text-right">{neighborhood.months_of_inventory ?? 'N/A'}</td>
+                      <td className="text-right"><MarketConditionBadge condition={neighborhood.market_condition} /></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <Button type="submit" disabled={neighborhoods.length < 2}>Compare selected</Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+function ComparisonCard({ markets }: { markets: NeighborhoodMarket[] }) {
+  const series = (metric: 'median_price' | 'median_price_per_sqft') => markets.map(({ neighborhood, trends }) => ({
+    label: neighborhood.name,
+    points: trends
+      .filter(trend => trend[metric] !== null)
+      .map(trend => ({ date: trend.date, value: Number(trend[metric]) }))
+  }))
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Comparison</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-normal" />
+              {markets.map(({ neighborhood }) => (
+                <th key={neighborhood.id} className="font-normal text-right">
+                  <Link href={`/neighborhoods/${neighborhood.id}`} className="text-blue-600 hover:underline">
+                    {neighborhood.name}
+                  </Link>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <ComparisonRow label="Median price" markets={markets} render={({ summary, neighborhood }) => (
+              <>
+                {formatPrice(summary.latest?.median_price ?? neighborhood.median_price)}{' '}
+                <ChangeValue change={summary.changes.median_price.yoy} /> YoY
+              </>
+            )} />
+            <ComparisonRow label="Median $/sqft" markets={markets} render={({ summary, neighborhood }) => (
+              <>
+                {formatPrice(summary.latest?.median_price_per_sqft ?? neighborhood.median_price_per_sqft)}{' '}
+                <ChangeValue change={summary.changes.median_price_per_sqft.yoy} /> YoY
+              </>
+            )} />
+            <ComparisonRow label="Days on market" markets={markets} render={({ summary }) => (
+              <>
+                {summary.latest?.days_on_market ?? 'N/A'}{' '}
+                <ChangeValue change={summary.changes.days_on_market.yoy} invert /> YoY
+              </>
+            )} />
+            <ComparisonRow label="Active inventory" markets={markets} render={({ summary }) => summary.latest?.inventory_count ?? 'N/A'} />
+            <ComparisonRow label="Months of inventory" markets={markets} render={({ summary }) => summary.monthsOfInventory ?? 'N/A'} />
+            <ComparisonRow label="Market" markets={markets} render={({ summary }) => (
+              <MarketConditionBadge condition={summary.marketCondition} />
+            )} />
+          </tbody>
+        </table>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div>
+            <h3 className="font-semibold mb-2">Median $/sqft</h3>
+            <TrendChart format="price" series={series('median_price_per_sqft')} />
+          </div>
+          <div>
+            <h3 className="font-semibold mb-2">Median price</h3>
+            <TrendChart format="price" series={series('median_price')} />
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function ComparisonRow({
+  label,
+  markets,
+  render
+}: {
+  label: string
+  markets: NeighborhoodMarket[]
+  render: (market: NeighborhoodMarket) => React.ReactNode
+}) {
+  return (
+    <tr className="border-t">
+      <td className="py-2 text-gray-500">{label}</td>
+      {markets.map(market => (
+        <td key={market.neighborhood.id} className="text-right">{render(market)}</td>
+      ))}
+    </tr>
+  )
+}
@@ -0,0 +1,267 @@
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import Image from 'next/image'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft, Calendar, ClipboardList, Clock, FileText, Home, MapPin, Shield, TrendingUp } from 'lucide-react'
+import { DealScoreBreakdownCard } from '@/components/property/DealScoreBreakdownCard'
+import { InvestmentRecommendationCard } from '@/components/property/InvestmentRecommendationCard'
+import { RentCapNoticeCard } from '@/components/property/RentCapNoticeCard'
+import { PropertyLocationMap } from '@/components/property/PropertyLocationMap'
+import { CopyLinkButton } from '@/components/property/CopyLinkButton'
+import { CashFlowCalculator } from '@/components/property/CashFlowCalculator'
+import { PriceHistoryCard } from '@/components/property/PriceHistoryCard'
+import { UnitMixCard } from '@/components/property/UnitMixCard'
+import { MarketRentCard } from '@/components/property/MarketRentCard'
+import { ScoreSensitivityCard } from '@/components/property/ScoreSensitivityCard'
+import { generateInvestmentRecommendation } from '@/lib/deal-score'
+import { generateRentCapNotice } from '@/lib/rent-cap-helper'
+import { resolveCpiRegion } from '@/lib/cpi'
+import { determineRentRegime } from '@/lib/rent-control-jurisdictions'
+import { analyzeUnitMix } from '@/lib/property-units'
+import { fetchPropertyDetails } from '@/lib/property-details'
+import { analyzePropertySensitivity } from '@/lib/score-sensitivity'
+import { toAb1482ExemptionFacts, toNeighborhoodData, toPropertyMetrics } from '@/lib/scoring-inputs'
+import { formatPrice } from '@/lib/format'
+import { LISTING_STATUS_LABELS } from '@/lib/property-history'
+
+interface PropertyPageProps {
+  params: Promise<{ id: string }>
+}
+
+// Shared between generateMetadata and the page so the property loads once per request
+const getPropertyDetails = cache(fetchPropertyDetails)
+
+export async function generateMetadata({ params }: PropertyPageProps): Promise<Metadata> {
+  const { id } = await params
+  const details = await getPropertyDetails(id)
+  if (!details) return { title: 'Property not found | CalReal Deals' }
+
+  const { property } = details
+  return {
+    title: `${property.address}, ${property.city} | CalReal Deals`,
+    description: `${formatPrice(property.price)} · ${property.beds} bed, ${property.baths} bath · Deal score ${property.deal_score?.toFixed(1) ?? 'N/A'}`
+  }
+}
+
+export default async function PropertyPage({ params }: PropertyPageProps) {
+  const { id } = await params
+  const details = await getPropertyDetails(id)
+  if (!details) notFound()
+
+  const { property, neighborhood, images, marketTrends, units, rentEstimate, dealScore, history } = details
+  const metrics = toPropertyMetrics(property, units)
+
+  const recommendation = dealScore && neighborhood
+    ? generateInvestmentRecommendation(dealScore, metrics, toNeighborhoodData(neighborhood))
+    : null
+  const sensitivity = dealScore ? analyzePropertySensitivity(details) : null
+  const estimatedRent = rentEstimate.estimatedRent
+  const cpiRegion = resolveCpiRegion(property.city)
+  const exemptionFacts = toAb1482ExemptionFacts(property)
+  const rentCapNotice = generateRentCapNotice(
+    estimatedRent,
+    { ...exemptionFacts, yearBuilt: property.year_built, propertyType: property.property_type },
+    { region: cpiRegion }
+  )
+  const rentRegime = determineRentRegime({
+    ...exemptionFacts,
+    city: property.city,
+    zipCode: property.zip_code,
+    yearBuilt: property.year_built,
+    propertyType: property.property_type,
+    unitCount: units.length || undefined
+  })
+  const unitMix = metrics.units
+    ? analyzeUnitMix(metrics.units, {
+        price: metrics.price,
+        yearBuilt: metrics.yearBuilt,
+        marketRent: estimatedRent,
+        rentRegime,
+        certificateOfOccupancyDate: exemptionFacts.certificateOfOccupancyDate,
+        cpiRegion: rentRegime.jurisdiction?.cpiRegion ?? cpiRegion
+      })
+    : null
+  const recentTrends = marketTrends.slice(-6).reverse()
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="flex justify-between items-center mb-6">
+        <Link href="/discovery">
+          <Button variant="ghost">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Discovery
+          </Button>
+        </Link>
+        <div className="flex gap-2">
+          <a href={`/api/properties/${property.id}/memo`} download>
+            <Button variant="outline">
+              <FileText className="w-4 h-4 mr-2" />
+              Deal Memo (PDF)
+            </Button>
+          </a>
+          <Link href={`/property/${property.id}/rent-roll`}>
+            <Button variant="outline">
+              <ClipboardList className="w-4 h-4 mr-2" />
+              Rent Increase Planner
+            </Button>
+          </Link>
+          <CopyLinkButton />
+        </div>
+      </div>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-1">{property.address}</h1>
+        <p className="text-gray-600">
+          {property.city}, {property.state} {property.zip_code}
+          {neighborhood && ` · ${neighborhood.name}`}
+        </p>
+        <div className="flex flex-wrap items-center gap-4 mt-4">
+          <span className="text-3xl font-bold text-green-600">{formatPrice(property.price)}</span>
+          <span className="text-gray-600">{formatPrice(property.price_per_sqft)}/sqft</span>
+          {property.listing_status !== 'active' && (
+            <Badge variant="outline">{LISTING_STATUS_LABELS[property.listing_status]}</Badge>
+          )}
+          {property.is_rent_stabilized && (
+            <Badge variant="secondary">
+              <Shield className="w-3 h-3 mr-1" />
+              Rent Cap {property.rent_cap_percentage ? `${property.rent_cap_percentage}%` : ''}
+            </Badge>
+          )}
+        </div>
+        <div className="flex flex-wrap gap-6 mt-3 text-sm">
+          <span className="flex items-center">
+            <Home className="w-4 h-4 mr-1" />
+            {property.beds} bed, {property.baths} bath
+          </span>
+          <span className="flex items-center">
+            <MapPin className="w-4 h-4 mr-1" />
+            {property.sqft.toLocaleString()} sqft
+          </span>
+          <span className="flex items-center">
+            <Calendar className="w-4 h-4 mr-1" />
+            Built {property.year_built}
+          </span>
+          <span className="flex items-center">
+            <Clock className="w-4 h-4 mr-1" />
+            {history.daysOnMarket} days on market
+          </span>
+          {property.listing_url && (
+            <a href={property.listing_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+              View listing{property.listing_source ? ` on ${property.listing_source}` : ''}
+            </a>
+          )}
+        </div>
+      </div>
+
+      {images.length > 0 && (
+        <div className="flex gap-4 overflow-x-auto mb-8">
+          {images.map((image) => (
+            <Image
+              key={image.id}
+              src={image.image_url}
+              alt={`${property.address} ${image.image_type.replace('_', ' ')}`}
+              width={320}
+              height={220}
+              unoptimized
+              className="rounded-lg object-cover h-[220px] w-[320px] flex-shrink-0"
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2 space-y-6">
+          {dealScore ? (
+            <DealScoreBreakdownCard dealScore={dealScore} />
+          ) : (
+            <Card>
+              <CardContent>
+                <p className="text-gray-500">
+                  {property.neighborhood_assignment === 'outside' ? (
+                    <>This property is outside every mapped neighborhood boundary, so there&apos;s no baseline to score it against.</>
+                  ) : (
+                    <>This property has no neighborhood statistics yet, so it can&apos;t be scored.</>
+                  )}
+                </p>
+              </CardContent>
+            </Card>
+          )}
+          {sensitivity && <ScoreSensitivityCard sensitivity={sensitivity} />}
+          {recommendation && <InvestmentRecommendationCard recommendation={recommendation} />}
+          {unitMix && <UnitMixCard unitMix={unitMix} />}
+          <PriceHistoryCard history={history} />
+          <MarketRentCard estimate={rentEstimate} />
+          <CashFlowCalculator
+            purchasePrice={property.price}
+            monthlyRent={estimatedRent}
+            yearBuilt={property.year_built}
+            cpiRegion={rentRegime.jurisdiction?.cpiRegion ?? cpiRegion}
+            rentRegime={rentRegime}
+          />
+          <RentCapNoticeCard notice={rentCapNotice} regime={rentRegime} />
+        </div>
+
+        <div className="space-y-6">
+          <div className="h-[300px] rounded-lg overflow-hidden border">
+            <PropertyLocationMap latitude={property.latitude} longitude={property.longitude} label={property.address} />
+          </div>
+
+          {neighborhood && (
+            <Card>
+              <CardHeader>
+                <CardTitle>
+                  <Link href={`/neighborhoods/${neighborhood.id}`} className="hover:underline">{neighborhood.name}</Link>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm space-y-1">
+                <p>Median price: {formatPrice(neighborhood.median_price)}</p>
+                <p>Median $/sqft: {formatPrice(neighborhood.median_price_per_sqft)}</p>
+                <p>Avg size: {neighborhood.avg_sqft.toLocaleString()} sqft</p>
+                <p>Avg year built: {neighborhood.avg_year_built}</p>
+                {neighborhood.walk_score && <p>Walk score: {neighborhood.walk_score}</p>}
+                {neighborhood.school_rating && <p>School rating: {neighborhood.school_rating}/10</p>}
+              </CardContent>
+            </Card>
+          )}
+
+          {recentTrends.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center">
+                  <TrendingUp className="w-5 h-5 mr-2" />
+                  Market Trends
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500">
+                      <th className="font-normal">Date</th>
+                      <th className="font-normal text-right">Median</th>
+                      <th className="font-normal text-right">$/sqft</th>
+                      <th className="font-normal text-right">DOM</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recentTrends.map((trend) => (
+                      <tr key={trend.id}>
+                        <td>{trend.date}</td>
+                        <td className="text-right">{trend.median_price ? formatPrice(trend.median_price) : 'N/A'}</td>
+                        <td className="text-right">{trend.median_price_per_sqft ? formatPrice(trend.median_price_per_sqft) : 'N/A'}</td>
+                        <td className="text-right">{trend.days_on_market ?? 'N/A'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
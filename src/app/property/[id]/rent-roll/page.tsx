@@ -0,0 +1,49 @@
+import type { Metadata } from 'next'
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { ArrowLeft } from 'lucide-react'
+import { RentIncreasePlanner } from '@/components/property/RentIncreasePlanner'
+import { fetchRentRollProperty } from '@/lib/rent-increase-planner'
+
+interface RentRollPageProps {
+  params: Promise<{ id: string }>
+}
+
+export const metadata: Metadata = {
+  title: 'Rent increase planner | CalReal Deals'
+}
+
+export default async function RentRollPage({ params }: RentRollPageProps) {
+  const { id } = await params
+  const property = await fetchRentRollProperty(id)
+  if (!property) notFound()
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-6">
+        <Link href={`/property/${property.id}`}>
+          <Button variant="ghost">
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            Back to Property
+          </Button>
+        </Link>
+      </div>
+
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold mb-1">Rent Increase Planner</h1>
+        <p className="text-gray-600">
+          {property.address}, {property.city}, {property.state} {property.zip_code}
+        </p>
+        <p className="text-sm text-gray-600 mt-3 max-w-3xl">
+          Upload a rent roll with one row per unit: <code>unit</code> and <code>current_rent</code>, plus
+          optionally <code>tenant</code>, <code>occupancy</code>, <code>lease_start</code>, <code>tenant_since</code>,{' '}
+          <code>last_increase_date</code>, <code>previous_rent</code>, <code>planned_rent</code> and{' '}
+          <code>planned_effective_date</code>. The rent roll is only used to draft the plan and notices; it isn&apos;t stored.
+        </p>
+      </div>
+
+      <RentIncreasePlanner propertyId={property.id} />
+    </div>
+  )
+}
@@ -0,0 +1,84 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Mail } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useUser } from '@/components/auth/use-user'
+
+// Only same-site paths, so the link can't be used as an open redirect
+function getNextPath(): string {
+  const next = new URLSearchParams(window.location.search).get('next')
+  return next && next.startsWith('/') && !next.startsWith('//') ? next : '/deals'
+}
+
+export default function SignInPage() {
+  const router = useRouter()
+  const { user } = useUser()
+  const [email, setEmail] = useState('')
+  const [status, setStatus] = useState<'idle' | 'sending' | 'sent'>('idle')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (user) router.replace(getNextPath())
+  }, [user, router])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setStatus('sending')
+    setError(null)
+
+    const { error } = await supabase.auth.signInWithOtp({
+      email: email.trim(),
+      options: { emailRedirectTo: `${window.location.origin}${getNextPath()}` }
+    })
+
+    if (error) {
+      console.error('Error sending sign-in link:', error)
+      setError(error.message)
+      setStatus('idle')
+      return
+    }
+    setStatus('sent')
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-16 max-w-md">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Mail className="w-5 h-5 mr-2" />
+            Sign In
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {status === 'sent' ? (
+            <p className="text-sm text-gray-700">
+              Check {email} for a sign-in link. You can close this tab once you&apos;ve opened it.
+            </p>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Sign in to save deals and track them through your pipeline. We&apos;ll email you a one-time link.
+              </p>
+              <Input
+                type="email"
+                placeholder="you@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+              />
+              <Button type="submit" className="w-full" disabled={status === 'sending'}>
+                {status === 'sending' ? 'Sending...' : 'Email Me a Sign-In Link'}
+              </Button>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,21 @@
+import Link from 'next/link'
+import { AuthButton } from '@/components/auth/AuthButton'
+
+export function SiteHeader() {
+  return (
+    <header className="border-b bg-white">
+      <div className="container mx-auto px-4 h-14 flex items-center justify-between">
+        <div className="flex items-center gap-6">
+          <Link href="/" className="font-bold text-lg">CalReal Deals</Link>
+          <nav className="flex gap-4 text-sm text-gray-600">
+            <Link href="/discovery" className="hover:text-gray-900">Discover</Link>
+            <Link href="/neighborhoods" className="hover:text-gray-900">Neighborhoods</Link>
+            <Link href="/deals" className="hover:text-gray-900">My Deals</Link>
+            <Link href="/alerts" className="hover:text-gray-900">Alerts</Link>
+          </nav>
+        </div>
+        <AuthButton />
+      </div>
+    </header>
+  )
+}
@@ -0,0 +1,39 @@
+'use client'
+
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { LogIn, LogOut } from 'lucide-react'
+import { supabase } from '@/lib/supabase'
+import { useUser } from './use-user'
+
+export function AuthButton() {
+  const { user, loading } = useUser()
+
+  if (loading) return null
+
+  if (!user) {
+    return (
+      <Link href="/sign-in">
+        <Button variant="outline" size="sm">
+          <LogIn className="w-4 h-4 mr-1" />
+          Sign In
+        </Button>
+      </Link>
+    )
+  }
+
+  const handleSignOut = async () => {
+    const { error } = await supabase.auth.signOut()
+    if (error) console.error('Error signing out:', error)
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-gray-600 hidden sm:inline">{user.email}</span>
+      <Button variant="ghost" size="sm" onClick={handleSignOut}>
+        <LogOut className="w-4 h-4 mr-1" />
+        Sign Out
+      </Button>
+    </div>
+  )
+}
@@ -0,0 +1,33 @@
+'use client'
+
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { MAX_COMPARED_PROPERTIES, toCompareHref } from '@/lib/property-comparison'
+
+interface CompareBarProps {
+  selectedIds: string[]
+  onClear: () => void
+}
+
+/**
+ * Floating bar that opens /compare for the current selection
+ */
+export function CompareBar({ selectedIds, onClear }: CompareBarProps) {
+  if (selectedIds.length === 0) return null
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-[1000] flex items-center gap-3 rounded-lg border bg-white px-4 py-2 shadow-lg">
+      <span className="text-sm text-gray-600">
+        {selectedIds.length} of {MAX_COMPARED_PROPERTIES} selected
+      </span>
+      <Button variant="ghost" size="sm" onClick={onClear}>Clear</Button>
+      {selectedIds.length >= 2 ? (
+        <Link href={toCompareHref(selectedIds)}>
+          <Button size="sm">Compare</Button>
+        </Link>
+      ) : (
+        <Button size="sm" disabled>Select 2 or more</Button>
+      )}
+    </div>
+  )
+}
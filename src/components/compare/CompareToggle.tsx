@@ -0,0 +1,33 @@
+'use client'
+
+import { Button } from '@/components/ui/button'
+import { Columns3 } from 'lucide-react'
+
+interface CompareToggleProps {
+  selected: boolean
+  disabled?: boolean // Selection is full
+  onToggle: () => void
+  className?: string
+}
+
+export function CompareToggle({ selected, disabled = false, onToggle, className }: CompareToggleProps) {
+  const handleClick = (e: React.MouseEvent) => {
+    // The toggle sits inside clickable or draggable cards
+    e.stopPropagation()
+    onToggle()
+  }
+
+  return (
+    <Button
+      variant={selected ? 'default' : 'outline'}
+      size="sm"
+      className={className}
+      onClick={handleClick}
+      disabled={disabled && !selected}
+      aria-pressed={selected}
+    >
+      <Columns3 className="w-4 h-4 mr-1" />
+      Compare
+    </Button>
+  )
+}
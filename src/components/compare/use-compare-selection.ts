@@ -0,0 +1,27 @@
+'use client'
+
+import { useState } from 'react'
+import { MAX_COMPARED_PROPERTIES } from '@/lib/property-comparison'
+
+/**
+ * Properties picked for /compare, in the order they were picked
+ * Selecting past the limit is ignored
+ */
+export function useCompareSelection() {
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+
+  const toggle = (id: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(id)) return prev.filter(selected => selected !== id)
+      return prev.length < MAX_COMPARED_PROPERTIES ? [...prev, id] : prev
+    })
+  }
+
+  return {
+    selectedIds,
+    isSelected: (id: string) => selectedIds.includes(id),
+    isFull: selectedIds.length >= MAX_COMPARED_PROPERTIES,
+    toggle,
+    clear: () => setSelectedIds([])
+  }
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { ArrowRight, History, Trash2 } from 'lucide-react'
+import { DEAL_STATUS_LABELS, DEAL_STATUS_TRANSITIONS, type DealStatus } from '@/lib/deal-pipeline'
+import { fetchDealEvents, updateDealNotes, type SavedDeal, type SavedDealEvent } from '@/lib/saved-deals-store'
+import { getDealScoreColor } from '@/lib/score-bands'
+import { formatPrice } from '@/lib/format'
+import { CompareToggle } from '@/components/compare/CompareToggle'
+
+interface DealCardProps {
+  deal: SavedDeal
+  onMove: (deal: SavedDeal, status: DealStatus, note: string) => Promise<boolean>
+  onRemove: (deal: SavedDeal) => void
+  onDragStart: (deal: SavedDeal) => void
+  compareSelected: boolean
+  compareDisabled: boolean // Comparison selection is full
+  onToggleCompare: (deal: SavedDeal) => void
+}
+
+export function DealCard({
+  deal,
+  onMove,
+  onRemove,
+  onDragStart,
+  compareSelected,
+  compareDisabled,
+  onToggleCompare
+}: DealCardProps) {
+  const [notes, setNotes] = useState(deal.notes ?? '')
+  const [transitionNote, setTransitionNote] = useState('')
+  const [events, setEvents] = useState<SavedDealEvent[] | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const property = deal.property
+
+  const saveNotes = async () => {
+    if ((deal.notes ?? '') === notes) return
+    try {
+      await updateDealNotes(deal.id, notes)
+    } catch (error) {
+      console.error('Error saving deal notes:', error)
+    }
+  }
+
+  const toggleHistory = async () => {
+    const next = !showHistory
+    setShowHistory(next)
+    if (!next) return
+
+    try {
+      setEvents(await fetchDealEvents(deal.id))
+    } catch (error) {
+      console.error('Error fetching deal history:', error)
+    }
+  }
+
+  const handleMove = async (status: DealStatus) => {
+    if (await onMove(deal, status, transitionNote)) {
+      setTransitionNote('')
+      if (showHistory) setEvents(await fetchDealEvents(deal.id).catch(() => events))
+    }
+  }
+
+  return (
+    <Card draggable onDragStart={() => onDragStart(deal)} className="cursor-grab">
+      <CardHeader className="pb-2">
+        <div className="flex justify-between items-start gap-2">
+          <CardTitle className="text-sm">
+            {property ? <Link href={`/property/${property.id}`} className="hover:underline">{property.address}</Link> : 'Property removed'}
+          </CardTitle>
+          {property && (
+            <Badge className={`${getDealScoreColor(property.deal_score)} text-white`}>
+              {property.deal_score?.toFixed(0) ?? 'N/A'}
+            </Badge>
+          )}
+        </div>
+        {property && (
+          <p className="text-xs text-gray-600">{property.city} · {formatPrice(property.price)}</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-2">
+        <textarea
+          className="w-full text-sm border rounded-md p-2 min-h-16"
+          placeholder="Notes"
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          onBlur={saveNotes}
+        />
+
+        <Input
+          className="h-8 text-xs"
+          placeholder="Note for next status change (optional)"
+          value={transitionNote}
+          onChange={(e) => setTransitionNote(e.target.value)}
+        />
+        <div className="flex flex-wrap gap-1">
+          {DEAL_STATUS_TRANSITIONS[deal.status].map(status => (
+            <Button key={status} size="sm" variant="outline" className="h-7 text-xs" onClick={() => handleMove(status)}>
+              <ArrowRight className="w-3 h-3" />
+              {DEAL_STATUS_LABELS[status]}
+            </Button>
+          ))}
+        </div>
+
+        <div className="flex justify-between">
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={toggleHistory}>
+            <History className="w-3 h-3" />
+            {showHistory ? 'Hide History' : 'History'}
+          </Button>
+          {property && (
+            <CompareToggle
+              className="h-7 text-xs"
+              selected={compareSelected}
+              disabled={compareDisabled}
+              onToggle={() => onToggleCompare(deal)}
+            />
+          )}
+          <Button size="sm" variant="ghost" className="h-7 text-xs text-red-600" onClick={() => onRemove(deal)}>
+            <Trash2 className="w-3 h-3" />
+            Remove
+          </Button>
+        </div>
+
+        {showHistory && (
+          <ol className="text-xs text-gray-600 space-y-1 border-t pt-2">
+            {events === null && <li>Loading...</li>}
+            {events?.map(event => (
+              <li key={event.id}>
+                <span className="text-gray-400">{new Date(event.created_at).toLocaleString()}</span>{' '}
+                {event.from_status
+                  ? `${DEAL_STATUS_LABELS[event.from_status]} → ${DEAL_STATUS_LABELS[event.to_status]}`
+                  : `Saved as ${DEAL_STATUS_LABELS[event.to_status]}`}
+                {event.note && <span className="block pl-2 italic">{event.note}</span>}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
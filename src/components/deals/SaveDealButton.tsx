@@ -0,0 +1,58 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { Button } from '@/components/ui/button'
+import { Bookmark, BookmarkCheck } from 'lucide-react'
+import { removeSavedDeal, saveDeal } from '@/lib/saved-deals-store'
+import { useUser } from '@/components/auth/use-user'
+
+interface SaveDealButtonProps {
+  propertyId: string
+  savedDealId?: string
+  onChange: (savedDealId: string | null) => void
+}
+
+export function SaveDealButton({ propertyId, savedDealId, onChange }: SaveDealButtonProps) {
+  const router = useRouter()
+  const { user } = useUser()
+  const [saving, setSaving] = useState(false)
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // The button sits inside a clickable property card
+    e.stopPropagation()
+
+    if (!user) {
+      router.push(`/sign-in?next=${encodeURIComponent(window.location.pathname + window.location.search)}`)
+      return
+    }
+
+    setSaving(true)
+    try {
+      if (savedDealId) {
+        await removeSavedDeal(savedDealId)
+        onChange(null)
+      } else {
+        const deal = await saveDeal(propertyId)
+        onChange(deal.id)
+      }
+    } catch (error) {
+      console.error('Error saving deal:', error)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <Button
+      variant={savedDealId ? 'default' : 'outline'}
+      size="sm"
+      onClick={handleClick}
+      disabled={saving}
+      aria-label={savedDealId ? 'Remove from saved deals' : 'Save deal'}
+    >
+      {savedDealId ? <BookmarkCheck className="w-4 h-4 mr-1" /> : <Bookmark className="w-4 h-4 mr-1" />}
+      {savedDealId ? 'Saved' : 'Save'}
+    </Button>
+  )
+}
@@ -0,0 +1,16 @@
+'use client'
+
+import dynamic from 'next/dynamic'
+import type { DiscoveryMapProps } from './LeafletDiscoveryMap'
+
+export type { AreaDrawMode, MapViewport } from './LeafletDiscoveryMap'
+
+// Leaflet touches `window` on import, so it can only load in the browser
+const LeafletDiscoveryMap = dynamic(() => import('./LeafletDiscoveryMap'), {
+  ssr: false,
+  loading: () => <div className="h-full w-full bg-gray-100 animate-pulse" />
+})
+
+export function DiscoveryMap(props: DiscoveryMapProps) {
+  return <LeafletDiscoveryMap {...props} />
+}
@@ -0,0 +1,253 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { MapContainer, TileLayer, Marker, Popup, Polygon, Polyline, Circle, useMap, useMapEvents } from 'react-leaflet'
+import L from 'leaflet'
+import type { PropertySearchRow, GeoBounds } from '@/lib/property-search'
+import { clusterMapPoints, type MapCluster } from '@/lib/map-clustering'
+import { DEAL_SCORE_BAND_HEX, getDealScoreBand } from '@/lib/score-bands'
+import { formatPrice } from '@/lib/format'
+import type { SearchArea } from '@/lib/search-areas'
+import 'leaflet/dist/leaflet.css'
+
+export interface MapViewport {
+  bounds: GeoBounds
+  center: [number, number]
+  zoom: number
+}
+
+export type AreaDrawMode = 'polygon' | 'circle'
+
+export interface DiscoveryMapProps {
+  properties: PropertySearchRow[]
+  searchArea: SearchArea | null
+  drawMode: AreaDrawMode | null
+  onAreaDrawn: (area: SearchArea) => void
+  initialCenter: [number, number]
+  initialZoom: number
+  getDisplayScore: (property: PropertySearchRow) => number | null
+  onViewportChange: (viewport: MapViewport) => void
+  onPropertySelect: (propertyId: string) => void
+}
+
+// Pins are plain HTML so no marker images are fetched from a CDN
+const iconCache = new Map<string, L.DivIcon>()
+
+function getPinIcon(score: number | null): L.DivIcon {
+  const band = getDealScoreBand(score)
+  const label = score ? score.toFixed(0) : '?'
+  const key = `pin:${band}:${label}`
+
+  let icon = iconCache.get(key)
+  if (!icon) {
+    icon = L.divIcon({
+      className: '',
+      html: `<div class="flex items-center justify-center w-8 h-8 rounded-full border-2 border-white shadow text-xs font-semibold text-white" style="background:${DEAL_SCORE_BAND_HEX[band]}">${label}</div>`,
+      iconSize: [32, 32],
+      iconAnchor: [16, 16],
+      popupAnchor: [0, -16]
+    })
+    iconCache.set(key, icon)
+  }
+  return icon
+}
+
+function getClusterIcon(count: number, bestScore: number | null): L.DivIcon {
+  const band = getDealScoreBand(bestScore)
+  const size = count < 10 ? 36 : count < 100 ? 44 : 52
+  const key = `cluster:${band}:${count}`
+
+  let icon = iconCache.get(key)
+  if (!icon) {
+    icon = L.divIcon({
+      className: '',
+      html: `<div class="flex items-center justify-center rounded-full border-4 border-white/70 shadow text-sm font-bold text-white" style="width:${size}px;height:${size}px;background:${DEAL_SCORE_BAND_HEX[band]}">${count}</div>`,
+      iconSize: [size, size],
+      iconAnchor: [size / 2, size / 2]
+    })
+    iconCache.set(key, icon)
+  }
+  return icon
+}
+
+function toViewport(map: L.Map): MapViewport {
+  const bounds = map.getBounds()
+  const center = map.getCenter()
+
+  return {
+    bounds: {
+      south: bounds.getSouth(),
+      west: Math.max(-180, bounds.getWest()),
+      north: bounds.getNorth(),
+      east: Math.min(180, bounds.getEast())
+    },
+    center: [center.lat, center.lng],
+    zoom: map.getZoom()
+  }
+}
+
+function ViewportEvents({ onViewportChange }: { onViewportChange: (viewport: MapViewport) => void }) {
+  const map = useMapEvents({
+    moveend: () => onViewportChange(toViewport(map))
+  })
+
+  // Report the initial viewport so the first load is already bounded
+  useEffect(() => {
+    onViewportChange(toViewport(map))
+  }, [map, onViewportChange])
+
+  return null
+}
+
+const AREA_STYLE = { color: '#2563eb', weight: 2, fillOpacity: 0.08 }
+const DRAFT_STYLE = { color: '#2563eb', weight: 2, dashArray: '6 6', fillOpacity: 0.04 }
+
+function AreaShape({ area, draft = false }: { area: SearchArea; draft?: boolean }) {
+  const pathOptions = draft ? DRAFT_STYLE : AREA_STYLE
+  if (area.type === 'circle') {
+    return <Circle center={area.center} radius={area.radiusMeters} pathOptions={pathOptions} />
+  }
+  return <Polygon positions={area.points} pathOptions={pathOptions} />
+}
+
+/**
+ * Polygon: click to add vertices, double-click to finish
+ * Circle: click the center, then click again at the edge
+ */
+function AreaDrawer({ mode, onAreaDrawn }: { mode: AreaDrawMode; onAreaDrawn: (area: SearchArea) => void }) {
+  const [points, setPoints] = useState<[number, number][]>([])
+  const [cursor, setCursor] = useState<[number, number] | null>(null)
+
+  const map = useMapEvents({
+    click: (e) => {
+      const point: [number, number] = [e.latlng.lat, e.latlng.lng]
+
+      if (mode === 'circle') {
+        if (points.length === 0) {
+          setPoints([point])
+        } else {
+          onAreaDrawn({ type: 'circle', center: points[0], radiusMeters: map.distance(points[0], point) })
+          setPoints([])
+        }
+        return
+      }
+
+      // The clicks that make up a double-click land on the same spot
+      const last = points[points.length - 1]
+      if (!last || last[0] !== point[0] || last[1] !== point[1]) {
+        setPoints(prev => [...prev, point])
+      }
+    },
+    dblclick: () => {
+      if (mode === 'polygon' && points.length >= 3) {
+        onAreaDrawn({ type: 'polygon', points })
+        setPoints([])
+      }
+    },
+    mousemove: (e) => setCursor([e.latlng.lat, e.latlng.lng])
+  })
+
+  useEffect(() => {
+    map.doubleClickZoom.disable()
+    map.getContainer().style.cursor = 'crosshair'
+    return () => {
+      map.doubleClickZoom.enable()
+      map.getContainer().style.cursor = ''
+    }
+  }, [map])
+
+  if (points.length === 0) return null
+
+  if (mode === 'circle') {
+    const radiusMeters = cursor ? map.distance(points[0], cursor) : 0
+    return <AreaShape area={{ type: 'circle', center: points[0], radiusMeters }} draft />
+  }
+
+  return <Polyline positions={cursor ? [...points, cursor] : points} pathOptions={DRAFT_STYLE} />
+}
+
+function ClusterMarker({ cluster, bestScore }: { cluster: MapCluster<PropertySearchRow>; bestScore: number | null }) {
+  const map = useMap()
+
+  return (
+    <Marker
+      position={[cluster.latitude, cluster.longitude]}
+      icon={getClusterIcon(cluster.items.length, bestScore)}
+      eventHandlers={{
+        click: () => {
+          const [[south, west], [north, east]] = cluster.bounds
+          if (south === north && west === east) {
+            map.setView([south, west], map.getMaxZoom())
+          } else {
+            map.fitBounds(cluster.bounds, { padding: [40, 40] })
+          }
+        }
+      }}
+    />
+  )
+}
+
+export default function LeafletDiscoveryMap({
+  properties,
+  searchArea,
+  drawMode,
+  onAreaDrawn,
+  initialCenter,
+  initialZoom,
+  getDisplayScore,
+  onViewportChange,
+  onPropertySelect
+}: DiscoveryMapProps) {
+  const [zoom, setZoom] = useState(initialZoom)
+
+  const clusters = useMemo(
+    () => clusterMapPoints(
+      properties.map(property => ({ latitude: property.latitude, longitude: property.longitude, item: property })),
+      zoom
+    ),
+    [properties, zoom]
+  )
+
+  const handleViewportChange = useCallback((viewport: MapViewport) => {
+    setZoom(viewport.zoom)
+    onViewportChange(viewport)
+  }, [onViewportChange])
+
+  return (
+    <MapContainer center={initialCenter} zoom={initialZoom} style={{ height: '100%', width: '100%' }}>
+      <TileLayer
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+      />
+      <ViewportEvents onViewportChange={handleViewportChange} />
+      {searchArea && <AreaShape area={searchArea} />}
+      {drawMode && <AreaDrawer key={drawMode} mode={drawMode} onAreaDrawn={onAreaDrawn} />}
+      {clusters.map((cluster) => {
+        if (cluster.items.length > 1) {
+          const bestScore = Math.max(...cluster.items.map(item => getDisplayScore(item) ?? 0))
+          return <ClusterMarker key={cluster.key} cluster={cluster} bestScore={bestScore || null} />
+        }
+
+        const property = cluster.items[0]
+        const score = getDisplayScore(property)
+        return (
+          <Marker key={property.id} position={[property.latitude, property.longitude]} icon={getPinIcon(score)}>
+            <Popup>
+              <div className="p-2">
+                <h3 className="font-semibold">{property.address}</h3>
+                <p className="text-sm">{formatPrice(property.price)}</p>
+                <p className="text-sm">Score: {score?.toFixed(1) || 'N/A'}</p>
+                {property.is_rent_stabilized && (
+                  <p className="text-sm text-blue-600">✓ Rent Stabilized</p>
+                )}
+                <button className="text-sm text-blue-600 underline mt-1" onClick={() => onPropertySelect(property.id)}>
+                  View details
+                </button>
+              </div>
+            </Popup>
+          </Marker>
+        )
+      })}
+    </MapContainer>
+  )
+}
@@ -0,0 +1,133 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Bell, BellOff, Save, Trash2 } from 'lucide-react'
+import type { PropertySearchParams } from '@/lib/property-search'
+import {
+  deleteSavedSearch,
+  fetchSavedSearches,
+  saveSearch,
+  setSavedSearchAlerts,
+  type SavedSearch
+} from '@/lib/saved-search-store'
+
+interface SavedSearchToolbarProps {
+  filters: PropertySearchParams
+  onApply: (filters: PropertySearchParams) => void
+}
+
+export function SavedSearchToolbar({ filters, onApply }: SavedSearchToolbarProps) {
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [searchName, setSearchName] = useState('')
+  const [scoreThreshold, setScoreThreshold] = useState('80')
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSavedSearches()
+      .then(setSavedSearches)
+      .catch(error => console.error('Error fetching saved searches:', error))
+  }, [])
+
+  const replaceSearch = (saved: SavedSearch) => {
+    setSavedSearches(prev => [...prev.filter(search => search.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)))
+  }
+
+  const handleSave = async () => {
+    try {
+      const threshold = scoreThreshold === '' ? undefined : Number(scoreThreshold)
+      replaceSearch(await saveSearch(searchName, filters, threshold))
+      setSearchName('')
+      setSaveError(null)
+    } catch (error) {
+      console.error('Error saving search:', error)
+      setSaveError(error instanceof Error ? error.message : 'Could not save search')
+    }
+  }
+
+  const handleToggleAlerts = async (search: SavedSearch) => {
+    try {
+      await setSavedSearchAlerts(search.id, !search.alerts_enabled)
+      replaceSearch({ ...search, alerts_enabled: !search.alerts_enabled })
+    } catch (error) {
+      console.error('Error updating saved search:', error)
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSavedSearch(id)
+      setSavedSearches(prev => prev.filter(search => search.id !== id))
+    } catch (error) {
+      console.error('Error deleting saved search:', error)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        {savedSearches.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(id) => {
+              const saved = savedSearches.find(search => search.id === id)
+              if (saved) onApply(saved.filters)
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Saved Searches" />
+            </SelectTrigger>
+            <SelectContent>
+              {savedSearches.map(search => (
+                <SelectItem key={search.id} value={search.id}>{search.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <Input
+          className="w-40 h-8"
+          placeholder="Search name"
+          value={searchName}
+          onChange={(e) => setSearchName(e.target.value)}
+        />
+        <Input
+          className="w-32 h-8"
+          type="number"
+          placeholder="Score alert at"
+          title="Alert when a match's deal score reaches this value"
+          value={scoreThreshold}
+          onChange={(e) => setScoreThreshold(e.target.value)}
+        />
+        <Button size="sm" variant="outline" onClick={handleSave} disabled={!searchName.trim()}>
+          <Save className="w-4 h-4 mr-1" />
+          Save Search
+        </Button>
+      </div>
+
+      {saveError && <p className="text-xs text-red-600">{saveError}</p>}
+
+      {savedSearches.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {savedSearches.map(search => (
+            <span key={search.id} className="inline-flex items-center text-xs bg-gray-100 rounded px-2 py-1">
+              {search.name}
+              <button
+                className="ml-1 text-gray-400 hover:text-blue-600"
+                onClick={() => handleToggleAlerts(search)}
+                aria-label={`${search.alerts_enabled ? 'Disable' : 'Enable'} alerts for ${search.name}`}
+              >
+                {search.alerts_enabled ? <Bell className="w-3 h-3" /> : <BellOff className="w-3 h-3" />}
+              </button>
+              <button className="ml-1 text-gray-400 hover:text-red-600" onClick={() => handleDelete(search.id)} aria-label={`Delete ${search.name}`}>
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,130 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Circle, Pentagon, Save, Trash2, X } from 'lucide-react'
+import type { AreaDrawMode } from './DiscoveryMap'
+import { describeSearchArea, type SearchArea } from '@/lib/search-areas'
+import { deleteSearchArea, fetchSavedSearchAreas, saveSearchArea, type SavedSearchArea } from '@/lib/search-area-store'
+
+interface SearchAreaToolbarProps {
+  searchArea: SearchArea | null
+  drawMode: AreaDrawMode | null
+  onDrawModeChange: (mode: AreaDrawMode | null) => void
+  onSearchAreaChange: (area: SearchArea | null) => void
+}
+
+export function SearchAreaToolbar({ searchArea, drawMode, onDrawModeChange, onSearchAreaChange }: SearchAreaToolbarProps) {
+  const [savedAreas, setSavedAreas] = useState<SavedSearchArea[]>([])
+  const [areaName, setAreaName] = useState('')
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSavedSearchAreas()
+      .then(setSavedAreas)
+      .catch(error => console.error('Error fetching search areas:', error))
+  }, [])
+
+  const handleSave = async () => {
+    if (!searchArea) return
+
+    try {
+      const saved = await saveSearchArea(areaName, searchArea)
+      setSavedAreas(prev => [...prev.filter(area => area.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)))
+      setAreaName('')
+      setSaveError(null)
+    } catch (error) {
+      console.error('Error saving search area:', error)
+      setSaveError(error instanceof Error ? error.message : 'Could not save search area')
+    }
+  }
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteSearchArea(id)
+      setSavedAreas(prev => prev.filter(area => area.id !== id))
+    } catch (error) {
+      console.error('Error deleting search area:', error)
+    }
+  }
+
+  const toggleMode = (mode: AreaDrawMode) => onDrawModeChange(drawMode === mode ? null : mode)
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button size="sm" variant={drawMode === 'polygon' ? 'default' : 'outline'} onClick={() => toggleMode('polygon')}>
+          <Pentagon className="w-4 h-4 mr-1" />
+          Draw Area
+        </Button>
+        <Button size="sm" variant={drawMode === 'circle' ? 'default' : 'outline'} onClick={() => toggleMode('circle')}>
+          <Circle className="w-4 h-4 mr-1" />
+          Draw Radius
+        </Button>
+
+        {savedAreas.length > 0 && (
+          <Select
+            value=""
+            onValueChange={(id) => {
+              const saved = savedAreas.find(area => area.id === id)
+              if (saved) onSearchAreaChange(saved.area)
+            }}
+          >
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Saved Areas" />
+            </SelectTrigger>
+            <SelectContent>
+              {savedAreas.map(area => (
+                <SelectItem key={area.id} value={area.id}>{area.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {searchArea && (
+          <>
+            <span className="text-sm text-gray-600">{describeSearchArea(searchArea)}</span>
+            <Button size="sm" variant="ghost" onClick={() => onSearchAreaChange(null)}>
+              <X className="w-4 h-4 mr-1" />
+              Clear
+            </Button>
+            <Input
+              className="w-40 h-8"
+              placeholder="Area name"
+              value={areaName}
+              onChange={(e) => setAreaName(e.target.value)}
+            />
+            <Button size="sm" variant="outline" onClick={handleSave} disabled={!areaName.trim()}>
+              <Save className="w-4 h-4 mr-1" />
+              Save
+            </Button>
+          </>
+        )}
+      </div>
+
+      {drawMode && (
+        <p className="text-xs text-gray-500">
+          {drawMode === 'polygon'
+            ? 'Click to add points, double-click to finish the area.'
+            : 'Click the center, then click again to set the radius.'}
+        </p>
+      )}
+      {saveError && <p className="text-xs text-red-600">{saveError}</p>}
+
+      {savedAreas.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {savedAreas.map(area => (
+            <span key={area.id} className="inline-flex items-center text-xs bg-gray-100 rounded px-2 py-1">
+              {area.name}
+              <button className="ml-1 text-gray-400 hover:text-red-600" onClick={() => handleDelete(area.id)} aria-label={`Delete ${area.name}`}>
+                <Trash2 className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
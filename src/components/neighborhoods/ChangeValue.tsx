@@ -0,0 +1,11 @@
+import { formatPercentChange } from '@/lib/format'
+
+/**
+ * A percent change, colored for a buyer: falling prices are green, rising prices red
+ * Pass invert for metrics where a rise favors buyers (days on market, inventory)
+ */
+export function ChangeValue({ change, invert = false }: { change: number | null; invert?: boolean }) {
+  const favorsBuyers = change !== null && change !== 0 && (change < 0) !== invert
+  const color = change === null || change === 0 ? 'text-gray-500' : favorsBuyers ? 'text-green-600' : 'text-red-600'
+  return <span className={color}>{formatPercentChange(change)}</span>
+}
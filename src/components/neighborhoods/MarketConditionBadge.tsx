@@ -0,0 +1,13 @@
+import { Badge } from '@/components/ui/badge'
+import { MARKET_CONDITION_LABELS, type MarketCondition } from '@/lib/market-trends'
+
+const CONDITION_STYLES: Record<MarketCondition, string> = {
+  buyers: 'bg-green-100 text-green-800',
+  balanced: 'bg-gray-100 text-gray-800',
+  sellers: 'bg-red-100 text-red-800'
+}
+
+export function MarketConditionBadge({ condition }: { condition: MarketCondition | null }) {
+  if (!condition) return <Badge variant="outline">Not enough data</Badge>
+  return <Badge className={CONDITION_STYLES[condition]}>{MARKET_CONDITION_LABELS[condition]}</Badge>
+}
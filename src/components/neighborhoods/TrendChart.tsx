@@ -0,0 +1,106 @@
+import { formatPrice } from '@/lib/format'
+
+export interface TrendSeries {
+  label: string
+  points: { date: string; value: number }[] // Oldest first
+}
+
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 180
+const CHART_PADDING = { top: 10, right: 10, bottom: 24, left: 70 }
+const SERIES_COLORS = [
+  { stroke: 'stroke-blue-600', fill: 'fill-blue-600', swatch: 'bg-blue-600' },
+  { stroke: 'stroke-green-600', fill: 'fill-green-600', swatch: 'bg-green-600' },
+  { stroke: 'stroke-orange-500', fill: 'fill-orange-500', swatch: 'bg-orange-500' },
+  { stroke: 'stroke-purple-600', fill: 'fill-purple-600', swatch: 'bg-purple-600' }
+]
+
+/**
+ * Line chart of one or more dated series sharing a value axis
+ */
+export function TrendChart({ series, format }: { series: TrendSeries[]; format: 'price' | 'count' }) {
+  const formatValue = (value: number) => (format === 'price' ? formatPrice(value) : Math.round(value).toLocaleString())
+  const plotted = series.filter(s => s.points.length > 0)
+  if (plotted.length === 0) {
+    return <p className="text-sm text-gray-500">No snapshots yet.</p>
+  }
+
+  const times = plotted.flatMap(s => s.points.map(point => new Date(point.date).getTime()))
+  const values = plotted.flatMap(s => s.points.map(point => point.value))
+  const startTime = Math.min(...times)
+  const endTime = Math.max(...times)
+  const minValue = Math.min(...values)
+  const maxValue = Math.max(...values)
+  // Keep a flat line off the chart edges
+  const valuePadding = (maxValue - minValue) * 0.1 || Math.abs(maxValue) * 0.05 || 1
+  const low = minValue - valuePadding
+  const high = maxValue + valuePadding
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom
+  const x = (time: number) => CHART_PADDING.left + (endTime > startTime ? ((time - startTime) / (endTime - startTime)) * plotWidth : plotWidth / 2)
+  const y = (value: number) => CHART_PADDING.top + (1 - (value - low) / (high - low)) * plotHeight
+
+  return (
+    <div className="space-y-2">
+      <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label={plotted.map(s => s.label).join(', ')}>
+        <line
+          x1={CHART_PADDING.left}
+          x2={CHART_PADDING.left}
+          y1={CHART_PADDING.top}
+          y2={CHART_HEIGHT - CHART_PADDING.bottom}
+          className="stroke-gray-200"
+        />
+        <line
+          x1={CHART_PADDING.left}
+          x2={CHART_WIDTH - CHART_PADDING.right}
+          y1={CHART_HEIGHT - CHART_PADDING.bottom}
+          y2={CHART_HEIGHT - CHART_PADDING.bottom}
+          className="stroke-gray-200"
+        />
+        <text x={CHART_PADDING.left - 6} y={y(maxValue)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-[11px]">
+          {formatValue(maxValue)}
+        </text>
+        {minValue !== maxValue && (
+          <text x={CHART_PADDING.left - 6} y={y(minValue)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-[11px]">
+            {formatValue(minValue)}
+          </text>
+        )}
+        <text x={CHART_PADDING.left} y={CHART_HEIGHT - 6} className="fill-gray-500 text-[11px]">
+          {new Date(startTime).toLocaleDateString()}
+        </text>
+        <text x={CHART_WIDTH - CHART_PADDING.right} y={CHART_HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[11px]">
+          {new Date(endTime).toLocaleDateString()}
+        </text>
+
+        {plotted.map((s, index) => {
+          const color = SERIES_COLORS[index % SERIES_COLORS.length]
+          const path = s.points
+            .map((point, pointIndex) => `${pointIndex === 0 ? 'M' : 'L'} ${x(new Date(point.date).getTime())} ${y(point.value)}`)
+            .join(' ')
+          return (
+            <g key={s.label}>
+              <path d={path} fill="none" strokeWidth={2} className={color.stroke} />
+              {s.points.length === 1 && (
+                <circle cx={x(new Date(s.points[0].date).getTime())} cy={y(s.points[0].value)} r={4} className={color.fill}>
+                  <title>{`${s.label}, ${new Date(s.points[0].date).toLocaleDateString()}: ${formatValue(s.points[0].value)}`}</title>
+                </circle>
+              )}
+            </g>
+          )
+        })}
+      </svg>
+
+      {plotted.length > 1 && (
+        <div className="flex flex-wrap gap-4 text-xs text-gray-600">
+          {plotted.map((s, index) => (
+            <span key={s.label} className="flex items-center gap-1">
+              <span className={`inline-block w-3 h-3 rounded-sm ${SERIES_COLORS[index % SERIES_COLORS.length].swatch}`} />
+              {s.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
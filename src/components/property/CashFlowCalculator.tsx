@@ -0,0 +1,146 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Calculator } from 'lucide-react'
+import { analyzeCashFlow, getDefaultCashFlowInputs, type CashFlowInputs } from '@/lib/cash-flow'
+import type { CpiRegion } from '@/lib/cpi'
+import type { RentRegimeDetermination } from '@/lib/rent-control-jurisdictions'
+import { formatPrice } from '@/lib/format'
+
+interface CashFlowCalculatorProps {
+  purchasePrice: number
+  monthlyRent: number
+  yearBuilt: number
+  cpiRegion?: CpiRegion
+  rentRegime?: RentRegimeDetermination // Governing rent cap; without it the AB 1482 cap by year built is assumed
+  monthlyHoa?: number
+}
+
+type EditableField = Exclude<keyof CashFlowInputs, 'yearBuilt' | 'cpiRegion' | 'rentCapPercentage'>
+
+const FIELDS: { key: EditableField; label: string; step: string }[] = [
+  { key: 'purchasePrice', label: 'Purchase price ($)', step: '1000' },
+  { key: 'downPaymentPercentage', label: 'Down payment (%)', step: '1' },
+  { key: 'interestRate', label: 'Interest rate (%)', step: '0.125' },
+  { key: 'loanTermYears', label: 'Loan term (years)', step: '5' },
+  { key: 'monthlyRent', label: 'Monthly rent ($)', step: '50' },
+  { key: 'vacancyRate', label: 'Vacancy (%)', step: '1' },
+  { key: 'localLevyRate', label: 'Local levies (% over 1% Prop 13)', step: '0.05' },
+  { key: 'annualInsurance', label: 'Insurance ($/yr)', step: '100' },
+  { key: 'monthlyHoa', label: 'HOA ($/mo)', step: '25' },
+  { key: 'maintenanceRate', label: 'Maintenance (% of rent)', step: '1' },
+  { key: 'propertyManagementRate', label: 'Management (% of rent)', step: '1' },
+  { key: 'marketRentGrowthRate', label: 'Market rent growth (%/yr)', step: '0.5' },
+  { key: 'appreciationRate', label: 'Appreciation (%/yr)', step: '0.5' }
+]
+
+export function CashFlowCalculator({ purchasePrice, monthlyRent, yearBuilt, cpiRegion, rentRegime, monthlyHoa = 0 }: CashFlowCalculatorProps) {
+  const [values, setValues] = useState<Record<EditableField, string>>(() => Object.fromEntries(
+    Object.entries(getDefaultCashFlowInputs({ purchasePrice, monthlyRent, yearBuilt, monthlyHoa }))
+      .filter(([key]) => key !== 'yearBuilt' && key !== 'cpiRegion' && key !== 'rentCapPercentage')
+      .map(([key, value]) => [key, String(value)])
+  ) as Record<EditableField, string>)
+
+  const rentCapPercentage = rentRegime?.maxIncreasePercentage
+  const rentCapName = rentRegime?.regime === 'local' ? rentRegime.jurisdiction!.ordinance : 'AB 1482'
+
+  const analysis = useMemo(() => {
+    const inputs = { yearBuilt, cpiRegion, rentCapPercentage } as CashFlowInputs
+    for (const [key, value] of Object.entries(values)) {
+      inputs[key as EditableField] = Number(value) || 0
+    }
+    if (inputs.purchasePrice <= 0 || inputs.loanTermYears <= 0) return null
+    return analyzeCashFlow(inputs)
+  }, [values, yearBuilt, cpiRegion, rentCapPercentage])
+
+  const formatPercent = (value: number | null) => (value === null ? 'N/A' : `${value.toFixed(2)}%`)
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Calculator className="w-5 h-5 mr-2" />
+          Cash Flow Calculator
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          {FIELDS.map((field) => (
+            <label key={field.key} className="text-xs text-gray-600 space-y-1">
+              <span>{field.label}</span>
+              <Input
+                type="number"
+                step={field.step}
+                value={values[field.key]}
+                onChange={(e) => setValues(prev => ({ ...prev, [field.key]: e.target.value }))}
+              />
+            </label>
+          ))}
+        </div>
+
+        {analysis && (
+          <>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <Metric
+                label="Monthly cash flow"
+                value={formatPrice(analysis.monthly.cashFlow)}
+                className={analysis.monthly.cashFlow >= 0 ? 'text-green-600' : 'text-red-600'}
+              />
+              <Metric label="Cap rate" value={formatPercent(analysis.capRate)} />
+              <Metric label="Cash-on-cash" value={formatPercent(analysis.cashOnCashReturn)} />
+              <Metric
+                label="DSCR"
+                value={analysis.debtServiceCoverageRatio?.toFixed(2) ?? 'N/A'}
+                className={analysis.debtServiceCoverageRatio !== null && analysis.debtServiceCoverageRatio < 1.2 ? 'text-red-600' : undefined}
+              />
+              <Metric label="5-year IRR" value={formatPercent(analysis.fiveYearIrr)} />
+              <Metric label="10-year IRR" value={formatPercent(analysis.tenYearIrr)} />
+            </div>
+
+            <table className="w-full text-sm">
+              <tbody>
+                <Row label="Gross rent" value={analysis.monthly.grossRent} />
+                <Row label="Vacancy" value={-analysis.monthly.vacancyLoss} />
+                <Row label="Property tax (Prop 13)" value={-analysis.monthly.propertyTax} />
+                <Row label="Insurance" value={-analysis.monthly.insurance} />
+                <Row label="HOA" value={-analysis.monthly.hoa} />
+                <Row label="Maintenance" value={-analysis.monthly.maintenance} />
+                <Row label="Management" value={-analysis.monthly.propertyManagement} />
+                <Row label="Net operating income" value={analysis.monthly.netOperatingIncome} bold />
+                <Row label="Mortgage (P&I)" value={-analysis.monthly.debtService} />
+                <Row label="Cash flow" value={analysis.monthly.cashFlow} bold />
+              </tbody>
+            </table>
+
+            <p className="text-xs text-gray-500">
+              Cash invested {formatPrice(analysis.cashInvested)} (down payment + closing costs).{' '}
+              {analysis.isRentCapped
+                ? `Rent growth limited to ${analysis.rentGrowthRate.toFixed(1)}%/yr by the ${rentCapName} cap.`
+                : `Rent growth ${analysis.rentGrowthRate.toFixed(1)}%/yr.`}
+            </p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function Metric({ label, value, className }: { label: string; value: string; className?: string }) {
+  return (
+    <div>
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className={`text-lg font-semibold ${className ?? ''}`}>{value}</p>
+    </div>
+  )
+}
+
+function Row({ label, value, bold = false }: { label: string; value: number; bold?: boolean }) {
+  return (
+    <tr className={bold ? 'font-semibold border-t' : undefined}>
+      <td>{label}</td>
+      <td className="text-right">{formatPrice(value)}</td>
+    </tr>
+  )
+}
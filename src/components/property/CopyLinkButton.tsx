@@ -0,0 +1,26 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Check, Link as LinkIcon } from 'lucide-react'
+
+export function CopyLinkButton() {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch (error) {
+      console.error('Error copying link:', error)
+    }
+  }
+
+  return (
+    <Button variant="outline" onClick={handleCopy}>
+      {copied ? <Check className="w-4 h-4 mr-2" /> : <LinkIcon className="w-4 h-4 mr-2" />}
+      {copied ? 'Link Copied' : 'Copy Link'}
+    </Button>
+  )
+}
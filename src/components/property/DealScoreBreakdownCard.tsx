@@ -0,0 +1,132 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { getDealScoreCategory, type DealScoreBreakdown } from '@/lib/deal-score'
+import type { RentStabilizationValue } from '@/lib/rent-stabilization'
+import { formatPrice } from '@/lib/format'
+
+// Tailwind needs literal class names, so map category colors explicitly
+const CATEGORY_BADGE_CLASSES: Record<string, string> = {
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  yellow: 'bg-yellow-500',
+  orange: 'bg-orange-500',
+  red: 'bg-red-500'
+}
+
+export function DealScoreBreakdownCard({ dealScore }: { dealScore: DealScoreBreakdown }) {
+  const category = getDealScoreCategory(dealScore.totalScore)
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <CardTitle className="text-xl">Deal Score</CardTitle>
+          <div className="flex items-center gap-2">
+            <span className="text-3xl font-bold">{dealScore.totalScore.toFixed(1)}</span>
+            <Badge className={`${CATEGORY_BADGE_CLASSES[category.color]} text-white`}>
+              {category.category}
+            </Badge>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600">{category.description}</p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {dealScore.breakdown.map((item) => (
+          <div key={item.component}>
+            <div className="flex justify-between text-sm font-medium">
+              <span>{item.component}</span>
+              <span>
+                {item.score.toFixed(1)} / {item.maxScore}
+              </span>
+            </div>
+            <div className="h-2 bg-gray-100 rounded mt-1">
+              <div
+                className="h-2 bg-blue-500 rounded"
+                style={{ width: `${item.maxScore > 0 ? (item.score / item.maxScore) * 100 : 0}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-600 mt-1">{item.explanation}</p>
+
+            {item.comps && item.comps.length > 0 && (
+              <table className="w-full text-xs mt-2">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="font-normal">Comp</th>
+                    <th className="font-normal text-right">Distance</th>
+                    <th className="font-normal text-right">Price</th>
+                    <th className="font-normal text-right">Adjusted</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {item.comps.map((comp, index) => (
+                    <tr key={comp.property.id ?? index}>
+                      <td>
+                        {comp.property.address ?? `Comp ${index + 1}`} ({comp.property.beds}bd/{comp.property.baths}ba,{' '}
+                        {comp.property.sqft.toLocaleString()} sqft)
+                      </td>
+                      <td className="text-right">{comp.distanceMiles.toFixed(2)} mi</td>
+                      <td className="text-right">{formatPrice(comp.property.price)}</td>
+                      <td className="text-right">{formatPrice(comp.adjustedPrice)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {item.rentStabilization && <RentStabilizationAssumptions value={item.rentStabilization} />}
+          </div>
+        ))}
+        <p className="text-xs text-gray-400">
+          Scoring algorithm v{dealScore.algorithmVersion}, profile {dealScore.profileId} v{dealScore.profileVersion}
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
+
+function RentStabilizationAssumptions({ value }: { value: RentStabilizationValue }) {
+  const { assumptions } = value
+
+  return (
+    <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-xs mt-2">
+      <div>
+        <p className="text-gray-500">Scenario</p>
+        <p>
+          {assumptions.scenario === 'tenant_in_place'
+            ? `Tenant in place at ${formatPrice(assumptions.currentRent)}/mo`
+            : 'Vacant, leased at market'}
+        </p>
+      </div>
+      <div>
+        <p className="text-gray-500">Market rent</p>
+        <p>
+          {formatPrice(assumptions.marketRent)}/mo, +{assumptions.marketRentGrowthRate.toFixed(1)}%/yr
+        </p>
+      </div>
+      <div>
+        <p className="text-gray-500">Rent cap</p>
+        <p>{assumptions.capPercentage === null ? 'Uncapped' : `${assumptions.capPercentage.toFixed(1)}%/yr`}</p>
+      </div>
+      <div>
+        <p className="text-gray-500">Hold, discount, turnover</p>
+        <p>
+          {assumptions.holdingPeriodYears} yrs, {assumptions.discountRate.toFixed(1)}%, {assumptions.annualTurnoverRate.toFixed(0)}%/yr
+        </p>
+      </div>
+      <div>
+        <p className="text-gray-500">Market path NPV</p>
+        <p>{formatPrice(value.marketPathNpv)}</p>
+      </div>
+      <div>
+        <p className="text-gray-500">Capped path NPV</p>
+        <p>{formatPrice(value.cappedPathNpv)}</p>
+      </div>
+      <div>
+        <p className="text-gray-500">Cost of the cap</p>
+        <p>
+          {formatPrice(Math.max(0, -value.npvDifference))} ({value.costPercentage.toFixed(1)}%)
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,52 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { AlertTriangle, Lightbulb, Target } from 'lucide-react'
+import type { generateInvestmentRecommendation } from '@/lib/deal-score'
+
+type InvestmentRecommendation = ReturnType<typeof generateInvestmentRecommendation>
+
+export function InvestmentRecommendationCard({ recommendation }: { recommendation: InvestmentRecommendation }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Target className="w-5 h-5 mr-2" />
+          Investment Recommendation
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <p className="font-semibold">{recommendation.recommendation}</p>
+          <p className="text-sm text-gray-600 mt-1">{recommendation.reasoning}</p>
+        </div>
+
+        <div>
+          <h3 className="flex items-center text-sm font-semibold text-red-700">
+            <AlertTriangle className="w-4 h-4 mr-1" />
+            Risks
+          </h3>
+          {recommendation.risks.length > 0 ? (
+            <ul className="list-disc list-inside text-sm mt-1">
+              {recommendation.risks.map((risk) => <li key={risk}>{risk}</li>)}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500 mt-1">No significant risks identified</p>
+          )}
+        </div>
+
+        <div>
+          <h3 className="flex items-center text-sm font-semibold text-green-700">
+            <Lightbulb className="w-4 h-4 mr-1" />
+            Opportunities
+          </h3>
+          {recommendation.opportunities.length > 0 ? (
+            <ul className="list-disc list-inside text-sm mt-1">
+              {recommendation.opportunities.map((opportunity) => <li key={opportunity}>{opportunity}</li>)}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500 mt-1">No standout opportunities identified</p>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,24 @@
+'use client'
+
+import { MapContainer, TileLayer, CircleMarker, Tooltip } from 'react-leaflet'
+import 'leaflet/dist/leaflet.css'
+
+interface LeafletLocationMapProps {
+  latitude: number
+  longitude: number
+  label: string
+}
+
+export default function LeafletLocationMap({ latitude, longitude, label }: LeafletLocationMapProps) {
+  return (
+    <MapContainer center={[latitude, longitude]} zoom={15} style={{ height: '100%', width: '100%' }}>
+      <TileLayer
+        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+      />
+      <CircleMarker center={[latitude, longitude]} radius={10} pathOptions={{ color: '#2563eb', fillOpacity: 0.6 }}>
+        <Tooltip>{label}</Tooltip>
+      </CircleMarker>
+    </MapContainer>
+  )
+}
@@ -0,0 +1,84 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { KeyRound } from 'lucide-react'
+import { RENT_ESTIMATE_METHOD_LABELS, type RentEstimate } from '@/lib/rent-estimate'
+import { formatPrice } from '@/lib/format'
+
+export function MarketRentCard({ estimate }: { estimate: RentEstimate }) {
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <CardTitle className="flex items-center">
+            <KeyRound className="w-5 h-5 mr-2" />
+            Market Rent
+          </CardTitle>
+          <Badge variant="secondary">{estimate.confidence} confidence</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Estimated rent</p>
+            <p className="font-semibold">{formatPrice(estimate.estimatedRent)}/mo</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Range</p>
+            <p className="font-semibold">
+              {formatPrice(estimate.lowRent)} - {formatPrice(estimate.highRent)}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">Based on</p>
+            <p className="font-semibold">{RENT_ESTIMATE_METHOD_LABELS[estimate.method]}</p>
+          </div>
+        </div>
+
+        {estimate.method === 'rental_yield' && (
+          <p className="text-sm text-gray-600">
+            This neighborhood doesn&apos;t have enough recent rental comps to calibrate a rent model, so rent is
+            estimated from its gross rental yield.
+          </p>
+        )}
+        {estimate.model && estimate.method === 'model' && (
+          <p className="text-sm text-gray-600">
+            Too few close comparable leases; rent is predicted by a model calibrated on {estimate.model.compCount} recent
+            leases in the neighborhood.
+          </p>
+        )}
+
+        {estimate.comps.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-normal">Comp</th>
+                <th className="font-normal">Layout</th>
+                <th className="font-normal">Leased</th>
+                <th className="font-normal text-right">Rent</th>
+                <th className="font-normal text-right">Adjusted</th>
+                <th className="font-normal text-right">Distance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {estimate.comps.map((match, index) => (
+                <tr key={match.comp.id ?? index}>
+                  <td>
+                    {match.comp.address ?? 'N/A'}
+                    {match.comp.unitNumber && ` #${match.comp.unitNumber}`}
+                  </td>
+                  <td>
+                    {match.comp.beds}bd/{match.comp.baths}ba, {match.comp.sqft.toLocaleString()} sqft
+                  </td>
+                  <td>{match.comp.leasedOn}</td>
+                  <td className="text-right">{formatPrice(match.comp.monthlyRent)}</td>
+                  <td className="text-right">{formatPrice(match.adjustedRent)}</td>
+                  <td className="text-right">{match.distanceMiles.toFixed(2)} mi</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
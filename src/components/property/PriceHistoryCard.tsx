@@ -0,0 +1,165 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { History } from 'lucide-react'
+import { LISTING_STATUS_LABELS, type PropertyEvent, type PropertyHistory } from '@/lib/property-history'
+import { formatPrice } from '@/lib/format'
+
+const CHART_WIDTH = 600
+const CHART_HEIGHT = 180
+const CHART_PADDING = { top: 10, right: 10, bottom: 24, left: 70 }
+const RECENT_EVENT_COUNT = 8
+
+export function PriceHistoryCard({ history }: { history: PropertyHistory }) {
+  const priceChange = history.priceChangePercentage
+  const recentEvents = history.events.slice(-RECENT_EVENT_COUNT).reverse()
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <CardTitle className="flex items-center">
+            <History className="w-5 h-5 mr-2" />
+            Price History
+          </CardTitle>
+          <Badge variant={history.listingStatus === 'active' ? 'default' : 'secondary'}>
+            {LISTING_STATUS_LABELS[history.listingStatus]}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Days on market</p>
+            <p className="font-semibold">{history.daysOnMarket}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Original price</p>
+            <p className="font-semibold">{formatPrice(history.originalPrice)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Change</p>
+            <p className={`font-semibold ${priceChange < 0 ? 'text-green-600' : priceChange > 0 ? 'text-red-600' : ''}`}>
+              {priceChange > 0 ? '+' : ''}{priceChange.toFixed(1)}%
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">Price reductions</p>
+            <p className="font-semibold">{history.priceReductions}</p>
+          </div>
+        </div>
+
+        <PriceChart history={history} />
+
+        {recentEvents.length > 0 && (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-normal">Date</th>
+                <th className="font-normal">Event</th>
+                <th className="font-normal text-right">Price</th>
+                <th className="font-normal text-right">Score</th>
+              </tr>
+            </thead>
+            <tbody>
+              {recentEvents.map(event => (
+                <tr key={event.id}>
+                  <td>{new Date(event.created_at).toLocaleDateString()}</td>
+                  <td>{describeEvent(event)}</td>
+                  <td className="text-right">{formatPrice(event.price)}</td>
+                  <td className="text-right">{event.deal_score?.toFixed(1) ?? 'N/A'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+/**
+ * Step chart of list price over time, extended to today (or the off-market date)
+ */
+function PriceChart({ history }: { history: PropertyHistory }) {
+  const points = history.pricePoints.map(point => ({ time: new Date(point.date).getTime(), price: point.price }))
+  const endTime = new Date(history.offMarketAt ?? history.asOf).getTime()
+
+  const startTime = points[0].time
+  const prices = points.map(point => point.price)
+  const minPrice = Math.min(...prices)
+  const maxPrice = Math.max(...prices)
+  // Keep a flat line off the chart edges
+  const pricePadding = (maxPrice - minPrice) * 0.1 || maxPrice * 0.05
+  const low = minPrice - pricePadding
+  const high = maxPrice + pricePadding
+
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom
+  const x = (time: number) => CHART_PADDING.left + (endTime > startTime ? ((time - startTime) / (endTime - startTime)) * plotWidth : 0)
+  const y = (price: number) => CHART_PADDING.top + (1 - (price - low) / (high - low)) * plotHeight
+
+  const path = points
+    .map((point, index) => {
+      const previous = points[index - 1]
+      return previous
+        ? `H ${x(point.time)} V ${y(point.price)}`
+        : `M ${x(point.time)} ${y(point.price)}`
+    })
+    .join(' ') + ` H ${x(Math.max(endTime, startTime))}`
+
+  return (
+    <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto" role="img" aria-label="List price over time">
+      <line
+        x1={CHART_PADDING.left}
+        x2={CHART_PADDING.left}
+        y1={CHART_PADDING.top}
+        y2={CHART_HEIGHT - CHART_PADDING.bottom}
+        className="stroke-gray-200"
+      />
+      <line
+        x1={CHART_PADDING.left}
+        x2={CHART_WIDTH - CHART_PADDING.right}
+        y1={CHART_HEIGHT - CHART_PADDING.bottom}
+        y2={CHART_HEIGHT - CHART_PADDING.bottom}
+        className="stroke-gray-200"
+      />
+      <text x={CHART_PADDING.left - 6} y={y(maxPrice)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-[11px]">
+        {formatPrice(maxPrice)}
+      </text>
+      {minPrice !== maxPrice && (
+        <text x={CHART_PADDING.left - 6} y={y(minPrice)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-[11px]">
+          {formatPrice(minPrice)}
+        </text>
+      )}
+      <text x={CHART_PADDING.left} y={CHART_HEIGHT - 6} className="fill-gray-500 text-[11px]">
+        {new Date(startTime).toLocaleDateString()}
+      </text>
+      <text x={CHART_WIDTH - CHART_PADDING.right} y={CHART_HEIGHT - 6} textAnchor="end" className="fill-gray-500 text-[11px]">
+        {new Date(endTime).toLocaleDateString()}
+      </text>
+
+      <path d={path} fill="none" strokeWidth={2} className="stroke-blue-600" />
+      {points.map((point, index) => (
+        <circle key={index} cx={x(point.time)} cy={y(point.price)} r={4} className="fill-blue-600">
+          <title>{`${new Date(point.time).toLocaleDateString()}: ${formatPrice(point.price)}`}</title>
+        </circle>
+      ))}
+    </svg>
+  )
+}
+
+function describeEvent(event: PropertyEvent): string {
+  switch (event.event_type) {
+    case 'listed':
+      return 'Listed'
+    case 'price_change': {
+      const previous = Number(event.previous_price)
+      const change = previous > 0 ? ((Number(event.price) - previous) / previous) * 100 : 0
+      return `Price ${change < 0 ? 'reduced' : 'increased'} ${Math.abs(change).toFixed(1)}%`
+    }
+    case 'status_change':
+      return `${event.previous_listing_status ? LISTING_STATUS_LABELS[event.previous_listing_status] : 'Unknown'} → ${LISTING_STATUS_LABELS[event.listing_status]}`
+    case 'score_change':
+      return `Score ${event.previous_deal_score?.toFixed(1) ?? 'N/A'} → ${event.deal_score?.toFixed(1) ?? 'N/A'}`
+  }
+}
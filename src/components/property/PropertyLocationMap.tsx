@@ -0,0 +1,19 @@
+'use client'
+
+import dynamic from 'next/dynamic'
+
+// Leaflet touches `window` on import, so it can only load in the browser
+const LeafletLocationMap = dynamic(() => import('./LeafletLocationMap'), {
+  ssr: false,
+  loading: () => <div className="h-full w-full bg-gray-100 animate-pulse" />
+})
+
+interface PropertyLocationMapProps {
+  latitude: number
+  longitude: number
+  label: string
+}
+
+export function PropertyLocationMap(props: PropertyLocationMapProps) {
+  return <LeafletLocationMap {...props} />
+}
@@ -0,0 +1,56 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Shield } from 'lucide-react'
+import type { generateRentCapNotice } from '@/lib/rent-cap-helper'
+import type { RentRegimeDetermination } from '@/lib/rent-control-jurisdictions'
+
+type RentCapNotice = ReturnType<typeof generateRentCapNotice>
+
+interface RentCapNoticeCardProps {
+  notice: RentCapNotice
+  regime?: RentRegimeDetermination
+}
+
+const REGIME_LABELS: Record<RentRegimeDetermination['regime'], string> = {
+  local: 'Local rent control',
+  ab1482: 'AB 1482 statewide cap',
+  none: 'No rent cap'
+}
+
+export function RentCapNoticeCard({ notice, regime }: RentCapNoticeCardProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Shield className="w-5 h-5 mr-2" />
+          {regime?.regime === 'local' ? `${regime.jurisdiction!.name} Rent Control` : 'AB 1482 Rent Cap'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {regime && (
+          <div className="space-y-2 text-sm">
+            <div className="flex flex-wrap gap-2">
+              <Badge variant="secondary">{REGIME_LABELS[regime.regime]}</Badge>
+              {regime.maxIncreasePercentage !== null && (
+                <Badge variant="outline">Max increase {regime.maxIncreasePercentage.toFixed(1)}%/yr</Badge>
+              )}
+              {regime.justCauseRequired && <Badge variant="outline">Just cause required</Badge>}
+            </div>
+            {regime.citation && <p className="text-gray-600">{regime.citation}</p>}
+            <ul className="list-disc list-inside text-gray-700">
+              {regime.reasons.map((reason) => <li key={reason}>{reason}</li>)}
+            </ul>
+          </div>
+        )}
+        {regime?.regime !== 'local' && (
+          <pre className="whitespace-pre-wrap font-sans text-sm bg-gray-50 rounded p-3">{notice.notice}</pre>
+        )}
+        {notice.complianceNotes.length > 0 && regime?.regime !== 'local' && (
+          <ul className="list-disc list-inside text-sm text-gray-700">
+            {notice.complianceNotes.map((note) => <li key={note}>{note}</li>)}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,223 @@
+'use client'
+
+import { useState } from 'react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Download, FileSpreadsheet } from 'lucide-react'
+import type { RentIncrease, RentIncreasePlan, UnitRentIncreasePlan } from '@/lib/rent-increase-planner'
+import { formatPrice } from '@/lib/format'
+
+export function RentIncreasePlanner({ propertyId }: { propertyId: string }) {
+  const [rentRoll, setRentRoll] = useState<{ name: string; text: string } | null>(null)
+  const [servedOn, setServedOn] = useState(() => new Date().toISOString().slice(0, 10))
+  const [mailed, setMailed] = useState(false)
+  const [plan, setPlan] = useState<RentIncreasePlan | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const planUrl = (format: 'json' | 'pdf') =>
+    `/api/properties/${propertyId}/rent-roll?format=${format}&served_on=${servedOn}${mailed ? '&mailed=true' : ''}`
+
+  const selectFile = async (file: File | undefined) => {
+    setPlan(null)
+    setError(null)
+    setRentRoll(file ? { name: file.name, text: await file.text() } : null)
+  }
+
+  const runPlan = async () => {
+    if (!rentRoll) return
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(planUrl('json'), { method: 'POST', headers: { 'Content-Type': 'text/csv' }, body: rentRoll.text })
+      const body = await response.json()
+      if (!response.ok) throw new Error(body.error ?? 'Rent increase planning failed')
+      setPlan(body as RentIncreasePlan)
+    } catch (planError) {
+      console.error('Error planning rent increases:', planError)
+      setPlan(null)
+      setError(planError instanceof Error ? planError.message : 'Rent increase planning failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const downloadNotices = async () => {
+    if (!rentRoll) return
+    try {
+      const response = await fetch(planUrl('pdf'), { method: 'POST', headers: { 'Content-Type': 'text/csv' }, body: rentRoll.text })
+      if (!response.ok) throw new Error((await response.json()).error ?? 'Could not draft notices')
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement('a')
+      link.href = url
+      link.download = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'rent-increase-notices.pdf'
+      link.click()
+      URL.revokeObjectURL(url)
+    } catch (downloadError) {
+      console.error('Error downloading notices:', downloadError)
+      setError(downloadError instanceof Error ? downloadError.message : 'Could not draft notices')
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FileSpreadsheet className="w-5 h-5 mr-2" />
+            Rent Roll
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+            <label className="text-xs text-gray-600 space-y-1">
+              <span>Rent roll (CSV)</span>
+              <Input type="file" accept=".csv,text/csv" onChange={(e) => selectFile(e.target.files?.[0])} />
+            </label>
+            <label className="text-xs text-gray-600 space-y-1">
+              <span>Notices served on</span>
+              <Input type="date" value={servedOn} onChange={(e) => { setServedOn(e.target.value); setPlan(null) }} />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-600 h-9">
+              <input type="checkbox" checked={mailed} onChange={(e) => { setMailed(e.target.checked); setPlan(null) }} />
+              Served by mail (+5 days)
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={runPlan} disabled={!rentRoll || !servedOn || loading}>
+              {loading ? 'Planning...' : 'Plan Increases'}
+            </Button>
+            <Button variant="outline" onClick={downloadNotices} disabled={!plan || plan.noticeCount === 0}>
+              <Download className="w-4 h-4 mr-2" />
+              Notices (PDF)
+            </Button>
+          </div>
+          {error && <p className="text-sm text-red-600">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {plan && <PlanResults plan={plan} />}
+    </div>
+  )
+}
+
+function PlanResults({ plan }: { plan: RentIncreasePlan }) {
+  const { regime } = plan
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <CardTitle>Increase Plan</CardTitle>
+          <Badge variant={plan.flaggedUnits > 0 ? 'destructive' : 'secondary'}>
+            {plan.flaggedUnits} flagged · {plan.noticeCount} notices
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Rent regime</p>
+            <p className="font-semibold">
+              {regime.regime === 'local' ? regime.jurisdiction!.name : regime.regime === 'ab1482' ? 'AB 1482' : 'No rent cap'}
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">Units planned</p>
+            <p className="font-semibold">{plan.units.filter(unit => !unit.skipReason).length} of {plan.units.length}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Current rent roll</p>
+            <p className="font-semibold">{formatPrice(plan.currentRentRoll)}/mo</p>
+          </div>
+          <div>
+            <p className="text-gray-500">With noticed increases</p>
+            <p className="font-semibold">{formatPrice(plan.proposedRentRoll)}/mo</p>
+          </div>
+        </div>
+
+        {plan.rejected.length > 0 && (
+          <div className="text-sm text-red-600">
+            <p className="font-semibold">Rows not read</p>
+            <ul className="list-disc pl-5">
+              {plan.rejected.map(row => (
+                <li key={row.row}>Row {row.row}: {row.errors.join('; ')}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-normal">Unit</th>
+                <th className="font-normal text-right">Rent</th>
+                <th className="font-normal text-right">Last 12 mo</th>
+                <th className="font-normal text-right">Max next</th>
+                <th className="font-normal">Earliest</th>
+                <th className="font-normal">Planned</th>
+              </tr>
+            </thead>
+            <tbody>
+              {plan.units.map(unitPlan => (
+                <UnitRow key={unitPlan.unit.unitNumber} unitPlan={unitPlan} uncapped={regime.regime === 'none'} />
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function UnitRow({ unitPlan, uncapped }: { unitPlan: UnitRentIncreasePlan; uncapped: boolean }) {
+  const { unit, planned, maxNextIncrease } = unitPlan
+
+  if (unitPlan.skipReason) {
+    return (
+      <tr className="align-top border-t">
+        <td className="py-2">{unit.unitNumber}</td>
+        <td colSpan={5} className="py-2 text-gray-500">{unitPlan.skipReason}</td>
+      </tr>
+    )
+  }
+
+  return (
+    <tr className="align-top border-t">
+      <td className="py-2">
+        {unit.unitNumber}
+        {unit.tenantName && <p className="text-xs text-gray-500">{unit.tenantName}</p>}
+      </td>
+      <td className="py-2 text-right">{formatPrice(unit.currentRent ?? 0)}</td>
+      <td className="py-2 text-right">
+        {unitPlan.trailing12MonthIncreasePercentage > 0 ? `+${unitPlan.trailing12MonthIncreasePercentage.toFixed(1)}%` : 'None'}
+      </td>
+      <td className="py-2 text-right">
+        {maxNextIncrease ? `${formatPrice(maxNextIncrease.newRent)} (${maxNextIncrease.capPercentage!.toFixed(1)}%)` : uncapped ? 'Uncapped' : 'At cap'}
+      </td>
+      <td className="py-2">
+        {unitPlan.earliestEffectiveDate}
+        {maxNextIncrease && <p className="text-xs text-gray-500">{maxNextIncrease.noticeDays}-day notice</p>}
+      </td>
+      <td className="py-2">{planned ? <PlannedIncrease increase={planned} /> : <span className="text-gray-500">Maximum</span>}</td>
+    </tr>
+  )
+}
+
+function PlannedIncrease({ increase }: { increase: RentIncrease }) {
+  return (
+    <div className="space-y-1">
+      <p>
+        {formatPrice(increase.newRent)} on {increase.effectiveDate}
+        {increase.flags.length === 0 && <Badge variant="secondary" className="ml-2">OK</Badge>}
+      </p>
+      {increase.flags.map(flag => (
+        <p key={flag.code} className="text-xs text-red-600">{flag.reason}</p>
+      ))}
+    </div>
+  )
+}
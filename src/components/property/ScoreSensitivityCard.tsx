@@ -0,0 +1,122 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { SlidersHorizontal } from 'lucide-react'
+import type { CategoryOffer, ScoreSensitivity } from '@/lib/score-sensitivity'
+import { formatPrice } from '@/lib/format'
+
+function formatChange(value: number, digits = 1): string {
+  return `${value > 0 ? '+' : ''}${value.toFixed(digits)}`
+}
+
+export function ScoreSensitivityCard({ sensitivity }: { sensitivity: ScoreSensitivity }) {
+  const next = sensitivity.nextCategoryOffer
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <SlidersHorizontal className="w-5 h-5 mr-2" />
+          What-If
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <p className="font-semibold">
+          {next ? (
+            <>
+              Offer at {formatPrice(next.offerPrice!)} to make this a {next.category}
+              <span className="font-normal text-gray-600"> ({formatChange(next.priceChangePercentage!)}% vs list)</span>
+            </>
+          ) : sensitivity.totalScore >= sensitivity.categoryOffers[0].minScore ? (
+            <>Already an {sensitivity.category} at list price</>
+          ) : (
+            <>No offer down to half the list price reaches a better category</>
+          )}
+        </p>
+
+        <table className="w-full">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-normal">Price</th>
+              <th className="font-normal text-right">Score</th>
+              <th className="font-normal text-right">Change</th>
+              <th className="font-normal">Category</th>
+            </tr>
+          </thead>
+          <tbody>
+            {sensitivity.priceScenarios.map(scenario => (
+              <tr key={scenario.priceChangePercentage}>
+                <td>
+                  {formatPrice(scenario.price)} ({formatChange(scenario.priceChangePercentage, 0)}%)
+                </td>
+                <td className="text-right">{scenario.totalScore.toFixed(1)}</td>
+                <td className="text-right">{formatChange(scenario.scoreChange)}</td>
+                <td className="pl-4">{scenario.category}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div>
+          <p className="text-gray-500">Offer needed</p>
+          {sensitivity.categoryOffers.map(offer => (
+            <CategoryOfferRow key={offer.category} offer={offer} />
+          ))}
+        </div>
+
+        {sensitivity.priceBuckets.length > 0 && (
+          <div>
+            <p className="text-gray-500">Price buckets</p>
+            {sensitivity.priceBuckets.map(bucket => (
+              <p key={bucket.component}>
+                {bucket.component}: {(bucket.priceRatio * 100).toFixed(0)}% of {formatPrice(bucket.marketValue)}
+                {bucket.nextBucket
+                  ? `, next bucket at ${formatPrice(bucket.nextBucket.price)} or less`
+                  : ', best bucket'}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {sensitivity.drivers.length > 0 && (
+          <table className="w-full">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-normal">Neighborhood driver</th>
+                <th className="font-normal text-right">Value</th>
+                <th className="font-normal text-right">Lower</th>
+                <th className="font-normal text-right">Higher</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sensitivity.drivers.map(driver => (
+                <tr key={driver.input}>
+                  <td>{driver.label}</td>
+                  <td className="text-right">
+                    {driver.value.toLocaleString(undefined, { maximumFractionDigits: 1 })} ±{' '}
+                    {driver.change.toLocaleString(undefined, { maximumFractionDigits: 1 })}
+                  </td>
+                  <td className="text-right">{formatChange(driver.scoreIfLower)}</td>
+                  <td className="text-right">{formatChange(driver.scoreIfHigher)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function CategoryOfferRow({ offer }: { offer: CategoryOffer }) {
+  return (
+    <div className="flex justify-between">
+      <span>{offer.category} ({offer.minScore}+)</span>
+      <span>
+        {offer.offerPrice === null
+          ? 'Not reachable by price'
+          : offer.priceChangePercentage === 0
+            ? 'At list price'
+            : `${formatPrice(offer.offerPrice)} (${formatChange(offer.priceChangePercentage!)}%)`}
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,114 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Building2 } from 'lucide-react'
+import type { UnitAnalysis, UnitMixAnalysis, UnitOccupancy } from '@/lib/property-units'
+import { formatPrice } from '@/lib/format'
+
+const OCCUPANCY_LABELS: Record<UnitOccupancy, string> = {
+  occupied: 'Occupied',
+  vacant: 'Vacant',
+  owner_occupied: 'Owner'
+}
+
+export function UnitMixCard({ unitMix }: { unitMix: UnitMixAnalysis }) {
+  const upside = unitMix.rentCapUpside
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-start">
+          <CardTitle className="flex items-center">
+            <Building2 className="w-5 h-5 mr-2" />
+            Unit Mix
+          </CardTitle>
+          <Badge variant="secondary">{unitMix.unitCount} units</Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Price per door</p>
+            <p className="font-semibold">{formatPrice(unitMix.pricePerDoor)}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Gross rent multiplier</p>
+            <p className="font-semibold">{unitMix.grossRentMultiplier?.toFixed(1) ?? 'N/A'}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Loss-to-lease</p>
+            <p className="font-semibold">
+              {formatPrice(unitMix.lossToLease)}/mo ({unitMix.lossToLeasePercentage.toFixed(0)}%)
+            </p>
+          </div>
+          <div>
+            <p className="text-gray-500">Occupancy</p>
+            <p className="font-semibold">{unitMix.occupancyRate.toFixed(0)}%</p>
+          </div>
+        </div>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-normal">Unit</th>
+              <th className="font-normal">Layout</th>
+              <th className="font-normal">Status</th>
+              <th className="font-normal text-right">Rent</th>
+              <th className="font-normal text-right">Market</th>
+              <th className="font-normal text-right">Tenure</th>
+              <th className="font-normal text-right">Next cap</th>
+            </tr>
+          </thead>
+          <tbody>
+            {unitMix.units.map(analysis => (
+              <tr key={analysis.unit.unitNumber}>
+                <td>{analysis.unit.unitNumber}</td>
+                <td>
+                  {analysis.unit.beds}bd/{analysis.unit.baths}ba
+                  {analysis.unit.sqft ? `, ${analysis.unit.sqft.toLocaleString()} sqft` : ''}
+                </td>
+                <td>{OCCUPANCY_LABELS[analysis.unit.occupancy]}</td>
+                <td className="text-right">{analysis.inPlaceRent > 0 ? formatPrice(analysis.inPlaceRent) : 'N/A'}</td>
+                <td className="text-right">{formatPrice(analysis.marketRent)}</td>
+                <td className="text-right">{analysis.tenureYears !== null ? `${analysis.tenureYears.toFixed(1)} yrs` : 'N/A'}</td>
+                <td className="text-right">{describeNextCap(analysis)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div>
+          <p className="font-semibold text-sm mb-1">Rent-cap upside</p>
+          <p className="text-sm text-gray-600 mb-2">
+            Leases step toward market at each anniversary, limited by the rent cap; vacant units lease at market.
+            The rent roll grows {formatPrice(upside.annualIncrease)}/yr by year {upside.years.length - 1}
+            {upside.capLimitedLoss > 0 && `, still ${formatPrice(upside.capLimitedLoss)}/yr below market`}.
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-normal">Year</th>
+                <th className="font-normal text-right">Rent roll</th>
+                <th className="font-normal text-right">Market rent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {upside.years.map(year => (
+                <tr key={year.year}>
+                  <td>{year.year === 0 ? 'Today' : year.year}</td>
+                  <td className="text-right">{formatPrice(year.monthlyRentRoll)}/mo</td>
+                  <td className="text-right">{formatPrice(year.monthlyMarketRent)}/mo</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function describeNextCap(analysis: UnitAnalysis): string {
+  if (analysis.unit.occupancy !== 'occupied') return 'N/A'
+  const cap = analysis.maxIncreasePercentage === null ? 'Uncapped' : `${analysis.maxIncreasePercentage.toFixed(1)}%`
+  return `${cap} on ${analysis.nextIncreaseDate}`
+}
@@ -0,0 +1,10 @@
+/**
+ * Server startup: load the CPI table configured by CPI_TABLE_PATH before any route runs
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return
+
+  const { loadCpiTableFromEnv } = await import('./lib/cpi-file')
+  const table = await loadCpiTableFromEnv()
+  if (table) console.log(`Using CPI table ${table.version} from ${process.env.CPI_TABLE_PATH}`)
+}
@@ -0,0 +1,91 @@
+/**
+ * Address Normalization
+ *
+ * Listing feeds spell the same street address differently ("123 North Main
+ * Street Apt. 4" vs "123 N Main St #4"). Normalized addresses use USPS-style
+ * abbreviations for directionals, street suffixes and unit designators so they
+ * can be compared as deduplication keys.
+ */
+
+const DIRECTIONALS: Record<string, string> = {
+  NORTH: 'N',
+  SOUTH: 'S',
+  EAST: 'E',
+  WEST: 'W',
+  NORTHEAST: 'NE',
+  NORTHWEST: 'NW',
+  SOUTHEAST: 'SE',
+  SOUTHWEST: 'SW'
+}
+
+const STREET_SUFFIXES: Record<string, string> = {
+  ALLEY: 'ALY',
+  AVENUE: 'AVE',
+  AV: 'AVE',
+  BOULEVARD: 'BLVD',
+  CIRCLE: 'CIR',
+  COURT: 'CT',
+  DRIVE: 'DR',
+  EXPRESSWAY: 'EXPY',
+  HIGHWAY: 'HWY',
+  LANE: 'LN',
+  PARKWAY: 'PKWY',
+  PLACE: 'PL',
+  PLAZA: 'PLZ',
+  ROAD: 'RD',
+  SQUARE: 'SQ',
+  STREET: 'ST',
+  TERRACE: 'TER',
+  TRAIL: 'TRL'
+}
+
+const UNIT_DESIGNATORS = new Set(['APARTMENT', 'APT', 'UNIT', 'SUITE', 'STE'])
+
+/**
+ * Canonical uppercase form of a street address, e.g. "123 N MAIN ST UNIT 4"
+ */
+export function normalizeAddress(address: string): string {
+  const tokens = address
+    .toUpperCase()
+    .replace(/#/g, ' UNIT ')
+    .replace(/[.,]/g, ' ')
+    .replace(/[^A-Z0-9\s/-]/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+
+  const normalized: string[] = []
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i]
+
+    if (UNIT_DESIGNATORS.has(token) && i > 0) {
+      // "APT 4", "# 4" and "UNIT #4" all become "UNIT 4"
+      if (normalized[normalized.length - 1] !== 'UNIT') normalized.push('UNIT')
+      continue
+    }
+
+    normalized.push(DIRECTIONALS[token] ?? (i > 0 ? STREET_SUFFIXES[token] : undefined) ?? token)
+  }
+
+  return normalized.join(' ')
+}
+
+/**
+ * Street portion of a feed address, dropping a trailing ", City, CA 94110" if present
+ */
+export function extractStreetAddress(address: string, city?: string): string {
+  const parts = address.split(',').map(part => part.trim()).filter(Boolean)
+  const cityName = city?.trim().toLowerCase()
+
+  while (parts.length > 1) {
+    const last = parts[parts.length - 1]
+    const isLocality = last.toLowerCase() === cityName || /^((CA|California)\s*)?(\d{5}(-\d{4})?)?$|^(USA?)$/i.test(last)
+    if (!isLocality) break
+    parts.pop()
+  }
+
+  return collapseWhitespace(parts.join(', '))
+}
+
+function collapseWhitespace(value: string): string {
+  return value.trim().replace(/\s+/g, ' ')
+}
@@ -0,0 +1,311 @@
+/**
+ * Rental Cash Flow & Return Calculator
+ *
+ * Projects monthly cash flow, cap rate, cash-on-cash return, DSCR and
+ * multi-year IRR for a buy-and-hold rental. California specifics:
+ * - Property tax is the Prop 13 base of 1% of purchase price plus local levies,
+ *   with assessed value growth limited to 2% per year
+ * - Rent growth is limited by the governing rent cap: a local ordinance's or
+ *   AB 1482's, none when the property is exempt
+ */
+
+import { calculateMaxRentIncrease } from './rent-cap-helper'
+import type { CpiRegion } from './cpi'
+
+export interface CashFlowInputs {
+  purchasePrice: number
+  downPaymentPercentage: number // e.g. 25 = 25%
+  interestRate: number // Annual, e.g. 6.75 = 6.75%
+  loanTermYears: number
+  monthlyRent: number
+  vacancyRate: number // % of gross rent
+  localLevyRate: number // % on top of the 1% Prop 13 base, e.g. 0.2
+  annualInsurance: number
+  monthlyHoa: number
+  maintenanceRate: number // % of gross rent
+  propertyManagementRate?: number // % of collected rent
+  closingCostsPercentage?: number // % of purchase price paid in cash at close
+  yearBuilt: number // Determines the AB 1482 rent growth cap when rentCapPercentage is omitted
+  cpiRegion?: CpiRegion // CPI region for the AB 1482 cap (default: statewide)
+  rentCapPercentage?: number | null // Governing regime's annual cap (determineRentRegime); null when exempt or uncovered
+  marketRentGrowthRate?: number // Annual %, before any rent cap
+  appreciationRate?: number // Annual % used for the sale price at exit
+  expenseGrowthRate?: number // Annual % for insurance, HOA and maintenance
+  sellingCostsPercentage?: number // % of sale price
+}
+
+export interface MonthlyCashFlow {
+  grossRent: number
+  vacancyLoss: number
+  effectiveRent: number
+  propertyTax: number
+  insurance: number
+  hoa: number
+  maintenance: number
+  propertyManagement: number
+  operatingExpenses: number
+  netOperatingIncome: number
+  debtService: number
+  cashFlow: number
+}
+
+export interface AnnualProjection {
+  year: number
+  grossRent: number
+  netOperatingIncome: number
+  debtService: number
+  cashFlow: number
+  loanBalance: number
+  propertyValue: number
+}
+
+export interface CashFlowAnalysis {
+  loanAmount: number
+  cashInvested: number
+  monthlyMortgagePayment: number
+  monthly: MonthlyCashFlow
+  capRate: number // %
+  cashOnCashReturn: number // %
+  debtServiceCoverageRatio: number | null // null when there is no loan
+  fiveYearIrr: number | null // %
+  tenYearIrr: number | null // %
+  rentGrowthRate: number // % actually applied after the AB 1482 cap
+  isRentCapped: boolean
+  projections: AnnualProjection[]
+}
+
+const PROP_13_BASE_RATE = 1.0 // % of assessed (purchase) value
+const PROP_13_MAX_ASSESSMENT_GROWTH = 2.0 // % per year
+export const DEFAULT_MARKET_RENT_GROWTH_RATE = 4.0 // % per year
+const DEFAULT_APPRECIATION_RATE = 4.0
+const DEFAULT_EXPENSE_GROWTH_RATE = 3.0
+const DEFAULT_SELLING_COSTS_PERCENTAGE = 6.0
+const DEFAULT_CLOSING_COSTS_PERCENTAGE = 2.0
+const PROJECTION_YEARS = 10
+
+/**
+ * Monthly principal and interest payment for a fully amortizing loan
+ */
+export function calculateMortgagePayment(loanAmount: number, annualRate: number, termYears: number): number {
+  if (loanAmount <= 0) return 0
+
+  const monthlyRate = annualRate / 100 / 12
+  const payments = termYears * 12
+  if (monthlyRate === 0) return loanAmount / payments
+
+  return (loanAmount * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -payments))
+}
+
+/**
+ * Remaining loan balance after a number of monthly payments
+ */
+export function calculateLoanBalance(
+  loanAmount: number,
+  annualRate: number,
+  termYears: number,
+  paymentsMade: number
+): number {
+  if (loanAmount <= 0) return 0
+
+  const monthlyRate = annualRate / 100 / 12
+  const payments = Math.min(paymentsMade, termYears * 12)
+  if (monthlyRate === 0) return loanAmount * (1 - payments / (termYears * 12))
+
+  const payment = calculateMortgagePayment(loanAmount, annualRate, termYears)
+  const growth = Math.pow(1 + monthlyRate, payments)
+  return Math.max(0, loanAmount * growth - payment * ((growth - 1) / monthlyRate))
+}
+
+/**
+ * Internal rate of return for evenly spaced cash flows (period 0 first), as a %
+ * Returns null when the cash flows have no sign change or don't converge
+ */
+export function calculateIrr(cashFlows: number[]): number | null {
+  const hasPositive = cashFlows.some(value => value > 0)
+  const hasNegative = cashFlows.some(value => value < 0)
+  if (!hasPositive || !hasNegative) return null
+
+  const npv = (rate: number) =>
+    cashFlows.reduce((sum, value, period) => sum + value / Math.pow(1 + rate, period), 0)
+
+  // Bisection is slower than Newton's method but can't diverge
+  let low = -0.99
+  let high = 10
+  let npvLow = npv(low)
+  if (npvLow * npv(high) > 0) return null
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    const npvMid = npv(mid)
+    if (Math.abs(npvMid) < 1e-6) return mid * 100
+    if (npvLow * npvMid < 0) {
+      high = mid
+    } else {
+      low = mid
+      npvLow = npvMid
+    }
+  }
+
+  return ((low + high) / 2) * 100
+}
+
+/**
+ * Rent growth rate after applying the governing rent cap
+ * Pass the regime's cap (null when none applies); without it the AB 1482 cap by year built is assumed
+ */
+export function calculateCappedRentGrowth(
+  monthlyRent: number,
+  yearBuilt: number,
+  marketRentGrowthRate: number,
+  cpiRegion?: CpiRegion,
+  rentCapPercentage?: number | null
+): { rentGrowthRate: number; isRentCapped: boolean } {
+  let capPercentage = rentCapPercentage
+  if (capPercentage === undefined) {
+    const rentCap = calculateMaxRentIncrease(monthlyRent, yearBuilt, { region: cpiRegion })
+    capPercentage = rentCap.isEligible ? rentCap.increasePercentage : null
+  }
+
+  if (capPercentage === null || marketRentGrowthRate <= capPercentage) {
+    return { rentGrowthRate: marketRentGrowthRate, isRentCapped: false }
+  }
+
+  return { rentGrowthRate: capPercentage, isRentCapped: true }
+}
+
+/**
+ * Typical financing and operating assumptions for a property, as the calculator starts out
+ */
+export function getDefaultCashFlowInputs(property: {
+  purchasePrice: number
+  monthlyRent: number
+  yearBuilt: number
+  cpiRegion?: CpiRegion
+  rentCapPercentage?: number | null
+  monthlyHoa?: number
+}): CashFlowInputs {
+  return {
+    purchasePrice: Math.round(property.purchasePrice),
+    downPaymentPercentage: 25,
+    interestRate: 6.75,
+    loanTermYears: 30,
+    monthlyRent: Math.round(property.monthlyRent),
+    vacancyRate: 5,
+    localLevyRate: 0.2,
+    annualInsurance: Math.round(property.purchasePrice * 0.003),
+    monthlyHoa: property.monthlyHoa ?? 0,
+    maintenanceRate: 8,
+    propertyManagementRate: 0,
+    closingCostsPercentage: DEFAULT_CLOSING_COSTS_PERCENTAGE,
+    expenseGrowthRate: DEFAULT_EXPENSE_GROWTH_RATE,
+    sellingCostsPercentage: DEFAULT_SELLING_COSTS_PERCENTAGE,
+    marketRentGrowthRate: DEFAULT_MARKET_RENT_GROWTH_RATE,
+    appreciationRate: DEFAULT_APPRECIATION_RATE,
+    yearBuilt: property.yearBuilt,
+    cpiRegion: property.cpiRegion,
+    rentCapPercentage: property.rentCapPercentage
+  }
+}
+
+/**
+ * Analyze rental cash flow and returns
+ */
+export function analyzeCashFlow(inputs: CashFlowInputs): CashFlowAnalysis {
+  const closingCostsPercentage = inputs.closingCostsPercentage ?? DEFAULT_CLOSING_COSTS_PERCENTAGE
+  const expenseGrowthRate = inputs.expenseGrowthRate ?? DEFAULT_EXPENSE_GROWTH_RATE
+  const appreciationRate = inputs.appreciationRate ?? DEFAULT_APPRECIATION_RATE
+  const sellingCostsPercentage = inputs.sellingCostsPercentage ?? DEFAULT_SELLING_COSTS_PERCENTAGE
+
+  const downPayment = inputs.purchasePrice * (inputs.downPaymentPercentage / 100)
+  const loanAmount = inputs.purchasePrice - downPayment
+  const cashInvested = downPayment + inputs.purchasePrice * (closingCostsPercentage / 100)
+  const monthlyMortgagePayment = calculateMortgagePayment(loanAmount, inputs.interestRate, inputs.loanTermYears)
+
+  const { rentGrowthRate, isRentCapped } = calculateCappedRentGrowth(
+    inputs.monthlyRent,
+    inputs.yearBuilt,
+    inputs.marketRentGrowthRate ?? DEFAULT_MARKET_RENT_GROWTH_RATE,
+    inputs.cpiRegion,
+    inputs.rentCapPercentage
+  )
+
+  const monthlyFor = (yearIndex: number): MonthlyCashFlow => {
+    const rentFactor = Math.pow(1 + rentGrowthRate / 100, yearIndex)
+    const expenseFactor = Math.pow(1 + expenseGrowthRate / 100, yearIndex)
+    const assessmentFactor = Math.pow(1 + PROP_13_MAX_ASSESSMENT_GROWTH / 100, yearIndex)
+
+    const grossRent = inputs.monthlyRent * rentFactor
+    const vacancyLoss = grossRent * (inputs.vacancyRate / 100)
+    const effectiveRent = grossRent - vacancyLoss
+
+    const propertyTax =
+      (inputs.purchasePrice * assessmentFactor * ((PROP_13_BASE_RATE + inputs.localLevyRate) / 100)) / 12
+    const insurance = (inputs.annualInsurance * expenseFactor) / 12
+    const hoa = inputs.monthlyHoa * expenseFactor
+    const maintenance = grossRent * (inputs.maintenanceRate / 100)
+    const propertyManagement = effectiveRent * ((inputs.propertyManagementRate ?? 0) / 100)
+
+    const operatingExpenses = propertyTax + insurance + hoa + maintenance + propertyManagement
+    const netOperatingIncome = effectiveRent - operatingExpenses
+
+    return {
+      grossRent,
+      vacancyLoss,
+      effectiveRent,
+      propertyTax,
+      insurance,
+      hoa,
+      maintenance,
+      propertyManagement,
+      operatingExpenses,
+      netOperatingIncome,
+      debtService: monthlyMortgagePayment,
+      cashFlow: netOperatingIncome - monthlyMortgagePayment
+    }
+  }
+
+  const projections: AnnualProjection[] = []
+  for (let year = 1; year <= PROJECTION_YEARS; year++) {
+    const monthly = monthlyFor(year - 1)
+    projections.push({
+      year,
+      grossRent: monthly.grossRent * 12,
+      netOperatingIncome: monthly.netOperatingIncome * 12,
+      debtService: monthly.debtService * 12,
+      cashFlow: monthly.cashFlow * 12,
+      loanBalance: calculateLoanBalance(loanAmount, inputs.interestRate, inputs.loanTermYears, year * 12),
+      propertyValue: inputs.purchasePrice * Math.pow(1 + appreciationRate / 100, year)
+    })
+  }
+
+  const irrForHold = (years: number) => {
+    const exit = projections[years - 1]
+    const saleProceeds = exit.propertyValue * (1 - sellingCostsPercentage / 100) - exit.loanBalance
+    const cashFlows = [
+      -cashInvested,
+      ...projections.slice(0, years).map((projection, index) =>
+        projection.cashFlow + (index === years - 1 ? saleProceeds : 0)
+      )
+    ]
+    return calculateIrr(cashFlows)
+  }
+
+  const monthly = monthlyFor(0)
+  const annualNoi = monthly.netOperatingIncome * 12
+  const annualDebtService = monthlyMortgagePayment * 12
+
+  return {
+    loanAmount,
+    cashInvested,
+    monthlyMortgagePayment,
+    monthly,
+    capRate: inputs.purchasePrice > 0 ? (annualNoi / inputs.purchasePrice) * 100 : 0,
+    cashOnCashReturn: cashInvested > 0 ? ((monthly.cashFlow * 12) / cashInvested) * 100 : 0,
+    debtServiceCoverageRatio: annualDebtService > 0 ? annualNoi / annualDebtService : null,
+    fiveYearIrr: irrForHold(5),
+    tenYearIrr: irrForHold(10),
+    rentGrowthRate,
+    isRentCapped,
+    projections
+  }
+}
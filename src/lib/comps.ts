@@ -0,0 +1,220 @@
+/**
+ * Comparable Sales (Comps) Engine
+ *
+ * Selects the nearest similar properties to a subject property, adjusts their
+ * prices for differences in size, layout and age, and reconciles the adjusted
+ * prices into an estimated market value with a confidence range.
+ */
+
+import type { PropertyMetrics } from './deal-score'
+
+export interface CompSelectionCriteria {
+  maxDistanceMiles: number
+  maxBedDifference: number
+  maxBathDifference: number
+  sqftBandPercentage: number // e.g. 25 = comps within ±25% of subject sqft
+  maxYearBuiltDifference: number
+  requireSamePropertyType: boolean
+  minComps: number
+  maxComps: number
+}
+
+export interface CompAdjustments {
+  sqft: number
+  beds: number
+  baths: number
+  age: number
+  total: number
+}
+
+export interface ComparableSale {
+  property: PropertyMetrics
+  distanceMiles: number
+  adjustments: CompAdjustments
+  adjustedPrice: number
+  grossAdjustmentPercentage: number
+  weight: number
+}
+
+export interface MarketValueEstimate {
+  estimatedValue: number
+  lowValue: number
+  highValue: number
+  confidence: 'high' | 'medium' | 'low'
+  comps: ComparableSale[]
+}
+
+export const DEFAULT_COMP_CRITERIA: CompSelectionCriteria = {
+  maxDistanceMiles: 1,
+  maxBedDifference: 1,
+  maxBathDifference: 1,
+  sqftBandPercentage: 25,
+  maxYearBuiltDifference: 25,
+  requireSamePropertyType: true,
+  minComps: 3,
+  maxComps: 6
+}
+
+// Adjustment rates, expressed relative to the comp's own price
+const SQFT_ADJUSTMENT_FACTOR = 0.5 // Marginal sqft is worth ~50% of average $/sqft
+const BED_ADJUSTMENT_RATE = 0.03 // 3% of comp price per bedroom
+const BATH_ADJUSTMENT_RATE = 0.02 // 2% of comp price per bathroom
+const AGE_ADJUSTMENT_RATE = 0.002 // 0.2% of comp price per year of age difference
+const MAX_AGE_ADJUSTMENT_RATE = 0.1 // Age adjustment capped at ±10%
+const MAX_GROSS_ADJUSTMENT_PERCENTAGE = 35 // Comps needing more adjustment are not comparable
+
+const EARTH_RADIUS_MILES = 3958.8
+
+/**
+ * Great-circle distance between two coordinates in miles
+ */
+export function haversineDistanceMiles(
+  lat1: number,
+  lng1: number,
+  lat2: number,
+  lng2: number
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(lat2 - lat1)
+  const dLng = toRadians(lng2 - lng1)
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLng / 2) ** 2
+
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Select the nearest similar properties to the subject, closest and most similar first
+ */
+export function selectComparables(
+  subject: PropertyMetrics,
+  candidates: PropertyMetrics[],
+  criteria: CompSelectionCriteria = DEFAULT_COMP_CRITERIA
+): ComparableSale[] {
+  const comps: ComparableSale[] = []
+
+  for (const candidate of candidates) {
+    if (isSameProperty(subject, candidate)) continue
+    if (candidate.price <= 0 || candidate.sqft <= 0) continue
+    if (criteria.requireSamePropertyType && candidate.propertyType !== subject.propertyType) continue
+    if (Math.abs(candidate.beds - subject.beds) > criteria.maxBedDifference) continue
+    if (Math.abs(candidate.baths - subject.baths) > criteria.maxBathDifference) continue
+    if (Math.abs(candidate.yearBuilt - subject.yearBuilt) > criteria.maxYearBuiltDifference) continue
+
+    const sqftDifferencePercentage = (Math.abs(candidate.sqft - subject.sqft) / subject.sqft) * 100
+    if (sqftDifferencePercentage > criteria.sqftBandPercentage) continue
+
+    const distanceMiles = haversineDistanceMiles(
+      subject.latitude,
+      subject.longitude,
+      candidate.latitude,
+      candidate.longitude
+    )
+    if (distanceMiles > criteria.maxDistanceMiles) continue
+
+    const adjustments = calculateCompAdjustments(subject, candidate)
+    const grossAdjustmentPercentage =
+      ((Math.abs(adjustments.sqft) + Math.abs(adjustments.beds) + Math.abs(adjustments.baths) + Math.abs(adjustments.age)) /
+        candidate.price) *
+      100
+    if (grossAdjustmentPercentage > MAX_GROSS_ADJUSTMENT_PERCENTAGE) continue
+
+    // Closer comps needing less adjustment carry more weight
+    const weight = 1 / (1 + distanceMiles * 2) / (1 + grossAdjustmentPercentage / 10)
+
+    comps.push({
+      property: candidate,
+      distanceMiles,
+      adjustments,
+      adjustedPrice: candidate.price + adjustments.total,
+      grossAdjustmentPercentage,
+      weight
+    })
+  }
+
+  return comps.sort((a, b) => b.weight - a.weight).slice(0, criteria.maxComps)
+}
+
+/**
+ * Adjust a comp's price toward the subject (positive = subject is worth more)
+ */
+export function calculateCompAdjustments(subject: PropertyMetrics, comp: PropertyMetrics): CompAdjustments {
+  const compPricePerSqft = comp.price / comp.sqft
+
+  const sqft = (subject.sqft - comp.sqft) * compPricePerSqft * SQFT_ADJUSTMENT_FACTOR
+  const beds = (subject.beds - comp.beds) * comp.price * BED_ADJUSTMENT_RATE
+  const baths = (subject.baths - comp.baths) * comp.price * BATH_ADJUSTMENT_RATE
+
+  // Newer construction commands a premium
+  const ageRate = Math.min(
+    MAX_AGE_ADJUSTMENT_RATE,
+    Math.max(-MAX_AGE_ADJUSTMENT_RATE, (subject.yearBuilt - comp.yearBuilt) * AGE_ADJUSTMENT_RATE)
+  )
+  const age = comp.price * ageRate
+
+  return {
+    sqft,
+    beds,
+    baths,
+    age,
+    total: sqft + beds + baths + age
+  }
+}
+
+/**
+ * Estimate market value from comparable sales
+ * Returns null when there are too few comps for a meaningful estimate
+ */
+export function estimateMarketValue(
+  subject: PropertyMetrics,
+  candidates: PropertyMetrics[],
+  criteria: CompSelectionCriteria = DEFAULT_COMP_CRITERIA
+): MarketValueEstimate | null {
+  let comps = selectComparables(subject, candidates, criteria)
+
+  // Widen the search radius once before giving up
+  if (comps.length < criteria.minComps) {
+    comps = selectComparables(subject, candidates, {
+      ...criteria,
+      maxDistanceMiles: criteria.maxDistanceMiles * 2
+    })
+  }
+
+  if (comps.length < criteria.minComps) return null
+
+  const totalWeight = comps.reduce((sum, comp) => sum + comp.weight, 0)
+  const estimatedValue = comps.reduce((sum, comp) => sum + comp.adjustedPrice * comp.weight, 0) / totalWeight
+
+  const weightedVariance =
+    comps.reduce((sum, comp) => sum + comp.weight * (comp.adjustedPrice - estimatedValue) ** 2, 0) / totalWeight
+  const standardDeviation = Math.sqrt(weightedVariance)
+
+  // Never claim tighter than ±3% precision
+  const spread = Math.max(standardDeviation, estimatedValue * 0.03)
+  const coefficientOfVariation = standardDeviation / estimatedValue
+
+  let confidence: MarketValueEstimate['confidence'] = 'low'
+  if (comps.length >= 5 && coefficientOfVariation <= 0.08) confidence = 'high'
+  else if (comps.length >= criteria.minComps && coefficientOfVariation <= 0.15) confidence = 'medium'
+
+  return {
+    estimatedValue,
+    lowValue: estimatedValue - spread,
+    highValue: estimatedValue + spread,
+    confidence,
+    comps
+  }
+}
+
+function isSameProperty(a: PropertyMetrics, b: PropertyMetrics): boolean {
+  if (a === b) return true
+  if (a.id && b.id) return a.id === b.id
+
+  return (
+    a.latitude === b.latitude &&
+    a.longitude === b.longitude &&
+    a.price === b.price &&
+    a.sqft === b.sqft
+  )
+}
@@ -0,0 +1,36 @@
+import { readFile } from 'fs/promises'
+import { extname } from 'path'
+import { parseCpiCsv, parseCpiJson, setActiveCpiTable, type CpiTable } from './cpi'
+
+/**
+ * Load a CPI table from a local .json or .csv file (server-side only, no network)
+ * CSV files carry no metadata, so version and source must be given for them
+ */
+export async function loadCpiTableFromFile(
+  filePath: string,
+  csvMetadata?: { version: string; source: string }
+): Promise<CpiTable> {
+  const text = await readFile(filePath, 'utf8')
+
+  if (extname(filePath).toLowerCase() === '.csv') {
+    if (!csvMetadata) throw new Error('CSV CPI tables need a version and source')
+    return parseCpiCsv(text, csvMetadata.version, csvMetadata.source)
+  }
+
+  return parseCpiJson(text)
+}
+
+/**
+ * Make the table at CPI_TABLE_PATH the default CPI table; null (bundled table kept) when it isn't set
+ * CSV tables take their version and source from CPI_TABLE_VERSION and CPI_TABLE_SOURCE
+ * Throws when the file can't be read or the table is invalid, so a bad path fails at startup
+ */
+export async function loadCpiTableFromEnv(): Promise<CpiTable | null> {
+  const filePath = process.env.CPI_TABLE_PATH
+  if (!filePath) return null
+
+  const { CPI_TABLE_VERSION: version, CPI_TABLE_SOURCE: source } = process.env
+  const table = await loadCpiTableFromFile(filePath, version && source ? { version, source } : undefined)
+  setActiveCpiTable(table)
+  return table
+}
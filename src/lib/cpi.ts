@@ -0,0 +1,227 @@
+/**
+ * California Regional CPI Data
+ *
+ * AB 1482 (Civ. Code § 1947.12(g)) measures the "percentage change in the cost
+ * of living" as the April-to-April change in the regional CPI-U published by
+ * BLS for the property's metro, falling back to the California CPI published
+ * by DIR. The resulting cap applies to increases effective August 1 of that
+ * year through July 31 of the next.
+ *
+ * CPI tables are versioned data, bundled as JSON and replaceable from a CSV or
+ * JSON file, so a past rent increase can be audited against the exact table
+ * that was in force.
+ */
+
+import bundledCpiTable from '../data/cpi/california-cpi.json'
+
+export type CpiRegion = 'los_angeles' | 'san_francisco' | 'riverside' | 'san_diego' | 'california'
+
+export interface CpiEntry {
+  region: CpiRegion
+  year: number // April of this year vs April of the prior year
+  percentChange: number
+}
+
+export interface CpiTable {
+  version: string
+  source: string
+  notes?: string
+  entries: CpiEntry[]
+}
+
+export interface CpiLookup {
+  region: CpiRegion // Region the value actually came from (may be the statewide fallback)
+  requestedRegion: CpiRegion
+  year: number
+  periodStart: string // e.g. '2023-04'
+  periodEnd: string // e.g. '2024-04'
+  percentChange: number
+  tableVersion: string
+  source: string
+}
+
+export const CPI_REGION_LABELS: Record<CpiRegion, string> = {
+  los_angeles: 'Los Angeles-Long Beach-Anaheim',
+  san_francisco: 'San Francisco-Oakland-Hayward',
+  riverside: 'Riverside-San Bernardino-Ontario',
+  san_diego: 'San Diego-Carlsbad',
+  california: 'California (statewide)'
+}
+
+const CPI_REGIONS = Object.keys(CPI_REGION_LABELS) as CpiRegion[]
+
+// Cities in each BLS metro area (LA & Orange; SF, Alameda, Contra Costa, Marin,
+// San Mateo; Riverside & San Bernardino; San Diego counties)
+const CITY_REGIONS: Record<string, CpiRegion> = Object.fromEntries([
+  ...[
+    'los angeles', 'long beach', 'anaheim', 'santa ana', 'irvine', 'glendale', 'pasadena',
+    'santa monica', 'west hollywood', 'burbank', 'torrance', 'inglewood', 'culver city',
+    'beverly hills', 'huntington beach', 'costa mesa', 'newport beach', 'fullerton',
+    'orange', 'garden grove', 'pomona', 'el monte', 'downey', 'west covina', 'norwalk',
+    'lancaster', 'palmdale', 'santa clarita', 'compton', 'carson', 'alhambra', 'redondo beach'
+  ].map(city => [city, 'los_angeles' as CpiRegion]),
+  ...[
+    'san francisco', 'oakland', 'berkeley', 'hayward', 'fremont', 'alameda', 'emeryville',
+    'san leandro', 'richmond', 'el cerrito', 'concord', 'walnut creek', 'antioch',
+    'pittsburg', 'san ramon', 'pleasanton', 'livermore', 'dublin', 'union city', 'newark',
+    'san mateo', 'daly city', 'redwood city', 'south san francisco', 'san bruno',
+    'burlingame', 'menlo park', 'foster city', 'san rafael', 'novato', 'mill valley', 'albany'
+  ].map(city => [city, 'san_francisco' as CpiRegion]),
+  ...[
+    'riverside', 'san bernardino', 'ontario', 'fontana', 'moreno valley', 'rancho cucamonga',
+    'corona', 'temecula', 'murrieta', 'victorville', 'rialto', 'upland', 'redlands',
+    'palm springs', 'indio', 'hemet', 'chino', 'chino hills', 'menifee', 'jurupa valley'
+  ].map(city => [city, 'riverside' as CpiRegion]),
+  ...[
+    'san diego', 'chula vista', 'oceanside', 'escondido', 'carlsbad', 'el cajon', 'vista',
+    'san marcos', 'encinitas', 'national city', 'la mesa', 'santee', 'poway', 'coronado'
+  ].map(city => [city, 'san_diego' as CpiRegion])
+])
+
+let activeCpiTable: CpiTable = bundledCpiTable as CpiTable
+
+/**
+ * The CPI table used when callers don't pass one explicitly
+ */
+export function getActiveCpiTable(): CpiTable {
+  return activeCpiTable
+}
+
+/**
+ * Replace the default CPI table (e.g. with one loaded from a newer data file)
+ */
+export function setActiveCpiTable(table: CpiTable): void {
+  const errors = validateCpiTable(table)
+  if (errors.length > 0) {
+    throw new Error(`Invalid CPI table: ${errors.join('; ')}`)
+  }
+  activeCpiTable = table
+}
+
+/**
+ * Map a property's city onto its BLS CPI region, falling back to statewide
+ */
+export function resolveCpiRegion(city?: string | null): CpiRegion {
+  if (!city) return 'california'
+  return CITY_REGIONS[city.trim().toLowerCase()] ?? 'california'
+}
+
+/**
+ * The April-to-April CPI year that governs rent increases on a given date
+ * Increases effective Aug 1 of year Y through Jul 31 of Y+1 use April Y data
+ */
+export function getCpiYearForEffectiveDate(effectiveDate: Date): number {
+  const year = effectiveDate.getFullYear()
+  return effectiveDate.getMonth() >= 7 ? year : year - 1 // getMonth() 7 = August
+}
+
+/**
+ * Look up the CPI change governing a rent increase, falling back to statewide
+ * data when the region has no value for that year. Returns null if neither exists.
+ */
+export function lookupCpi(
+  region: CpiRegion,
+  effectiveDate: Date,
+  table: CpiTable = activeCpiTable
+): CpiLookup | null {
+  const year = getCpiYearForEffectiveDate(effectiveDate)
+  const entry =
+    table.entries.find(e => e.region === region && e.year === year) ??
+    table.entries.find(e => e.region === 'california' && e.year === year)
+
+  if (!entry) return null
+
+  return {
+    region: entry.region,
+    requestedRegion: region,
+    year,
+    periodStart: `${year - 1}-04`,
+    periodEnd: `${year}-04`,
+    percentChange: entry.percentChange,
+    tableVersion: table.version,
+    source: table.source
+  }
+}
+
+/**
+ * Most recent CPI entry available for a region (statewide if the region has none)
+ */
+export function latestCpi(region: CpiRegion, table: CpiTable = activeCpiTable): CpiEntry | null {
+  const candidates = table.entries.filter(e => e.region === region)
+  const pool = candidates.length > 0 ? candidates : table.entries.filter(e => e.region === 'california')
+  if (pool.length === 0) return null
+
+  return pool.reduce((latest, entry) => (entry.year > latest.year ? entry : latest))
+}
+
+/**
+ * Parse a CPI table from JSON text (same shape as the bundled data file)
+ */
+export function parseCpiJson(text: string): CpiTable {
+  const table = JSON.parse(text) as CpiTable
+  const errors = validateCpiTable(table)
+  if (errors.length > 0) {
+    throw new Error(`Invalid CPI table: ${errors.join('; ')}`)
+  }
+  return table
+}
+
+/**
+ * Parse a CPI table from CSV with columns: region,year,percent_change
+ * Version and source are supplied by the caller since CSV has no header metadata
+ */
+export function parseCpiCsv(text: string, version: string, source: string): CpiTable {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+  if (lines.length === 0) throw new Error('CPI CSV is empty')
+
+  const header = lines[0].split(',').map(column => column.trim().toLowerCase())
+  const regionIndex = header.indexOf('region')
+  const yearIndex = header.indexOf('year')
+  const changeIndex = header.indexOf('percent_change')
+  if (regionIndex < 0 || yearIndex < 0 || changeIndex < 0) {
+    throw new Error('CPI CSV must have region, year and percent_change columns')
+  }
+
+  const entries: CpiEntry[] = lines.slice(1).map(line => {
+    const cells = line.split(',').map(cell => cell.trim())
+    return {
+      region: cells[regionIndex] as CpiRegion,
+      year: Number(cells[yearIndex]),
+      percentChange: Number(cells[changeIndex])
+    }
+  })
+
+  const table: CpiTable = { version, source, entries }
+  const errors = validateCpiTable(table)
+  if (errors.length > 0) {
+    throw new Error(`Invalid CPI table: ${errors.join('; ')}`)
+  }
+  return table
+}
+
+/**
+ * Validate a CPI table's metadata and entries
+ */
+export function validateCpiTable(table: CpiTable): string[] {
+  const errors: string[] = []
+
+  if (!table?.version) errors.push('Table version is required')
+  if (!table?.source) errors.push('Table source is required')
+  if (!Array.isArray(table?.entries) || table.entries.length === 0) {
+    errors.push('Table must have at least one entry')
+    return errors
+  }
+
+  const seen = new Set<string>()
+  table.entries.forEach((entry, index) => {
+    if (!CPI_REGIONS.includes(entry.region)) errors.push(`Entry ${index + 1}: unknown region "${entry.region}"`)
+    if (!Number.isInteger(entry.year)) errors.push(`Entry ${index + 1}: year must be an integer`)
+    if (!Number.isFinite(entry.percentChange)) errors.push(`Entry ${index + 1}: percent change must be a number`)
+
+    const key = `${entry.region}:${entry.year}`
+    if (seen.has(key)) errors.push(`Entry ${index + 1}: duplicate ${key}`)
+    seen.add(key)
+  })
+
+  return errors
+}
@@ -0,0 +1,76 @@
+/**
+ * Parse RFC 4180 CSV into rows of cells
+ * Quoted cells may contain commas, doubled quotes and line breaks
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (inQuotes) throw new Error('CSV has an unterminated quoted field')
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+
+  // Drop blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''))
+}
+
+/**
+ * Parse CSV with a header row into one record per line, keyed by header
+ */
+export function parseCsvRecords(text: string): Record<string, string>[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''))
+  if (!header) throw new Error('CSV is empty')
+
+  const columns = header.map(column => column.trim())
+  return rows.map(cells =>
+    Object.fromEntries(columns.map((column, index) => [column, (cells[index] ?? '').trim()]))
+  )
+}
+
+/**
+ * Serialize rows as RFC 4180 CSV
+ * Text that a spreadsheet would run as a formula is prefixed with an apostrophe
+ */
+export function toCsv(rows: (string | number | null)[][]): string {
+  return rows.map(cells => cells.map(toCsvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+function toCsvCell(value: string | number | null): string {
+  if (value === null) return ''
+  if (typeof value === 'number') return String(value)
+
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
@@ -0,0 +1,292 @@
+/**
+ * Deal Memo
+ *
+ * A one-property PDF for lenders and partners: listing facts, the deal score
+ * breakdown, the investment recommendation with its risks and opportunities,
+ * rent cap coverage with the AB 1482 notice text, and a map snapshot. The map
+ * is drawn from coordinates (the property, its comps, the other listings in the
+ * neighborhood and the neighborhood boundary) rather than map tiles, so the memo
+ * renders on the server without fetching imagery.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase, type Database } from './supabase'
+import { fetchPropertyDetails, type PropertyDetails } from './property-details'
+import { generateInvestmentRecommendation, getDealScoreCategory } from './deal-score'
+import { RENT_ESTIMATE_METHOD_LABELS } from './rent-estimate'
+import { generateRentCapNotice } from './rent-cap-helper'
+import { resolveCpiRegion } from './cpi'
+import { determineRentRegime, type RentRegimeDetermination } from './rent-control-jurisdictions'
+import { toAb1482ExemptionFacts, toNeighborhoodData, toPropertyMetrics } from './scoring-inputs'
+import { LISTING_STATUS_LABELS } from './property-history'
+import { parsePostgresPolygon } from './search-areas'
+import { formatPrice } from './format'
+import { PDF_CONTENT_WIDTH, renderPdf, type PdfBlock, type PdfColor, type PdfShape } from './pdf'
+
+type PropertyRow = Database['public']['Tables']['properties']['Row']
+
+export interface DealMemoInputs {
+  details: PropertyDetails
+  boundaries: [number, number][][] // Outer rings of the property's neighborhood, [latitude, longitude]
+}
+
+const PROPERTY_TYPE_LABELS: Record<PropertyRow['property_type'], string> = {
+  single_family: 'Single family',
+  condo: 'Condo',
+  townhouse: 'Townhouse',
+  multi_family: 'Multi-family'
+}
+
+const REGIME_LABELS: Record<RentRegimeDetermination['regime'], string> = {
+  local: 'Local rent control',
+  ab1482: 'AB 1482 statewide cap',
+  none: 'No rent cap'
+}
+
+const MAP_HEIGHT = 260
+const MAP_LEGEND_HEIGHT = 14
+const MAP_PADDING = 0.08 // Share of the framed extent added around it
+const MIN_MAP_SPAN_DEGREES = 0.01 // ~0.7 mi, for a property with nothing around it
+const MILES_PER_DEGREE_LATITUDE = 69.05
+const SCALE_BAR_MAX_WIDTH = 100
+const SCALE_BAR_MILES = [0.05, 0.1, 0.25, 0.5, 1, 2, 5, 10]
+
+const MAP_COLORS: Record<'background' | 'frame' | 'boundaryFill' | 'boundary' | 'nearby' | 'comp' | 'subject' | 'white' | 'label', PdfColor> = {
+  background: [0.96, 0.97, 0.98],
+  frame: [0.8, 0.82, 0.85],
+  boundaryFill: [0.87, 0.92, 0.98],
+  boundary: [0.35, 0.55, 0.85],
+  nearby: [0.62, 0.64, 0.67],
+  comp: [0.15, 0.39, 0.92],
+  subject: [0.86, 0.15, 0.15],
+  white: [1, 1, 1],
+  label: [0.3, 0.3, 0.3]
+}
+
+/**
+ * Load a property and its neighborhood boundary for a memo; null when the property doesn't exist
+ */
+export async function fetchDealMemoInputs(
+  id: string,
+  client: SupabaseClient = supabase
+): Promise<DealMemoInputs | null> {
+  const details = await fetchPropertyDetails(id, client)
+  if (!details) return null
+
+  const neighborhoodId = details.property.neighborhood_id
+  if (!neighborhoodId) return { details, boundaries: [] }
+
+  const { data, error } = await client
+    .from('neighborhood_boundaries')
+    .select('ring')
+    .eq('neighborhood_id', neighborhoodId)
+    .eq('is_hole', false)
+  if (error) throw error
+
+  const rings = (data || []) as Pick<Database['public']['Tables']['neighborhood_boundaries']['Row'], 'ring'>[]
+  return { details, boundaries: rings.map(row => parsePostgresPolygon(row.ring)).filter(ring => ring.length >= 3) }
+}
+
+/**
+ * Render the memo PDF
+ */
+export function renderDealMemo({ details, boundaries }: DealMemoInputs, now: Date = new Date()): Buffer {
+  const { property, neighborhood, units, rentEstimate, dealScore, history } = details
+  const metrics = toPropertyMetrics(property, units)
+  const estimatedRent = rentEstimate.estimatedRent
+  const exemptionFacts = toAb1482ExemptionFacts(property)
+  const rentCapNotice = generateRentCapNotice(
+    estimatedRent,
+    { ...exemptionFacts, yearBuilt: property.year_built, propertyType: property.property_type },
+    { region: resolveCpiRegion(property.city) }
+  )
+  const rentRegime = determineRentRegime({
+    ...exemptionFacts,
+    city: property.city,
+    zipCode: property.zip_code,
+    yearBuilt: property.year_built,
+    propertyType: property.property_type,
+    unitCount: units.length || undefined
+  })
+  const recommendation = dealScore && neighborhood
+    ? generateInvestmentRecommendation(dealScore, metrics, toNeighborhoodData(neighborhood))
+    : null
+
+  const blocks: PdfBlock[] = [
+    { type: 'heading', text: property.address, size: 20 },
+    {
+      type: 'text',
+      text: `${property.city}, ${property.state} ${property.zip_code}${neighborhood ? ` · ${neighborhood.name}` : ''}`,
+      color: MAP_COLORS.label
+    },
+    { type: 'text', text: `Deal memo prepared ${now.toLocaleDateString('en-US', { dateStyle: 'long' })}`, size: 8, color: MAP_COLORS.label },
+    { type: 'spacer', height: 6 },
+
+    { type: 'heading', text: 'Listing' },
+    {
+      type: 'table',
+      rows: [
+        ['Price', formatPrice(property.price)],
+        ['Price per sqft', formatPrice(property.price_per_sqft)],
+        ['Beds / baths', `${property.beds} bed, ${property.baths} bath`],
+        ['Size', `${property.sqft.toLocaleString()} sqft`],
+        ['Year built', String(property.year_built)],
+        ['Property type', PROPERTY_TYPE_LABELS[property.property_type]],
+        ['Listing status', LISTING_STATUS_LABELS[property.listing_status]],
+        ['Days on market', String(history.daysOnMarket)],
+        ['Estimated market rent', `${formatPrice(estimatedRent)}/mo (${formatPrice(rentEstimate.lowRent)}-${formatPrice(rentEstimate.highRent)})`],
+        ['Rent estimate basis', `${RENT_ESTIMATE_METHOD_LABELS[rentEstimate.method]}, ${rentEstimate.confidence} confidence`]
+      ]
+    },
+
+    { type: 'heading', text: 'Deal Score' },
+    ...dealScoreBlocks(details),
+
+    { type: 'heading', text: 'Recommendation' },
+    ...(recommendation
+      ? [
+          { type: 'text', text: recommendation.recommendation, bold: true },
+          { type: 'text', text: recommendation.reasoning },
+          { type: 'text', text: 'Risks', bold: true },
+          { type: 'list', items: recommendation.risks.length > 0 ? recommendation.risks : ['None identified'] },
+          { type: 'text', text: 'Opportunities', bold: true },
+          { type: 'list', items: recommendation.opportunities.length > 0 ? recommendation.opportunities : ['None identified'] }
+        ] satisfies PdfBlock[]
+      : [{ type: 'text', text: 'No neighborhood baseline for this property yet, so there is no recommendation.' } satisfies PdfBlock]),
+
+    { type: 'heading', text: 'Rent Cap' },
+    {
+      type: 'table',
+      rows: [
+        ['Regime', rentRegime.regime === 'local' ? `${rentRegime.jurisdiction!.name} rent control` : REGIME_LABELS[rentRegime.regime]],
+        ['Max annual increase', rentRegime.maxIncreasePercentage === null ? 'Uncapped' : `${rentRegime.maxIncreasePercentage.toFixed(1)}%`],
+        ['Just cause required', rentRegime.justCauseRequired ? 'Yes' : 'No'],
+        ...(rentRegime.citation ? [['Citation', rentRegime.citation] as [string, string]] : [])
+      ]
+    },
+    { type: 'list', items: rentRegime.reasons },
+    { type: 'text', text: 'AB 1482 notice', bold: true },
+    { type: 'text', text: rentCapNotice.notice, size: 9 },
+    ...(rentCapNotice.complianceNotes.length > 0
+      ? [{ type: 'list', items: rentCapNotice.complianceNotes, size: 9 } satisfies PdfBlock]
+      : []),
+
+    { type: 'heading', text: 'Location' },
+    { type: 'drawing', height: MAP_HEIGHT + MAP_LEGEND_HEIGHT, shapes: mapSnapshot(details, boundaries) }
+  ]
+
+  return renderPdf(blocks, {
+    title: `Deal memo: ${property.address}, ${property.city}`,
+    footer: `CalReal Deals · ${property.address}, ${property.city}`
+  })
+}
+
+/**
+ * Download file name for a property's memo
+ */
+export function toDealMemoFilename(property: Pick<PropertyRow, 'address' | 'city'>): string {
+  const slug = `${property.address} ${property.city}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `deal-memo-${slug || 'property'}.pdf`
+}
+
+function dealScoreBlocks({ property, dealScore }: PropertyDetails): PdfBlock[] {
+  if (!dealScore) {
+    return [{ type: 'text', text: 'This property has not been scored yet.' }]
+  }
+
+  const category = getDealScoreCategory(dealScore.totalScore)
+  const estimate = dealScore.marketValueEstimate
+  const rows: [string, string][] = dealScore.breakdown.map(item => [item.component, `${item.score.toFixed(1)} / ${item.maxScore}`])
+  if (estimate) {
+    rows.push([
+      'Comparable sales estimate',
+      `${formatPrice(estimate.estimatedValue)} (${formatPrice(estimate.lowValue)} - ${formatPrice(estimate.highValue)}, ` +
+        `${estimate.confidence} confidence, ${estimate.comps.length} comps)`
+    ])
+  }
+
+  return [
+    { type: 'text', text: `${dealScore.totalScore.toFixed(1)} / 100 · ${category.category}`, size: 14, bold: true },
+    { type: 'text', text: category.description },
+    { type: 'table', rows },
+    { type: 'list', items: dealScore.breakdown.map(item => `${item.component}: ${item.explanation}`), size: 9 },
+    {
+      type: 'text',
+      text: `Scoring algorithm ${dealScore.algorithmVersion}, profile ${dealScore.profileId} v${dealScore.profileVersion}` +
+        (property.deal_scored_at ? `, scored ${new Date(property.deal_scored_at).toLocaleDateString('en-US')}` : ''),
+      size: 8,
+      color: MAP_COLORS.label
+    }
+  ]
+}
+
+// Equirectangular projection framing the boundary, the property and its comps
+function mapSnapshot({ property, dealScore, nearbyProperties }: PropertyDetails, boundaries: [number, number][][]): PdfShape[] {
+  const subject: [number, number] = [property.latitude, property.longitude]
+  const comps = (dealScore?.marketValueEstimate?.comps ?? [])
+    .map(comp => [comp.property.latitude, comp.property.longitude] as [number, number])
+  const compIds = new Set(dealScore?.marketValueEstimate?.comps.map(comp => comp.property.id) ?? [])
+  const nearby = nearbyProperties
+    .filter(nearbyProperty => nearbyProperty.id !== property.id && !compIds.has(nearbyProperty.id))
+    .map(nearbyProperty => [nearbyProperty.latitude, nearbyProperty.longitude] as [number, number])
+
+  const framed = [subject, ...comps, ...boundaries.flat()]
+  const latitudes = framed.map(([latitude]) => latitude)
+  const longitudes = framed.map(([, longitude]) => longitude)
+  const cosLatitude = Math.cos((property.latitude * Math.PI) / 180)
+
+  const latSpan = Math.max(Math.max(...latitudes) - Math.min(...latitudes), MIN_MAP_SPAN_DEGREES) * (1 + 2 * MAP_PADDING)
+  const lngSpan = Math.max(Math.max(...longitudes) - Math.min(...longitudes), MIN_MAP_SPAN_DEGREES / cosLatitude) * (1 + 2 * MAP_PADDING)
+  const centerLat = (Math.max(...latitudes) + Math.min(...latitudes)) / 2
+  const centerLng = (Math.max(...longitudes) + Math.min(...longitudes)) / 2
+
+  // Points per degree of latitude; longitude degrees shrink by cos(latitude)
+  const scale = Math.min(MAP_HEIGHT / latSpan, PDF_CONTENT_WIDTH / (lngSpan * cosLatitude))
+  const project = ([latitude, longitude]: [number, number]): [number, number] => [
+    PDF_CONTENT_WIDTH / 2 + (longitude - centerLng) * cosLatitude * scale,
+    MAP_HEIGHT / 2 - (latitude - centerLat) * scale
+  ]
+  const isInFrame = ([x, y]: [number, number]) => x >= 0 && x <= PDF_CONTENT_WIDTH && y >= 0 && y <= MAP_HEIGHT
+
+  const scaleMiles = [...SCALE_BAR_MILES].reverse()
+    .find(miles => (miles / MILES_PER_DEGREE_LATITUDE) * scale <= SCALE_BAR_MAX_WIDTH) ?? SCALE_BAR_MILES[0]
+  const scaleWidth = (scaleMiles / MILES_PER_DEGREE_LATITUDE) * scale
+
+  return [
+    {
+      type: 'polygon',
+      points: [[0, 0], [PDF_CONTENT_WIDTH, 0], [PDF_CONTENT_WIDTH, MAP_HEIGHT], [0, MAP_HEIGHT]],
+      fill: MAP_COLORS.background,
+      stroke: MAP_COLORS.frame
+    },
+    ...boundaries.map(ring => ({
+      type: 'polygon' as const,
+      points: ring.map(project),
+      fill: MAP_COLORS.boundaryFill,
+      stroke: MAP_COLORS.boundary,
+      lineWidth: 1.25
+    })),
+    ...nearby.map(project).filter(isInFrame)
+      .map(center => ({ type: 'circle' as const, center, radius: 2, fill: MAP_COLORS.nearby })),
+    ...comps.map(project)
+      .map(center => ({ type: 'circle' as const, center, radius: 3.5, fill: MAP_COLORS.comp, stroke: MAP_COLORS.white })),
+    { type: 'circle', center: project(subject), radius: 5.5, fill: MAP_COLORS.subject, stroke: MAP_COLORS.white },
+    { type: 'line', from: [12, MAP_HEIGHT - 14], to: [12 + scaleWidth, MAP_HEIGHT - 14], stroke: MAP_COLORS.label, lineWidth: 2 },
+    { type: 'text', position: [12, MAP_HEIGHT - 18], text: `${scaleMiles} mi`, size: 7, color: MAP_COLORS.label },
+    {
+      type: 'text',
+      position: [PDF_CONTENT_WIDTH - 8, 12],
+      text: `${property.latitude.toFixed(5)}, ${property.longitude.toFixed(5)}`,
+      size: 7,
+      color: MAP_COLORS.label,
+      align: 'right'
+    },
+    {
+      type: 'text',
+      position: [0, MAP_HEIGHT + 11],
+      text: 'Red: this property · Blue: comparable sales · Gray: other listings in the neighborhood · Outline: neighborhood boundary',
+      size: 8,
+      color: MAP_COLORS.label
+    }
+  ]
+}
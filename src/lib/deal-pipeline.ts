@@ -0,0 +1,56 @@
+/**
+ * Saved Deal Pipeline
+ *
+ * Status lifecycle for saved deals. Deals move one stage at a time (forward,
+ * or back a stage if a step falls through) and can be rejected from any
+ * active stage; a rejected deal can only be reopened as Saved.
+ */
+
+import type { Database } from './supabase'
+
+export type DealStatus = Database['public']['Tables']['saved_deals']['Row']['status']
+
+export const DEAL_STATUSES: DealStatus[] = ['saved', 'contacted', 'visited', 'made_offer', 'rejected']
+
+export const DEAL_STATUS_LABELS: Record<DealStatus, string> = {
+  saved: 'Saved',
+  contacted: 'Contacted',
+  visited: 'Visited',
+  made_offer: 'Made Offer',
+  rejected: 'Rejected'
+}
+
+export const DEAL_STATUS_TRANSITIONS: Record<DealStatus, DealStatus[]> = {
+  saved: ['contacted', 'rejected'],
+  contacted: ['saved', 'visited', 'rejected'],
+  visited: ['contacted', 'made_offer', 'rejected'],
+  made_offer: ['visited', 'rejected'],
+  rejected: ['saved']
+}
+
+export class DealTransitionError extends Error {
+  constructor(
+    public readonly from: DealStatus,
+    public readonly to: DealStatus
+  ) {
+    const allowed = DEAL_STATUS_TRANSITIONS[from].map(status => DEAL_STATUS_LABELS[status]).join(' or ')
+    super(`Cannot move a deal from ${DEAL_STATUS_LABELS[from]} to ${DEAL_STATUS_LABELS[to]}; it can only move to ${allowed}`)
+    this.name = 'DealTransitionError'
+  }
+}
+
+/**
+ * Whether a deal may move directly between two statuses
+ */
+export function canTransitionDeal(from: DealStatus, to: DealStatus): boolean {
+  return DEAL_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * Throw a DealTransitionError unless the move is allowed
+ */
+export function assertDealTransition(from: DealStatus, to: DealStatus): void {
+  if (!canTransitionDeal(from, to)) {
+    throw new DealTransitionError(from, to)
+  }
+}
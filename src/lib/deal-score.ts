@@ -1,6 +1,23 @@
-import { calculateRentStabilizationBoost } from './rent-cap-helper'
+import { checkRentCapEligibility, evaluateAb1482Exemptions, type Ab1482ExemptionFacts } from './rent-cap-helper'
+import { determineRentRegime, type RentRegimeDetermination } from './rent-control-jurisdictions'
+import { estimateMarketValue, type ComparableSale, type MarketValueEstimate } from './comps'
+import { DEFAULT_SCORING_PROFILE, type PointsBucket, type ScoringProfile, type ScoringThresholds } from './scoring-profiles'
+import type { MarketCondition } from './market-trends'
+import { analyzeUnitMix, type PropertyUnit, type UnitMixAnalysis } from './property-units'
+import { resolveCpiRegion } from './cpi'
+import { estimateMarketRent, type RentalComp } from './rent-estimate'
+import { calculateRentStabilizationValue, type RentStabilizationInput, type RentStabilizationValue } from './rent-stabilization'
+
+/**
+ * Bump whenever scoring logic changes so stored scores can be identified and recomputed
+ */
+export const DEAL_SCORE_ALGORITHM_VERSION = '2.4.0'
 
 export interface PropertyMetrics {
+  id?: string
+  address?: string
+  city?: string
+  zipCode?: string
   price: number
   sqft: number
   beds: number
@@ -9,6 +26,8 @@ export interface PropertyMetrics {
   propertyType: 'single_family' | 'condo' | 'townhouse' | 'multi_family'
   latitude: number
   longitude: number
+  ab1482Facts?: Ab1482ExemptionFacts
+  units?: PropertyUnit[] // Rent roll of a multi-family building, when known
 }
 
 export interface NeighborhoodData {
@@ -19,27 +38,53 @@ export interface NeighborhoodData {
   avgBaths: number
   avgYearBuilt: number
   priceAppreciationRate?: number
+  priceMomentum?: number // YoY % change in median $/sqft from market_trends; preferred over priceAppreciationRate
+  marketCondition?: MarketCondition
   rentalYield?: number
   walkScore?: number
   transitScore?: number
   crimeRate?: number
   schoolRating?: number
+  rentalComps?: RentalComp[] // Recent leases that calibrate the market rent estimate
+}
+
+export interface ScoreComponent {
+  component: string
+  score: number
+  maxScore: number
+  explanation: string
+  comps?: ComparableSale[]
+  rentStabilization?: RentStabilizationValue
 }
 
 export interface DealScoreBreakdown {
   totalScore: number
   priceAdvantage: number
+  comparableSalesScore: number
   sizeAdvantage: number
   ageAdvantage: number
   rentStabilizationBonus: number
   locationBonus: number
   marketTimingBonus: number
-  breakdown: {
-    component: string
-    score: number
-    maxScore: number
-    explanation: string
-  }[]
+  marketValueEstimate: MarketValueEstimate | null
+  rentStabilization: RentStabilizationValue | null // Null when the component is disabled
+  unitMix?: UnitMixAnalysis // Multi-family buildings with a rent roll
+  algorithmVersion: string
+  profileId: string
+  profileVersion: number
+  breakdown: ScoreComponent[]
+}
+
+// Native point scales of the component calculators, rescaled to profile weights
+const SIZE_NATIVE_MAX_SCORE = 15
+const AGE_AND_RENT_NATIVE_MAX_SCORE = 25
+const LOCATION_NATIVE_MAX_SCORE = 10
+const MARKET_TIMING_NATIVE_MAX_SCORE = 10
+
+const MARKET_CONDITION_PHRASES: Record<MarketCondition, string> = {
+  sellers: "seller's market",
+  balanced: 'balanced market',
+  buyers: "buyer's market"
 }
 
 /**
@@ -49,90 +94,183 @@ export interface DealScoreBreakdown {
 export function calculateDealScore(
   property: PropertyMetrics,
   neighborhood: NeighborhoodData,
-  nearbyProperties?: PropertyMetrics[]
+  nearbyProperties?: PropertyMetrics[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
 ): DealScoreBreakdown {
-  const breakdown: { component: string; score: number; maxScore: number; explanation: string }[] = []
-  let totalScore = 0
-
-  // 1. Price Advantage (40 points)
-  const priceAdvantage = calculatePriceAdvantage(property, neighborhood)
-  breakdown.push({
-    component: 'Price Advantage',
-    score: priceAdvantage,
-    maxScore: 40,
-    explanation: `Property at $${(property.price / property.sqft).toFixed(0)}/sqft vs neighborhood avg $${neighborhood.medianPricePerSqft.toFixed(0)}/sqft`
-  })
-  totalScore += priceAdvantage
-
-  // 2. Size & Layout Advantage (15 points)
-  const sizeAdvantage = calculateSizeAdvantage(property, neighborhood)
-  breakdown.push({
-    component: 'Size & Layout',
-    score: sizeAdvantage,
-    maxScore: 15,
-    explanation: `${property.beds}bed/${property.baths}bath, ${property.sqft}sqft vs neighborhood averages`
-  })
-  totalScore += sizeAdvantage
-
-  // 3. Age & Rent Stabilization (25 points)
-  const ageAdvantage = calculateAgeAdvantage(property, neighborhood)
-  const rentStabilizationBonus = calculateRentStabilizationBonusValue(property, neighborhood)
-  breakdown.push({
-    component: 'Age & Rent Stabilization',
-    score: ageAdvantage + rentStabilizationBonus,
-    maxScore: 25,
-    explanation: `Built ${property.yearBuilt}, rent stabilization bonus: ${rentStabilizationBonus.toFixed(1)}pts`
-  })
-  totalScore += ageAdvantage + rentStabilizationBonus
-
-  // 4. Location & Amenities (10 points)
-  const locationBonus = calculateLocationBonus(neighborhood)
-  breakdown.push({
-    component: 'Location & Amenities',
-    score: locationBonus,
-    maxScore: 10,
-    explanation: `Walk score: ${neighborhood.walkScore || 'N/A'}, schools: ${neighborhood.schoolRating || 'N/A'}`
-  })
-  totalScore += locationBonus
-
-  // 5. Market Timing (10 points)
-  const marketTimingBonus = calculateMarketTimingBonus(neighborhood)
-  breakdown.push({
-    component: 'Market Timing',
-    score: marketTimingBonus,
-    maxScore: 10,
-    explanation: `Market appreciation: ${neighborhood.priceAppreciationRate || 'N/A'}%, rental yield: ${neighborhood.rentalYield || 'N/A'}%`
-  })
-  totalScore += marketTimingBonus
+  const breakdown: ScoreComponent[] = []
+  const { weights, enabledComponents: enabled, thresholds } = profile
+
+  const marketValueEstimate = enabled.comparableSales && nearbyProperties?.length
+    ? estimateMarketValue(property, nearbyProperties)
+    : null
+
+  // 1. Price Advantage (absorbs the comparable sales weight when no comps are found)
+  let priceAdvantage = 0
+  if (enabled.priceAdvantage) {
+    const priceMaxScore = weights.priceAdvantage + (marketValueEstimate || !enabled.comparableSales ? 0 : weights.comparableSales)
+    priceAdvantage = calculatePriceAdvantage(property, neighborhood, priceMaxScore, thresholds)
+    breakdown.push({
+      component: 'Price Advantage',
+      score: priceAdvantage,
+      maxScore: priceMaxScore,
+      explanation: `Property at $${(property.price / property.sqft).toFixed(0)}/sqft vs neighborhood avg $${neighborhood.medianPricePerSqft.toFixed(0)}/sqft`
+    })
+  }
+
+  // 1b. Comparable Sales (only when enough comps are found)
+  let comparableSalesScore = 0
+  if (marketValueEstimate) {
+    comparableSalesScore = calculateComparableSalesScore(property, marketValueEstimate, weights.comparableSales, thresholds)
+    breakdown.push({
+      component: 'Comparable Sales',
+      score: comparableSalesScore,
+      maxScore: weights.comparableSales,
+      explanation: `Estimated value $${Math.round(marketValueEstimate.estimatedValue).toLocaleString()} ($${Math.round(marketValueEstimate.lowValue).toLocaleString()}-$${Math.round(marketValueEstimate.highValue).toLocaleString()}) from ${marketValueEstimate.comps.length} comps, ${marketValueEstimate.confidence} confidence`,
+      comps: marketValueEstimate.comps
+    })
+  }
+
+  const rentRegime = resolveRentRegime(property)
+  const marketRent = estimateMarketRent(property, neighborhood).estimatedRent
+  const unitMix = property.propertyType === 'multi_family' && property.units?.length
+    ? analyzeUnitMix(property.units, {
+        price: property.price,
+        yearBuilt: property.yearBuilt,
+        marketRent,
+        rentRegime,
+        certificateOfOccupancyDate: property.ab1482Facts?.certificateOfOccupancyDate,
+        cpiRegion: rentRegime.jurisdiction?.cpiRegion ?? resolveCpiRegion(property.city)
+      })
+    : undefined
+
+  // 2. Size & Layout Advantage (per-unit metrics for multi-family buildings with a rent roll)
+  let sizeAdvantage = 0
+  if (enabled.sizeAdvantage && unitMix) {
+    sizeAdvantage = scaleScore(calculateUnitMixAdvantage(unitMix, neighborhood), SIZE_NATIVE_MAX_SCORE, weights.sizeAdvantage)
+    breakdown.push({
+      component: 'Unit Mix',
+      score: sizeAdvantage,
+      maxScore: weights.sizeAdvantage,
+      explanation: describeUnitMix(unitMix)
+    })
+  } else if (enabled.sizeAdvantage) {
+    sizeAdvantage = scaleScore(calculateSizeAdvantage(property, neighborhood), SIZE_NATIVE_MAX_SCORE, weights.sizeAdvantage)
+    breakdown.push({
+      component: 'Size & Layout',
+      score: sizeAdvantage,
+      maxScore: weights.sizeAdvantage,
+      explanation: `${property.beds}bed/${property.baths}bath, ${property.sqft}sqft vs neighborhood averages`
+    })
+  }
+
+  // 3. Age & Rent Stabilization
+  let ageAdvantage = 0
+  let rentStabilizationBonus = 0
+  let rentStabilization: RentStabilizationValue | null = null
+  if (enabled.ageAndRentStabilization) {
+    const weight = weights.ageAndRentStabilization
+    ageAdvantage = scaleScore(calculateAgeAdvantage(property, neighborhood), AGE_AND_RENT_NATIVE_MAX_SCORE, weight)
+    rentStabilization = calculateRentStabilizationValue(toRentStabilizationInput(rentRegime, marketRent, unitMix))
+    rentStabilizationBonus = scaleScore(rentStabilization.score, AGE_AND_RENT_NATIVE_MAX_SCORE, weight)
+    breakdown.push({
+      component: 'Age & Rent Stabilization',
+      score: ageAdvantage + rentStabilizationBonus,
+      maxScore: weight,
+      explanation: `Built ${property.yearBuilt}, ${rentStabilization.reasoning}`,
+      rentStabilization
+    })
+  }
+
+  // 4. Location & Amenities
+  let locationBonus = 0
+  if (enabled.locationBonus) {
+    locationBonus = scaleScore(calculateLocationBonus(neighborhood, thresholds), LOCATION_NATIVE_MAX_SCORE, weights.locationBonus)
+    breakdown.push({
+      component: 'Location & Amenities',
+      score: locationBonus,
+      maxScore: weights.locationBonus,
+      explanation: `Walk score: ${neighborhood.walkScore || 'N/A'}, schools: ${neighborhood.schoolRating || 'N/A'}`
+    })
+  }
+
+  // 5. Market Timing
+  let marketTimingBonus = 0
+  if (enabled.marketTiming) {
+    marketTimingBonus = scaleScore(calculateMarketTimingBonus(neighborhood), MARKET_TIMING_NATIVE_MAX_SCORE, weights.marketTiming)
+    breakdown.push({
+      component: 'Market Timing',
+      score: marketTimingBonus,
+      maxScore: weights.marketTiming,
+      explanation: describeMarketTiming(neighborhood)
+    })
+  }
+
+  // Normalize so profiles whose weights don't sum to 100 still score 0-100
+  const rawScore = breakdown.reduce((sum, item) => sum + item.score, 0)
+  const maxScore = breakdown.reduce((sum, item) => sum + item.maxScore, 0)
+  const totalScore = maxScore > 0 ? (rawScore / maxScore) * 100 : 0
 
   return {
     totalScore: Math.min(100, Math.max(0, totalScore)),
     priceAdvantage,
+    comparableSalesScore,
     sizeAdvantage,
     ageAdvantage,
     rentStabilizationBonus,
     locationBonus,
     marketTimingBonus,
+    marketValueEstimate,
+    rentStabilization,
+    unitMix,
+    algorithmVersion: DEAL_SCORE_ALGORITHM_VERSION,
+    profileId: profile.id,
+    profileVersion: profile.version,
     breakdown
   }
 }
 
+/**
+ * Rescale a component score from its native point scale to the profile weight
+ */
+function scaleScore(score: number, nativeMaxScore: number, weight: number): number {
+  return (score / nativeMaxScore) * weight
+}
+
 /**
  * Calculate price advantage based on neighborhood comparison
  */
-function calculatePriceAdvantage(property: PropertyMetrics, neighborhood: NeighborhoodData): number {
+function calculatePriceAdvantage(
+  property: PropertyMetrics,
+  neighborhood: NeighborhoodData,
+  maxScore: number,
+  thresholds: ScoringThresholds
+): number {
   const propertyPricePerSqft = property.price / property.sqft
   const priceRatio = propertyPricePerSqft / neighborhood.medianPricePerSqft
-  
-  // Score: 0-40 points (lower price = higher score)
-  if (priceRatio <= 0.8) return 40 // 20%+ below market
-  if (priceRatio <= 0.9) return 35 // 10-20% below market
-  if (priceRatio <= 0.95) return 30 // 5-10% below market
-  if (priceRatio <= 1.0) return 25 // At or slightly below market
-  if (priceRatio <= 1.05) return 20 // 0-5% above market
-  if (priceRatio <= 1.1) return 15 // 5-10% above market
-  if (priceRatio <= 1.2) return 10 // 10-20% above market
-  return 5 // 20%+ above market
+
+  return scorePriceRatio(priceRatio, thresholds) * maxScore
+}
+
+/**
+ * Calculate comparable sales score from list price vs comps-estimated value
+ */
+function calculateComparableSalesScore(
+  property: PropertyMetrics,
+  estimate: MarketValueEstimate,
+  maxScore: number,
+  thresholds: ScoringThresholds
+): number {
+  const priceRatio = property.price / estimate.estimatedValue
+
+  return scorePriceRatio(priceRatio, thresholds) * maxScore
+}
+
+/**
+ * Fraction of the price weight earned by a price-to-market ratio (lower price = higher score)
+ */
+function scorePriceRatio(priceRatio: number, thresholds: ScoringThresholds): number {
+  const bucket = thresholds.priceRatioBuckets.find(b => priceRatio <= b.maxRatio)
+  return bucket ? bucket.fraction : thresholds.priceRatioFloorFraction
 }
 
 /**
@@ -161,6 +299,46 @@ function calculateSizeAdvantage(property: PropertyMetrics, neighborhood: Neighbo
   return Math.min(15, Math.max(0, score))
 }
 
+/**
+ * Calculate per-unit advantage of a multi-family building from its rent roll
+ */
+function calculateUnitMixAdvantage(unitMix: UnitMixAnalysis, neighborhood: NeighborhoodData): number {
+  let score = 6 // Base score
+
+  // Price per door vs a typical home in the neighborhood
+  const doorRatio = unitMix.pricePerDoor / neighborhood.medianPrice
+  if (doorRatio <= 0.4) score += 3 // A door for under 40% of a home
+  else if (doorRatio <= 0.6) score += 2
+  else if (doorRatio <= 0.8) score += 1
+  else if (doorRatio > 1) score -= 2 // Paying more per unit than for a whole home
+
+  // Gross rent multiplier on in-place rents
+  const grm = unitMix.grossRentMultiplier
+  if (grm !== null) {
+    if (grm <= 12) score += 3 // Strong in-place income
+    else if (grm <= 15) score += 2
+    else if (grm <= 18) score += 1
+    else if (grm > 22) score -= 1 // Priced well ahead of the rent roll
+  }
+
+  // Loss-to-lease the rent cap lets an owner recover within the projection
+  const recoverable = unitMix.rentCapUpside.annualIncrease / 12
+  const recoverableShare = unitMix.monthlyMarketRent > 0 ? recoverable / unitMix.monthlyMarketRent : 0
+  if (recoverableShare >= 0.2) score += 2
+  else if (recoverableShare >= 0.1) score += 1
+
+  // Vacancy beyond normal turnover
+  if (unitMix.occupancyRate < 75) score -= 2
+  else if (unitMix.occupancyRate < 90) score -= 1
+
+  return Math.min(15, Math.max(0, score))
+}
+
+function describeUnitMix(unitMix: UnitMixAnalysis): string {
+  const grm = unitMix.grossRentMultiplier !== null ? unitMix.grossRentMultiplier.toFixed(1) : 'N/A'
+  return `${unitMix.unitCount} units at $${Math.round(unitMix.pricePerDoor).toLocaleString()}/door, GRM ${grm}, loss-to-lease ${unitMix.lossToLeasePercentage.toFixed(0)}%, ${unitMix.occupancyRate.toFixed(0)}% occupied`
+}
+
 /**
  * Calculate age advantage and rent stabilization potential
  */
@@ -185,58 +363,112 @@ function calculateAgeAdvantage(property: PropertyMetrics, neighborhood: Neighbor
 }
 
 /**
- * Calculate rent stabilization bonus value
+ * Rent streams the rent cap is valued on: the rent roll's in-place rents when there is one, else a vacant unit
  */
-function calculateRentStabilizationBonusValue(property: PropertyMetrics, neighborhood: NeighborhoodData): number {
-  const currentYear = new Date().getFullYear()
-  const propertyAge = currentYear - property.yearBuilt
-  
-  // Only properties 15+ years old qualify for AB 1482
-  if (propertyAge < 15) return 0
-  
-  // Calculate bonus based on rent stabilization value
-  const estimatedMarketRent = (property.price * 0.008) / 12 // Rough 0.8% monthly rental rate
-  const rentStabilizationBoost = calculateRentStabilizationBoost(
-    property.yearBuilt,
-    estimatedMarketRent,
-    0.05 + 0.034 // 5% + inflation
-  )
-  
-  // Convert boost score to 0-10 point scale
-  return Math.min(10, rentStabilizationBoost.boostScore / 2)
+function toRentStabilizationInput(
+  regime: Pick<RentRegimeDetermination, 'regime' | 'maxIncreasePercentage'>,
+  marketRent: number,
+  unitMix: UnitMixAnalysis | undefined
+): RentStabilizationInput {
+  const capPercentage = regime.regime === 'none' ? null : regime.maxIncreasePercentage
+  if (!unitMix || unitMix.occupiedUnits === 0) {
+    return { scenario: 'vacant', marketRent, capPercentage }
+  }
+
+  // Vacant units lease at market, so they only dilute the in-place discount
+  const rentable = unitMix.units.filter(analysis => analysis.unit.occupancy !== 'owner_occupied')
+  return {
+    scenario: 'tenant_in_place',
+    currentRent: rentable.reduce((sum, analysis) => sum + (analysis.unit.occupancy === 'occupied' ? analysis.inPlaceRent : analysis.marketRent), 0),
+    marketRent: rentable.reduce((sum, analysis) => sum + analysis.marketRent, 0),
+    capPercentage
+  }
+}
+
+/**
+ * Rent regime governing a property; local ordinances are stricter than AB 1482 where they govern
+ */
+function resolveRentRegime(
+  property: PropertyMetrics
+): Pick<RentRegimeDetermination, 'regime' | 'jurisdiction' | 'maxIncreasePercentage'> {
+  // A rent roll tells us the unit count and whether the owner lives in one of the units
+  const facts: Ab1482ExemptionFacts = {
+    ...property.ab1482Facts,
+    ownerOccupiesUnit: property.ab1482Facts?.ownerOccupiesUnit ??
+      (property.units?.some(unit => unit.occupancy === 'owner_occupied') || undefined)
+  }
+  const unitCount = property.units?.length || undefined
+
+  if (property.city) {
+    return determineRentRegime({
+      ...facts,
+      city: property.city,
+      zipCode: property.zipCode,
+      yearBuilt: property.yearBuilt,
+      propertyType: property.propertyType,
+      unitCount
+    })
+  }
+
+  // Without a city, only the statewide AB 1482 exemptions can be checked
+  const exemptionCheck = evaluateAb1482Exemptions({
+    ...facts,
+    yearBuilt: property.yearBuilt,
+    propertyType: property.propertyType,
+    unitCount
+  })
+  const rentCapInfo = checkRentCapEligibility(property.yearBuilt, {
+    certificateOfOccupancyDate: facts.certificateOfOccupancyDate
+  })
+  return {
+    regime: exemptionCheck.isSubjectToAB1482 ? 'ab1482' : 'none',
+    jurisdiction: null,
+    maxIncreasePercentage: exemptionCheck.isSubjectToAB1482 ? rentCapInfo.maxIncreasePercentage : null
+  }
 }
 
 /**
  * Calculate location and amenities bonus
  */
-function calculateLocationBonus(neighborhood: NeighborhoodData): number {
-  let score = 5 // Base score
-  
+function calculateLocationBonus(neighborhood: NeighborhoodData, thresholds: ScoringThresholds): number {
+  const { location } = thresholds
+  let score = location.baseScore
+
   // Walkability
   if (neighborhood.walkScore) {
-    if (neighborhood.walkScore >= 90) score += 3 // Walker's Paradise
-    else if (neighborhood.walkScore >= 70) score += 2 // Very Walkable
-    else if (neighborhood.walkScore >= 50) score += 1 // Somewhat Walkable
+    score += pointsAtOrAbove(neighborhood.walkScore, location.walkScore)
   }
-  
+
   // Schools
   if (neighborhood.schoolRating) {
-    if (neighborhood.schoolRating >= 8) score += 2 // Excellent schools
-    else if (neighborhood.schoolRating >= 6) score += 1 // Good schools
+    score += pointsAtOrAbove(neighborhood.schoolRating, location.schoolRating)
   }
-  
+
   // Safety (inverse of crime rate)
   if (neighborhood.crimeRate) {
-    if (neighborhood.crimeRate <= 20) score += 2 // Very safe
-    else if (neighborhood.crimeRate <= 40) score += 1 // Safe
+    score += location.crimeRate.find(bucket => neighborhood.crimeRate! <= bucket.threshold)?.points ?? 0
   }
-  
+
   // Transit
   if (neighborhood.transitScore) {
-    if (neighborhood.transitScore >= 70) score += 1 // Good transit
+    score += pointsAtOrAbove(neighborhood.transitScore, location.transitScore)
   }
-  
-  return Math.min(10, Math.max(0, score))
+
+  return Math.min(LOCATION_NATIVE_MAX_SCORE, Math.max(0, score))
+}
+
+/**
+ * Points from the first bucket whose minimum threshold the value meets
+ */
+function pointsAtOrAbove(value: number, buckets: PointsBucket[]): number {
+  return buckets.find(bucket => value >= bucket.threshold)?.points ?? 0
+}
+
+/**
+ * Annual appreciation: observed price momentum when the neighborhood has trend history, else the static rate
+ */
+function getAppreciationRate(neighborhood: NeighborhoodData): number | undefined {
+  return neighborhood.priceMomentum ?? neighborhood.priceAppreciationRate
 }
 
 /**
@@ -246,12 +478,17 @@ function calculateMarketTimingBonus(neighborhood: NeighborhoodData): number {
   let score = 5 // Base score
   
   // Price appreciation potential
-  if (neighborhood.priceAppreciationRate) {
-    if (neighborhood.priceAppreciationRate >= 8) score += 3 // High appreciation
-    else if (neighborhood.priceAppreciationRate >= 5) score += 2 // Good appreciation
-    else if (neighborhood.priceAppreciationRate >= 3) score += 1 // Moderate appreciation
-    else if (neighborhood.priceAppreciationRate < 0) score -= 2 // Declining market
+  const appreciationRate = getAppreciationRate(neighborhood)
+  if (appreciationRate) {
+    if (appreciationRate >= 8) score += 3 // High appreciation
+    else if (appreciationRate >= 5) score += 2 // Good appreciation
+    else if (appreciationRate >= 3) score += 1 // Moderate appreciation
+    else if (appreciationRate < 0) score -= 2 // Declining market
   }
+
+  // Buyers have room to negotiate when inventory is high; sellers rarely discount when it is low
+  if (neighborhood.marketCondition === 'buyers') score += 1
+  else if (neighborhood.marketCondition === 'sellers') score -= 1
   
   // Rental yield
   if (neighborhood.rentalYield) {
@@ -262,51 +499,68 @@ function calculateMarketTimingBonus(neighborhood: NeighborhoodData): number {
   return Math.min(10, Math.max(0, score))
 }
 
-/**
- * Get deal score category
- */
-export function getDealScoreCategory(score: number): {
+function describeMarketTiming(neighborhood: NeighborhoodData): string {
+  const appreciation = neighborhood.priceMomentum !== undefined
+    ? `Price momentum: ${neighborhood.priceMomentum.toFixed(1)}% YoY`
+    : `Market appreciation: ${neighborhood.priceAppreciationRate || 'N/A'}%`
+  const condition = neighborhood.marketCondition ? `, ${MARKET_CONDITION_PHRASES[neighborhood.marketCondition]}` : ''
+  return `${appreciation}${condition}, rental yield: ${neighborhood.rentalYield || 'N/A'}%`
+}
+
+export interface DealScoreCategory {
+  minScore: number // Lowest total score in the category
   category: string
   color: string
   description: string
   recommendation: string
-} {
-  if (score >= 90) {
-    return {
-      category: 'Excellent Deal',
-      color: 'green',
-      description: 'Outstanding value with strong investment potential',
-      recommendation: 'Act quickly - these deals are rare and competitive'
-    }
-  } else if (score >= 80) {
-    return {
-      category: 'Great Deal',
-      color: 'blue',
-      description: 'Significantly undervalued with good fundamentals',
-      recommendation: 'Strong consideration - schedule viewing ASAP'
-    }
-  } else if (score >= 70) {
-    return {
-      category: 'Good Deal',
-      color: 'yellow',
-      description: 'Fairly priced with some advantages',
-      recommendation: 'Worth investigating further'
-    }
-  } else if (score >= 60) {
-    return {
-      category: 'Average Deal',
-      color: 'orange',
-      description: 'Market price with typical features',
-      recommendation: 'Consider if it meets specific needs'
-    }
-  } else {
-    return {
-      category: 'Poor Deal',
-      color: 'red',
-      description: 'Overpriced or lacking key features',
-      recommendation: 'Pass unless there are compelling reasons'
-    }
+}
+
+/**
+ * Deal score categories, best first
+ */
+export const DEAL_SCORE_CATEGORIES: DealScoreCategory[] = [
+  {
+    minScore: 90,
+    category: 'Excellent Deal',
+    color: 'green',
+    description: 'Outstanding value with strong investment potential',
+    recommendation: 'Act quickly - these deals are rare and competitive'
+  },
+  {
+    minScore: 80,
+    category: 'Great Deal',
+    color: 'blue',
+    description: 'Significantly undervalued with good fundamentals',
+    recommendation: 'Strong consideration - schedule viewing ASAP'
+  },
+  {
+    minScore: 70,
+    category: 'Good Deal',
+    color: 'yellow',
+    description: 'Fairly priced with some advantages',
+    recommendation: 'Worth investigating further'
+  },
+  {
+    minScore: 60,
+    category: 'Average Deal',
+    color: 'orange',
+    description: 'Market price with typical features',
+    recommendation: 'Consider if it meets specific needs'
+  },
+  {
+    minScore: 0,
+    category: 'Poor Deal',
+    color: 'red',
+    description: 'Overpriced or lacking key features',
+    recommendation: 'Pass unless there are compelling reasons'
   }
+]
+
+/**
+ * Get deal score category
+ */
+export function getDealScoreCategory(score: number): DealScoreCategory {
+  return DEAL_SCORE_CATEGORIES.find(category => score >= category.minScore) ?? DEAL_SCORE_CATEGORIES[DEAL_SCORE_CATEGORIES.length - 1]
 }
 
 /**
@@ -327,9 +581,18 @@ export function generateInvestmentRecommendation(
   const opportunities: string[] = []
   
   // Analyze risks
-  if (dealScore.priceAdvantage < 20) {
+  if (getComponentShare(dealScore, ['Price Advantage', 'Comparable Sales']) < 0.5) {
     risks.push('Property may be overpriced compared to neighborhood')
   }
+
+  const estimate = dealScore.marketValueEstimate
+  if (estimate && property.price > estimate.highValue) {
+    risks.push(`Listed above the comparable sales range (est. $${Math.round(estimate.estimatedValue).toLocaleString()})`)
+  }
+
+  if (estimate?.confidence === 'low') {
+    risks.push('Few close comparable sales - value estimate is uncertain')
+  }
   
   if (property.yearBuilt > (new Date().getFullYear() - 5)) {
     risks.push('New construction may have premium pricing')
@@ -339,20 +602,42 @@ export function generateInvestmentRecommendation(
     risks.push('Higher crime rate in area')
   }
   
-  if (neighborhood.priceAppreciationRate && neighborhood.priceAppreciationRate < 2) {
+  const appreciationRate = getAppreciationRate(neighborhood)
+  if (appreciationRate !== undefined && appreciationRate < 2) {
     risks.push('Low appreciation potential')
   }
+
+  const unitMix = dealScore.unitMix
+  if (unitMix && unitMix.vacantUnits > 0 && unitMix.occupancyRate < 90) {
+    risks.push(`${unitMix.vacantUnits} of ${unitMix.unitCount} units vacant`)
+  }
+
+  const rentStabilization = dealScore.rentStabilization
+  if (rentStabilization && rentStabilization.costPercentage >= 5) {
+    const { holdingPeriodYears } = rentStabilization.assumptions
+    risks.push(`Rent cap keeps rents below market, costing ${rentStabilization.costPercentage.toFixed(0)}% of rent value over ${holdingPeriodYears} years`)
+  }
   
   // Analyze opportunities
-  if (dealScore.rentStabilizationBonus > 5) {
-    opportunities.push('Rent stabilization provides predictable cash flow')
+  if (estimate && property.price < estimate.lowValue) {
+    const discount = (1 - property.price / estimate.estimatedValue) * 100
+    opportunities.push(`Listed ${discount.toFixed(0)}% below comparable sales estimate`)
+  }
+
+  if (unitMix && unitMix.rentCapUpside.annualIncrease > 0) {
+    const years = unitMix.rentCapUpside.years.length - 1
+    opportunities.push(`Rent roll can grow $${Math.round(unitMix.rentCapUpside.annualIncrease).toLocaleString()}/yr within rent caps over ${years} years`)
+  }
+
+  if (rentStabilization && rentStabilization.assumptions.capPercentage === null) {
+    opportunities.push('No rent cap - rents can be reset to market at each renewal')
   }
   
-  if (dealScore.locationBonus > 7) {
+  if (getComponentShare(dealScore, ['Location & Amenities']) > 0.7) {
     opportunities.push('Excellent location with strong amenities')
   }
   
-  if (neighborhood.priceAppreciationRate && neighborhood.priceAppreciationRate > 6) {
+  if (appreciationRate !== undefined && appreciationRate > 6) {
     opportunities.push('High neighborhood appreciation potential')
   }
   
@@ -360,7 +645,11 @@ export function generateInvestmentRecommendation(
     opportunities.push('Strong rental yield for investment')
   }
   
-  const reasoning = `Based on a ${dealScore.totalScore.toFixed(1)}/100 deal score, this property ${category.description.toLowerCase()}. Key factors include ${dealScore.breakdown[0].component.toLowerCase()} (${dealScore.breakdown[0].score.toFixed(1)}/${dealScore.breakdown[0].maxScore} points) and ${dealScore.breakdown[1].component.toLowerCase()} (${dealScore.breakdown[1].score.toFixed(1)}/${dealScore.breakdown[1].maxScore} points).`
+  const keyFactors = dealScore.breakdown
+    .slice(0, 2)
+    .map(item => `${item.component.toLowerCase()} (${item.score.toFixed(1)}/${item.maxScore} points)`)
+    .join(' and ')
+  const reasoning = `Based on a ${dealScore.totalScore.toFixed(1)}/100 deal score, this property ${category.description.toLowerCase()}. Key factors include ${keyFactors}.`
   
   return {
     recommendation: category.recommendation,
@@ -369,3 +658,13 @@ export function generateInvestmentRecommendation(
     opportunities
   }
 }
+
+/**
+ * Share of available points earned across the named breakdown components (0-1)
+ */
+function getComponentShare(dealScore: DealScoreBreakdown, components: string[]): number {
+  const items = dealScore.breakdown.filter(item => components.includes(item.component))
+  const maxScore = items.reduce((sum, item) => sum + item.maxScore, 0)
+
+  return maxScore > 0 ? items.reduce((sum, item) => sum + item.score, 0) / maxScore : 0
+}
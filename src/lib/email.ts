@@ -0,0 +1,97 @@
+/**
+ * Email Delivery
+ *
+ * Jobs send mail through the EmailSender interface so delivery can be swapped
+ * without touching them: Resend's HTTP API in production, an in-memory outbox
+ * for tests and local development. The outbox is never a silent fallback: it
+ * must be opted into with EMAIL_OUTBOX=1, and it doesn't count as delivery.
+ */
+
+export interface EmailMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface EmailSender {
+  readonly delivers: boolean // False when messages are only collected or logged, never sent
+  send(message: EmailMessage): Promise<void>
+}
+
+/**
+ * Email delivery isn't configured, so jobs that send mail can't run
+ */
+export class EmailConfigurationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'EmailConfigurationError'
+  }
+}
+
+/**
+ * Collects messages instead of sending them (tests, local development)
+ */
+export class OutboxEmailSender implements EmailSender {
+  readonly delivers = false
+  readonly messages: EmailMessage[] = []
+
+  constructor(private readonly log = false) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    this.messages.push(message)
+    if (this.log) {
+      console.log(`[email outbox] To: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`)
+    }
+  }
+}
+
+/**
+ * Sends through Resend's HTTP API (https://resend.com/docs/api-reference/emails/send-email)
+ */
+export class ResendEmailSender implements EmailSender {
+  readonly delivers = true
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly from: string
+  ) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        from: this.from,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Email to ${message.to} failed: ${response.status} ${await response.text()}`)
+    }
+  }
+}
+
+/**
+ * Sender configured from the environment: Resend when RESEND_API_KEY is set, a
+ * logging outbox only when EMAIL_OUTBOX=1 opts into it (local development)
+ * Throws EmailConfigurationError when neither is configured
+ */
+export function getEmailSender(): EmailSender {
+  const apiKey = process.env.RESEND_API_KEY
+  if (!apiKey) {
+    if (process.env.EMAIL_OUTBOX === '1') return new OutboxEmailSender(true)
+    throw new EmailConfigurationError('RESEND_API_KEY and EMAIL_FROM must be set (or EMAIL_OUTBOX=1 to log email locally)')
+  }
+
+  const from = process.env.EMAIL_FROM
+  if (!from) throw new EmailConfigurationError('EMAIL_FROM must be set when RESEND_API_KEY is set')
+  return new ResendEmailSender(apiKey, from)
+}
@@ -0,0 +1,18 @@
+/**
+ * Format a dollar amount without cents, e.g. $1,250,000
+ */
+export function formatPrice(price: number): string {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    maximumFractionDigits: 0,
+  }).format(price)
+}
+
+/**
+ * Format a percent change with its sign, e.g. +3.2%; N/A when unknown
+ */
+export function formatPercentChange(change: number | null): string {
+  if (change === null) return 'N/A'
+  return `${change > 0 ? '+' : ''}${change.toFixed(1)}%`
+}
@@ -0,0 +1,10 @@
+/**
+ * Check the shared secret on scheduled job / batch API requests
+ * Accepts `Authorization: Bearer <CRON_SECRET>` (the Vercel Cron convention)
+ */
+export function isAuthorizedJobRequest(request: Request): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  return request.headers.get('authorization') === `Bearer ${secret}`
+}
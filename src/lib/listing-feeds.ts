@@ -0,0 +1,352 @@
+/**
+ * Listing Feeds
+ *
+ * Parses CSV exports and RESO Web API JSON payloads and maps each listing onto
+ * a `properties` insert. Mapping never guesses: a listing missing a required
+ * field or with an implausible value (non-positive sqft, coordinates outside
+ * California, ...) is rejected with every problem found. Feed statuses are
+ * mapped onto active / pending / sold / withdrawn so status changes reach
+ * property history.
+ */
+
+import type { Database } from './supabase'
+import { parseCsvRecords } from './csv'
+import { extractStreetAddress, normalizeAddress } from './address-normalization'
+import type { ListingStatus } from './property-history'
+
+type PropertyInsert = Database['public']['Tables']['properties']['Insert']
+type PropertyType = PropertyInsert['property_type']
+
+export type ListingFeedFormat = 'csv' | 'reso'
+
+export type ListingFeedRecord = Record<string, unknown>
+
+/**
+ * Source-independent listing fields, still unparsed
+ */
+export interface RawListingFields {
+  address?: unknown
+  city?: unknown
+  state?: unknown
+  zipCode?: unknown
+  price?: unknown
+  sqft?: unknown
+  beds?: unknown
+  baths?: unknown
+  latitude?: unknown
+  longitude?: unknown
+  yearBuilt?: unknown
+  propertyType?: unknown
+  listingUrl?: unknown
+  sourceListingId?: unknown
+  status?: unknown
+  listedAt?: unknown
+}
+
+export interface MappedListing {
+  row: number // 1-based position in the feed (CSV rows exclude the header)
+  sourceListingId: string | null
+  property: PropertyInsert
+}
+
+export type ListingMapResult =
+  | { row: number; status: 'mapped'; listing: MappedListing }
+  | { row: number; status: 'rejected'; errors: string[] }
+
+/**
+ * A feed that can't be read at all (as opposed to individual bad listings)
+ */
+export class ListingFeedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ListingFeedError'
+  }
+}
+
+// Generous bounding box around California; listings outside it are bad geocodes
+export const CALIFORNIA_BOUNDS = { south: 32.5, west: -124.5, north: 42.1, east: -114.1 }
+
+const MAX_PRICE = 500_000_000
+const MAX_SQFT = 250_000
+const MAX_ROOMS = 100
+const MIN_YEAR_BUILT = 1800
+
+// CSV header aliases, compared after lowercasing and replacing non-alphanumerics with "_"
+const CSV_COLUMNS: Record<keyof RawListingFields, string[]> = {
+  address: ['address', 'street_address', 'address_line_1', 'street'],
+  city: ['city'],
+  state: ['state', 'state_or_province'],
+  zipCode: ['zip_code', 'zip', 'zipcode', 'postal_code'],
+  price: ['price', 'list_price', 'listing_price', 'asking_price'],
+  sqft: ['sqft', 'sq_ft', 'square_feet', 'living_area'],
+  beds: ['beds', 'bedrooms', 'bedrooms_total'],
+  baths: ['baths', 'bathrooms', 'bathrooms_total'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lng', 'lon', 'long'],
+  yearBuilt: ['year_built', 'built'],
+  propertyType: ['property_type', 'home_type', 'type'],
+  listingUrl: ['listing_url', 'url'],
+  sourceListingId: ['listing_id', 'mls_number', 'mls_id', 'mls'],
+  status: ['status', 'listing_status'],
+  listedAt: ['listed_at', 'list_date', 'listing_date', 'on_market_date']
+}
+
+const PROPERTY_TYPE_ALIASES: Record<string, PropertyType> = {
+  singlefamily: 'single_family',
+  singlefamilyresidence: 'single_family',
+  sfr: 'single_family',
+  house: 'single_family',
+  condo: 'condo',
+  condominium: 'condo',
+  townhouse: 'townhouse',
+  townhome: 'townhouse',
+  multifamily: 'multi_family',
+  duplex: 'multi_family',
+  triplex: 'multi_family',
+  quadruplex: 'multi_family',
+  fourplex: 'multi_family',
+  residentialincome: 'multi_family'
+}
+
+// RESO StandardStatus values and common CSV equivalents, compared lowercased without separators
+const LISTING_STATUS_ALIASES: Record<string, ListingStatus> = {
+  active: 'active',
+  forsale: 'active',
+  comingsoon: 'active',
+  pending: 'pending',
+  activeundercontract: 'pending',
+  undercontract: 'pending',
+  contingent: 'pending',
+  closed: 'sold',
+  sold: 'sold',
+  canceled: 'withdrawn',
+  cancelled: 'withdrawn',
+  expired: 'withdrawn',
+  withdrawn: 'withdrawn',
+  hold: 'withdrawn',
+  delete: 'withdrawn',
+  offmarket: 'withdrawn'
+}
+
+/**
+ * Split a feed into records: CSV rows keyed by header, or the RESO `value` array
+ */
+export function parseListingFeed(text: string, format: ListingFeedFormat): ListingFeedRecord[] {
+  if (format === 'csv') {
+    try {
+      return parseCsvRecords(text)
+    } catch (error) {
+      throw new ListingFeedError(`Invalid CSV feed: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  let payload: unknown
+  try {
+    payload = JSON.parse(text)
+  } catch {
+    throw new ListingFeedError('RESO feed is not valid JSON')
+  }
+
+  const records = Array.isArray(payload)
+    ? payload
+    : (payload as { value?: unknown } | null)?.value
+  if (!Array.isArray(records)) throw new ListingFeedError('RESO feed must be a JSON array or an object with a "value" array')
+  return records.filter((record): record is ListingFeedRecord => typeof record === 'object' && record !== null)
+}
+
+/**
+ * Pull listing fields out of a CSV record using the known header aliases
+ */
+export function extractCsvFields(record: ListingFeedRecord): RawListingFields {
+  const byColumn = new Map(
+    Object.entries(record).map(([column, value]) => [column.toLowerCase().replace(/[^a-z0-9]+/g, '_'), value])
+  )
+
+  const fields: RawListingFields = {}
+  for (const [field, aliases] of Object.entries(CSV_COLUMNS) as [keyof RawListingFields, string[]][]) {
+    const alias = aliases.find(name => byColumn.has(name))
+    if (alias) fields[field] = byColumn.get(alias)
+  }
+  return fields
+}
+
+/**
+ * Pull listing fields out of a RESO Data Dictionary Property resource
+ */
+export function extractResoFields(record: ListingFeedRecord): RawListingFields {
+  const streetParts = [
+    record.StreetNumber,
+    record.StreetDirPrefix,
+    record.StreetName,
+    record.StreetSuffix,
+    record.StreetDirSuffix
+  ].filter(part => part !== null && part !== undefined && String(part).trim() !== '')
+  const composedAddress = streetParts.length > 0
+    ? `${streetParts.join(' ')}${record.UnitNumber ? ` #${record.UnitNumber}` : ''}`
+    : undefined
+
+  const baths = record.BathroomsTotalDecimal
+    ?? record.BathroomsTotalInteger
+    ?? (record.BathroomsFull !== undefined
+      ? Number(record.BathroomsFull) + 0.5 * Number(record.BathroomsHalf ?? 0)
+      : undefined)
+
+  return {
+    address: composedAddress ?? record.UnparsedAddress,
+    city: record.City,
+    state: record.StateOrProvince,
+    zipCode: record.PostalCode,
+    price: record.ListPrice,
+    sqft: record.LivingArea,
+    beds: record.BedroomsTotal,
+    baths,
+    latitude: record.Latitude,
+    longitude: record.Longitude,
+    yearBuilt: record.YearBuilt,
+    // The subtype distinguishes condos from houses; ResidentialIncome alone means multi-family
+    propertyType: record.PropertySubType ?? record.PropertyType,
+    listingUrl: record.ListingURL,
+    sourceListingId: record.ListingKey ?? record.ListingId,
+    status: record.StandardStatus ?? record.MlsStatus,
+    listedAt: record.OnMarketDate ?? record.ListingContractDate
+  }
+}
+
+/**
+ * Parse, normalize and validate one listing's fields into a properties insert
+ */
+export function mapListing(fields: RawListingFields, source: string, row: number): ListingMapResult {
+  const errors: string[] = []
+  const requireText = (value: unknown, name: string) => {
+    const text = toText(value)
+    if (!text) errors.push(`${name} is required`)
+    return text ?? ''
+  }
+  const requireNumber = (value: unknown, name: string) => {
+    const parsed = toNumber(value)
+    if (parsed === undefined) errors.push(`${name} is required`)
+    else if (Number.isNaN(parsed)) errors.push(`${name} must be a number`)
+    return parsed ?? NaN
+  }
+
+  const city = requireText(fields.city, 'city')
+  const address = extractStreetAddress(requireText(fields.address, 'address'), city)
+  const state = (toText(fields.state) ?? 'CA').toUpperCase()
+  const zipCode = requireText(fields.zipCode, 'zip_code').slice(0, 5)
+  const propertyType = toPropertyType(fields.propertyType)
+  if (!propertyType) {
+    errors.push(fields.propertyType ? `Unsupported property type: ${toText(fields.propertyType)}` : 'property_type is required')
+  }
+
+  const statusText = toText(fields.status)
+  const listingStatus = statusText ? LISTING_STATUS_ALIASES[statusText.toLowerCase().replace(/[^a-z]/g, '')] : 'active'
+  if (!listingStatus) errors.push(`Unsupported listing status: ${statusText}`)
+
+  const listedAtText = toText(fields.listedAt)
+  let listedAt = listedAtText ? new Date(listedAtText) : null
+  if (listedAt && Number.isNaN(listedAt.getTime())) {
+    errors.push(`listed_at ${listedAtText} is not a date`)
+    listedAt = null
+  }
+
+  const property: PropertyInsert = {
+    address,
+    city,
+    state,
+    zip_code: zipCode,
+    price: requireNumber(fields.price, 'price'),
+    sqft: Math.round(requireNumber(fields.sqft, 'sqft')),
+    beds: requireNumber(fields.beds, 'beds'),
+    baths: requireNumber(fields.baths, 'baths'),
+    latitude: requireNumber(fields.latitude, 'latitude'),
+    longitude: requireNumber(fields.longitude, 'longitude'),
+    year_built: requireNumber(fields.yearBuilt, 'year_built'),
+    property_type: propertyType ?? 'single_family',
+    listing_url: toText(fields.listingUrl) ?? null,
+    listing_source: source,
+    normalized_address: address ? normalizeAddress(address) : null,
+    listing_status: listingStatus ?? 'active',
+    ...(listedAt && { listed_at: listedAt.toISOString() }),
+    neighborhood_id: null,
+    owner_entity_type: null,
+    ab1482_exemption_notice_delivered: null,
+    owner_occupies_unit: null,
+    certificate_of_occupancy_date: null,
+    deed_restricted_affordable: null
+  }
+
+  // Range checks only make sense once every field parsed
+  if (errors.length === 0) errors.push(...validateListing(property))
+  if (errors.length > 0) return { row, status: 'rejected', errors }
+
+  return {
+    row,
+    status: 'mapped',
+    listing: { row, sourceListingId: toText(fields.sourceListingId) ?? null, property }
+  }
+}
+
+/**
+ * Map every record of a parsed feed
+ */
+export function mapListingFeed(records: ListingFeedRecord[], format: ListingFeedFormat, source: string): ListingMapResult[] {
+  const extract = format === 'csv' ? extractCsvFields : extractResoFields
+  return records.map((record, index) => mapListing(extract(record), source, index + 1))
+}
+
+/**
+ * Validate a mapped listing's values, returning every problem found
+ */
+export function validateListing(property: PropertyInsert, now: Date = new Date()): string[] {
+  const errors: string[] = []
+
+  if (property.state !== 'CA') errors.push(`state must be CA (got ${property.state})`)
+  if (!/^9[0-6]\d{3}$/.test(property.zip_code)) errors.push(`zip_code ${property.zip_code} is not a California ZIP code`)
+  if (!(property.price > 0 && property.price <= MAX_PRICE)) errors.push(`price must be between 0 and ${MAX_PRICE}`)
+  if (!(property.sqft > 0 && property.sqft <= MAX_SQFT)) errors.push(`sqft must be between 0 and ${MAX_SQFT}`)
+  if (!Number.isInteger(property.beds) || property.beds < 0 || property.beds > MAX_ROOMS) {
+    errors.push(`beds must be a whole number between 0 and ${MAX_ROOMS}`)
+  }
+  if (!(property.baths >= 0 && property.baths <= MAX_ROOMS) || (property.baths * 2) % 1 !== 0) {
+    errors.push(`baths must be between 0 and ${MAX_ROOMS} in half-bath steps`)
+  }
+
+  const maxYearBuilt = now.getFullYear() + 1 // New construction is listed before completion
+  if (!Number.isInteger(property.year_built) || property.year_built < MIN_YEAR_BUILT || property.year_built > maxYearBuilt) {
+    errors.push(`year_built must be between ${MIN_YEAR_BUILT} and ${maxYearBuilt}`)
+  }
+
+  const { south, west, north, east } = CALIFORNIA_BOUNDS
+  if (!(property.latitude >= south && property.latitude <= north && property.longitude >= west && property.longitude <= east)) {
+    errors.push(`latitude/longitude ${property.latitude}, ${property.longitude} is outside California`)
+  }
+
+  if (property.listed_at && new Date(property.listed_at) > now) errors.push('listed_at is in the future')
+  if (property.listing_url && !/^https?:\/\//i.test(property.listing_url)) {
+    errors.push('listing_url must be an http(s) URL')
+  }
+
+  return errors
+}
+
+function toText(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined
+  const text = String(value).trim().replace(/\s+/g, ' ')
+  return text === '' ? undefined : text
+}
+
+// undefined = missing, NaN = present but unparseable
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') return value
+  const text = toText(value)
+  if (text === undefined) return undefined
+  return Number(text.replace(/[$,\s]/g, ''))
+}
+
+/**
+ * Map a feed's property type text onto a property type; null when missing or unsupported
+ */
+export function toPropertyType(value: unknown): PropertyType | null {
+  const key = toText(value)?.toLowerCase().replace(/[^a-z]/g, '')
+  return key ? PROPERTY_TYPE_ALIASES[key] ?? null : null
+}
@@ -0,0 +1,333 @@
+/**
+ * Listing Ingestion
+ *
+ * Imports a CSV or RESO listing feed into `properties`. Listings are mapped and
+ * validated by listing-feeds.ts, then deduplicated: a listing is the same
+ * property as an existing row when the source has imported its listing id
+ * before, or when the normalized addresses match and the coordinates are within
+ * DUPLICATE_DISTANCE_METERS (the same street address in two cities is two
+ * properties). Matches update the existing row, so one property listed by
+ * several sources stays one row; each source listing is recorded in
+ * `property_listing_sources`. Sold or withdrawn listings only update properties
+ * we already track. New and changed rows are flagged stale by the schema
+ * trigger and picked up by the rescoring job.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './supabase'
+import { haversineDistanceMiles } from './comps'
+import { ListingFeedError, mapListingFeed, parseListingFeed, type ListingFeedFormat, type MappedListing } from './listing-feeds'
+
+type PropertyRow = Database['public']['Tables']['properties']['Row']
+type PropertyUpdate = Database['public']['Tables']['properties']['Update']
+
+export interface ListingImportOptions {
+  source: string // e.g. 'zillow', 'redfin', 'mls'
+  format: ListingFeedFormat
+  dryRun?: boolean // Map, validate and match without writing anything
+}
+
+export interface ListingImportRowResult {
+  row: number
+  status: 'inserted' | 'updated' | 'skipped' | 'rejected'
+  propertyId?: string
+  reason?: string
+  errors?: string[]
+}
+
+export interface ListingImportReport {
+  runId: string | null // listing_import_runs row; null for dry runs
+  source: string
+  format: ListingFeedFormat
+  dryRun: boolean
+  total: number
+  inserted: number
+  updated: number
+  skipped: number
+  rejected: number
+  rows: ListingImportRowResult[]
+}
+
+type ExistingProperty = Pick<
+  PropertyRow,
+  'id' | 'normalized_address' | 'latitude' | 'longitude' | 'zip_code' | 'price' | 'sqft' | 'beds' | 'baths' |
+  'year_built' | 'property_type' | 'listing_url' | 'listing_source' | 'listing_status'
+>
+
+export const DUPLICATE_DISTANCE_METERS = 150
+
+const METERS_PER_MILE = 1609.344
+const QUERY_BATCH_SIZE = 200
+const SOURCE_PATTERN = /^[a-z0-9][a-z0-9_-]*$/
+const EXISTING_COLUMNS = 'id, normalized_address, latitude, longitude, zip_code, price, sqft, beds, baths, year_built, property_type, listing_url, listing_source, listing_status'
+
+// Listing facts an import may change on a matched property; the latest import wins
+const UPDATABLE_FIELDS = ['price', 'sqft', 'beds', 'baths', 'year_built', 'property_type', 'zip_code', 'listing_status'] as const
+const OFF_MARKET_STATUSES = ['sold', 'withdrawn']
+
+/**
+ * Whether two listings describe the same property: same normalized address, nearby coordinates
+ */
+export function isSameProperty(
+  a: Pick<PropertyRow, 'normalized_address' | 'latitude' | 'longitude'>,
+  b: Pick<PropertyRow, 'normalized_address' | 'latitude' | 'longitude'>
+): boolean {
+  if (!a.normalized_address || a.normalized_address !== b.normalized_address) return false
+  const distanceMeters = haversineDistanceMiles(
+    Number(a.latitude), Number(a.longitude), Number(b.latitude), Number(b.longitude)
+  ) * METERS_PER_MILE
+  return distanceMeters <= DUPLICATE_DISTANCE_METERS
+}
+
+/**
+ * Drop repeated listings within one feed, keeping the first occurrence
+ */
+export function dedupeListings(listings: MappedListing[]): {
+  unique: MappedListing[]
+  duplicates: { listing: MappedListing; duplicateOf: MappedListing }[]
+} {
+  const unique: MappedListing[] = []
+  const duplicates: { listing: MappedListing; duplicateOf: MappedListing }[] = []
+
+  for (const listing of listings) {
+    const duplicateOf = unique.find(kept =>
+      (listing.sourceListingId !== null && kept.sourceListingId === listing.sourceListingId) ||
+      isSameProperty(kept.property, listing.property)
+    )
+    if (duplicateOf) duplicates.push({ listing, duplicateOf })
+    else unique.push(listing)
+  }
+
+  return { unique, duplicates }
+}
+
+/**
+ * Columns of an existing property that an incoming listing would change
+ */
+export function diffListing(existing: ExistingProperty, listing: MappedListing): PropertyUpdate {
+  const update: PropertyUpdate = {}
+  const incoming = listing.property
+
+  for (const field of UPDATABLE_FIELDS) {
+    const changed = typeof incoming[field] === 'number'
+      ? Number(existing[field]) !== incoming[field]
+      : existing[field] !== incoming[field]
+    if (changed) Object.assign(update, { [field]: incoming[field] })
+  }
+
+  // The first source to list a property keeps the primary listing link
+  if (!existing.listing_url && incoming.listing_url) {
+    update.listing_url = incoming.listing_url
+    update.listing_source = incoming.listing_source
+  }
+
+  return update
+}
+
+/**
+ * Import a listing feed, returning what happened to every row
+ * Throws ListingFeedError when the feed itself can't be read; row problems are reported, not thrown
+ */
+export async function importListings(
+  client: SupabaseClient,
+  feed: string,
+  options: ListingImportOptions
+): Promise<ListingImportReport> {
+  if (!SOURCE_PATTERN.test(options.source)) {
+    throw new ListingFeedError('source must be a lowercase identifier such as "zillow" or "mls"')
+  }
+
+  const startedAt = new Date().toISOString()
+  const mapped = mapListingFeed(parseListingFeed(feed, options.format), options.format, options.source)
+  const results = new Map<number, ListingImportRowResult>()
+  const listings: MappedListing[] = []
+
+  for (const result of mapped) {
+    if (result.status === 'mapped') listings.push(result.listing)
+    else results.set(result.row, { row: result.row, status: 'rejected', errors: result.errors })
+  }
+
+  const { unique, duplicates } = dedupeListings(listings)
+  for (const { listing, duplicateOf } of duplicates) {
+    results.set(listing.row, { row: listing.row, status: 'skipped', reason: `Duplicate of row ${duplicateOf.row}` })
+  }
+
+  const existingByRow = await findExistingProperties(client, options.source, unique)
+  const inserts: MappedListing[] = []
+
+  for (const listing of unique) {
+    const existing = existingByRow.get(listing.row)
+    if (!existing) {
+      const status = listing.property.listing_status
+      if (OFF_MARKET_STATUSES.includes(status)) {
+        results.set(listing.row, { row: listing.row, status: 'skipped', reason: `Listing is ${status} and not yet tracked` })
+      } else {
+        inserts.push(listing)
+      }
+      continue
+    }
+
+    const update = diffListing(existing, listing)
+    if (Object.keys(update).length === 0) {
+      results.set(listing.row, { row: listing.row, status: 'skipped', propertyId: existing.id, reason: 'Unchanged' })
+      continue
+    }
+
+    if (!options.dryRun) {
+      const { error } = await client.from('properties').update(update).eq('id', existing.id)
+      if (error) {
+        results.set(listing.row, { row: listing.row, status: 'rejected', propertyId: existing.id, errors: [error.message] })
+        continue
+      }
+    }
+    results.set(listing.row, { row: listing.row, status: 'updated', propertyId: existing.id })
+  }
+
+  for (const batch of chunk(inserts, QUERY_BATCH_SIZE)) {
+    if (options.dryRun) {
+      for (const listing of batch) results.set(listing.row, { row: listing.row, status: 'inserted' })
+      continue
+    }
+
+    const { data, error } = await client
+      .from('properties')
+      .insert(batch.map(listing => listing.property))
+      .select('id')
+    if (error) {
+      // The batch is one statement, so nothing was inserted; retry row by row to pin the error on the rows that cause it
+      for (const listing of batch) {
+        const { data: row, error: rowError } = await client.from('properties').insert(listing.property).select('id').single()
+        results.set(listing.row, rowError
+          ? { row: listing.row, status: 'rejected', errors: [rowError.message] }
+          : { row: listing.row, status: 'inserted', propertyId: row.id })
+      }
+      continue
+    }
+
+    // PostgREST returns inserted rows in insert order
+    batch.forEach((listing, index) => {
+      results.set(listing.row, { row: listing.row, status: 'inserted', propertyId: data[index].id })
+    })
+  }
+
+  const rows = Array.from(results.values()).sort((a, b) => a.row - b.row)
+  const report: ListingImportReport = {
+    runId: null,
+    source: options.source,
+    format: options.format,
+    dryRun: options.dryRun ?? false,
+    total: mapped.length,
+    inserted: rows.filter(row => row.status === 'inserted').length,
+    updated: rows.filter(row => row.status === 'updated').length,
+    skipped: rows.filter(row => row.status === 'skipped').length,
+    rejected: rows.filter(row => row.status === 'rejected').length,
+    rows
+  }
+  if (options.dryRun) return report
+
+  await recordListingSources(client, options.source, unique, results)
+
+  const { data: run, error: runError } = await client
+    .from('listing_import_runs')
+    .insert({
+      source: report.source,
+      format: report.format,
+      total_rows: report.total,
+      inserted: report.inserted,
+      updated: report.updated,
+      skipped: report.skipped,
+      rejected: report.rejected,
+      rows: report.rows,
+      started_at: startedAt
+    })
+    .select('id')
+    .single()
+  if (runError) throw runError
+
+  return { ...report, runId: run.id }
+}
+
+/**
+ * Match listings to existing properties by source listing id, then by address and proximity
+ */
+async function findExistingProperties(
+  client: SupabaseClient,
+  source: string,
+  listings: MappedListing[]
+): Promise<Map<number, ExistingProperty>> {
+  const propertyIdBySourceListing = new Map<string, string>()
+  const sourceListingIds = listings.map(listing => listing.sourceListingId).filter((id): id is string => id !== null)
+
+  for (const ids of chunk(sourceListingIds, QUERY_BATCH_SIZE)) {
+    const { data, error } = await client
+      .from('property_listing_sources')
+      .select('property_id, source_listing_id')
+      .eq('source', source)
+      .in('source_listing_id', ids)
+    if (error) throw error
+
+    for (const row of data || []) propertyIdBySourceListing.set(row.source_listing_id, row.property_id)
+  }
+
+  const candidates = new Map<string, ExistingProperty>()
+  const addresses = Array.from(new Set(listings.map(listing => listing.property.normalized_address!)))
+  const queries = [
+    ...chunk(addresses, QUERY_BATCH_SIZE).map(batch => ['normalized_address', batch] as const),
+    ...chunk(Array.from(new Set(propertyIdBySourceListing.values())), QUERY_BATCH_SIZE).map(batch => ['id', batch] as const)
+  ]
+  for (const [column, values] of queries) {
+    const { data, error } = await client.from('properties').select(EXISTING_COLUMNS).in(column, values)
+    if (error) throw error
+
+    for (const row of (data || []) as ExistingProperty[]) candidates.set(row.id, row)
+  }
+
+  const existingByRow = new Map<number, ExistingProperty>()
+  for (const listing of listings) {
+    const knownId = listing.sourceListingId ? propertyIdBySourceListing.get(listing.sourceListingId) : undefined
+    const match = (knownId && candidates.get(knownId)) ||
+      Array.from(candidates.values()).find(candidate => isSameProperty(candidate, listing.property))
+    if (match) existingByRow.set(listing.row, match)
+  }
+  return existingByRow
+}
+
+/**
+ * Record which source listings resolved to which properties
+ * Rejected rows are left out: their price and sighting never reached the property
+ */
+async function recordListingSources(
+  client: SupabaseClient,
+  source: string,
+  listings: MappedListing[],
+  results: Map<number, ListingImportRowResult>
+): Promise<void> {
+  const now = new Date().toISOString()
+  const rows = listings.flatMap(listing => {
+    const result = results.get(listing.row)
+    if (!result?.propertyId || result.status === 'rejected') return []
+
+    return [{
+      property_id: result.propertyId,
+      source,
+      // Feeds without listing ids are keyed by address so re-imports update the same row
+      source_listing_id: listing.sourceListingId ?? `${listing.property.normalized_address}, ${listing.property.zip_code}`,
+      listing_url: listing.property.listing_url,
+      price: listing.property.price,
+      last_seen_at: now
+    }]
+  })
+
+  for (const batch of chunk(rows, QUERY_BATCH_SIZE)) {
+    const { error } = await client
+      .from('property_listing_sources')
+      .upsert(batch, { onConflict: 'source,source_listing_id' })
+    if (error) throw error
+  }
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += size) batches.push(items.slice(i, i + size))
+  return batches
+}
@@ -0,0 +1,80 @@
+/**
+ * Map Marker Clustering
+ *
+ * Grid-based clustering in Web Mercator pixel space: points whose projected
+ * positions share a grid cell at the current zoom merge into one cluster.
+ * Cheap enough to recompute on every zoom for a viewport's worth of results.
+ */
+
+export interface MapPoint<T> {
+  latitude: number
+  longitude: number
+  item: T
+}
+
+export interface MapCluster<T> {
+  key: string
+  latitude: number // Mean position of the cluster's points
+  longitude: number
+  items: T[]
+  bounds: [[number, number], [number, number]] // [[south, west], [north, east]]
+}
+
+export const DEFAULT_CLUSTER_CELL_SIZE = 60 // px
+export const MAX_CLUSTER_ZOOM = 16 // Above this every point is drawn individually
+
+const TILE_SIZE = 256
+
+/**
+ * Project a coordinate to Web Mercator world pixels at a zoom level
+ */
+export function projectToPixels(latitude: number, longitude: number, zoom: number): { x: number; y: number } {
+  const scale = TILE_SIZE * Math.pow(2, zoom)
+  const sinLatitude = Math.min(Math.max(Math.sin((latitude * Math.PI) / 180), -0.9999), 0.9999)
+
+  return {
+    x: ((longitude + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sinLatitude) / (1 - sinLatitude)) / (4 * Math.PI)) * scale
+  }
+}
+
+/**
+ * Group points into clusters for display at a zoom level
+ */
+export function clusterMapPoints<T>(
+  points: MapPoint<T>[],
+  zoom: number,
+  cellSize: number = DEFAULT_CLUSTER_CELL_SIZE
+): MapCluster<T>[] {
+  const cells = new Map<string, MapPoint<T>[]>()
+
+  points.forEach((point, index) => {
+    let key: string
+    if (zoom > MAX_CLUSTER_ZOOM) {
+      key = `point:${index}`
+    } else {
+      const { x, y } = projectToPixels(point.latitude, point.longitude, zoom)
+      key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`
+    }
+
+    const cell = cells.get(key)
+    if (cell) cell.push(point)
+    else cells.set(key, [point])
+  })
+
+  return Array.from(cells.entries()).map(([key, cellPoints]) => {
+    const latitudes = cellPoints.map(point => point.latitude)
+    const longitudes = cellPoints.map(point => point.longitude)
+
+    return {
+      key,
+      latitude: latitudes.reduce((sum, value) => sum + value, 0) / cellPoints.length,
+      longitude: longitudes.reduce((sum, value) => sum + value, 0) / cellPoints.length,
+      items: cellPoints.map(point => point.item),
+      bounds: [
+        [Math.min(...latitudes), Math.min(...longitudes)],
+        [Math.max(...latitudes), Math.max(...longitudes)]
+      ]
+    }
+  })
+}
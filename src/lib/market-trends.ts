@@ -0,0 +1,247 @@
+/**
+ * Market Trends
+ *
+ * Reads the dated `market_trends` snapshots written by the neighborhood stats
+ * job and derives market momentum from them: year-over-year and month-over-month
+ * changes, months of inventory and a buyer's / seller's market indicator. The
+ * aggregation job stores the momentum on `neighborhood_stats` so the scorer's
+ * market timing component uses observed trends rather than a hand-entered
+ * appreciation rate.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase, type Database } from './supabase'
+
+type NeighborhoodRow = Database['public']['Tables']['neighborhood_stats']['Row']
+
+export type MarketTrend = Database['public']['Tables']['market_trends']['Row']
+
+export type MarketCondition = 'sellers' | 'balanced' | 'buyers'
+
+export type TrendMetric = 'median_price' | 'median_price_per_sqft' | 'days_on_market' | 'inventory_count'
+
+export interface MetricChange {
+  yoy: number | null // Percent change from the snapshot a year earlier
+  mom: number | null // Percent change from the snapshot a month earlier
+}
+
+export interface MarketTrendSummary {
+  asOf: string | null // Date of the latest snapshot
+  latest: MarketTrend | null
+  changes: Record<TrendMetric, MetricChange>
+  monthsOfInventory: number | null
+  marketCondition: MarketCondition | null
+}
+
+export type MarketMomentum = Pick<
+  NeighborhoodRow,
+  'price_momentum_yoy' | 'price_momentum_mom' | 'months_of_inventory' | 'market_condition'
+>
+
+export interface NeighborhoodMarket {
+  neighborhood: NeighborhoodRow
+  trends: MarketTrend[] // Oldest first
+  summary: MarketTrendSummary
+}
+
+export const TREND_METRICS: TrendMetric[] = ['median_price', 'median_price_per_sqft', 'days_on_market', 'inventory_count']
+
+export const TREND_METRIC_LABELS: Record<TrendMetric, string> = {
+  median_price: 'Median price',
+  median_price_per_sqft: 'Median $/sqft',
+  days_on_market: 'Days on market',
+  inventory_count: 'Active inventory'
+}
+
+export const MARKET_CONDITION_LABELS: Record<MarketCondition, string> = {
+  sellers: "Seller's market",
+  balanced: 'Balanced market',
+  buyers: "Buyer's market"
+}
+
+// Months of inventory below / above which a market favors sellers / buyers
+export const SELLERS_MARKET_MAX_MONTHS = 3
+export const BUYERS_MARKET_MIN_MONTHS = 6
+
+// Median days on market used instead when there are no recent sales to measure inventory against
+const SELLERS_MARKET_MAX_DAYS = 30
+const BUYERS_MARKET_MIN_DAYS = 90
+
+// How far a comparison snapshot may drift from exactly a month / year earlier
+const MONTH_TOLERANCE_DAYS = 15
+const YEAR_TOLERANCE_DAYS = 45
+
+// Change in YoY momentum (percentage points) that warrants rescoring a neighborhood
+const MOMENTUM_CHANGE_THRESHOLD = 0.5
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const PAGE_SIZE = 1000
+const INVALID_TEXT_REPRESENTATION = '22P02'
+
+/**
+ * Latest values, YoY / MoM changes and market condition from a neighborhood's snapshots
+ */
+export function summarizeMarketTrends(trends: MarketTrend[]): MarketTrendSummary {
+  const ordered = [...trends].sort((a, b) => a.date.localeCompare(b.date))
+  const latest = ordered[ordered.length - 1] ?? null
+
+  const monthAgo = latest ? findSnapshotBefore(ordered, latest.date, 30, MONTH_TOLERANCE_DAYS) : null
+  const yearAgo = latest ? findSnapshotBefore(ordered, latest.date, 365, YEAR_TOLERANCE_DAYS) : null
+
+  const changes = Object.fromEntries(TREND_METRICS.map(metric => [metric, {
+    yoy: percentChange(yearAgo?.[metric], latest?.[metric]),
+    mom: percentChange(monthAgo?.[metric], latest?.[metric])
+  }])) as Record<TrendMetric, MetricChange>
+
+  const monthsOfInventory = latest ? getMonthsOfInventory(latest.inventory_count, latest.sales_count) : null
+
+  return {
+    asOf: latest?.date ?? null,
+    latest,
+    changes,
+    monthsOfInventory,
+    marketCondition: latest ? getMarketCondition(monthsOfInventory, latest.days_on_market) : null
+  }
+}
+
+/**
+ * Months to sell the active inventory at the trailing month's sales pace
+ */
+export function getMonthsOfInventory(inventory: number | null, monthlySales: number | null): number | null {
+  if (inventory === null || !monthlySales) return null
+  return Math.round((inventory / monthlySales) * 10) / 10
+}
+
+/**
+ * Buyer's / seller's market from months of inventory, falling back to days on market
+ */
+export function getMarketCondition(monthsOfInventory: number | null, daysOnMarket: number | null): MarketCondition | null {
+  if (monthsOfInventory !== null) {
+    if (monthsOfInventory < SELLERS_MARKET_MAX_MONTHS) return 'sellers'
+    if (monthsOfInventory > BUYERS_MARKET_MIN_MONTHS) return 'buyers'
+    return 'balanced'
+  }
+  if (daysOnMarket !== null) {
+    if (daysOnMarket < SELLERS_MARKET_MAX_DAYS) return 'sellers'
+    if (daysOnMarket > BUYERS_MARKET_MIN_DAYS) return 'buyers'
+    return 'balanced'
+  }
+  return null
+}
+
+/**
+ * neighborhood_stats momentum columns for a summary
+ */
+export function toMarketMomentum(summary: MarketTrendSummary): MarketMomentum {
+  const pricePerSqft = summary.changes.median_price_per_sqft
+  return {
+    price_momentum_yoy: pricePerSqft.yoy === null ? null : round(pricePerSqft.yoy),
+    price_momentum_mom: pricePerSqft.mom === null ? null : round(pricePerSqft.mom),
+    months_of_inventory: summary.monthsOfInventory,
+    market_condition: summary.marketCondition
+  }
+}
+
+/**
+ * Whether momentum moved enough to change market timing scores
+ */
+export function hasMomentumMoved(previous: MarketMomentum, next: MarketMomentum): boolean {
+  if (previous.market_condition !== next.market_condition) return true
+  if ((previous.price_momentum_yoy === null) !== (next.price_momentum_yoy === null)) return true
+  return Math.abs(Number(next.price_momentum_yoy) - Number(previous.price_momentum_yoy)) >= MOMENTUM_CHANGE_THRESHOLD
+}
+
+/**
+ * Load snapshots for the given neighborhoods, oldest first
+ */
+export async function fetchMarketTrends(
+  neighborhoodIds: string[],
+  options: { since?: string } = {},
+  client: SupabaseClient = supabase
+): Promise<MarketTrend[]> {
+  if (neighborhoodIds.length === 0) return []
+
+  const trends: MarketTrend[] = []
+  // Daily snapshots outgrow a single PostgREST response
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = client
+      .from('market_trends')
+      .select('*')
+      .in('neighborhood_id', neighborhoodIds)
+      .order('date', { ascending: true })
+      .order('neighborhood_id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1)
+    if (options.since) query = query.gte('date', options.since)
+
+    const { data, error } = await query
+    if (error) throw error
+
+    const page = (data || []) as MarketTrend[]
+    trends.push(...page)
+    if (page.length < PAGE_SIZE) break
+  }
+
+  return trends
+}
+
+/**
+ * Load neighborhoods with their snapshots and summaries, in the order requested
+ * Unknown or malformed ids are dropped
+ */
+export async function fetchNeighborhoodMarkets(
+  neighborhoodIds: string[],
+  client: SupabaseClient = supabase
+): Promise<NeighborhoodMarket[]> {
+  if (neighborhoodIds.length === 0) return []
+
+  const { data, error } = await client.from('neighborhood_stats').select('*').in('id', neighborhoodIds)
+  if (error?.code === INVALID_TEXT_REPRESENTATION) return [] // Malformed UUID
+  if (error) throw error
+
+  const neighborhoods = (data || []) as NeighborhoodRow[]
+  const trends = await fetchMarketTrends(neighborhoods.map(n => n.id), {}, client)
+
+  return neighborhoodIds
+    .map(id => neighborhoods.find(n => n.id === id))
+    .filter((neighborhood): neighborhood is NeighborhoodRow => !!neighborhood)
+    .map(neighborhood => {
+      const neighborhoodTrends = trends.filter(trend => trend.neighborhood_id === neighborhood.id)
+      return { neighborhood, trends: neighborhoodTrends, summary: summarizeMarketTrends(neighborhoodTrends) }
+    })
+}
+
+/**
+ * Load every neighborhood, ordered by city and name
+ */
+export async function fetchNeighborhoods(client: SupabaseClient = supabase): Promise<NeighborhoodRow[]> {
+  const { data, error } = await client
+    .from('neighborhood_stats')
+    .select('*')
+    .order('city')
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as NeighborhoodRow[]
+}
+
+// Latest snapshot at least `daysBefore` days before `date`, if it is within the tolerance of that target
+function findSnapshotBefore(ordered: MarketTrend[], date: string, daysBefore: number, toleranceDays: number): MarketTrend | null {
+  const target = new Date(date).getTime() - daysBefore * MS_PER_DAY
+  for (let i = ordered.length - 1; i >= 0; i--) {
+    const time = new Date(ordered[i].date).getTime()
+    if (time > target) continue
+    return target - time <= toleranceDays * MS_PER_DAY ? ordered[i] : null
+  }
+  return null
+}
+
+function percentChange(previous: number | null | undefined, current: number | null | undefined): number | null {
+  if (previous === null || previous === undefined || current === null || current === undefined) return null
+  const before = Number(previous)
+  if (before === 0) return null
+  return ((Number(current) - before) / before) * 100
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
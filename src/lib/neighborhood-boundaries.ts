@@ -0,0 +1,260 @@
+/**
+ * Neighborhood Boundaries
+ *
+ * Neighborhood polygons are imported from GeoJSON into `neighborhood_boundaries`
+ * and matched to `neighborhood_stats` rows by name and city. Assignment itself
+ * happens in Postgres: a trigger on `properties` sets `neighborhood_id` from the
+ * coordinates on insert (and when they change), and flags properties outside
+ * every boundary as 'outside' so they are never scored against a baseline that
+ * doesn't describe them. After boundaries change, `backfillPropertyNeighborhoods`
+ * reassigns existing properties in bulk.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './supabase'
+import { CALIFORNIA_BOUNDS } from './listing-feeds'
+import { toPostgresPolygon } from './search-areas'
+
+type BoundaryInsert = Database['public']['Tables']['neighborhood_boundaries']['Insert']
+type NeighborhoodRow = Database['public']['Tables']['neighborhood_stats']['Row']
+
+export type NeighborhoodAssignment = 'boundary' | 'outside' | 'manual'
+
+export interface BoundaryPolygon {
+  outer: [number, number][] // [latitude, longitude] vertices, not closed
+  holes: [number, number][][]
+}
+
+export interface BoundaryFeature {
+  index: number // 0-based position in the file
+  name: string
+  city: string
+  polygons: BoundaryPolygon[]
+}
+
+export interface BoundaryParseResult {
+  features: BoundaryFeature[]
+  rejected: { index: number; errors: string[] }[]
+}
+
+export interface BoundaryImportOptions {
+  source: string // Recorded on each ring, e.g. the file name
+  nameProperty?: string // Feature property holding the neighborhood name; default 'name'
+  cityProperty?: string // Feature property holding the city; default 'city'
+  city?: string // City for every feature, when the file has no city property
+  dryRun?: boolean // Parse and match without writing anything
+  backfill?: boolean // Reassign existing properties afterwards; default true
+}
+
+export interface NeighborhoodBackfillReport {
+  reassigned: number // Properties whose neighborhood or assignment changed
+  outside: number // Properties now outside every boundary
+}
+
+export interface BoundaryImportReport {
+  source: string
+  dryRun: boolean
+  features: number
+  matched: { neighborhoodId: string; name: string; city: string; polygons: number }[]
+  rejected: { index: number; name?: string; city?: string; errors: string[] }[]
+  backfill: NeighborhoodBackfillReport | null
+}
+
+/**
+ * A boundary file that can't be read at all (as opposed to individual bad features)
+ */
+export class BoundaryFileError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'BoundaryFileError'
+  }
+}
+
+/**
+ * Parse a GeoJSON FeatureCollection (or single Feature) of Polygon / MultiPolygon neighborhoods
+ */
+export function parseBoundaryFeatures(
+  text: string,
+  options: Pick<BoundaryImportOptions, 'nameProperty' | 'cityProperty' | 'city'> = {}
+): BoundaryParseResult {
+  let json: unknown
+  try {
+    json = JSON.parse(text)
+  } catch {
+    throw new BoundaryFileError('Boundary file is not valid JSON')
+  }
+
+  const root = json as { type?: unknown; features?: unknown }
+  const features = root?.type === 'FeatureCollection' && Array.isArray(root.features)
+    ? root.features
+    : root?.type === 'Feature' ? [root] : null
+  if (!features) throw new BoundaryFileError('Boundary file must be a GeoJSON FeatureCollection or Feature')
+
+  const result: BoundaryParseResult = { features: [], rejected: [] }
+  features.forEach((feature, index) => {
+    const errors: string[] = []
+    const properties = (feature?.properties ?? {}) as Record<string, unknown>
+    const name = String(properties[options.nameProperty ?? 'name'] ?? '').trim()
+    const city = String(options.city ?? properties[options.cityProperty ?? 'city'] ?? '').trim()
+    if (!name) errors.push(`Missing "${options.nameProperty ?? 'name'}" property`)
+    if (!city) errors.push(`Missing "${options.cityProperty ?? 'city'}" property`)
+
+    const polygons = toBoundaryPolygons(feature?.geometry, errors)
+    if (errors.length > 0) {
+      result.rejected.push({ index, errors })
+    } else {
+      result.features.push({ index, name, city, polygons })
+    }
+  })
+
+  return result
+}
+
+/**
+ * Import boundaries, replacing the existing rings of every matched neighborhood, then backfill properties
+ */
+export async function importNeighborhoodBoundaries(
+  client: SupabaseClient,
+  text: string,
+  options: BoundaryImportOptions
+): Promise<BoundaryImportReport> {
+  const parsed = parseBoundaryFeatures(text, options)
+  const report: BoundaryImportReport = {
+    source: options.source,
+    dryRun: !!options.dryRun,
+    features: parsed.features.length + parsed.rejected.length,
+    matched: [],
+    rejected: [...parsed.rejected],
+    backfill: null
+  }
+
+  const { data, error } = await client.from('neighborhood_stats').select('id, name, city')
+  if (error) throw error
+  const neighborhoods = (data || []) as Pick<NeighborhoodRow, 'id' | 'name' | 'city'>[]
+  const neighborhoodsByKey = new Map(neighborhoods.map(n => [neighborhoodKey(n.name, n.city), n]))
+
+  // A neighborhood split across several features keeps all of their polygons
+  const polygonsByNeighborhood = new Map<string, BoundaryPolygon[]>()
+  for (const feature of parsed.features) {
+    const neighborhood = neighborhoodsByKey.get(neighborhoodKey(feature.name, feature.city))
+    if (!neighborhood) {
+      report.rejected.push({
+        index: feature.index,
+        name: feature.name,
+        city: feature.city,
+        errors: [`No neighborhood named "${feature.name}" in ${feature.city}`]
+      })
+      continue
+    }
+    const polygons = polygonsByNeighborhood.get(neighborhood.id) ?? []
+    polygons.push(...feature.polygons)
+    polygonsByNeighborhood.set(neighborhood.id, polygons)
+  }
+
+  for (const [neighborhoodId, polygons] of polygonsByNeighborhood) {
+    const neighborhood = neighborhoods.find(n => n.id === neighborhoodId)!
+    report.matched.push({ neighborhoodId, name: neighborhood.name, city: neighborhood.city, polygons: polygons.length })
+    if (options.dryRun) continue
+
+    const { error: deleteError } = await client
+      .from('neighborhood_boundaries')
+      .delete()
+      .eq('neighborhood_id', neighborhoodId)
+    if (deleteError) throw deleteError
+
+    const { error: insertError } = await client
+      .from('neighborhood_boundaries')
+      .insert(toBoundaryRows(neighborhoodId, polygons, options.source))
+    if (insertError) throw insertError
+  }
+
+  if (!options.dryRun && options.backfill !== false && report.matched.length > 0) {
+    report.backfill = await backfillPropertyNeighborhoods(client)
+  }
+
+  return report
+}
+
+/**
+ * Reassign every non-manual property from the current boundaries
+ */
+export async function backfillPropertyNeighborhoods(client: SupabaseClient): Promise<NeighborhoodBackfillReport> {
+  const { data, error } = await client.rpc('backfill_property_neighborhoods')
+  if (error) throw error
+
+  const [counts] = (data || []) as NeighborhoodBackfillReport[]
+  return { reassigned: counts?.reassigned ?? 0, outside: counts?.outside ?? 0 }
+}
+
+/**
+ * neighborhood_boundaries rows for one neighborhood: an outer ring and its holes per polygon
+ */
+export function toBoundaryRows(neighborhoodId: string, polygons: BoundaryPolygon[], source: string): BoundaryInsert[] {
+  return polygons.flatMap((polygon, polygonIndex) => [
+    { ring: polygon.outer, isHole: false },
+    ...polygon.holes.map(hole => ({ ring: hole, isHole: true }))
+  ].map(({ ring, isHole }) => ({
+    neighborhood_id: neighborhoodId,
+    polygon_index: polygonIndex,
+    is_hole: isHole,
+    ring: toPostgresPolygon(ring),
+    area: ringArea(ring),
+    source
+  })))
+}
+
+function toBoundaryPolygons(geometry: unknown, errors: string[]): BoundaryPolygon[] {
+  const { type, coordinates } = (geometry ?? {}) as { type?: unknown; coordinates?: unknown }
+  if (!Array.isArray(coordinates)) {
+    errors.push('Missing geometry coordinates')
+    return []
+  }
+
+  const polygons = type === 'Polygon' ? [coordinates] : type === 'MultiPolygon' ? coordinates : null
+  if (!polygons) {
+    errors.push(`Unsupported geometry type "${String(type)}"; expected Polygon or MultiPolygon`)
+    return []
+  }
+
+  return polygons.map((rings: unknown) => {
+    const parsedRings = (Array.isArray(rings) ? rings : []).map(ring => toRing(ring, errors))
+    if (parsedRings.length === 0) errors.push('Polygon has no rings')
+    return { outer: parsedRings[0] ?? [], holes: parsedRings.slice(1) }
+  })
+}
+
+// GeoJSON positions are [longitude, latitude] and rings repeat their first position at the end
+function toRing(positions: unknown, errors: string[]): [number, number][] {
+  const ring = (Array.isArray(positions) ? positions : []).map(position => {
+    const [longitude, latitude] = Array.isArray(position) ? position.map(Number) : [NaN, NaN]
+    return [latitude, longitude] as [number, number]
+  })
+
+  const [first, last] = [ring[0], ring[ring.length - 1]]
+  if (ring.length > 1 && first[0] === last[0] && first[1] === last[1]) ring.pop()
+
+  if (ring.length < 3) {
+    errors.push('Ring needs at least 3 distinct positions')
+  } else if (!ring.every(([latitude, longitude]) => isInCalifornia(latitude, longitude))) {
+    errors.push('Ring has coordinates outside California (positions must be [longitude, latitude])')
+  }
+  return ring
+}
+
+function isInCalifornia(latitude: number, longitude: number): boolean {
+  return latitude >= CALIFORNIA_BOUNDS.south && latitude <= CALIFORNIA_BOUNDS.north &&
+    longitude >= CALIFORNIA_BOUNDS.west && longitude <= CALIFORNIA_BOUNDS.east
+}
+
+// Shoelace area in square degrees; only compared between boundaries
+function ringArea(ring: [number, number][]): number {
+  let sum = 0
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j][1] * ring[i][0] - ring[i][1] * ring[j][0]
+  }
+  return Math.abs(sum) / 2
+}
+
+function neighborhoodKey(name: string, city: string): string {
+  return `${name.trim().toLowerCase()}|${city.trim().toLowerCase()}`
+}
@@ -0,0 +1,306 @@
+/**
+ * Neighborhood Stats Aggregation
+ *
+ * Derives the neighborhood_stats baselines the scorer compares against from the
+ * properties in each neighborhood, and writes a dated market_trends snapshot.
+ * Baselines come from active, pending and sold listings (withdrawn prices never
+ * cleared the market); listings whose $/sqft falls outside Tukey's fences
+ * (1.5 × IQR) are trimmed first so one mispriced or mistyped listing can't drag
+ * a baseline. Neighborhoods with fewer than `minSampleSize` usable listings keep
+ * their existing stats. Market momentum (market-trends.ts) is recomputed from
+ * the snapshot history at the same time. When a baseline or the momentum moves,
+ * the neighborhood's properties are rescored.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './supabase'
+import { getDaysOnMarket } from './property-history'
+import { rescoreProperties, type RescoreReport } from './rescoring'
+import { fetchMarketTrends, hasMomentumMoved, summarizeMarketTrends, toMarketMomentum } from './market-trends'
+
+type PropertyRow = Database['public']['Tables']['properties']['Row']
+type NeighborhoodRow = Database['public']['Tables']['neighborhood_stats']['Row']
+type MarketTrendInsert = Database['public']['Tables']['market_trends']['Insert']
+
+export type AggregateProperty = Pick<
+  PropertyRow,
+  'id' | 'neighborhood_id' | 'price' | 'sqft' | 'beds' | 'baths' | 'year_built' | 'listing_status' | 'listed_at' | 'off_market_at'
+>
+
+export type NeighborhoodBaseline = Pick<
+  NeighborhoodRow,
+  'median_price' | 'median_price_per_sqft' | 'avg_sqft' | 'avg_beds' | 'avg_baths' | 'avg_year_built' | 'total_properties'
+>
+
+export interface NeighborhoodAggregate {
+  baseline: NeighborhoodBaseline
+  sampleSize: number // Listings used after trimming
+  trimmedCount: number
+  trend: Omit<MarketTrendInsert, 'neighborhood_id' | 'date'>
+}
+
+export interface NeighborhoodAggregationOptions {
+  neighborhoodIds?: string[]
+  minSampleSize?: number
+  baselineChangeThreshold?: number // Relative change that counts as a moved baseline
+  rescore?: boolean // Default true
+  dryRun?: boolean
+  now?: Date
+}
+
+export interface NeighborhoodAggregationReport {
+  snapshotDate: string
+  processed: number
+  updated: string[]
+  moved: string[] // Neighborhoods whose scoring baseline or market momentum changed
+  skipped: { neighborhoodId: string; reason: string }[]
+  trendsWritten: number
+  rescore: RescoreReport | null
+  failed: { neighborhoodId: string; error: string }[]
+}
+
+export const DEFAULT_MIN_SAMPLE_SIZE = 5
+export const DEFAULT_BASELINE_CHANGE_THRESHOLD = 0.01
+
+const BATCH_SIZE = 1000
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const SALES_WINDOW_DAYS = 30 // market_trends.sales_count counts sales closed this long before the snapshot
+const MOMENTUM_HISTORY_DAYS = 400 // Enough snapshot history for year-over-year changes
+const AGGREGATE_COLUMNS = 'id, neighborhood_id, price, sqft, beds, baths, year_built, listing_status, listed_at, off_market_at'
+const BASELINE_FIELDS = ['median_price', 'median_price_per_sqft', 'avg_sqft', 'avg_beds', 'avg_baths', 'avg_year_built'] as const
+
+/**
+ * Compute one neighborhood's baseline and trend snapshot; null when the sample is too small
+ */
+export function aggregateNeighborhood(
+  properties: AggregateProperty[],
+  minSampleSize: number = DEFAULT_MIN_SAMPLE_SIZE,
+  now: Date = new Date()
+): NeighborhoodAggregate | null {
+  const candidates = properties.filter(property =>
+    property.listing_status !== 'withdrawn' && Number(property.sqft) > 0 && Number(property.price) > 0
+  )
+  const sample = trimPricePerSqftOutliers(candidates)
+  if (sample.length < minSampleSize) return null
+
+  const prices = sample.map(property => Number(property.price))
+  const pricesPerSqft = sample.map(property => Number(property.price) / Number(property.sqft))
+  const onMarket = properties.filter(property => property.listing_status === 'active' || property.listing_status === 'pending')
+  const salesSince = now.getTime() - SALES_WINDOW_DAYS * MS_PER_DAY
+
+  return {
+    baseline: {
+      median_price: round(median(prices), 2),
+      median_price_per_sqft: round(median(pricesPerSqft), 2),
+      avg_sqft: Math.round(mean(sample.map(property => Number(property.sqft)))),
+      avg_beds: round(mean(sample.map(property => Number(property.beds))), 1),
+      avg_baths: round(mean(sample.map(property => Number(property.baths))), 1),
+      avg_year_built: Math.round(mean(sample.map(property => Number(property.year_built)))),
+      total_properties: properties.length
+    },
+    sampleSize: sample.length,
+    trimmedCount: candidates.length - sample.length,
+    trend: {
+      median_price: round(median(prices), 2),
+      median_price_per_sqft: round(median(pricesPerSqft), 2),
+      inventory_count: onMarket.filter(property => property.listing_status === 'active').length,
+      sales_count: properties.filter(property =>
+        property.listing_status === 'sold' &&
+        property.off_market_at !== null &&
+        new Date(property.off_market_at).getTime() >= salesSince
+      ).length,
+      days_on_market: onMarket.length > 0
+        ? Math.round(median(onMarket.map(property => getDaysOnMarket(property, now))))
+        : null
+    }
+  }
+}
+
+/**
+ * Drop listings whose $/sqft falls outside Tukey's fences (Q1 - 1.5·IQR, Q3 + 1.5·IQR)
+ */
+export function trimPricePerSqftOutliers<T extends Pick<PropertyRow, 'price' | 'sqft'>>(properties: T[]): T[] {
+  // Quartiles of three or fewer values can't tell an outlier from the spread
+  if (properties.length < 4) return properties
+
+  const values = properties.map(property => Number(property.price) / Number(property.sqft)).sort((a, b) => a - b)
+  const q1 = quantile(values, 0.25)
+  const q3 = quantile(values, 0.75)
+  const fence = 1.5 * (q3 - q1)
+
+  return properties.filter(property => {
+    const value = Number(property.price) / Number(property.sqft)
+    return value >= q1 - fence && value <= q3 + fence
+  })
+}
+
+/**
+ * Whether any scoring baseline field moved by more than the relative threshold
+ */
+export function hasBaselineMoved(
+  previous: NeighborhoodBaseline,
+  next: NeighborhoodBaseline,
+  threshold: number = DEFAULT_BASELINE_CHANGE_THRESHOLD
+): boolean {
+  return BASELINE_FIELDS.some(field => {
+    const before = Number(previous[field])
+    const after = Number(next[field])
+    if (before === 0) return after !== 0
+    return Math.abs(after - before) / Math.abs(before) > threshold
+  })
+}
+
+/**
+ * Recompute neighborhood_stats from properties, snapshot market_trends and rescore moved neighborhoods
+ */
+export async function aggregateNeighborhoodStats(
+  client: SupabaseClient,
+  options: NeighborhoodAggregationOptions = {}
+): Promise<NeighborhoodAggregationReport> {
+  const now = options.now ?? new Date()
+  const minSampleSize = options.minSampleSize ?? DEFAULT_MIN_SAMPLE_SIZE
+  const report: NeighborhoodAggregationReport = {
+    snapshotDate: now.toISOString().slice(0, 10),
+    processed: 0,
+    updated: [],
+    moved: [],
+    skipped: [],
+    trendsWritten: 0,
+    rescore: null,
+    failed: []
+  }
+
+  let neighborhoodQuery = client.from('neighborhood_stats').select('*')
+  if (options.neighborhoodIds?.length) neighborhoodQuery = neighborhoodQuery.in('id', options.neighborhoodIds)
+  const { data: neighborhoodData, error: neighborhoodError } = await neighborhoodQuery
+  if (neighborhoodError) throw neighborhoodError
+
+  const neighborhoods = (neighborhoodData || []) as NeighborhoodRow[]
+  const propertiesByNeighborhood = await fetchPropertiesByNeighborhood(client, neighborhoods.map(n => n.id))
+  const priorTrends = await fetchMarketTrends(
+    neighborhoods.map(n => n.id),
+    { since: new Date(now.getTime() - MOMENTUM_HISTORY_DAYS * MS_PER_DAY).toISOString().slice(0, 10) },
+    client
+  )
+  const trends: MarketTrendInsert[] = []
+
+  for (const neighborhood of neighborhoods) {
+    report.processed++
+
+    const properties = propertiesByNeighborhood.get(neighborhood.id) ?? []
+    const aggregate = aggregateNeighborhood(properties, minSampleSize, now)
+    if (!aggregate) {
+      report.skipped.push({
+        neighborhoodId: neighborhood.id,
+        reason: `Fewer than ${minSampleSize} usable listings (${properties.length} total); existing stats kept`
+      })
+      continue
+    }
+
+    const snapshot = { neighborhood_id: neighborhood.id, date: report.snapshotDate, ...aggregate.trend }
+    trends.push(snapshot)
+
+    // Today's snapshot replaces any earlier run from the same day
+    const history = priorTrends.filter(trend => trend.neighborhood_id === neighborhood.id && trend.date !== snapshot.date)
+    const momentum = toMarketMomentum(summarizeMarketTrends([
+      ...history,
+      { ...snapshot, id: '', created_at: now.toISOString() }
+    ]))
+
+    try {
+      if (!options.dryRun) {
+        const { error: updateError } = await client
+          .from('neighborhood_stats')
+          .update({
+            ...aggregate.baseline,
+            ...momentum,
+            stats_sample_size: aggregate.sampleSize,
+            stats_computed_at: now.toISOString()
+          })
+          .eq('id', neighborhood.id)
+        if (updateError) throw updateError
+      }
+
+      report.updated.push(neighborhood.id)
+      if (
+        hasBaselineMoved(neighborhood, aggregate.baseline, options.baselineChangeThreshold) ||
+        hasMomentumMoved(neighborhood, momentum)
+      ) {
+        report.moved.push(neighborhood.id)
+      }
+    } catch (updateError) {
+      report.failed.push({
+        neighborhoodId: neighborhood.id,
+        error: updateError instanceof Error ? updateError.message : String(updateError)
+      })
+    }
+  }
+
+  if (!options.dryRun && trends.length > 0) {
+    const { error } = await client.from('market_trends').upsert(trends, { onConflict: 'neighborhood_id,date' })
+    if (error) throw error
+  }
+  report.trendsWritten = trends.length
+
+  // The property trigger only sees property changes, so moved baselines are rescored here
+  if (!options.dryRun && options.rescore !== false && report.moved.length > 0) {
+    report.rescore = await rescoreProperties(client, { neighborhoodIds: report.moved })
+  }
+
+  return report
+}
+
+async function fetchPropertiesByNeighborhood(
+  client: SupabaseClient,
+  neighborhoodIds: string[]
+): Promise<Map<string, AggregateProperty[]>> {
+  const byNeighborhood = new Map<string, AggregateProperty[]>()
+  if (neighborhoodIds.length === 0) return byNeighborhood
+
+  let lastId: string | null = null
+  while (true) {
+    let query = client
+      .from('properties')
+      .select(AGGREGATE_COLUMNS)
+      .in('neighborhood_id', neighborhoodIds)
+      .order('id')
+      .limit(BATCH_SIZE)
+    if (lastId) query = query.gt('id', lastId)
+
+    const { data, error } = await query
+    if (error) throw error
+
+    const rows = (data || []) as AggregateProperty[]
+    for (const row of rows) {
+      const list = byNeighborhood.get(row.neighborhood_id!) ?? []
+      list.push(row)
+      byNeighborhood.set(row.neighborhood_id!, list)
+    }
+
+    if (rows.length < BATCH_SIZE) break
+    lastId = rows[rows.length - 1].id
+  }
+
+  return byNeighborhood
+}
+
+function median(values: number[]): number {
+  return quantile([...values].sort((a, b) => a - b), 0.5)
+}
+
+// Linear interpolation between closest ranks; values must be sorted
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q
+  const lower = Math.floor(position)
+  const upper = Math.ceil(position)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
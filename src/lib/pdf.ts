@@ -0,0 +1,336 @@
+/**
+ * PDF Writer
+ *
+ * Lays out a list of blocks (headings, wrapped text, bullet lists, label/value
+ * tables and vector drawings) onto US Letter pages, breaking pages as needed.
+ * Text uses the standard Helvetica fonts every PDF reader ships, so nothing is
+ * embedded; it is encoded as WinAnsi and characters outside that set (emoji,
+ * most symbols) are dropped.
+ */
+
+import { deflateSync } from 'zlib'
+
+export type PdfColor = [number, number, number] // RGB, 0-1
+
+export type PdfShape =
+  | { type: 'polygon'; points: [number, number][]; fill?: PdfColor; stroke?: PdfColor; lineWidth?: number }
+  | { type: 'line'; from: [number, number]; to: [number, number]; stroke: PdfColor; lineWidth?: number }
+  | { type: 'circle'; center: [number, number]; radius: number; fill?: PdfColor; stroke?: PdfColor }
+  | { type: 'text'; position: [number, number]; text: string; size?: number; color?: PdfColor; align?: 'left' | 'right' }
+
+export type PdfBlock =
+  | { type: 'heading'; text: string; size?: number }
+  | { type: 'text'; text: string; size?: number; bold?: boolean; color?: PdfColor }
+  | { type: 'list'; items: string[]; size?: number }
+  | { type: 'table'; rows: [string, string][]; size?: number }
+  | { type: 'drawing'; height: number; shapes: PdfShape[] } // Shape coordinates run from the block's top-left corner
+  | { type: 'spacer'; height: number }
+  | { type: 'pageBreak' }
+
+export interface PdfDocumentInfo {
+  title: string
+  footer?: string // Printed at the bottom of every page, with the page number
+}
+
+interface Font {
+  resource: 'F1' | 'F2'
+  widths: number[] // Glyph widths for codes 32-126, in 1/1000 em
+}
+
+const PDF_PAGE_WIDTH = 612
+const PDF_PAGE_HEIGHT = 792
+const PDF_MARGIN = 54
+export const PDF_CONTENT_WIDTH = PDF_PAGE_WIDTH - 2 * PDF_MARGIN
+
+const BODY_SIZE = 10
+const LINE_HEIGHT = 1.35
+const BLOCK_GAP = 8
+const LIST_INDENT = 12
+const TABLE_LABEL_WIDTH = 170
+const FOOTER_SIZE = 8
+const TEXT_COLOR: PdfColor = [0.13, 0.13, 0.13]
+const MUTED_COLOR: PdfColor = [0.45, 0.45, 0.45]
+const BEZIER_CIRCLE = 0.5523 // Control point offset for a quarter circle
+
+// Helvetica / Helvetica-Bold AFM widths for ASCII 32-126
+const REGULAR: Font = {
+  resource: 'F1',
+  widths: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+  ]
+}
+const BOLD: Font = {
+  resource: 'F2',
+  widths: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+  ]
+}
+
+// Unicode characters with a WinAnsi code outside Latin-1
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+}
+const WIN_ANSI_SUBSTITUTES: Record<string, string> = { '→': '->', '←': '<-', '≥': '>=', '≤': '<=' }
+
+/**
+ * Render blocks into a PDF file
+ */
+export function renderPdf(blocks: PdfBlock[], info: PdfDocumentInfo): Buffer {
+  const pages: string[][] = [[]]
+  let y = PDF_MARGIN // Distance from the top of the page
+
+  const page = () => pages[pages.length - 1]
+  const ensureSpace = (height: number) => {
+    if (y + height <= PDF_PAGE_HEIGHT - PDF_MARGIN || y === PDF_MARGIN) return
+    pages.push([])
+    y = PDF_MARGIN
+  }
+  const writeLines = (lines: string[], x: number, size: number, font: Font, color: PdfColor, firstPrefix?: string) => {
+    const lineHeight = size * LINE_HEIGHT
+    lines.forEach((line, index) => {
+      ensureSpace(lineHeight)
+      if (index === 0 && firstPrefix) page().push(textOp(x - LIST_INDENT, y + size, firstPrefix, size, font, color))
+      page().push(textOp(x, y + size, line, size, font, color))
+      y += lineHeight
+    })
+  }
+
+  for (const [index, block] of blocks.entries()) {
+    switch (block.type) {
+      case 'heading': {
+        const size = block.size ?? 14
+        // Keep a heading with the start of its section, or with the whole drawing that follows it
+        const next = blocks[index + 1]
+        ensureSpace(size * LINE_HEIGHT + 2 + (next?.type === 'drawing' ? next.height : size * LINE_HEIGHT * 2))
+        writeLines(wrapText(block.text, PDF_CONTENT_WIDTH, size, BOLD), PDF_MARGIN, size, BOLD, TEXT_COLOR)
+        y += 2
+        break
+      }
+      case 'text': {
+        const size = block.size ?? BODY_SIZE
+        const font = block.bold ? BOLD : REGULAR
+        for (const paragraph of block.text.split('\n')) {
+          const lines = wrapText(paragraph, PDF_CONTENT_WIDTH, size, font)
+          if (lines.length === 0) y += size * LINE_HEIGHT * 0.5
+          writeLines(lines, PDF_MARGIN, size, font, block.color ?? TEXT_COLOR)
+        }
+        break
+      }
+      case 'list': {
+        const size = block.size ?? BODY_SIZE
+        for (const item of block.items) {
+          const lines = wrapText(item, PDF_CONTENT_WIDTH - LIST_INDENT, size, REGULAR)
+          writeLines(lines, PDF_MARGIN + LIST_INDENT, size, REGULAR, TEXT_COLOR, '•')
+        }
+        break
+      }
+      case 'table': {
+        const size = block.size ?? BODY_SIZE
+        const lineHeight = size * LINE_HEIGHT
+        for (const [label, value] of block.rows) {
+          const labelLines = wrapText(label, TABLE_LABEL_WIDTH - 8, size, REGULAR)
+          const valueLines = wrapText(value, PDF_CONTENT_WIDTH - TABLE_LABEL_WIDTH, size, BOLD)
+          const rowLines = Math.max(labelLines.length, valueLines.length, 1)
+          ensureSpace(rowLines * lineHeight)
+          labelLines.forEach((line, index) =>
+            page().push(textOp(PDF_MARGIN, y + size + index * lineHeight, line, size, REGULAR, MUTED_COLOR))
+          )
+          valueLines.forEach((line, index) =>
+            page().push(textOp(PDF_MARGIN + TABLE_LABEL_WIDTH, y + size + index * lineHeight, line, size, BOLD, TEXT_COLOR))
+          )
+          y += rowLines * lineHeight
+        }
+        break
+      }
+      case 'drawing':
+        ensureSpace(block.height)
+        page().push(...block.shapes.map(shape => shapeOp(shape, PDF_MARGIN, y)))
+        y += block.height
+        break
+      case 'spacer':
+        y += block.height
+        continue
+      case 'pageBreak':
+        if (y > PDF_MARGIN) {
+          pages.push([])
+          y = PDF_MARGIN
+        }
+        continue
+    }
+    y += BLOCK_GAP
+  }
+
+  if (info.footer) {
+    pages.forEach((ops, index) => {
+      const text = `${info.footer} · Page ${index + 1} of ${pages.length}`
+      ops.push(textOp(PDF_MARGIN, PDF_PAGE_HEIGHT - PDF_MARGIN / 2, text, FOOTER_SIZE, REGULAR, MUTED_COLOR))
+    })
+  }
+
+  return serialize(pages.map(ops => ops.join('\n')), info)
+}
+
+// Width of a string in points
+function measureText(text: string, size: number, bold = false): number {
+  const font = bold ? BOLD : REGULAR
+  let width = 0
+  for (const byte of toWinAnsi(text)) {
+    width += byte >= 32 && byte <= 126 ? font.widths[byte - 32] : 556
+  }
+  return (width * size) / 1000
+}
+
+function wrapText(text: string, maxWidth: number, size: number, font: Font): string[] {
+  const bold = font === BOLD
+  const lines: string[] = []
+  let line = ''
+
+  // Words made only of characters WinAnsi can't encode would print as stray spaces
+  for (const word of text.split(/\s+/).filter(word => toWinAnsi(word).length > 0)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (measureText(candidate, size, bold) <= maxWidth || !line) {
+      line = candidate
+    } else {
+      lines.push(line)
+      line = word
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+// Page coordinates are measured from the top; PDF's origin is the bottom-left corner
+function textOp(x: number, top: number, text: string, size: number, font: Font, color: PdfColor): string {
+  return `BT ${fillColor(color)} /${font.resource} ${size} Tf ${num(x)} ${num(PDF_PAGE_HEIGHT - top)} Td (${escapeString(text)}) Tj ET`
+}
+
+function shapeOp(shape: PdfShape, originX: number, originY: number): string {
+  const point = ([x, y]: [number, number]) => `${num(originX + x)} ${num(PDF_PAGE_HEIGHT - originY - y)}`
+  const paint = (fill?: PdfColor, stroke?: PdfColor) => (fill && stroke ? 'B' : fill ? 'f' : 'S')
+  const colors = (fill?: PdfColor, stroke?: PdfColor) =>
+    [fill && fillColor(fill), stroke && `${num(stroke[0])} ${num(stroke[1])} ${num(stroke[2])} RG`].filter(Boolean).join(' ')
+
+  switch (shape.type) {
+    case 'polygon': {
+      const [first, ...rest] = shape.points
+      if (!first) return ''
+      const path = [`${point(first)} m`, ...rest.map(p => `${point(p)} l`), 'h'].join(' ')
+      return `q ${colors(shape.fill, shape.stroke)} ${num(shape.lineWidth ?? 1)} w ${path} ${paint(shape.fill, shape.stroke)} Q`
+    }
+    case 'line':
+      return `q ${colors(undefined, shape.stroke)} ${num(shape.lineWidth ?? 1)} w ${point(shape.from)} m ${point(shape.to)} l S Q`
+    case 'circle': {
+      const [cx, cy] = shape.center
+      const r = shape.radius
+      const k = r * BEZIER_CIRCLE
+      const path = [
+        `${point([cx + r, cy])} m`,
+        `${point([cx + r, cy - k])} ${point([cx + k, cy - r])} ${point([cx, cy - r])} c`,
+        `${point([cx - k, cy - r])} ${point([cx - r, cy - k])} ${point([cx - r, cy])} c`,
+        `${point([cx - r, cy + k])} ${point([cx - k, cy + r])} ${point([cx, cy + r])} c`,
+        `${point([cx + k, cy + r])} ${point([cx + r, cy + k])} ${point([cx + r, cy])} c`
+      ].join(' ')
+      return `q ${colors(shape.fill, shape.stroke)} 0.75 w ${path} ${paint(shape.fill, shape.stroke)} Q`
+    }
+    case 'text': {
+      const size = shape.size ?? 8
+      const width = shape.align === 'right' ? measureText(shape.text, size) : 0
+      return textOp(originX + shape.position[0] - width, originY + shape.position[1], shape.text, size, REGULAR, shape.color ?? TEXT_COLOR)
+    }
+  }
+}
+
+function fillColor([r, g, b]: PdfColor): string {
+  return `${num(r)} ${num(g)} ${num(b)} rg`
+}
+
+function num(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+function toWinAnsi(text: string): number[] {
+  const bytes: number[] = []
+  for (const char of text) {
+    const substitute = WIN_ANSI_SUBSTITUTES[char]
+    if (substitute) {
+      bytes.push(...substitute.split('').map(c => c.charCodeAt(0)))
+      continue
+    }
+    const code = char.codePointAt(0)!
+    if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) bytes.push(code)
+    else if (WIN_ANSI_EXTRAS[char]) bytes.push(WIN_ANSI_EXTRAS[char])
+  }
+  return bytes
+}
+
+// Literal string bytes, with the delimiters escaped
+function escapeString(text: string): string {
+  return toWinAnsi(text)
+    .map(byte => {
+      const char = String.fromCharCode(byte)
+      return char === '(' || char === ')' || char === '\\' ? `\\${char}` : char
+    })
+    .join('')
+}
+
+// Objects: 1 catalog, 2 page tree, 3-4 fonts, 5 document info, then a page and its content stream per page
+function serialize(contents: string[], info: PdfDocumentInfo): Buffer {
+  const pageIds = contents.map((_, index) => 6 + index * 2)
+  const objects: (string | Buffer)[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapeString(info.title)}) /Producer (CalReal Deals) >>`
+  ]
+
+  contents.forEach((content, index) => {
+    const stream = deflateSync(Buffer.from(content, 'latin1'))
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[index] + 1} 0 R >>`,
+      Buffer.concat([
+        Buffer.from(`<< /Length ${stream.length} /Filter /FlateDecode >>\nstream\n`, 'latin1'),
+        stream,
+        Buffer.from('\nendstream', 'latin1')
+      ])
+    )
+  })
+
+  const chunks: Buffer[] = [Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1')]
+  const offsets: number[] = []
+  let length = chunks[0].length
+
+  objects.forEach((object, index) => {
+    const body = typeof object === 'string' ? Buffer.from(object, 'latin1') : object
+    const chunk = Buffer.concat([Buffer.from(`${index + 1} 0 obj\n`, 'latin1'), body, Buffer.from('\nendobj\n', 'latin1')])
+    offsets.push(length)
+    chunks.push(chunk)
+    length += chunk.length
+  })
+
+  const xref = [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    'startxref',
+    String(length),
+    '%%EOF'
+  ].join('\n')
+  chunks.push(Buffer.from(xref + '\n', 'latin1'))
+
+  return Buffer.concat(chunks)
+}
@@ -0,0 +1,222 @@
+/**
+ * Property Comparison
+ *
+ * Lines up two to four shortlisted properties for /compare: listing facts,
+ * every deal score component, rent cap coverage, neighborhood metrics and
+ * projected cash flow under the calculator's default assumptions. The selection
+ * lives in the URL (`/compare?ids=a,b,c`) so a comparison can be shared.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase } from './supabase'
+import { fetchPropertyDetails, type PropertyDetails } from './property-details'
+import { analyzeCashFlow, getDefaultCashFlowInputs, type CashFlowAnalysis } from './cash-flow'
+import { resolveCpiRegion } from './cpi'
+import { determineRentRegime, type RentRegimeDetermination } from './rent-control-jurisdictions'
+import { toAb1482ExemptionFacts } from './scoring-inputs'
+import { getDaysOnMarket } from './property-history'
+import { MARKET_CONDITION_LABELS } from './market-trends'
+import { formatPercentChange, formatPrice } from './format'
+
+export interface ComparedProperty {
+  details: PropertyDetails
+  estimatedRent: number
+  rentRegime: RentRegimeDetermination
+  cashFlow: CashFlowAnalysis
+}
+
+export interface ComparisonRow {
+  label: string
+  cells: string[] // One per property, in selection order
+  best: number[] // Indexes of the best cells; empty when the row has no better / worse
+}
+
+export interface ComparisonSection {
+  title: string
+  rows: ComparisonRow[]
+}
+
+type BestValue = 'max' | 'min' | null
+
+export const MAX_COMPARED_PROPERTIES = 4
+
+/**
+ * Property ids from the `ids` search param (comma-separated or repeated), deduplicated and capped
+ */
+export function parseCompareIds(param: string | string[] | undefined): string[] {
+  const ids = [param ?? []].flat().flatMap(value => value.split(',')).map(id => id.trim()).filter(Boolean)
+  return Array.from(new Set(ids)).slice(0, MAX_COMPARED_PROPERTIES)
+}
+
+/**
+ * Shareable /compare URL for a selection
+ */
+export function toCompareHref(ids: string[]): string {
+  return `/compare?ids=${ids.map(encodeURIComponent).join(',')}`
+}
+
+/**
+ * Load the selected properties with their rent regime and projected cash flow, in selection order
+ * Properties that don't exist are dropped
+ */
+export async function fetchComparedProperties(
+  ids: string[],
+  client: SupabaseClient = supabase
+): Promise<ComparedProperty[]> {
+  const details = await Promise.all(ids.map(id => fetchPropertyDetails(id, client)))
+
+  return details
+    .filter((detail): detail is PropertyDetails => detail !== null)
+    .map(detail => {
+      const { property } = detail
+      const estimatedRent = detail.rentEstimate.estimatedRent
+      const cpiRegion = resolveCpiRegion(property.city)
+      const rentRegime = determineRentRegime({
+        ...toAb1482ExemptionFacts(property),
+        city: property.city,
+        zipCode: property.zip_code,
+        yearBuilt: property.year_built,
+        propertyType: property.property_type,
+        unitCount: detail.units.length || undefined
+      })
+
+      return {
+        details: detail,
+        estimatedRent,
+        rentRegime,
+        cashFlow: analyzeCashFlow(getDefaultCashFlowInputs({
+          purchasePrice: Number(property.price),
+          monthlyRent: estimatedRent,
+          yearBuilt: property.year_built,
+          cpiRegion: rentRegime.jurisdiction?.cpiRegion ?? cpiRegion,
+          rentCapPercentage: rentRegime.maxIncreasePercentage
+        }))
+      }
+    })
+}
+
+/**
+ * Comparison table rows, grouped into sections, with the best value marked in each comparable row
+ */
+export function buildComparisonSections(properties: ComparedProperty[], now: Date = new Date()): ComparisonSection[] {
+  const percent = (value: number) => `${value.toFixed(2)}%`
+  const count = (value: number) => value.toLocaleString()
+
+  const componentNames = Array.from(new Set(
+    properties.flatMap(({ details }) => details.dealScore?.breakdown.map(item => item.component) ?? [])
+  ))
+
+  return [
+    {
+      title: 'Listing',
+      rows: [
+        numericRow('Price', properties.map(p => Number(p.details.property.price)), formatPrice, 'min'),
+        numericRow('$/sqft', properties.map(p => Number(p.details.property.price_per_sqft)), formatPrice, 'min'),
+        numericRow('Beds', properties.map(p => Number(p.details.property.beds)), count, 'max'),
+        numericRow('Baths', properties.map(p => Number(p.details.property.baths)), count, 'max'),
+        numericRow('Size (sqft)', properties.map(p => Number(p.details.property.sqft)), count, 'max'),
+        numericRow('Year built', properties.map(p => p.details.property.year_built), String, 'max'),
+        numericRow('Days on market', properties.map(p => getDaysOnMarket(p.details.property, now)), count, null)
+      ]
+    },
+    {
+      title: 'Deal Score',
+      rows: [
+        numericRow('Total score', properties.map(p => p.details.dealScore?.totalScore ?? null), value => value.toFixed(1), 'max'),
+        ...componentNames.map(name => {
+          const components = properties.map(p => p.details.dealScore?.breakdown.find(item => item.component === name) ?? null)
+          return {
+            label: name,
+            cells: components.map(item => (item ? `${item.score.toFixed(1)} / ${item.maxScore}` : 'N/A')),
+            best: findBest(components.map(item => (item ? item.score / item.maxScore : null)), 'max')
+          }
+        }),
+        numericRow(
+          'Price vs comps estimate',
+          properties.map(({ details }) => {
+            const estimate = details.dealScore?.marketValueEstimate
+            return estimate ? ((Number(details.property.price) - estimate.estimatedValue) / estimate.estimatedValue) * 100 : null
+          }),
+          formatPercentChange,
+          'min'
+        )
+      ]
+    },
+    {
+      title: 'Rent Cap',
+      rows: [
+        textRow('Regime', properties.map(({ rentRegime }) =>
+          rentRegime.regime === 'local'
+            ? `${rentRegime.jurisdiction?.name ?? 'Local'} rent control`
+            : rentRegime.regime === 'ab1482' ? 'AB 1482' : 'Not covered'
+        )),
+        textRow('Max annual increase', properties.map(({ rentRegime }) =>
+          rentRegime.maxIncreasePercentage === null ? 'Uncapped' : percent(rentRegime.maxIncreasePercentage)
+        )),
+        textRow('Just cause required', properties.map(({ rentRegime }) => (rentRegime.justCauseRequired ? 'Yes' : 'No')))
+      ]
+    },
+    {
+      title: 'Neighborhood',
+      rows: [
+        textRow('Neighborhood', properties.map(({ details }) => details.neighborhood?.name ?? 'Unassigned')),
+        numericRow(
+          '$/sqft vs neighborhood median',
+          properties.map(({ details }) => {
+            const median = Number(details.neighborhood?.median_price_per_sqft)
+            return median > 0 ? ((Number(details.property.price_per_sqft) - median) / median) * 100 : null
+          }),
+          formatPercentChange,
+          'min'
+        ),
+        numericRow('Price momentum (YoY)', properties.map(p => p.details.neighborhood?.price_momentum_yoy ?? null), formatPercentChange, 'max'),
+        textRow('Market', properties.map(({ details }) => {
+          const condition = details.neighborhood?.market_condition
+          return condition ? MARKET_CONDITION_LABELS[condition] : 'N/A'
+        })),
+        numericRow('Walk score', properties.map(p => p.details.neighborhood?.walk_score ?? null), count, 'max'),
+        numericRow('School rating', properties.map(p => p.details.neighborhood?.school_rating ?? null), value => `${value}/10`, 'max'),
+        numericRow('Crime rate (per 1,000)', properties.map(p => p.details.neighborhood?.crime_rate ?? null), String, 'min')
+      ]
+    },
+    {
+      title: 'Projected Cash Flow',
+      rows: [
+        numericRow('Estimated rent', properties.map(p => p.estimatedRent), formatPrice, 'max'),
+        numericRow('Monthly cash flow', properties.map(p => p.cashFlow.monthly.cashFlow), formatPrice, 'max'),
+        numericRow('Cap rate', properties.map(p => p.cashFlow.capRate), percent, 'max'),
+        numericRow('Cash-on-cash', properties.map(p => p.cashFlow.cashOnCashReturn), percent, 'max'),
+        numericRow('DSCR', properties.map(p => p.cashFlow.debtServiceCoverageRatio), value => value.toFixed(2), 'max'),
+        numericRow('10-year IRR', properties.map(p => p.cashFlow.tenYearIrr), percent, 'max'),
+        numericRow('Cash invested', properties.map(p => p.cashFlow.cashInvested), formatPrice, null)
+      ]
+    }
+  ]
+}
+
+function numericRow(
+  label: string,
+  values: (number | null)[],
+  format: (value: number) => string,
+  best: BestValue
+): ComparisonRow {
+  return {
+    label,
+    cells: values.map(value => (value === null ? 'N/A' : format(value))),
+    best: findBest(values, best)
+  }
+}
+
+function textRow(label: string, cells: string[]): ComparisonRow {
+  return { label, cells, best: [] }
+}
+
+// Ties share the highlight; nothing is highlighted when every known value is the same
+function findBest(values: (number | null)[], best: BestValue): number[] {
+  const known = values.filter((value): value is number => value !== null)
+  if (!best || known.length < 2) return []
+
+  const target = best === 'max' ? Math.max(...known) : Math.min(...known)
+  if (known.every(value => value === target)) return []
+  return values.flatMap((value, index) => (value === target ? [index] : []))
+}
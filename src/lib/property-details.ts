@@ -0,0 +1,135 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase, type Database } from './supabase'
+import {
+  calculateDealScore,
+  DEAL_SCORE_ALGORITHM_VERSION,
+  type DealScoreBreakdown,
+  type NeighborhoodData,
+  type PropertyMetrics
+} from './deal-score'
+import { toNeighborhoodData, toPropertyMetrics } from './scoring-inputs'
+import { estimateMarketRent, rentalCompCutoffDate, type RentEstimate } from './rent-estimate'
+import { buildPropertyHistory, type PropertyEvent, type PropertyHistory } from './property-history'
+
+type Tables = Database['public']['Tables']
+
+const INVALID_TEXT_REPRESENTATION = '22P02'
+
+export interface PropertyDetails {
+  property: Tables['properties']['Row']
+  neighborhood: Tables['neighborhood_stats']['Row'] | null
+  images: Tables['property_images']['Row'][]
+  marketTrends: Tables['market_trends']['Row'][]
+  nearbyProperties: PropertyMetrics[]
+  units: Tables['property_units']['Row'][] // Rent roll of a multi-family building
+  rentalComps: Tables['rental_comps']['Row'][] // Recent leases in the neighborhood
+  rentEstimate: RentEstimate
+  dealScore: DealScoreBreakdown | null
+  history: PropertyHistory
+}
+
+/**
+ * Load a property with its neighborhood, images, market trends, units, rent estimate, deal score and price history
+ * Returns null when the property doesn't exist
+ */
+export async function fetchPropertyDetails(
+  id: string,
+  client: SupabaseClient = supabase
+): Promise<PropertyDetails | null> {
+  const { data: property, error } = await client
+    .from('properties')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error?.code === INVALID_TEXT_REPRESENTATION) return null // Malformed UUID
+  if (error) throw error
+  if (!property) return null
+
+  const row = property as Tables['properties']['Row']
+
+  const [neighborhoodResult, imagesResult, trendsResult, nearbyResult, eventsResult, unitsResult, rentalCompsResult] = await Promise.all([
+    row.neighborhood_id
+      ? client.from('neighborhood_stats').select('*').eq('id', row.neighborhood_id).maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+    client
+      .from('property_images')
+      .select('*')
+      .eq('property_id', id)
+      .order('is_primary', { ascending: false }),
+    row.neighborhood_id
+      ? client
+          .from('market_trends')
+          .select('*')
+          .eq('neighborhood_id', row.neighborhood_id)
+          .order('date', { ascending: true })
+      : Promise.resolve({ data: [], error: null }),
+    row.neighborhood_id
+      ? client.from('properties').select('*').eq('neighborhood_id', row.neighborhood_id)
+      : Promise.resolve({ data: [], error: null }),
+    client
+      .from('property_events')
+      .select('*')
+      .eq('property_id', id)
+      .order('created_at', { ascending: true }),
+    row.property_type === 'multi_family'
+      ? client.from('property_units').select('*').eq('property_id', id).order('unit_number')
+      : Promise.resolve({ data: [], error: null }),
+    row.neighborhood_id
+      ? client
+          .from('rental_comps')
+          .select('*')
+          .eq('neighborhood_id', row.neighborhood_id)
+          .gte('leased_on', rentalCompCutoffDate())
+      : Promise.resolve({ data: [], error: null })
+  ])
+
+  if (neighborhoodResult.error) throw neighborhoodResult.error
+  if (imagesResult.error) throw imagesResult.error
+  if (trendsResult.error) throw trendsResult.error
+  if (nearbyResult.error) throw nearbyResult.error
+  if (eventsResult.error) throw eventsResult.error
+  if (unitsResult.error) throw unitsResult.error
+  if (rentalCompsResult.error) throw rentalCompsResult.error
+
+  const neighborhood = neighborhoodResult.data as Tables['neighborhood_stats']['Row'] | null
+  const nearbyProperties = ((nearbyResult.data || []) as Tables['properties']['Row'][]).map(row => toPropertyMetrics(row))
+  const units = (unitsResult.data || []) as Tables['property_units']['Row'][]
+  const rentalComps = (rentalCompsResult.data || []) as Tables['rental_comps']['Row'][]
+  const neighborhoodData = neighborhood ? toNeighborhoodData(neighborhood, rentalComps) : undefined
+
+  return {
+    property: row,
+    neighborhood,
+    images: (imagesResult.data || []) as Tables['property_images']['Row'][],
+    marketTrends: (trendsResult.data || []) as Tables['market_trends']['Row'][],
+    nearbyProperties,
+    units,
+    rentalComps,
+    rentEstimate: estimateMarketRent(toPropertyMetrics(row, units), neighborhoodData),
+    dealScore: resolveDealScore(row, neighborhoodData, nearbyProperties, units),
+    history: buildPropertyHistory(row, (eventsResult.data || []) as PropertyEvent[])
+  }
+}
+
+/**
+ * Use the stored breakdown when it is current, otherwise score with the live engine
+ */
+function resolveDealScore(
+  property: Tables['properties']['Row'],
+  neighborhood: NeighborhoodData | undefined,
+  nearbyProperties: PropertyMetrics[],
+  units: Tables['property_units']['Row'][]
+): DealScoreBreakdown | null {
+  if (
+    property.deal_score_breakdown &&
+    property.deal_score_version === DEAL_SCORE_ALGORITHM_VERSION &&
+    !property.deal_score_stale
+  ) {
+    return property.deal_score_breakdown
+  }
+
+  if (!neighborhood) return null
+
+  return calculateDealScore(toPropertyMetrics(property, units), neighborhood, nearbyProperties)
+}
@@ -0,0 +1,218 @@
+/**
+ * Property Export
+ *
+ * Discovery results as a spreadsheet for lenders and partners. The export route
+ * re-runs the search with the page's filters and pages through every match (up
+ * to MAX_EXPORT_ROWS) on the server, so the browser only downloads the file.
+ * Each row carries the deal score with one column per breakdown component and
+ * the comparable sales estimate. Scores are the stored ones unless a built-in
+ * scoring profile is selected, in which case they are recomputed with it the
+ * same way the rescoring job does and rows are ranked by them, as on discovery.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { calculateDealScore, DEAL_SCORE_ALGORITHM_VERSION, type PropertyMetrics } from './deal-score'
+import { loadNeighborhoods, loadUnits } from './rescoring'
+import type { ScoringProfile } from './scoring-profiles'
+import { toNeighborhoodData, toPropertyMetrics } from './scoring-inputs'
+import type { Database } from './supabase'
+import {
+  MAX_SEARCH_LIMIT,
+  searchProperties,
+  toSearchQueryString,
+  type PropertySearchParams,
+  type PropertySearchRow
+} from './property-search'
+import type { SpreadsheetCell } from './xlsx'
+
+type NeighborhoodRow = Database['public']['Tables']['neighborhood_stats']['Row']
+type RentalCompRow = Database['public']['Tables']['rental_comps']['Row']
+
+export type ExportFormat = 'csv' | 'xlsx'
+
+export interface PropertyExport {
+  properties: PropertySearchRow[]
+  truncated: boolean // More properties matched than MAX_EXPORT_ROWS
+  profile: ScoringProfile | null // Profile the scores were recomputed with; null for the stored scores
+}
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'xlsx']
+export const MAX_EXPORT_ROWS = 5000
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+/**
+ * Every property matching the search, in search order or ranked by the profile's score when one is given
+ * The paging params (cursor, limit) are ignored
+ */
+export async function fetchExportProperties(
+  client: SupabaseClient,
+  params: PropertySearchParams,
+  profile: ScoringProfile | null = null
+): Promise<PropertyExport> {
+  const properties: PropertySearchRow[] = []
+  let cursor: string | undefined
+
+  do {
+    const page = await searchProperties(client, { ...params, cursor, limit: MAX_SEARCH_LIMIT })
+    properties.push(...page.properties)
+    cursor = page.nextCursor ?? undefined
+  } while (cursor && properties.length < MAX_EXPORT_ROWS)
+
+  const matches = properties.slice(0, MAX_EXPORT_ROWS)
+  return {
+    properties: profile ? await rescoreExportProperties(client, matches, profile) : matches,
+    truncated: properties.length > MAX_EXPORT_ROWS || !!cursor,
+    profile
+  }
+}
+
+/**
+ * Header and one row per property; `baseUrl` makes the property links absolute
+ * Pass the profile the scores were recomputed with to name it in the score column
+ */
+export function toExportRows(
+  properties: PropertySearchRow[],
+  baseUrl: string,
+  profile: ScoringProfile | null = null
+): SpreadsheetCell[][] {
+  // Breakdowns share one profile's components (the default's when stored); collect them in first-seen order
+  const components = new Map<string, number>()
+  for (const property of properties) {
+    for (const item of property.deal_score_breakdown?.breakdown ?? []) {
+      if (!components.has(item.component)) components.set(item.component, item.maxScore)
+    }
+  }
+
+  const header = [
+    'Address', 'City', 'ZIP', 'Property type', 'Listing status', 'Price', 'Price per sqft', 'Beds', 'Baths', 'Sqft',
+    'Year built', 'Days on market', 'Rent regime', 'Rent cap %',
+    profile ? `Deal score (${describeProfile(profile)})` : 'Deal score',
+    ...Array.from(components, ([component, maxScore]) => `${component} (of ${maxScore})`),
+    'Comps estimate', 'Comps low', 'Comps high', 'Comps confidence', 'Comps count',
+    'Score version', 'Scored at', 'Latitude', 'Longitude', 'Link'
+  ]
+
+  const rows = properties.map((property): SpreadsheetCell[] => {
+    const breakdown = property.deal_score_breakdown
+    const estimate = breakdown?.marketValueEstimate ?? null
+    return [
+      property.address,
+      property.city,
+      property.zip_code,
+      property.property_type,
+      property.listing_status,
+      Number(property.price),
+      round(Number(property.price_per_sqft)),
+      Number(property.beds),
+      Number(property.baths),
+      Number(property.sqft),
+      property.year_built,
+      property.days_on_market,
+      property.rent_regime,
+      property.rent_cap_percentage === null ? null : Number(property.rent_cap_percentage),
+      property.deal_score === null ? null : round(Number(property.deal_score)),
+      ...Array.from(components.keys(), component => {
+        const item = breakdown?.breakdown.find(entry => entry.component === component)
+        return item ? round(item.score) : null
+      }),
+      estimate ? Math.round(estimate.estimatedValue) : null,
+      estimate ? Math.round(estimate.lowValue) : null,
+      estimate ? Math.round(estimate.highValue) : null,
+      estimate?.confidence ?? null,
+      estimate ? estimate.comps.length : null,
+      property.deal_score_version,
+      property.deal_scored_at,
+      property.latitude,
+      property.longitude,
+      `${baseUrl}/property/${property.id}`
+    ]
+  })
+
+  return [header, ...rows]
+}
+
+/**
+ * Filters and row count for the workbook's summary sheet
+ */
+export function toExportSummaryRows(params: PropertySearchParams, result: PropertyExport, now: Date = new Date()): SpreadsheetCell[][] {
+  const filters = Array.from(new URLSearchParams(toSearchQueryString({ ...params, cursor: undefined, limit: undefined })))
+  return [
+    ['Field', 'Value'],
+    ['Exported at', now.toISOString()],
+    ['Properties', result.properties.length],
+    ['Scoring profile', result.profile ? describeProfile(result.profile) : 'Stored scores'],
+    ...(result.truncated ? [['Truncated', `Only the first ${MAX_EXPORT_ROWS} matches are included`]] : []),
+    ...filters
+  ]
+}
+
+/**
+ * Download file name, e.g. calreal-properties-2026-01-31.xlsx
+ */
+export function toExportFilename(format: ExportFormat, now: Date = new Date()): string {
+  return `calreal-properties-${now.toISOString().slice(0, 10)}.${format}`
+}
+
+/**
+ * Export route URL for the current discovery filters, scored with a built-in profile when `profileId` is given
+ */
+export function toExportHref(format: ExportFormat, params: PropertySearchParams, profileId?: string): string {
+  const query = toSearchQueryString({ ...params, cursor: undefined, limit: undefined })
+  const profile = profileId ? `&profile=${encodeURIComponent(profileId)}` : ''
+  return `/api/properties/export?format=${format}${profile}${query ? `&${query}` : ''}`
+}
+
+// Recompute each score under the profile, highest first; properties without neighborhood data can't be scored and go last
+async function rescoreExportProperties(
+  client: SupabaseClient,
+  properties: PropertySearchRow[],
+  profile: ScoringProfile
+): Promise<PropertySearchRow[]> {
+  const neighborhoodCache = new Map<string, NeighborhoodRow | null>()
+  const compsCache = new Map<string, PropertyMetrics[]>()
+  const rentalCompsCache = new Map<string, RentalCompRow[]>()
+  const scoredAt = new Date().toISOString()
+  const rescored: PropertySearchRow[] = []
+
+  for (let i = 0; i < properties.length; i += MAX_SEARCH_LIMIT) {
+    const batch = properties.slice(i, i + MAX_SEARCH_LIMIT)
+    await loadNeighborhoods(client, batch, neighborhoodCache, compsCache, rentalCompsCache)
+    const unitsByProperty = await loadUnits(client, batch)
+
+    for (const property of batch) {
+      const neighborhood = property.neighborhood_id ? neighborhoodCache.get(property.neighborhood_id) : null
+      if (!neighborhood) {
+        rescored.push({ ...property, deal_score: null, deal_score_breakdown: null, deal_score_version: null, deal_scored_at: null })
+        continue
+      }
+
+      const dealScore = calculateDealScore(
+        toPropertyMetrics(property, unitsByProperty.get(property.id)),
+        toNeighborhoodData(neighborhood, rentalCompsCache.get(neighborhood.id)),
+        compsCache.get(neighborhood.id),
+        profile
+      )
+      rescored.push({
+        ...property,
+        deal_score: round(dealScore.totalScore),
+        deal_score_breakdown: dealScore,
+        deal_score_version: DEAL_SCORE_ALGORITHM_VERSION,
+        deal_scored_at: scoredAt
+      })
+    }
+  }
+
+  return rescored.sort((a, b) => (b.deal_score ?? -1) - (a.deal_score ?? -1))
+}
+
+function describeProfile(profile: ScoringProfile): string {
+  return `${profile.name} v${profile.version}`
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,141 @@
+/**
+ * Property History
+ *
+ * Price, listing status and deal score changes are recorded in
+ * `property_events` by a database trigger, so history survives however a
+ * property row is updated (imports, rescoring, manual edits). This module
+ * reads that history and summarizes it for the property page and API.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase, type Database } from './supabase'
+
+type PropertyRow = Database['public']['Tables']['properties']['Row']
+
+export type ListingStatus = 'active' | 'pending' | 'sold' | 'withdrawn'
+export type PropertyEventType = 'listed' | 'price_change' | 'status_change' | 'score_change'
+
+export type PropertyEvent = Database['public']['Tables']['property_events']['Row']
+
+export interface PricePoint {
+  date: string
+  price: number
+}
+
+export interface PropertyHistory {
+  propertyId: string
+  listingStatus: ListingStatus
+  listedAt: string
+  offMarketAt: string | null
+  asOf: string // When daysOnMarket was computed
+  daysOnMarket: number
+  originalPrice: number // First recorded list price
+  currentPrice: number
+  priceChangePercentage: number // Current vs original list price
+  priceReductions: number
+  lastPriceReductionAt: string | null
+  pricePoints: PricePoint[] // Each list price and when it took effect, oldest first
+  events: PropertyEvent[] // Oldest first
+}
+
+export const LISTING_STATUSES: ListingStatus[] = ['active', 'pending', 'sold', 'withdrawn']
+
+export const LISTING_STATUS_LABELS: Record<ListingStatus, string> = {
+  active: 'Active',
+  pending: 'Pending',
+  sold: 'Sold',
+  withdrawn: 'Withdrawn'
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000
+const INVALID_TEXT_REPRESENTATION = '22P02'
+
+/**
+ * Whole days on market; the clock stops when the listing is sold or withdrawn
+ * Mirrors listing_days_on_market() in supabase/schema.sql
+ */
+export function getDaysOnMarket(
+  property: Pick<PropertyRow, 'listed_at' | 'off_market_at'>,
+  now: Date = new Date()
+): number {
+  const end = property.off_market_at ? new Date(property.off_market_at) : now
+  return Math.max(0, Math.floor((end.getTime() - new Date(property.listed_at).getTime()) / MS_PER_DAY))
+}
+
+/**
+ * Summarize a property's recorded events
+ */
+export function buildPropertyHistory(
+  property: Pick<PropertyRow, 'id' | 'price' | 'listing_status' | 'listed_at' | 'off_market_at' | 'last_price_reduction_at'>,
+  events: PropertyEvent[],
+  now: Date = new Date()
+): PropertyHistory {
+  const ordered = [...events].sort((a, b) => a.created_at.localeCompare(b.created_at))
+  const priceEvents = ordered.filter(event => event.event_type === 'listed' || event.event_type === 'price_change')
+
+  const pricePoints: PricePoint[] = priceEvents.map(event => ({ date: event.created_at, price: Number(event.price) }))
+
+  // Rows that predate history tracking have no 'listed' event; start from the listing date
+  const first = priceEvents[0]
+  if (!first) {
+    pricePoints.push({ date: property.listed_at, price: Number(property.price) })
+  } else if (first.event_type === 'price_change' && first.previous_price !== null) {
+    pricePoints.unshift({ date: property.listed_at, price: Number(first.previous_price) })
+  }
+
+  const originalPrice = pricePoints[0].price
+  const currentPrice = Number(property.price)
+
+  return {
+    propertyId: property.id,
+    listingStatus: property.listing_status,
+    listedAt: property.listed_at,
+    offMarketAt: property.off_market_at,
+    asOf: now.toISOString(),
+    daysOnMarket: getDaysOnMarket(property, now),
+    originalPrice,
+    currentPrice,
+    priceChangePercentage: originalPrice > 0 ? ((currentPrice - originalPrice) / originalPrice) * 100 : 0,
+    priceReductions: priceEvents.filter(event => event.previous_price !== null && Number(event.price) < Number(event.previous_price)).length,
+    lastPriceReductionAt: property.last_price_reduction_at,
+    pricePoints,
+    events: ordered
+  }
+}
+
+/**
+ * Load a property's history; null when the property doesn't exist
+ */
+export async function fetchPropertyHistory(
+  id: string,
+  client: SupabaseClient = supabase
+): Promise<PropertyHistory | null> {
+  const { data: property, error } = await client
+    .from('properties')
+    .select('id, price, listing_status, listed_at, off_market_at, last_price_reduction_at')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error?.code === INVALID_TEXT_REPRESENTATION) return null // Malformed UUID
+  if (error) throw error
+  if (!property) return null
+
+  return buildPropertyHistory(property as PropertyRow, await fetchPropertyEvents(id, client))
+}
+
+/**
+ * Load a property's recorded events, oldest first
+ */
+export async function fetchPropertyEvents(
+  id: string,
+  client: SupabaseClient = supabase
+): Promise<PropertyEvent[]> {
+  const { data, error } = await client
+    .from('property_events')
+    .select('*')
+    .eq('property_id', id)
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as PropertyEvent[]
+}
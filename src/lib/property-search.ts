@@ -0,0 +1,318 @@
+/**
+ * Property Search
+ *
+ * Every discovery filter runs in Postgres through the `search_properties`
+ * function (supabase/schema.sql), so results aren't limited to whatever the
+ * browser happened to load. Radius and bounding-box filters go through the
+ * earthdistance GIST index on (latitude, longitude). Pagination is keyset-based:
+ * the cursor carries the last row's sort value and id. Rows without a sort value
+ * (unscored properties) come last whichever way the results are ordered.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './supabase'
+import type { RentRegime } from './rent-control-jurisdictions'
+import {
+  decodeSearchArea,
+  encodeSearchArea,
+  getSearchAreaBoundingCircle,
+  toPostgresPolygon,
+  type SearchArea
+} from './search-areas'
+
+type PropertyRow = Database['public']['Tables']['properties']['Row']
+
+export type PropertySortField = 'deal_score' | 'price' | 'price_per_sqft' | 'distance'
+
+export interface GeoBounds {
+  south: number
+  west: number
+  north: number
+  east: number
+}
+
+export interface PropertySearchParams {
+  text?: string
+  minPrice?: number
+  maxPrice?: number
+  propertyTypes?: PropertyRow['property_type'][]
+  minDealScore?: number
+  rentStabilizedOnly?: boolean
+  rentRegime?: RentRegime
+  minBeds?: number
+  minBaths?: number
+  minYearBuilt?: number
+  maxYearBuilt?: number
+  minSqft?: number
+  maxSqft?: number
+  center?: { latitude: number; longitude: number }
+  radiusMiles?: number // Requires center
+  bounds?: GeoBounds
+  area?: SearchArea // Drawn polygon or circle
+  updatedSince?: string // ISO timestamp; only rows inserted/updated after it
+  priceReducedWithinDays?: number
+  minDaysOnMarket?: number
+  maxDaysOnMarket?: number
+  includeOffMarket?: boolean // Include sold and withdrawn listings
+  sortBy?: PropertySortField
+  sortAscending?: boolean // Default: descending for deal_score, ascending otherwise
+  cursor?: string
+  limit?: number
+}
+
+export type PropertySearchRow = PropertyRow & { distance_meters: number | null; days_on_market: number }
+
+export interface PropertySearchResult {
+  properties: PropertySearchRow[]
+  nextCursor: string | null
+}
+
+interface SearchCursor {
+  value: number
+  id: string
+  missing?: boolean // The row had no sort value
+}
+
+export const DEFAULT_SEARCH_LIMIT = 50
+export const MAX_SEARCH_LIMIT = 200
+
+const METERS_PER_MILE = 1609.344
+const PROPERTY_TYPES: PropertyRow['property_type'][] = ['single_family', 'condo', 'townhouse', 'multi_family']
+const RENT_REGIMES: RentRegime[] = ['local', 'ab1482', 'none']
+const SORT_FIELDS: PropertySortField[] = ['deal_score', 'price', 'price_per_sqft', 'distance']
+
+const NUMERIC_PARAMS = {
+  minPrice: 'min_price',
+  maxPrice: 'max_price',
+  minDealScore: 'min_score',
+  minBeds: 'min_beds',
+  minBaths: 'min_baths',
+  minYearBuilt: 'min_year_built',
+  maxYearBuilt: 'max_year_built',
+  minSqft: 'min_sqft',
+  maxSqft: 'max_sqft',
+  radiusMiles: 'radius_miles',
+  priceReducedWithinDays: 'price_reduced_days',
+  minDaysOnMarket: 'min_dom',
+  maxDaysOnMarket: 'max_dom',
+  limit: 'limit'
+} as const satisfies Partial<Record<keyof PropertySearchParams, string>>
+
+/**
+ * Run a property search in Postgres
+ */
+export async function searchProperties(
+  client: SupabaseClient,
+  params: PropertySearchParams
+): Promise<PropertySearchResult> {
+  const sortBy = params.sortBy ?? 'deal_score'
+  const limit = Math.min(params.limit ?? DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT)
+  const cursor = params.cursor ? decodeSearchCursor(params.cursor) : null
+  const areaCircle = params.area ? getSearchAreaBoundingCircle(params.area) : null
+
+  const { data, error } = await client.rpc('search_properties', {
+    search_text: params.text?.trim() || null,
+    min_price: params.minPrice ?? null,
+    max_price: params.maxPrice ?? null,
+    property_types: params.propertyTypes?.length ? params.propertyTypes : null,
+    min_deal_score: params.minDealScore ?? null,
+    rent_stabilized_only: params.rentStabilizedOnly ?? false,
+    rent_regime_filter: params.rentRegime ?? null,
+    min_beds: params.minBeds ?? null,
+    min_baths: params.minBaths ?? null,
+    min_year_built: params.minYearBuilt ?? null,
+    max_year_built: params.maxYearBuilt ?? null,
+    min_sqft: params.minSqft ?? null,
+    max_sqft: params.maxSqft ?? null,
+    center_lat: params.center?.latitude ?? null,
+    center_lng: params.center?.longitude ?? null,
+    radius_meters: params.radiusMiles !== undefined ? params.radiusMiles * METERS_PER_MILE : null,
+    bounds_south: params.bounds?.south ?? null,
+    bounds_west: params.bounds?.west ?? null,
+    bounds_north: params.bounds?.north ?? null,
+    bounds_east: params.bounds?.east ?? null,
+    area_center_lat: areaCircle?.center[0] ?? null,
+    area_center_lng: areaCircle?.center[1] ?? null,
+    area_radius_meters: areaCircle?.radiusMeters ?? null,
+    area_polygon: params.area?.type === 'polygon' ? toPostgresPolygon(params.area.points) : null,
+    updated_since: params.updatedSince ?? null,
+    price_reduced_within_days: params.priceReducedWithinDays ?? null,
+    min_days_on_market: params.minDaysOnMarket ?? null,
+    max_days_on_market: params.maxDaysOnMarket ?? null,
+    include_off_market: params.includeOffMarket ?? false,
+    sort_by: sortBy,
+    sort_ascending: params.sortAscending ?? sortBy !== 'deal_score',
+    cursor_value: cursor?.value ?? null,
+    cursor_id: cursor?.id ?? null,
+    cursor_missing: cursor?.missing ?? false,
+    page_size: limit
+  })
+
+  if (error) throw error
+
+  // The function returns one extra row so we know whether another page exists
+  const rows = (data || []) as (PropertySearchRow & { sort_key?: number; sort_missing?: boolean })[]
+  const page = rows.slice(0, limit)
+  const last = page[page.length - 1]
+  const nextCursor = rows.length > limit && last
+    ? encodeSearchCursor({ value: Number(last.sort_key), id: last.id, missing: last.sort_missing === true })
+    : null
+
+  for (const row of page) {
+    delete row.sort_key
+    delete row.sort_missing
+  }
+  return { properties: page, nextCursor }
+}
+
+/**
+ * Parse search params from a query string, collecting validation errors
+ */
+export function parseSearchParams(query: URLSearchParams): { params: PropertySearchParams; errors: string[] } {
+  const errors: string[] = []
+  const params: PropertySearchParams = {}
+
+  const text = query.get('q')?.trim()
+  if (text) params.text = text
+
+  for (const [key, name] of Object.entries(NUMERIC_PARAMS) as [keyof typeof NUMERIC_PARAMS, string][]) {
+    const raw = query.get(name)
+    if (raw === null || raw === '') continue
+    const value = Number(raw)
+    if (!Number.isFinite(value) || value < 0) {
+      errors.push(`${name} must be a non-negative number`)
+      continue
+    }
+    params[key] = value
+  }
+
+  const types = query.get('type')?.split(',').filter(Boolean)
+  if (types?.length) {
+    const invalid = types.filter(type => !PROPERTY_TYPES.includes(type as PropertyRow['property_type']))
+    if (invalid.length > 0) errors.push(`Unknown property type: ${invalid.join(', ')}`)
+    params.propertyTypes = types as PropertyRow['property_type'][]
+  }
+
+  if (query.get('rent_stabilized') === 'true') params.rentStabilizedOnly = true
+  if (query.get('include_off_market') === 'true') params.includeOffMarket = true
+
+  const rentRegime = query.get('rent_regime')
+  if (rentRegime) {
+    if (!RENT_REGIMES.includes(rentRegime as RentRegime)) errors.push(`Unknown rent regime: ${rentRegime}`)
+    params.rentRegime = rentRegime as RentRegime
+  }
+
+  const lat = query.get('lat')
+  const lng = query.get('lng')
+  if (lat !== null || lng !== null) {
+    const latitude = Number(lat)
+    const longitude = Number(lng)
+    if (lat === null || lng === null || !isLatitude(latitude) || !isLongitude(longitude)) {
+      errors.push('lat and lng must both be valid coordinates')
+    } else {
+      params.center = { latitude, longitude }
+    }
+  }
+
+  const bounds = query.get('bounds')
+  if (bounds) {
+    const [south, west, north, east] = bounds.split(',').map(Number)
+    if (![south, north].every(isLatitude) || ![west, east].every(isLongitude) || south > north || west > east) {
+      errors.push('bounds must be south,west,north,east')
+    } else {
+      params.bounds = { south, west, north, east }
+    }
+  }
+
+  const area = query.get('area')
+  if (area) {
+    const decoded = decodeSearchArea(area)
+    if (!decoded) errors.push('area must be poly:lat,lng;... or circle:lat,lng,radiusMeters')
+    else params.area = decoded
+  }
+
+  const sortBy = query.get('sort')
+  if (sortBy) {
+    if (!SORT_FIELDS.includes(sortBy as PropertySortField)) errors.push(`Unknown sort: ${sortBy}`)
+    params.sortBy = sortBy as PropertySortField
+  }
+
+  const order = query.get('order')
+  if (order) {
+    if (order !== 'asc' && order !== 'desc') errors.push('order must be asc or desc')
+    params.sortAscending = order === 'asc'
+  }
+
+  const cursor = query.get('cursor')
+  if (cursor) {
+    if (!decodeSearchCursor(cursor)) errors.push('Invalid cursor')
+    params.cursor = cursor
+  }
+
+  if (params.radiusMiles !== undefined && !params.center) errors.push('radius_miles requires lat and lng')
+  if (params.sortBy === 'distance' && !params.center) errors.push('Sorting by distance requires lat and lng')
+  if (params.limit !== undefined && (params.limit < 1 || params.limit > MAX_SEARCH_LIMIT)) {
+    errors.push(`limit must be between 1 and ${MAX_SEARCH_LIMIT}`)
+  }
+  for (const key of ['priceReducedWithinDays', 'minDaysOnMarket', 'maxDaysOnMarket'] as const) {
+    if (params[key] !== undefined && !Number.isInteger(params[key])) {
+      errors.push(`${NUMERIC_PARAMS[key]} must be a whole number of days`)
+    }
+  }
+
+  return { params, errors }
+}
+
+/**
+ * Serialize search params into the query string `parseSearchParams` reads
+ */
+export function toSearchQueryString(params: PropertySearchParams): string {
+  const query = new URLSearchParams()
+
+  if (params.text) query.set('q', params.text)
+  for (const [key, name] of Object.entries(NUMERIC_PARAMS) as [keyof typeof NUMERIC_PARAMS, string][]) {
+    const value = params[key]
+    if (value !== undefined) query.set(name, String(value))
+  }
+  if (params.propertyTypes?.length) query.set('type', params.propertyTypes.join(','))
+  if (params.rentStabilizedOnly) query.set('rent_stabilized', 'true')
+  if (params.includeOffMarket) query.set('include_off_market', 'true')
+  if (params.rentRegime) query.set('rent_regime', params.rentRegime)
+  if (params.center) {
+    query.set('lat', String(params.center.latitude))
+    query.set('lng', String(params.center.longitude))
+  }
+  if (params.bounds) {
+    const { south, west, north, east } = params.bounds
+    query.set('bounds', [south, west, north, east].join(','))
+  }
+  if (params.area) query.set('area', encodeSearchArea(params.area))
+  if (params.sortBy) query.set('sort', params.sortBy)
+  if (params.sortAscending !== undefined) query.set('order', params.sortAscending ? 'asc' : 'desc')
+  if (params.cursor) query.set('cursor', params.cursor)
+
+  return query.toString()
+}
+
+function encodeSearchCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url')
+}
+
+function decodeSearchCursor(value: string): SearchCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'))
+    if (typeof cursor?.value !== 'number' || typeof cursor?.id !== 'string') return null
+    if (cursor.missing !== undefined && typeof cursor.missing !== 'boolean') return null
+    return cursor
+  } catch {
+    return null
+  }
+}
+
+function isLatitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -90 && value <= 90
+}
+
+function isLongitude(value: number): boolean {
+  return Number.isFinite(value) && value >= -180 && value <= 180
+}
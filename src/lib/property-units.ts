@@ -0,0 +1,233 @@
+/**
+ * Property Units
+ *
+ * A multi-family building as its rent roll instead of one oversized house.
+ * Each unit gets a share of the building's market rent, so in-place rents can
+ * be compared unit by unit (loss-to-lease). The governing rent cap is applied
+ * to every lease on its own anniversary, and the capped rent paths add up to
+ * the building-level rent-cap upside projection.
+ */
+
+import { calculateMaxRentIncrease } from './rent-cap-helper'
+import { calculateLocalIncreasePercentage, type RentRegimeDetermination } from './rent-control-jurisdictions'
+import { DEFAULT_MARKET_RENT_GROWTH_RATE } from './cash-flow'
+import type { CpiRegion } from './cpi'
+
+export type UnitOccupancy = 'occupied' | 'vacant' | 'owner_occupied'
+
+export interface PropertyUnit {
+  unitNumber: string
+  beds: number
+  baths: number
+  sqft?: number
+  currentRent?: number // Monthly; only meaningful for occupied units
+  leaseStart?: string // ISO date of the current lease
+  tenantSince?: string // ISO date the current tenant moved in
+  occupancy: UnitOccupancy
+}
+
+export interface UnitMixBuilding {
+  price: number
+  yearBuilt: number
+  marketRent: number // Monthly market rent for the whole building
+  rentRegime: Pick<RentRegimeDetermination, 'regime' | 'jurisdiction'>
+  certificateOfOccupancyDate?: string
+  cpiRegion?: CpiRegion
+}
+
+export interface UnitMixOptions {
+  now?: Date
+  marketRentGrowthRate?: number // % per year
+  projectionYears?: number
+}
+
+export interface UnitAnalysis {
+  unit: PropertyUnit
+  marketRent: number // Monthly share of the building's market rent
+  inPlaceRent: number // Monthly rent collected today; 0 unless occupied
+  lossToLease: number // Market minus in-place rent for occupied units; negative when above market
+  tenureYears: number | null
+  nextIncreaseDate: string // Next lease anniversary
+  maxIncreasePercentage: number | null // Cap on the next increase; null when uncapped
+  projectedRents: number[] // Monthly rent in each projection year
+}
+
+export interface RentRollYear {
+  year: number // 0 is today
+  monthlyRentRoll: number
+  monthlyMarketRent: number
+}
+
+export interface RentCapUpside {
+  years: RentRollYear[]
+  annualIncrease: number // Final-year annual rent roll over today's
+  cumulativeIncrease: number // Extra rent collected over the projection vs today's rent roll
+  capLimitedLoss: number // Rent left below market in the final year because of the cap
+}
+
+export interface UnitMixAnalysis {
+  units: UnitAnalysis[]
+  unitCount: number
+  occupiedUnits: number
+  vacantUnits: number
+  occupancyRate: number // % of rentable (not owner-occupied) units under lease
+  pricePerDoor: number
+  monthlyRentRoll: number
+  monthlyMarketRent: number
+  lossToLease: number // Monthly, occupied units only
+  lossToLeasePercentage: number // Of occupied units' market rent
+  grossRentMultiplier: number | null // Price over annual in-place rent; null with no rent roll
+  rentCapUpside: RentCapUpside
+}
+
+const DEFAULT_PROJECTION_YEARS = 5
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000
+
+/**
+ * Per-unit rent roll metrics and the building's rent-cap upside projection
+ */
+export function analyzeUnitMix(
+  units: PropertyUnit[],
+  building: UnitMixBuilding,
+  options: UnitMixOptions = {}
+): UnitMixAnalysis {
+  const now = options.now ?? new Date()
+  const growth = (options.marketRentGrowthRate ?? DEFAULT_MARKET_RENT_GROWTH_RATE) / 100
+  const projectionYears = options.projectionYears ?? DEFAULT_PROJECTION_YEARS
+
+  const weights = allocationWeights(units)
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0)
+
+  const analyses = units.map((unit, index): UnitAnalysis => {
+    const marketRent = totalWeight > 0 ? building.marketRent * (weights[index] / totalWeight) : 0
+    const inPlaceRent = unit.occupancy === 'occupied' ? unit.currentRent ?? 0 : 0
+    const nextIncreaseDate = nextAnniversary(unit.leaseStart, now)
+
+    const projectedRents: number[] = []
+    let rent = inPlaceRent
+    let maxIncreasePercentage: number | null = null
+    for (let year = 1; year <= projectionYears; year++) {
+      const market = marketRent * Math.pow(1 + growth, year)
+      if (unit.occupancy === 'owner_occupied') {
+        rent = 0
+      } else if (unit.occupancy === 'vacant' || rent <= 0) {
+        rent = market // Vacant units lease at market; caps only limit increases on a tenancy
+      } else {
+        const effectiveDate = new Date(nextIncreaseDate)
+        effectiveDate.setUTCFullYear(effectiveDate.getUTCFullYear() + year - 1)
+        const cap = capPercentage(rent, building, effectiveDate)
+        if (year === 1) maxIncreasePercentage = cap
+        const capped = cap === null ? market : rent * (1 + cap / 100)
+        rent = Math.max(rent, Math.min(capped, market))
+      }
+      projectedRents.push(rent)
+    }
+
+    return {
+      unit,
+      marketRent,
+      inPlaceRent,
+      lossToLease: unit.occupancy === 'occupied' ? marketRent - inPlaceRent : 0,
+      tenureYears: tenureYears(unit, now),
+      nextIncreaseDate: nextIncreaseDate.toISOString().slice(0, 10),
+      maxIncreasePercentage,
+      projectedRents
+    }
+  })
+
+  const occupied = analyses.filter(analysis => analysis.unit.occupancy === 'occupied')
+  const rentable = analyses.filter(analysis => analysis.unit.occupancy !== 'owner_occupied')
+  const monthlyRentRoll = sum(occupied.map(analysis => analysis.inPlaceRent))
+  const occupiedMarketRent = sum(occupied.map(analysis => analysis.marketRent))
+  const lossToLease = sum(occupied.map(analysis => analysis.lossToLease))
+
+  return {
+    units: analyses,
+    unitCount: units.length,
+    occupiedUnits: occupied.length,
+    vacantUnits: analyses.filter(analysis => analysis.unit.occupancy === 'vacant').length,
+    occupancyRate: rentable.length > 0 ? (occupied.length / rentable.length) * 100 : 0,
+    pricePerDoor: units.length > 0 ? building.price / units.length : building.price,
+    monthlyRentRoll,
+    monthlyMarketRent: sum(analyses.map(analysis => analysis.marketRent)),
+    lossToLease,
+    lossToLeasePercentage: occupiedMarketRent > 0 ? (lossToLease / occupiedMarketRent) * 100 : 0,
+    grossRentMultiplier: monthlyRentRoll > 0 ? building.price / (monthlyRentRoll * 12) : null,
+    rentCapUpside: projectUpside(analyses, monthlyRentRoll, growth, projectionYears)
+  }
+}
+
+// Sqft share when every unit has one, else bedrooms (a studio counts as one)
+function allocationWeights(units: PropertyUnit[]): number[] {
+  if (units.every(unit => unit.sqft && unit.sqft > 0)) return units.map(unit => unit.sqft!)
+  return units.map(unit => Math.max(1, unit.beds) + unit.baths / 2)
+}
+
+// Allowable increase for one lease on its effective date; null when the regime doesn't cap it
+function capPercentage(rent: number, building: UnitMixBuilding, effectiveDate: Date): number | null {
+  const { regime, jurisdiction } = building.rentRegime
+  if (regime === 'none') return null
+  if (regime === 'local' && jurisdiction) {
+    return calculateLocalIncreasePercentage(jurisdiction, { effectiveDate })
+  }
+
+  const increase = calculateMaxRentIncrease(rent, building.yearBuilt, {
+    effectiveDate,
+    region: building.cpiRegion,
+    certificateOfOccupancyDate: building.certificateOfOccupancyDate
+  })
+  return increase.isEligible ? increase.increasePercentage : null
+}
+
+function projectUpside(
+  analyses: UnitAnalysis[],
+  monthlyRentRoll: number,
+  growth: number,
+  projectionYears: number
+): RentCapUpside {
+  const monthlyMarketRent = sum(analyses.map(analysis => analysis.marketRent))
+  const rentable = analyses.filter(analysis => analysis.unit.occupancy !== 'owner_occupied')
+  const years: RentRollYear[] = [{ year: 0, monthlyRentRoll, monthlyMarketRent }]
+
+  for (let year = 1; year <= projectionYears; year++) {
+    years.push({
+      year,
+      monthlyRentRoll: sum(analyses.map(analysis => analysis.projectedRents[year - 1])),
+      monthlyMarketRent: monthlyMarketRent * Math.pow(1 + growth, year)
+    })
+  }
+
+  const finalYear = years[years.length - 1]
+  const finalRentableMarket = sum(rentable.map(analysis => analysis.marketRent)) * Math.pow(1 + growth, projectionYears)
+
+  return {
+    years,
+    annualIncrease: (finalYear.monthlyRentRoll - monthlyRentRoll) * 12,
+    cumulativeIncrease: sum(years.slice(1).map(entry => (entry.monthlyRentRoll - monthlyRentRoll) * 12)),
+    capLimitedLoss: Math.max(0, finalRentableMarket - finalYear.monthlyRentRoll) * 12
+  }
+}
+
+// First anniversary of the lease start on or after today; today when the lease start is unknown
+function nextAnniversary(leaseStart: string | undefined, now: Date): Date {
+  const start = leaseStart ? new Date(leaseStart) : null
+  if (!start || Number.isNaN(start.getTime())) return now
+
+  const anniversary = new Date(start)
+  anniversary.setUTCFullYear(now.getUTCFullYear())
+  if (anniversary < now) anniversary.setUTCFullYear(now.getUTCFullYear() + 1)
+  // A lease that hasn't started yet first renews a year after it starts
+  if (anniversary <= start) anniversary.setUTCFullYear(start.getUTCFullYear() + 1)
+  return anniversary
+}
+
+function tenureYears(unit: PropertyUnit, now: Date): number | null {
+  if (unit.occupancy !== 'occupied') return null
+  const since = new Date(unit.tenantSince ?? unit.leaseStart ?? '')
+  if (Number.isNaN(since.getTime())) return null
+  return Math.max(0, (now.getTime() - since.getTime()) / MS_PER_YEAR)
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
@@ -2,11 +2,21 @@
  * California Rent Cap Helper - AB 1482 Implementation
  * 
  * AB 1482 (Tenant Protection Act of 2019) Key Points:
- * - Applies to residential properties built before 2009 (15+ years old)
- * - Limits annual rent increases to 5% + inflation rate
+ * - Applies to residential properties whose certificate of occupancy is 15+ years old
+ * - Limits annual rent increases to 5% + regional CPI change, or 10%, whichever is lower
  * - Covers most rental units except some exemptions
  */
 
+import {
+  CPI_REGION_LABELS,
+  getActiveCpiTable,
+  latestCpi,
+  lookupCpi,
+  type CpiLookup,
+  type CpiRegion,
+  type CpiTable
+} from './cpi'
+
 export interface RentCapInfo {
   isEligible: boolean
   maxIncreasePercentage: number
@@ -15,6 +25,10 @@ export interface RentCapInfo {
   propertyAge: number
   exemptionReasons: string[]
   nextYearCap: number
+  nextYearCapIsProjected: boolean // No CPI published yet for next year - latest value reused
+  isCappedAtCeiling: boolean // 5% + CPI exceeded the 10% ceiling
+  effectiveDate: string
+  cpi: CpiLookup | null
 }
 
 export interface InflationData {
@@ -23,28 +37,126 @@ export interface InflationData {
   source: string
 }
 
-// Current inflation rate (would typically fetch from CPI data)
-const CURRENT_INFLATION_RATE = 3.4 // Example: 2024 CPI inflation rate
+export interface RentCapOptions {
+  effectiveDate?: Date // Date the rent increase takes effect (default: today)
+  region?: CpiRegion // BLS CPI region of the property (default: statewide)
+  cpiTable?: CpiTable // Pin a specific table version when auditing past increases
+  inflationRate?: number // Override the CPI lookup entirely
+  certificateOfOccupancyDate?: string // ISO date; defaults to January 1 of the year built
+}
+
+export type OwnershipEntity =
+  | 'individual'
+  | 'trust'
+  | 'llc' // No corporate members
+  | 'llc_corporate_member'
+  | 'corporation'
+  | 'reit'
+  | 'unknown'
+
+export type OccupancyType = 'residential' | 'transient_lodging' | 'dormitory' | 'care_facility'
+
+export interface Ab1482ExemptionFacts {
+  ownershipEntity?: OwnershipEntity
+  exemptionNoticeDelivered?: boolean // Written § 1947.12(d)(8)(B) notice given to the tenant
+  ownerOccupiesUnit?: boolean // Owner lived in one unit of a duplex when the tenancy began
+  certificateOfOccupancyDate?: string // ISO date; starts the rolling 15-year exemption
+  deedRestrictedAffordable?: boolean
+  occupancyType?: OccupancyType
+}
+
+export interface Ab1482ExemptionInputs extends Ab1482ExemptionFacts {
+  yearBuilt: number
+  propertyType: string
+  unitCount?: number // Defaults by property type when unknown
+}
+
+export type Ab1482ExemptionId =
+  | 'transient_lodging'
+  | 'care_facility'
+  | 'dormitory'
+  | 'deed_restricted_affordable'
+  | 'new_construction'
+  | 'owner_occupied_duplex'
+  | 'single_family_non_corporate'
+
+export interface Ab1482Exemption {
+  id: Ab1482ExemptionId
+  description: string
+  citation: string
+  triggeredBy: (keyof Ab1482ExemptionInputs)[]
+}
+
+export interface Ab1482ExemptionEvaluation {
+  isSubjectToAB1482: boolean
+  exemptions: Ab1482Exemption[]
+  notes: string[] // Exemptions that may apply but need facts we don't have
+}
+
+const BASE_INCREASE_PERCENTAGE = 5.0
+const MAX_INCREASE_PERCENTAGE = 10.0
+const MIN_ELIGIBLE_AGE = 15
+const AB_1482_EXEMPTIONS_CITATION = 'Civ. Code § 1947.12(d)'
+
+const SEPARATELY_ALIENABLE_TYPES = ['single_family', 'condo', 'townhouse']
+const CORPORATE_OWNERSHIP_ENTITIES: OwnershipEntity[] = ['corporation', 'reit', 'llc_corporate_member']
+
+export const OWNERSHIP_ENTITY_LABELS: Record<OwnershipEntity, string> = {
+  individual: 'an individual',
+  trust: 'a trust',
+  llc: 'an LLC with no corporate members',
+  llc_corporate_member: 'an LLC with a corporate member',
+  corporation: 'a corporation',
+  reit: 'a real estate investment trust',
+  unknown: 'an unknown owner'
+}
+
+/**
+ * Legal AB 1482 cap: 5% plus the CPI change, or 10%, whichever is lower
+ */
+export function calculateAllowableIncreasePercentage(cpiPercentChange: number): number {
+  return Math.min(BASE_INCREASE_PERCENTAGE + cpiPercentChange, MAX_INCREASE_PERCENTAGE)
+}
 
 /**
  * Check if a property is subject to AB 1482 rent cap regulations
  */
-export function checkRentCapEligibility(yearBuilt: number): RentCapInfo {
-  const currentYear = new Date().getFullYear()
+export function checkRentCapEligibility(yearBuilt: number, options: RentCapOptions = {}): RentCapInfo {
+  const effectiveDate = options.effectiveDate ?? new Date()
+  const region = options.region ?? 'california'
+  const table = options.cpiTable ?? getActiveCpiTable()
+
+  const currentYear = effectiveDate.getFullYear()
   const propertyAge = currentYear - yearBuilt
-  const isEligible = propertyAge >= 15
+  const certificateOfOccupancyDate = resolveCertificateOfOccupancyDate({
+    yearBuilt,
+    certificateOfOccupancyDate: options.certificateOfOccupancyDate
+  })
+  // Rolling rule: the exemption ends 15 years after the certificate of occupancy
+  const isEligible = isOlderThanRollingCutoff(certificateOfOccupancyDate, effectiveDate)
 
   const exemptionReasons: string[] = []
   
   if (!isEligible) {
-    exemptionReasons.push(`Property is only ${propertyAge} years old (must be 15+ years)`)
+    exemptionReasons.push(
+      options.certificateOfOccupancyDate
+        ? `Certificate of occupancy issued ${formatDate(certificateOfOccupancyDate)} (must be ${MIN_ELIGIBLE_AGE}+ years before the increase)`
+        : `Property is only ${propertyAge} years old (must be ${MIN_ELIGIBLE_AGE}+ years)`
+    )
   }
 
-  // Calculate maximum rent increase (5% + inflation)
-  const maxIncreasePercentage = isEligible ? 5.0 + CURRENT_INFLATION_RATE : 0
+  const cpi = options.inflationRate === undefined ? lookupCpi(region, effectiveDate, table) : null
+  const inflation = options.inflationRate ?? cpi?.percentChange ?? latestCpi(region, table)?.percentChange ?? 0
+  const uncappedIncrease = BASE_INCREASE_PERCENTAGE + inflation
+
+  // Calculate maximum rent increase (lesser of 5% + CPI or 10%)
+  const maxIncreasePercentage = isEligible ? calculateAllowableIncreasePercentage(inflation) : 0
 
-  // Project next year's cap (would need updated inflation data)
-  const nextYearCap = isEligible ? 5.0 + (CURRENT_INFLATION_RATE * 0.9) : 0 // Conservative estimate
+  // Next year's cap uses next April's CPI once published; until then assume CPI is unchanged
+  const nextEffectiveDate = new Date(effectiveDate)
+  nextEffectiveDate.setFullYear(nextEffectiveDate.getFullYear() + 1)
+  const nextCpi = lookupCpi(region, nextEffectiveDate, table)
+  const nextYearCap = isEligible ? calculateAllowableIncreasePercentage(nextCpi?.percentChange ?? inflation) : 0
 
   return {
     isEligible,
@@ -53,7 +165,11 @@ export function checkRentCapEligibility(yearBuilt: number): RentCapInfo {
     yearBuilt,
     propertyAge,
     exemptionReasons,
-    nextYearCap
+    nextYearCap,
+    nextYearCapIsProjected: !nextCpi,
+    isCappedAtCeiling: isEligible && uncappedIncrease > MAX_INCREASE_PERCENTAGE,
+    effectiveDate: effectiveDate.toISOString().slice(0, 10),
+    cpi
   }
 }
 
@@ -63,26 +179,27 @@ export function checkRentCapEligibility(yearBuilt: number): RentCapInfo {
 export function calculateMaxRentIncrease(
   currentRent: number,
   yearBuilt: number,
-  inflationRate?: number
+  options: RentCapOptions = {}
 ): {
   maxIncrease: number
   maxNewRent: number
   increasePercentage: number
   isEligible: boolean
+  cpi: CpiLookup | null
 } {
-  const rentCapInfo = checkRentCapEligibility(yearBuilt)
-  const inflation = inflationRate || CURRENT_INFLATION_RATE
+  const rentCapInfo = checkRentCapEligibility(yearBuilt, options)
   
   if (!rentCapInfo.isEligible) {
     return {
       maxIncrease: 0,
       maxNewRent: currentRent,
       increasePercentage: 0,
-      isEligible: false
+      isEligible: false,
+      cpi: rentCapInfo.cpi
     }
   }
 
-  const increasePercentage = 5.0 + inflation
+  const increasePercentage = rentCapInfo.maxIncreasePercentage
   const maxIncrease = currentRent * (increasePercentage / 100)
   const maxNewRent = currentRent + maxIncrease
 
@@ -90,58 +207,110 @@ export function calculateMaxRentIncrease(
     maxIncrease,
     maxNewRent,
     increasePercentage,
-    isEligible: true
+    isEligible: true,
+    cpi: rentCapInfo.cpi
   }
 }
 
 /**
- * Check for additional exemptions beyond age requirement
+ * Evaluate the AB 1482 exemptions in Civ. Code § 1947.12(d)
+ * Exemptions that depend on facts we don't have are reported as notes, not applied
  */
-export function checkAdditionalExemptions(
-  propertyType: string,
-  isSingleFamily: boolean,
-  ownerOccupied: boolean,
-  recentlyBuilt: boolean
-): {
-  hasExemptions: boolean
-  exemptionReasons: string[]
-  isSubjectToAB1482: boolean
-} {
-  const exemptionReasons: string[] = []
+export function evaluateAb1482Exemptions(
+  inputs: Ab1482ExemptionInputs,
+  options: Pick<RentCapOptions, 'effectiveDate'> = {}
+): Ab1482ExemptionEvaluation {
+  const exemptions: Ab1482Exemption[] = []
+  const notes: string[] = []
+  const effectiveDate = options.effectiveDate ?? new Date()
+  const occupancyType = inputs.occupancyType ?? 'residential'
+  const unitCount = inputs.unitCount ?? (inputs.propertyType === 'multi_family' ? 2 : 1)
 
-  // Single-family homes and condos owned by landlords who own no more than two properties
-  if (isSingleFamily && !ownerOccupied) {
-    exemptionReasons.push("Single-family home owned by small landlord (≤2 properties)")
+  if (occupancyType === 'transient_lodging') {
+    exemptions.push({
+      id: 'transient_lodging',
+      description: 'Transient and tourist hotel occupancy',
+      citation: `${AB_1482_EXEMPTIONS_CITATION}(1)`,
+      triggeredBy: ['occupancyType']
+    })
   }
 
-  // Recently constructed buildings (less than 15 years old)
-  if (recentlyBuilt) {
-    exemptionReasons.push("Recently constructed property")
+  if (occupancyType === 'care_facility') {
+    exemptions.push({
+      id: 'care_facility',
+      description: 'Nonprofit hospital, religious, extended care or residential care facility',
+      citation: `${AB_1482_EXEMPTIONS_CITATION}(2)`,
+      triggeredBy: ['occupancyType']
+    })
   }
 
-  // Housing built after 2008 (already covered by age check)
-  // Dormitories, school housing
-  if (propertyType.toLowerCase().includes('dorm') || propertyType.toLowerCase().includes('school')) {
-    exemptionReasons.push("Educational institution housing")
+  if (occupancyType === 'dormitory') {
+    exemptions.push({
+      id: 'dormitory',
+      description: 'Dormitory owned and operated by a school or institution of higher education',
+      citation: `${AB_1482_EXEMPTIONS_CITATION}(3)`,
+      triggeredBy: ['occupancyType']
+    })
   }
 
-  // Hotels and motels
-  if (propertyType.toLowerCase().includes('hotel') || propertyType.toLowerCase().includes('motel')) {
-    exemptionReasons.push("Transient lodging")
+  if (inputs.deedRestrictedAffordable) {
+    exemptions.push({
+      id: 'deed_restricted_affordable',
+      description: 'Deed-restricted or regulatory-agreement affordable housing',
+      citation: `${AB_1482_EXEMPTIONS_CITATION}(4)`,
+      triggeredBy: ['deedRestrictedAffordable']
+    })
   }
 
-  // Nonprofit housing with restrictions
-  if (propertyType.toLowerCase().includes('nonprofit') || propertyType.toLowerCase().includes('affordable')) {
-    exemptionReasons.push("Restricted affordable housing")
+  const certificateOfOccupancyDate = resolveCertificateOfOccupancyDate(inputs)
+  if (!isOlderThanRollingCutoff(certificateOfOccupancyDate, effectiveDate)) {
+    exemptions.push({
+      id: 'new_construction',
+      description: `Certificate of occupancy issued within the previous ${MIN_ELIGIBLE_AGE} years (${formatDate(certificateOfOccupancyDate)})`,
+      citation: `${AB_1482_EXEMPTIONS_CITATION}(6)`,
+      triggeredBy: inputs.certificateOfOccupancyDate ? ['certificateOfOccupancyDate'] : ['yearBuilt']
+    })
+  }
+  // Only matters when the year built puts the property near the 15-year boundary
+  if (!inputs.certificateOfOccupancyDate && Math.abs(effectiveDate.getFullYear() - (inputs.yearBuilt + MIN_ELIGIBLE_AGE)) <= 1) {
+    notes.push(`Certificate of occupancy date unknown - assumed January 1, ${inputs.yearBuilt}`)
+  }
+
+  if (unitCount === 2 && inputs.propertyType === 'multi_family') {
+    if (inputs.ownerOccupiesUnit) {
+      exemptions.push({
+        id: 'owner_occupied_duplex',
+        description: 'Duplex where the owner occupied one unit as their principal residence when the tenancy began',
+        citation: `${AB_1482_EXEMPTIONS_CITATION}(7)`,
+        triggeredBy: ['ownerOccupiesUnit', 'unitCount']
+      })
+    } else if (inputs.ownerOccupiesUnit === undefined) {
+      notes.push('Exempt as an owner-occupied duplex if the owner lived in the other unit when the tenancy began')
+    }
   }
 
-  const hasExemptions = exemptionReasons.length > 0
-  const isSubjectToAB1482 = !hasExemptions
+  if (SEPARATELY_ALIENABLE_TYPES.includes(inputs.propertyType)) {
+    const ownershipEntity = inputs.ownershipEntity ?? 'unknown'
+    if (CORPORATE_OWNERSHIP_ENTITIES.includes(ownershipEntity)) {
+      notes.push(`Single-family/condo exemption unavailable: owned by ${OWNERSHIP_ENTITY_LABELS[ownershipEntity]}`)
+    } else if (ownershipEntity === 'unknown') {
+      notes.push('Single-family/condo exemption requires confirming the owner is not a corporation, REIT or LLC with a corporate member')
+    } else if (inputs.exemptionNoticeDelivered) {
+      exemptions.push({
+        id: 'single_family_non_corporate',
+        description: `Separately alienable single-family home or condo owned by ${OWNERSHIP_ENTITY_LABELS[ownershipEntity]}, with written exemption notice given to the tenant`,
+        citation: `${AB_1482_EXEMPTIONS_CITATION}(8)`,
+        triggeredBy: ['propertyType', 'ownershipEntity', 'exemptionNoticeDelivered']
+      })
+    } else {
+      notes.push(`Single-family/condo exemption only applies once the written notice required by ${AB_1482_EXEMPTIONS_CITATION}(8)(B) is delivered`)
+    }
+  }
 
   return {
-    hasExemptions,
-    exemptionReasons,
-    isSubjectToAB1482
+    isSubjectToAB1482: exemptions.length === 0,
+    exemptions,
+    notes
   }
 }
 
@@ -150,103 +319,102 @@ export function checkAdditionalExemptions(
  */
 export function generateRentCapNotice(
   currentRent: number,
-  yearBuilt: number,
-  propertyType: string,
-  isSingleFamily: boolean = false,
-  ownerOccupied: boolean = false
+  exemptionInputs: Ab1482ExemptionInputs,
+  options: RentCapOptions = {}
 ): {
   notice: string
   isEligible: boolean
   maxIncrease: number
   complianceNotes: string[]
+  exemptions: Ab1482Exemption[]
 } {
-  const rentCapInfo = checkRentCapEligibility(yearBuilt)
-  const exemptionCheck = checkAdditionalExemptions(propertyType, isSingleFamily, ownerOccupied, yearBuilt > 2009)
-  const increaseCalc = calculateMaxRentIncrease(currentRent, yearBuilt)
+  const yearBuilt = exemptionInputs.yearBuilt
+  const capOptions = {
+    ...options,
+    certificateOfOccupancyDate: options.certificateOfOccupancyDate ?? exemptionInputs.certificateOfOccupancyDate
+  }
+  const rentCapInfo = checkRentCapEligibility(yearBuilt, capOptions)
+  const exemptionCheck = evaluateAb1482Exemptions(exemptionInputs, capOptions)
+  // The age exemption is reported by the eligibility check above
+  const additionalExemptions = exemptionCheck.exemptions.filter(exemption => exemption.id !== 'new_construction')
+  const increaseCalc = calculateMaxRentIncrease(currentRent, yearBuilt, capOptions)
 
   const complianceNotes: string[] = []
 
   let notice = ""
 
-  if (!rentCapInfo.isEligible || exemptionCheck.hasExemptions) {
+  if (!rentCapInfo.isEligible || additionalExemptions.length > 0) {
     notice = "⚠️ This property may be exempt from AB 1482 rent cap regulations.\n\n"
     
     if (!rentCapInfo.isEligible) {
-      notice += `Property Age Exemption: Built in ${yearBuilt} (${rentCapInfo.propertyAge} years old)\n`
-      notice += "AB 1482 applies to properties 15+ years old.\n\n"
+      notice += `Property Age Exemption: ${rentCapInfo.exemptionReasons.join('; ')}\n`
+      notice += `AB 1482 applies once the certificate of occupancy is 15+ years old (${AB_1482_EXEMPTIONS_CITATION}(6)).\n\n`
     }
 
-    if (exemptionCheck.hasExemptions) {
+    if (additionalExemptions.length > 0) {
       notice += "Additional Exemptions:\n"
-      exemptionCheck.exemptionReasons.forEach(reason => {
-        notice += `• ${reason}\n`
+      additionalExemptions.forEach(exemption => {
+        notice += `• ${exemption.description} (${exemption.citation})\n`
       })
       complianceNotes.push("Consult with legal counsel to confirm exemption status")
     }
   } else {
     notice = "✅ This property is subject to AB 1482 rent cap regulations.\n\n"
     notice += `Current Rent: $${currentRent.toLocaleString()}\n`
-    notice += `Maximum Annual Increase: ${increaseCalc.increasePercentage.toFixed(1)}%\n`
+    notice += `Maximum Annual Increase: ${increaseCalc.increasePercentage.toFixed(1)}%`
+    notice += rentCapInfo.isCappedAtCeiling ? ' (10% statutory ceiling)\n' : '\n'
+    if (rentCapInfo.cpi) {
+      notice += `CPI Basis: ${CPI_REGION_LABELS[rentCapInfo.cpi.region]}, ${rentCapInfo.cpi.periodStart} to ${rentCapInfo.cpi.periodEnd}: ${rentCapInfo.cpi.percentChange.toFixed(1)}%\n`
+    }
     notice += `Maximum Increase Amount: $${increaseCalc.maxIncrease.toFixed(2)}\n`
     notice += `Maximum New Rent: $${increaseCalc.maxNewRent.toLocaleString()}\n\n`
     
     complianceNotes.push("Provide proper 90-day notice for rent increases")
     complianceNotes.push("Include AB 1482 compliance information in notice")
     complianceNotes.push("Keep documentation of inflation rate calculation")
+    if (rentCapInfo.cpi) {
+      complianceNotes.push(`CPI table version ${rentCapInfo.cpi.tableVersion} (${rentCapInfo.cpi.source})`)
+    } else {
+      complianceNotes.push("No published CPI for this effective date - latest available value used")
+    }
   }
 
+  complianceNotes.push(...exemptionCheck.notes)
+
   notice += "\n---\n"
   notice += "This is for informational purposes only. Consult with legal counsel for specific compliance requirements."
 
   return {
     notice,
-    isEligible: rentCapInfo.isEligible && !exemptionCheck.hasExemptions,
+    isEligible: rentCapInfo.isEligible && additionalExemptions.length === 0,
     maxIncrease: increaseCalc.maxIncrease,
-    complianceNotes
+    complianceNotes,
+    exemptions: exemptionCheck.exemptions
   }
 }
 
 /**
- * Calculate deal score boost for rent-stabilized properties
+ * Certificate of occupancy date, falling back to January 1 of the year built
  */
-export function calculateRentStabilizationBoost(
-  yearBuilt: number,
-  currentMarketRent: number,
-  potentialRentIncrease: number
-): {
-  boostScore: number
-  annualValue: number
-  fiveYearValue: number
-  reasoning: string
-} {
-  const rentCapInfo = checkRentCapEligibility(yearBuilt)
-  
-  if (!rentCapInfo.isEligible) {
-    return {
-      boostScore: 0,
-      annualValue: 0,
-      fiveYearValue: 0,
-      reasoning: "Property not eligible for rent stabilization benefits"
-    }
+function resolveCertificateOfOccupancyDate(
+  inputs: Pick<Ab1482ExemptionInputs, 'yearBuilt' | 'certificateOfOccupancyDate'>
+): Date {
+  if (inputs.certificateOfOccupancyDate) {
+    const date = new Date(inputs.certificateOfOccupancyDate)
+    if (!Number.isNaN(date.getTime())) return date
   }
+  return new Date(Date.UTC(inputs.yearBuilt, 0, 1))
+}
 
-  // Calculate value of rent stability (predictable increases vs market volatility)
-  const marketVolatilityPremium = 0.08 // 8% annual market volatility assumption
-  const stabilizedIncrease = rentCapInfo.maxIncreasePercentage / 100
-  const volatilityBenefit = marketVolatilityPremium - stabilizedIncrease
-  
-  const annualValue = currentMarketRent * volatilityBenefit
-  const fiveYearValue = annualValue * 5 // 5-year projection
-  
-  // Boost score based on annual value (0-20 points max)
-  const boostScore = Math.min(20, Math.max(0, (annualValue / currentMarketRent) * 100))
-
-  const reasoning = `Rent stabilization provides predictable ${rentCapInfo.maxIncreasePercentage.toFixed(1)}% annual increases vs estimated ${marketVolatilityPremium * 100}% market volatility, creating ${annualValue.toFixed(0)} annual value advantage.`
+/**
+ * True once the certificate of occupancy is at least 15 years old on the effective date
+ */
+function isOlderThanRollingCutoff(certificateOfOccupancyDate: Date, effectiveDate: Date): boolean {
+  const cutoff = new Date(certificateOfOccupancyDate)
+  cutoff.setFullYear(cutoff.getFullYear() + MIN_ELIGIBLE_AGE)
+  return effectiveDate >= cutoff
+}
 
-  return {
-    boostScore,
-    annualValue,
-    fiveYearValue,
-    reasoning
-  }
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
 }
@@ -0,0 +1,246 @@
+/**
+ * Local Rent Control Jurisdictions
+ *
+ * Many California cities have ordinances stricter than AB 1482. A local
+ * ordinance governs when the building predates the city's construction cutoff,
+ * meets its unit-count threshold and isn't a single-family home or condo
+ * exempted from local rent limits by Costa-Hawkins (Civ. Code § 1954.52).
+ * Otherwise AB 1482 applies if the property is eligible, else neither does.
+ *
+ * Rules summarize each ordinance as of 2025 - confirm with the city's rent
+ * board before relying on them for a specific increase.
+ */
+
+import {
+  checkRentCapEligibility,
+  evaluateAb1482Exemptions,
+  type Ab1482Exemption,
+  type Ab1482ExemptionFacts,
+  type RentCapOptions
+} from './rent-cap-helper'
+import { getActiveCpiTable, latestCpi, lookupCpi, resolveCpiRegion, type CpiRegion } from './cpi'
+import type { PropertyMetrics } from './deal-score'
+
+export type RentRegime = 'local' | 'ab1482' | 'none'
+
+export type IncreaseFormula =
+  | { type: 'cpi_share'; cpiShare: number; minPercentage?: number; maxPercentage?: number }
+  | { type: 'fixed'; percentage: number }
+
+export interface JurisdictionRules {
+  id: string
+  name: string
+  ordinance: string
+  cities: string[]
+  zipCodes?: string[] // When set, only these ZIPs are inside the jurisdiction
+  excludedZipCodes?: string[] // Mailing-city ZIPs that lie outside city limits
+  builtBeforeYear: number // Covered when built before this year
+  minUnits: number
+  costaHawkinsExemptTypes: PropertyMetrics['propertyType'][]
+  increaseFormula: IncreaseFormula
+  justCause: boolean // Local just-cause eviction protections apply
+  cpiRegion: CpiRegion
+}
+
+export interface RentRegimeInput extends Ab1482ExemptionFacts {
+  city: string
+  zipCode?: string
+  yearBuilt: number
+  propertyType: PropertyMetrics['propertyType']
+  unitCount?: number // Defaults by property type when unknown
+}
+
+export interface RentRegimeDetermination {
+  regime: RentRegime
+  jurisdiction: JurisdictionRules | null // Local jurisdiction the property is in, even if not governed by it
+  maxIncreasePercentage: number | null
+  justCauseRequired: boolean
+  citation: string | null
+  reasons: string[]
+  exemptions: Ab1482Exemption[] // AB 1482 exemptions that applied, when the regime is 'none'
+}
+
+const COSTA_HAWKINS_EXEMPT: PropertyMetrics['propertyType'][] = ['single_family', 'condo']
+
+export const RENT_CONTROL_JURISDICTIONS: JurisdictionRules[] = [
+  {
+    id: 'san_francisco',
+    name: 'San Francisco',
+    ordinance: 'San Francisco Rent Ordinance (Admin. Code ch. 37)',
+    cities: ['san francisco'],
+    builtBeforeYear: 1979, // Certificate of occupancy before June 13, 1979
+    minUnits: 2,
+    costaHawkinsExemptTypes: COSTA_HAWKINS_EXEMPT,
+    increaseFormula: { type: 'cpi_share', cpiShare: 0.6, maxPercentage: 7 },
+    justCause: true,
+    cpiRegion: 'san_francisco'
+  },
+  {
+    id: 'oakland',
+    name: 'Oakland',
+    ordinance: 'Oakland Rent Adjustment Program (OMC ch. 8.22)',
+    cities: ['oakland'],
+    builtBeforeYear: 1983,
+    minUnits: 2,
+    costaHawkinsExemptTypes: COSTA_HAWKINS_EXEMPT,
+    increaseFormula: { type: 'cpi_share', cpiShare: 1, maxPercentage: 3 },
+    justCause: true,
+    cpiRegion: 'san_francisco'
+  },
+  {
+    id: 'berkeley',
+    name: 'Berkeley',
+    ordinance: 'Berkeley Rent Stabilization Ordinance (BMC ch. 13.76)',
+    cities: ['berkeley'],
+    builtBeforeYear: 1980, // Certificate of occupancy before June 1980
+    minUnits: 2,
+    costaHawkinsExemptTypes: COSTA_HAWKINS_EXEMPT,
+    increaseFormula: { type: 'cpi_share', cpiShare: 0.65, maxPercentage: 7 },
+    justCause: true,
+    cpiRegion: 'san_francisco'
+  },
+  {
+    id: 'los_angeles',
+    name: 'Los Angeles',
+    ordinance: 'Los Angeles Rent Stabilization Ordinance (LAMC ch. XV)',
+    cities: ['los angeles'],
+    excludedZipCodes: ['90022', '90023', '90040', '90058'], // Unincorporated / neighboring cities
+    builtBeforeYear: 1978, // Certificate of occupancy before October 1, 1978
+    minUnits: 2,
+    costaHawkinsExemptTypes: COSTA_HAWKINS_EXEMPT,
+    increaseFormula: { type: 'cpi_share', cpiShare: 1, minPercentage: 3, maxPercentage: 8 },
+    justCause: true,
+    cpiRegion: 'los_angeles'
+  },
+  {
+    id: 'santa_monica',
+    name: 'Santa Monica',
+    ordinance: 'Santa Monica Rent Control Charter Amendment (Charter art. XVIII)',
+    cities: ['santa monica'],
+    builtBeforeYear: 1979, // Built before April 10, 1979
+    minUnits: 2,
+    costaHawkinsExemptTypes: COSTA_HAWKINS_EXEMPT,
+    increaseFormula: { type: 'cpi_share', cpiShare: 0.75, maxPercentage: 3 },
+    justCause: true,
+    cpiRegion: 'los_angeles'
+  },
+  {
+    id: 'san_jose',
+    name: 'San Jose',
+    ordinance: 'San Jose Apartment Rent Ordinance (SJMC ch. 17.23)',
+    cities: ['san jose'],
+    builtBeforeYear: 1979, // Built before September 7, 1979
+    minUnits: 3,
+    costaHawkinsExemptTypes: COSTA_HAWKINS_EXEMPT,
+    increaseFormula: { type: 'fixed', percentage: 5 },
+    justCause: true,
+    cpiRegion: 'california'
+  }
+]
+
+/**
+ * Find the local rent control jurisdiction a property is in, if any
+ */
+export function findJurisdiction(city: string, zipCode?: string): JurisdictionRules | null {
+  const normalizedCity = city.trim().toLowerCase()
+  const zip = zipCode?.trim().slice(0, 5)
+
+  return RENT_CONTROL_JURISDICTIONS.find(jurisdiction => {
+    if (!jurisdiction.cities.includes(normalizedCity)) return false
+    if (zip && jurisdiction.excludedZipCodes?.includes(zip)) return false
+    if (jurisdiction.zipCodes && (!zip || !jurisdiction.zipCodes.includes(zip))) return false
+    return true
+  }) ?? null
+}
+
+/**
+ * Allowable annual increase under a local ordinance's formula
+ */
+export function calculateLocalIncreasePercentage(
+  jurisdiction: JurisdictionRules,
+  options: Pick<RentCapOptions, 'effectiveDate' | 'cpiTable'> = {}
+): number {
+  const formula = jurisdiction.increaseFormula
+  if (formula.type === 'fixed') return formula.percentage
+
+  const table = options.cpiTable ?? getActiveCpiTable()
+  const cpi =
+    lookupCpi(jurisdiction.cpiRegion, options.effectiveDate ?? new Date(), table)?.percentChange ??
+    latestCpi(jurisdiction.cpiRegion, table)?.percentChange ??
+    0
+
+  let percentage = cpi * formula.cpiShare
+  if (formula.minPercentage !== undefined) percentage = Math.max(formula.minPercentage, percentage)
+  if (formula.maxPercentage !== undefined) percentage = Math.min(formula.maxPercentage, percentage)
+  return Math.max(0, percentage)
+}
+
+/**
+ * Determine which rent regime governs a property: local ordinance, AB 1482 or neither
+ */
+export function determineRentRegime(
+  input: RentRegimeInput,
+  options: Pick<RentCapOptions, 'effectiveDate' | 'cpiTable'> = {}
+): RentRegimeDetermination {
+  const jurisdiction = findJurisdiction(input.city, input.zipCode)
+  const unitCount = input.unitCount ?? (input.propertyType === 'multi_family' ? 2 : 1)
+  const reasons: string[] = []
+
+  if (jurisdiction) {
+    const localExemptions: string[] = []
+    if (input.yearBuilt >= jurisdiction.builtBeforeYear) {
+      localExemptions.push(`built ${input.yearBuilt}, ordinance covers buildings before ${jurisdiction.builtBeforeYear}`)
+    }
+    if (unitCount < jurisdiction.minUnits) {
+      localExemptions.push(`${unitCount} unit(s), ordinance requires ${jurisdiction.minUnits}+`)
+    }
+    if (jurisdiction.costaHawkinsExemptTypes.includes(input.propertyType)) {
+      localExemptions.push(`${input.propertyType.replace('_', ' ')} exempt from local rent limits under Costa-Hawkins`)
+    }
+
+    if (localExemptions.length === 0) {
+      return {
+        regime: 'local',
+        jurisdiction,
+        maxIncreasePercentage: calculateLocalIncreasePercentage(jurisdiction, options),
+        justCauseRequired: jurisdiction.justCause,
+        citation: jurisdiction.ordinance,
+        reasons: [`Governed by ${jurisdiction.ordinance}`],
+        exemptions: []
+      }
+    }
+
+    reasons.push(`Not covered by ${jurisdiction.ordinance}: ${localExemptions.join('; ')}`)
+  }
+
+  const rentCapInfo = checkRentCapEligibility(input.yearBuilt, {
+    ...options,
+    region: jurisdiction?.cpiRegion ?? resolveCpiRegion(input.city),
+    certificateOfOccupancyDate: input.certificateOfOccupancyDate
+  })
+  const exemptionCheck = evaluateAb1482Exemptions({ ...input, unitCount }, options)
+
+  if (rentCapInfo.isEligible && exemptionCheck.isSubjectToAB1482) {
+    reasons.push('Subject to AB 1482 statewide rent cap', ...exemptionCheck.notes)
+    return {
+      regime: 'ab1482',
+      jurisdiction,
+      maxIncreasePercentage: rentCapInfo.maxIncreasePercentage,
+      justCauseRequired: true, // Civ. Code § 1946.2 once a tenant has 12 months' occupancy
+      citation: 'Civ. Code § 1947.12 (AB 1482)',
+      reasons,
+      exemptions: []
+    }
+  }
+
+  reasons.push(...exemptionCheck.exemptions.map(exemption => `${exemption.description} (${exemption.citation})`))
+  return {
+    regime: 'none',
+    jurisdiction,
+    maxIncreasePercentage: null,
+    justCauseRequired: jurisdiction?.justCause ?? false,
+    citation: null,
+    reasons,
+    exemptions: exemptionCheck.exemptions
+  }
+}
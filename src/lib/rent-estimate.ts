@@ -0,0 +1,460 @@
+/**
+ * Market Rent Estimation
+ *
+ * Predicts a property's monthly market rent from leased rental comps in its
+ * neighborhood. A log-linear rent model (log rent on log sqft, beds, baths,
+ * building age and property type) is calibrated on the comps by weighted ridge
+ * regression, shrunk toward statewide priors so a neighborhood with only a
+ * handful of comps still gets sensible coefficients. Recent leases weigh more,
+ * and older ones are grown to today's rents first.
+ *
+ * The calibrated model adjusts the closest similar comps to the subject the way
+ * comps.ts adjusts sales; with enough of them the adjusted rents are reconciled
+ * into the estimate, otherwise the model's own prediction is used. Without
+ * enough comps to calibrate, rent falls back to the neighborhood's gross rental
+ * yield.
+ */
+
+import type { NeighborhoodData, PropertyMetrics } from './deal-score'
+import type { PropertyUnit } from './property-units'
+import { haversineDistanceMiles } from './comps'
+import { DEFAULT_MARKET_RENT_GROWTH_RATE } from './cash-flow'
+
+export interface RentalComp {
+  id?: string
+  address?: string
+  unitNumber?: string
+  latitude: number
+  longitude: number
+  propertyType: PropertyMetrics['propertyType']
+  beds: number
+  baths: number
+  sqft: number
+  yearBuilt?: number
+  monthlyRent: number
+  leasedOn: string // ISO date the lease was signed
+}
+
+export interface RentModelCoefficients {
+  intercept: number
+  logSqft: number // Elasticity of rent to size
+  beds: number // Log-rent premium per bedroom at the same size
+  baths: number
+  ageDecades: number // Per decade of building age
+  condo: number // Relative to single-family
+  townhouse: number
+  multiFamily: number
+}
+
+export interface RentModel {
+  coefficients: RentModelCoefficients
+  residualStandardDeviation: number // In log rent
+  compCount: number
+  asOf: string // ISO date comp rents were grown to
+}
+
+export interface RentalCompMatch {
+  comp: RentalComp
+  distanceMiles: number
+  timeAdjustedRent: number // Leased rent grown to today at the market rent growth rate
+  adjustedRent: number // Time-adjusted rent adjusted to the subject's size, layout, age and type
+  grossAdjustmentPercentage: number
+  weight: number
+}
+
+export type RentEstimateMethod = 'comps' | 'model' | 'rental_yield'
+
+export interface RentEstimate {
+  estimatedRent: number // Monthly
+  lowRent: number
+  highRent: number
+  confidence: 'high' | 'medium' | 'low'
+  method: RentEstimateMethod
+  comps: RentalCompMatch[]
+  model: RentModel | null
+}
+
+export interface RentEstimateOptions {
+  now?: Date
+  marketRentGrowthRate?: number // % per year, used to grow older leases to today
+}
+
+type RentSubject = Pick<PropertyMetrics, 'beds' | 'baths' | 'sqft' | 'yearBuilt' | 'propertyType' | 'latitude' | 'longitude'>
+
+export const RENT_ESTIMATE_METHOD_LABELS: Record<RentEstimateMethod, string> = {
+  comps: 'Adjusted rental comps',
+  model: 'Neighborhood rent model',
+  rental_yield: 'Neighborhood rental yield'
+}
+
+export const RENTAL_COMP_LOOKBACK_YEARS = 3
+
+// Gross yield assumed when a neighborhood has neither comps nor a rental yield
+export const DEFAULT_GROSS_RENTAL_YIELD = 4.0 // % of price per year
+
+const MIN_CALIBRATION_COMPS = 5
+const RECENCY_HALF_LIFE_YEARS = 1
+const PRIOR_STRENGTH = 1 // Ridge penalty pulling coefficients toward the priors
+
+// Statewide priors the calibration shrinks toward (log rent)
+const PRIOR_COEFFICIENTS: Omit<RentModelCoefficients, 'intercept'> = {
+  logSqft: 0.55,
+  beds: 0.03,
+  baths: 0.05,
+  ageDecades: -0.02,
+  condo: -0.03,
+  townhouse: 0,
+  multiFamily: -0.08
+}
+const COEFFICIENT_NAMES = Object.keys(PRIOR_COEFFICIENTS) as (keyof typeof PRIOR_COEFFICIENTS)[]
+
+// Comp selection, mirroring DEFAULT_COMP_CRITERIA for sales
+const MAX_COMP_DISTANCE_MILES = 1
+const MAX_BED_DIFFERENCE = 1
+const SQFT_BAND_PERCENTAGE = 30
+const MAX_GROSS_ADJUSTMENT_PERCENTAGE = 35
+const MIN_COMPS = 3
+const MAX_COMPS = 6
+
+const MIN_RESIDUAL_STANDARD_DEVIATION = 0.05
+const RENTAL_YIELD_SPREAD = 0.25 // ±25% around a yield-based estimate
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000
+
+const METHOD_RANK: Record<RentEstimateMethod, number> = { comps: 2, model: 1, rental_yield: 0 }
+const CONFIDENCE_RANK: Record<RentEstimate['confidence'], number> = { high: 2, medium: 1, low: 0 }
+
+/**
+ * Earliest lease date the model uses, so loaders can skip older comps
+ */
+export function rentalCompCutoffDate(now: Date = new Date()): string {
+  const cutoff = new Date(now)
+  cutoff.setUTCFullYear(cutoff.getUTCFullYear() - RENTAL_COMP_LOOKBACK_YEARS)
+  return cutoff.toISOString().slice(0, 10)
+}
+
+/**
+ * Calibrate the log-linear rent model on a neighborhood's comps
+ * Returns null when there are too few recent comps to calibrate
+ */
+export function calibrateRentModel(comps: RentalComp[], options: RentEstimateOptions = {}): RentModel | null {
+  const now = options.now ?? new Date()
+  const growth = (options.marketRentGrowthRate ?? DEFAULT_MARKET_RENT_GROWTH_RATE) / 100
+
+  const usable = comps.filter(comp => isUsableComp(comp, now))
+  if (usable.length < MIN_CALIBRATION_COMPS) return null
+
+  const knownAges = usable.filter(comp => comp.yearBuilt).map(comp => ageDecades(comp.yearBuilt!, now))
+  const fallbackAge = knownAges.length > 0 ? knownAges.reduce((sum, age) => sum + age, 0) / knownAges.length : 5
+
+  const samples = usable.map(comp => ({
+    features: toFeatures(comp, now, fallbackAge),
+    logRent: Math.log(timeAdjustRent(comp, now, growth)),
+    weight: Math.pow(0.5, leaseAgeYears(comp, now) / RECENCY_HALF_LIFE_YEARS)
+  }))
+
+  // Center on the weighted means so the intercept is unpenalized
+  const totalWeight = samples.reduce((sum, sample) => sum + sample.weight, 0)
+  const meanFeatures = COEFFICIENT_NAMES.map((_, j) =>
+    samples.reduce((sum, sample) => sum + sample.weight * sample.features[j], 0) / totalWeight
+  )
+  const meanLogRent = samples.reduce((sum, sample) => sum + sample.weight * sample.logRent, 0) / totalWeight
+
+  // Ridge normal equations toward the priors: (XᵀWX + λI) b = XᵀWy + λb₀
+  const size = COEFFICIENT_NAMES.length
+  const matrix = COEFFICIENT_NAMES.map((_, j) => COEFFICIENT_NAMES.map((__, k) => (j === k ? PRIOR_STRENGTH : 0)))
+  const vector = COEFFICIENT_NAMES.map(name => PRIOR_STRENGTH * PRIOR_COEFFICIENTS[name])
+  for (const sample of samples) {
+    const centered = sample.features.map((value, j) => value - meanFeatures[j])
+    const response = sample.logRent - meanLogRent
+    for (let j = 0; j < size; j++) {
+      vector[j] += sample.weight * centered[j] * response
+      for (let k = 0; k < size; k++) matrix[j][k] += sample.weight * centered[j] * centered[k]
+    }
+  }
+
+  const slopes = solveLinearSystem(matrix, vector)
+  const coefficients = Object.fromEntries(COEFFICIENT_NAMES.map((name, j) => [name, slopes[j]])) as Omit<RentModelCoefficients, 'intercept'>
+  const intercept = meanLogRent - COEFFICIENT_NAMES.reduce((sum, _, j) => sum + slopes[j] * meanFeatures[j], 0)
+  const model = { intercept, ...coefficients }
+
+  const weightedSquaredError = samples.reduce(
+    (sum, sample) => sum + sample.weight * (sample.logRent - predictLogRent(model, sample.features)) ** 2,
+    0
+  )
+
+  return {
+    coefficients: model,
+    residualStandardDeviation: Math.max(MIN_RESIDUAL_STANDARD_DEVIATION, Math.sqrt(weightedSquaredError / totalWeight)),
+    compCount: usable.length,
+    asOf: now.toISOString().slice(0, 10)
+  }
+}
+
+/**
+ * Estimate a property's monthly market rent from its neighborhood's rental comps
+ * Multi-family buildings are estimated unit by unit from their rent roll when
+ * one is known, otherwise as equal units the size of a typical comp
+ */
+export function estimateMarketRent(
+  property: PropertyMetrics,
+  neighborhood?: Pick<NeighborhoodData, 'rentalComps' | 'rentalYield'>,
+  options: RentEstimateOptions = {}
+): RentEstimate {
+  const comps = neighborhood?.rentalComps ?? []
+  const model = calibrateRentModel(comps, options)
+  if (!model) return estimateFromRentalYield(property, neighborhood?.rentalYield)
+
+  if (property.propertyType !== 'multi_family') {
+    return estimateSubjectRent(property, comps, model, options)
+  }
+
+  if (property.units?.length) {
+    return combineUnitEstimates(
+      property.units.map(unit => estimateSubjectRent(toUnitSubject(property, unit, property.units!), comps, model, options))
+    )
+  }
+
+  // No rent roll: split the building into units the size of a typical multi-family comp
+  const unitComps = comps.filter(comp => comp.propertyType === 'multi_family' && comp.sqft > 0)
+  const typicalUnitSqft = median((unitComps.length > 0 ? unitComps : comps).map(comp => comp.sqft))
+  const unitCount = Math.max(2, Math.round(property.sqft / typicalUnitSqft))
+  const unitEstimate = estimateSubjectRent(
+    {
+      ...property,
+      sqft: property.sqft / unitCount,
+      beds: Math.round(property.beds / unitCount),
+      baths: Math.max(1, Math.round((property.baths / unitCount) * 2) / 2)
+    },
+    comps,
+    model,
+    options
+  )
+  return {
+    ...combineUnitEstimates(Array(unitCount).fill(unitEstimate)),
+    confidence: 'low' // The unit mix is a guess
+  }
+}
+
+/**
+ * Estimate one rentable subject from the calibrated model and its closest comps
+ */
+function estimateSubjectRent(
+  subject: RentSubject,
+  comps: RentalComp[],
+  model: RentModel,
+  options: RentEstimateOptions
+): RentEstimate {
+  const now = options.now ?? new Date()
+  const growth = (options.marketRentGrowthRate ?? DEFAULT_MARKET_RENT_GROWTH_RATE) / 100
+
+  let matches = selectRentalComps(subject, comps, model, now, growth, MAX_COMP_DISTANCE_MILES)
+  // Widen the search radius once before falling back to the model
+  if (matches.length < MIN_COMPS) {
+    matches = selectRentalComps(subject, comps, model, now, growth, MAX_COMP_DISTANCE_MILES * 2)
+  }
+
+  if (matches.length >= MIN_COMPS) {
+    const totalWeight = matches.reduce((sum, match) => sum + match.weight, 0)
+    const estimatedRent = matches.reduce((sum, match) => sum + match.adjustedRent * match.weight, 0) / totalWeight
+    const variance = matches.reduce((sum, match) => sum + match.weight * (match.adjustedRent - estimatedRent) ** 2, 0) / totalWeight
+    const standardDeviation = Math.sqrt(variance)
+    const coefficientOfVariation = standardDeviation / estimatedRent
+
+    // Never claim tighter than ±3% precision
+    const spread = Math.max(standardDeviation, estimatedRent * 0.03)
+
+    let confidence: RentEstimate['confidence'] = 'low'
+    if (matches.length >= 5 && coefficientOfVariation <= 0.08) confidence = 'high'
+    else if (coefficientOfVariation <= 0.15) confidence = 'medium'
+
+    return {
+      estimatedRent,
+      lowRent: estimatedRent - spread,
+      highRent: estimatedRent + spread,
+      confidence,
+      method: 'comps',
+      comps: matches,
+      model
+    }
+  }
+
+  const { coefficients, residualStandardDeviation } = model
+  const estimatedRent = Math.exp(predictLogRent(coefficients, toFeatures(subject, now, ageDecades(subject.yearBuilt, now))))
+
+  return {
+    estimatedRent,
+    lowRent: estimatedRent * Math.exp(-residualStandardDeviation),
+    highRent: estimatedRent * Math.exp(residualStandardDeviation),
+    confidence: model.compCount >= 20 && residualStandardDeviation <= 0.15 ? 'medium' : 'low',
+    method: 'model',
+    comps: matches,
+    model
+  }
+}
+
+/**
+ * Closest similar comps, adjusted to the subject with the calibrated coefficients
+ */
+function selectRentalComps(
+  subject: RentSubject,
+  comps: RentalComp[],
+  model: RentModel,
+  now: Date,
+  growth: number,
+  maxDistanceMiles: number
+): RentalCompMatch[] {
+  const subjectFeatures = toFeatures(subject, now, ageDecades(subject.yearBuilt, now))
+  const matches: RentalCompMatch[] = []
+
+  for (const comp of comps) {
+    if (!isUsableComp(comp, now)) continue
+    if (comp.propertyType !== subject.propertyType) continue
+    if (Math.abs(comp.beds - subject.beds) > MAX_BED_DIFFERENCE) continue
+    if ((Math.abs(comp.sqft - subject.sqft) / subject.sqft) * 100 > SQFT_BAND_PERCENTAGE) continue
+
+    const distanceMiles = haversineDistanceMiles(subject.latitude, subject.longitude, comp.latitude, comp.longitude)
+    if (distanceMiles > maxDistanceMiles) continue
+
+    // Comps with an unknown age are assumed to match the subject's
+    const compFeatures = toFeatures(comp, now, subjectFeatures[COEFFICIENT_NAMES.indexOf('ageDecades')])
+    const logAdjustment = predictLogRent(model.coefficients, subjectFeatures) - predictLogRent(model.coefficients, compFeatures)
+    const grossAdjustmentPercentage = Math.abs(Math.exp(logAdjustment) - 1) * 100
+    if (grossAdjustmentPercentage > MAX_GROSS_ADJUSTMENT_PERCENTAGE) continue
+
+    const timeAdjustedRent = timeAdjustRent(comp, now, growth)
+    const recency = Math.pow(0.5, leaseAgeYears(comp, now) / RECENCY_HALF_LIFE_YEARS)
+
+    matches.push({
+      comp,
+      distanceMiles,
+      timeAdjustedRent,
+      adjustedRent: timeAdjustedRent * Math.exp(logAdjustment),
+      grossAdjustmentPercentage,
+      // Closer, more recent comps needing less adjustment carry more weight
+      weight: recency / (1 + distanceMiles * 2) / (1 + grossAdjustmentPercentage / 10)
+    })
+  }
+
+  return matches.sort((a, b) => b.weight - a.weight).slice(0, MAX_COMPS)
+}
+
+function estimateFromRentalYield(property: PropertyMetrics, rentalYield: number | undefined): RentEstimate {
+  const estimatedRent = (property.price * (rentalYield ?? DEFAULT_GROSS_RENTAL_YIELD)) / 100 / 12
+
+  return {
+    estimatedRent,
+    lowRent: estimatedRent * (1 - RENTAL_YIELD_SPREAD),
+    highRent: estimatedRent * (1 + RENTAL_YIELD_SPREAD),
+    confidence: 'low',
+    method: 'rental_yield',
+    comps: [],
+    model: null
+  }
+}
+
+// Sum per-unit estimates into the building's; method and confidence are the weakest unit's
+function combineUnitEstimates(estimates: RentEstimate[]): RentEstimate {
+  const sumOf = (key: 'estimatedRent' | 'lowRent' | 'highRent') => estimates.reduce((sum, estimate) => sum + estimate[key], 0)
+  const comps = estimates
+    .flatMap(estimate => estimate.comps)
+    .filter((match, index, matches) => matches.findIndex(other => other.comp === match.comp) === index)
+
+  return {
+    estimatedRent: sumOf('estimatedRent'),
+    lowRent: sumOf('lowRent'),
+    highRent: sumOf('highRent'),
+    confidence: estimates.reduce<RentEstimate['confidence']>(
+      (weakest, estimate) => (CONFIDENCE_RANK[estimate.confidence] < CONFIDENCE_RANK[weakest] ? estimate.confidence : weakest),
+      'high'
+    ),
+    method: estimates.reduce<RentEstimateMethod>(
+      (weakest, estimate) => (METHOD_RANK[estimate.method] < METHOD_RANK[weakest] ? estimate.method : weakest),
+      'comps'
+    ),
+    comps,
+    model: estimates[0].model
+  }
+}
+
+// A rent roll unit as a rentable subject; units without sqft get an even share of the building
+function toUnitSubject(property: PropertyMetrics, unit: PropertyUnit, units: PropertyUnit[]): RentSubject {
+  return {
+    ...property,
+    beds: unit.beds,
+    baths: unit.baths,
+    sqft: unit.sqft && unit.sqft > 0 ? unit.sqft : property.sqft / units.length
+  }
+}
+
+function isUsableComp(comp: RentalComp, now: Date): boolean {
+  const age = leaseAgeYears(comp, now)
+  return comp.monthlyRent > 0 && comp.sqft > 0 && age >= 0 && age <= RENTAL_COMP_LOOKBACK_YEARS
+}
+
+// [logSqft, beds, baths, ageDecades, condo, townhouse, multiFamily], in COEFFICIENT_NAMES order
+function toFeatures(
+  subject: Pick<RentSubject, 'sqft' | 'beds' | 'baths' | 'propertyType'> & { yearBuilt?: number },
+  now: Date,
+  fallbackAgeDecades: number
+): number[] {
+  return [
+    Math.log(subject.sqft),
+    subject.beds,
+    subject.baths,
+    subject.yearBuilt ? ageDecades(subject.yearBuilt, now) : fallbackAgeDecades,
+    subject.propertyType === 'condo' ? 1 : 0,
+    subject.propertyType === 'townhouse' ? 1 : 0,
+    subject.propertyType === 'multi_family' ? 1 : 0
+  ]
+}
+
+function predictLogRent(coefficients: RentModelCoefficients, features: number[]): number {
+  return COEFFICIENT_NAMES.reduce((sum, name, j) => sum + coefficients[name] * features[j], coefficients.intercept)
+}
+
+function ageDecades(yearBuilt: number, now: Date): number {
+  return Math.max(0, now.getUTCFullYear() - yearBuilt) / 10
+}
+
+function leaseAgeYears(comp: RentalComp, now: Date): number {
+  return (now.getTime() - new Date(comp.leasedOn).getTime()) / MS_PER_YEAR
+}
+
+function timeAdjustRent(comp: RentalComp, now: Date, growth: number): number {
+  return comp.monthlyRent * Math.pow(1 + growth, Math.max(0, leaseAgeYears(comp, now)))
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Gaussian elimination with partial pivoting; the ridge term keeps the system non-singular
+function solveLinearSystem(matrix: number[][], vector: number[]): number[] {
+  const size = vector.length
+  const rows = matrix.map((row, i) => [...row, vector[i]])
+
+  for (let column = 0; column < size; column++) {
+    let pivot = column
+    for (let row = column + 1; row < size; row++) {
+      if (Math.abs(rows[row][column]) > Math.abs(rows[pivot][column])) pivot = row
+    }
+    const pivotRow = rows[pivot]
+    rows[pivot] = rows[column]
+    rows[column] = pivotRow
+
+    for (let row = column + 1; row < size; row++) {
+      const factor = rows[row][column] / rows[column][column]
+      for (let k = column; k <= size; k++) rows[row][k] -= factor * rows[column][k]
+    }
+  }
+
+  const solution = Array<number>(size).fill(0)
+  for (let row = size - 1; row >= 0; row--) {
+    let sum = rows[row][size]
+    for (let k = row + 1; k < size; k++) sum -= rows[row][k] * solution[k]
+    solution[row] = sum / rows[row][row]
+  }
+  return solution
+}
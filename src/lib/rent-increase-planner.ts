@@ -0,0 +1,419 @@
+/**
+ * Rent Increase Planner
+ *
+ * Plans the next rent increase for every unit on a rent roll. The cap is
+ * measured the way Civ. Code § 1947.12 measures it: against the lowest rent
+ * charged in the 12 months before the increase takes effect, so an increase
+ * earlier in the year uses up part of the next one. The earliest effective
+ * date honors the Civ. Code § 827 notice period (30 days, or 90 when rent rises
+ * more than 10% over 12 months) and, under a local ordinance, its limit of one
+ * increase per 12 months; AB 1482 has no such limit. Planned increases
+ * that break a rule are flagged with the reason, and notices are only drafted
+ * for increases that pass.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { supabase, type Database } from './supabase'
+import { calculateMaxRentIncrease } from './rent-cap-helper'
+import {
+  calculateLocalIncreasePercentage,
+  determineRentRegime,
+  type RentRegimeDetermination
+} from './rent-control-jurisdictions'
+import { resolveCpiRegion } from './cpi'
+import { toAb1482ExemptionFacts } from './scoring-inputs'
+import { renderPdf, type PdfBlock } from './pdf'
+import type { RentRoll, RentRollUnit } from './rent-roll'
+
+type PropertyRow = Database['public']['Tables']['properties']['Row']
+
+export type RentIncreaseFlagCode = 'exceeds_cap' | 'insufficient_notice' | 'within_12_months' | 'not_an_increase'
+
+export interface RentIncreaseFlag {
+  code: RentIncreaseFlagCode
+  reason: string
+}
+
+export interface RentIncrease {
+  newRent: number
+  effectiveDate: string // YYYY-MM-DD
+  increase: number // Over the current rent
+  lowestRentPrior12Months: number // The base the cap is measured from
+  cumulativeIncreasePercentage: number // New rent over that base
+  capPercentage: number | null // Allowable increase on the effective date; null when uncapped
+  maxRent: number | null
+  noticeDays: number
+  flags: RentIncreaseFlag[]
+}
+
+export interface UnitRentIncreasePlan {
+  unit: RentRollUnit
+  skipReason: string | null // Vacant and owner-occupied units aren't planned
+  trailing12MonthIncrease: number // Increases in the 12 months before the service date
+  trailing12MonthIncreasePercentage: number
+  earliestEffectiveDate: string | null // First date an increase may take effect
+  maxNextIncrease: RentIncrease | null // Legal maximum on the earliest date; null when uncapped
+  planned: RentIncrease | null // The rent roll's planned increase, checked
+  notice: string | null // For the planned increase, else the maximum; withheld when flagged
+}
+
+export interface RentIncreasePlan {
+  property: Pick<PropertyRow, 'id' | 'address' | 'city' | 'state' | 'zip_code'>
+  regime: RentRegimeDetermination
+  servedOn: string
+  mailed: boolean
+  units: UnitRentIncreasePlan[]
+  rejected: RentRoll['rejected']
+  flaggedUnits: number
+  noticeCount: number
+  currentRentRoll: number // Monthly
+  proposedRentRoll: number // Monthly, with every unflagged proposed increase
+}
+
+export interface RentIncreasePlanOptions {
+  servedOn?: Date // Date the notices are served (default: today)
+  mailed?: boolean // Served by mail, which adds 5 days to the notice period
+}
+
+interface PlanContext {
+  property: PropertyRow
+  regime: RentRegimeDetermination
+  servedOn: string
+  mailed: boolean
+}
+
+const INVALID_TEXT_REPRESENTATION = '22P02'
+const NOTICE_DAYS = 30
+const LARGE_INCREASE_NOTICE_DAYS = 90
+const LARGE_INCREASE_PERCENTAGE = 10 // Civ. Code § 827(b)(3): over 10% in 12 months needs 90 days
+const MAIL_SERVICE_DAYS = 5 // Code Civ. Proc. § 1013
+
+/**
+ * Load the property a rent roll belongs to; null when it doesn't exist
+ */
+export async function fetchRentRollProperty(
+  id: string,
+  client: SupabaseClient = supabase
+): Promise<PropertyRow | null> {
+  const { data, error } = await client
+    .from('properties')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error?.code === INVALID_TEXT_REPRESENTATION) return null // Malformed UUID
+  if (error) throw error
+  return data as PropertyRow | null
+}
+
+/**
+ * Plan the next increase for every unit on a rent roll
+ */
+export function planRentIncreases(
+  rentRoll: RentRoll,
+  property: PropertyRow,
+  options: RentIncreasePlanOptions = {}
+): RentIncreasePlan {
+  const servedOn = (options.servedOn ?? new Date()).toISOString().slice(0, 10)
+  const facts = toAb1482ExemptionFacts(property)
+  const regime = determineRentRegime(
+    {
+      ...facts,
+      ownerOccupiesUnit: facts.ownerOccupiesUnit ??
+        (rentRoll.units.some(unit => unit.occupancy === 'owner_occupied') || undefined),
+      city: property.city,
+      zipCode: property.zip_code,
+      yearBuilt: property.year_built,
+      propertyType: property.property_type,
+      unitCount: rentRoll.units.length + rentRoll.rejected.length
+    },
+    { effectiveDate: toDate(servedOn) }
+  )
+  const context: PlanContext = { property, regime, servedOn, mailed: options.mailed ?? false }
+
+  const units = rentRoll.units.map(unit => planUnit(unit, context))
+  const proposedRent = (plan: UnitRentIncreasePlan) => {
+    const proposal = plan.planned ?? plan.maxNextIncrease
+    return proposal && plan.notice ? proposal.newRent : plan.unit.currentRent ?? 0
+  }
+
+  return {
+    property: {
+      id: property.id,
+      address: property.address,
+      city: property.city,
+      state: property.state,
+      zip_code: property.zip_code
+    },
+    regime,
+    servedOn,
+    mailed: context.mailed,
+    units,
+    rejected: rentRoll.rejected,
+    flaggedUnits: units.filter(plan => (plan.planned?.flags.length ?? 0) > 0).length,
+    noticeCount: units.filter(plan => plan.notice).length,
+    currentRentRoll: units.reduce((sum, plan) => sum + (plan.unit.currentRent ?? 0), 0),
+    proposedRentRoll: units.reduce((sum, plan) => sum + proposedRent(plan), 0)
+  }
+}
+
+function planUnit(unit: RentRollUnit, context: PlanContext): UnitRentIncreasePlan {
+  const skipped = (skipReason: string): UnitRentIncreasePlan => ({
+    unit,
+    skipReason,
+    trailing12MonthIncrease: 0,
+    trailing12MonthIncreasePercentage: 0,
+    earliestEffectiveDate: null,
+    maxNextIncrease: null,
+    planned: null,
+    notice: null
+  })
+
+  if (unit.occupancy === 'vacant') return skipped('Vacant - the next tenancy starts at market rent')
+  if (unit.occupancy === 'owner_occupied') return skipped('Owner-occupied')
+  if (unit.currentRent === undefined) return skipped('No current rent')
+
+  const currentRent = unit.currentRent
+  const trailingBase = lowestRentPrior12Months(unit, context.servedOn)
+  const earliestEffectiveDate = earliestDateFor(unit, undefined, context)
+  const maxRent = capAt(earliestEffectiveDate, lowestRentPrior12Months(unit, earliestEffectiveDate), context).maxRent
+
+  // Whole dollars, rounded down so the maximum never exceeds the cap
+  const maxNextIncrease = maxRent !== null && Math.floor(maxRent) > currentRent
+    ? assessIncrease(unit, Math.floor(maxRent), earliestEffectiveDate, context)
+    : null
+  const planned = unit.plannedRent !== undefined
+    ? assessIncrease(
+        unit,
+        unit.plannedRent,
+        unit.plannedEffectiveDate ?? earliestDateFor(unit, unit.plannedRent, context),
+        context
+      )
+    : null
+
+  const proposal = planned ?? maxNextIncrease
+  return {
+    unit,
+    skipReason: null,
+    trailing12MonthIncrease: currentRent - trailingBase,
+    trailing12MonthIncreasePercentage: ((currentRent - trailingBase) / trailingBase) * 100,
+    earliestEffectiveDate,
+    maxNextIncrease,
+    planned,
+    notice: proposal && proposal.flags.length === 0 ? buildIncreaseNotice(unit, proposal, context) : null
+  }
+}
+
+// Check one increase against the cap, the notice period and the 12-month limit
+function assessIncrease(unit: RentRollUnit, newRent: number, effectiveDate: string, context: PlanContext): RentIncrease {
+  const currentRent = unit.currentRent ?? 0
+  const base = lowestRentPrior12Months(unit, effectiveDate)
+  const { capPercentage, maxRent } = capAt(effectiveDate, base, context)
+  const cumulativeIncreasePercentage = ((newRent - base) / base) * 100
+  const noticeDays = noticeDaysFor(cumulativeIncreasePercentage, context.mailed)
+  const flags: RentIncreaseFlag[] = []
+
+  if (newRent <= currentRent) {
+    flags.push({ code: 'not_an_increase', reason: `${formatRent(newRent)} is not above the current rent of ${formatRent(currentRent)}` })
+  }
+
+  if (maxRent !== null && capPercentage !== null && newRent > maxRent + 0.005) {
+    flags.push({
+      code: 'exceeds_cap',
+      reason: `Raises rent ${cumulativeIncreasePercentage.toFixed(1)}% over ${formatRent(base)}, the lowest rent in the 12 months ` +
+        `before ${effectiveDate}; ${describeRegime(context.regime)} allows ${capPercentage.toFixed(1)}% (at most ${formatRent(maxRent)})`
+    })
+  }
+
+  const noticeDeadline = addDays(context.servedOn, noticeDays)
+  if (effectiveDate < noticeDeadline) {
+    flags.push({
+      code: 'insufficient_notice',
+      reason: `Needs ${noticeDays} days' notice (Civ. Code § 827${context.mailed ? ', plus 5 days by mail' : ''}); ` +
+        `served ${context.servedOn}, so the earliest effective date is ${noticeDeadline}`
+    })
+  }
+
+  const anchor = oneIncreasePerYearAnchor(unit, context)
+  if (anchor && effectiveDate < addMonths(anchor, 12)) {
+    flags.push({
+      code: 'within_12_months',
+      reason: `${context.regime.jurisdiction!.ordinance} allows one increase per 12 months; ` +
+        `${unit.lastIncreaseDate ? 'last increase' : 'lease start'} ${anchor}, next allowed ${addMonths(anchor, 12)}`
+    })
+  }
+
+  return {
+    newRent,
+    effectiveDate,
+    increase: newRent - currentRent,
+    lowestRentPrior12Months: base,
+    cumulativeIncreasePercentage,
+    capPercentage,
+    maxRent,
+    noticeDays,
+    flags
+  }
+}
+
+// First date clear of the notice period and, under a local ordinance, 12 months after the last increase (or lease start)
+// The notice period depends on the size of the increase, which depends on the cap on that date
+function earliestDateFor(unit: RentRollUnit, newRent: number | undefined, context: PlanContext): string {
+  const anchor = oneIncreasePerYearAnchor(unit, context)
+  const earliest = (noticeDays: number) => {
+    const afterNotice = addDays(context.servedOn, noticeDays)
+    const afterLimit = anchor ? addMonths(anchor, 12) : afterNotice
+    return afterNotice > afterLimit ? afterNotice : afterLimit
+  }
+
+  const date = earliest(noticeDaysFor(0, context.mailed))
+  const base = lowestRentPrior12Months(unit, date)
+  const percentage = newRent !== undefined
+    ? ((newRent - base) / base) * 100
+    : capAt(date, base, context).capPercentage ?? 0
+  return percentage > LARGE_INCREASE_PERCENTAGE ? earliest(noticeDaysFor(percentage, context.mailed)) : date
+}
+
+// Local ordinances allow one increase per 12 months, counted from the last increase (or lease start)
+// AB 1482 doesn't; an earlier increase only lowers the cap through the 12-month lowest rent base
+function oneIncreasePerYearAnchor(unit: RentRollUnit, context: PlanContext): string | undefined {
+  return context.regime.regime === 'local' ? unit.lastIncreaseDate ?? unit.leaseStart : undefined
+}
+
+// Allowable increase on a date, measured from the base rent; null when the regime doesn't cap it
+function capAt(date: string, base: number, context: PlanContext): { capPercentage: number | null; maxRent: number | null } {
+  const { property, regime } = context
+  if (regime.regime === 'none') return { capPercentage: null, maxRent: null }
+
+  if (regime.regime === 'local') {
+    const capPercentage = calculateLocalIncreasePercentage(regime.jurisdiction!, { effectiveDate: toDate(date) })
+    return { capPercentage, maxRent: base * (1 + capPercentage / 100) }
+  }
+
+  const increase = calculateMaxRentIncrease(base, property.year_built, {
+    effectiveDate: toDate(date),
+    region: regime.jurisdiction?.cpiRegion ?? resolveCpiRegion(property.city),
+    certificateOfOccupancyDate: property.certificate_of_occupancy_date ?? undefined
+  })
+  return increase.isEligible
+    ? { capPercentage: increase.increasePercentage, maxRent: increase.maxNewRent }
+    : { capPercentage: null, maxRent: null }
+}
+
+// Lowest rent charged in the 12 months before a date: the rent before the last increase if that was within them
+function lowestRentPrior12Months(unit: RentRollUnit, date: string): number {
+  const currentRent = unit.currentRent ?? 0
+  const { lastIncreaseDate, previousRent } = unit
+  if (previousRent === undefined || !lastIncreaseDate) return currentRent
+  if (lastIncreaseDate > date || lastIncreaseDate <= addMonths(date, -12)) return currentRent
+  return Math.min(previousRent, currentRent)
+}
+
+function noticeDaysFor(increasePercentage: number, mailed: boolean): number {
+  const days = increasePercentage > LARGE_INCREASE_PERCENTAGE ? LARGE_INCREASE_NOTICE_DAYS : NOTICE_DAYS
+  return days + (mailed ? MAIL_SERVICE_DAYS : 0)
+}
+
+// Tenant notice of the increase (a change in terms of tenancy)
+function buildIncreaseNotice(unit: RentRollUnit, increase: RentIncrease, context: PlanContext): string {
+  const { property, regime } = context
+  const currentRent = unit.currentRent ?? 0
+  const lines = [
+    'NOTICE OF CHANGE IN TERMS OF TENANCY',
+    '',
+    `To: ${unit.tenantName ?? 'All tenants in possession'}`,
+    `Premises: ${property.address}, Unit ${unit.unitNumber}, ${property.city}, ${property.state} ${property.zip_code}`,
+    '',
+    `Effective ${formatLongDate(increase.effectiveDate)}, the monthly rent for the premises will increase from ` +
+      `${formatRent(currentRent)} to ${formatRent(increase.newRent)}, an increase of ${formatRent(increase.increase)} ` +
+      `(${((increase.increase / currentRent) * 100).toFixed(2)}%).`
+  ]
+
+  if (regime.regime !== 'none' && increase.capPercentage !== null) {
+    lines.push(
+      '',
+      `This increase complies with ${regime.regime === 'local' ? regime.jurisdiction!.ordinance : 'Civil Code § 1947.12 (AB 1482)'}: ` +
+        `the total increase over the 12 months before the effective date is ${increase.cumulativeIncreasePercentage.toFixed(2)}% ` +
+        `of the lowest rent charged in that period (${formatRent(increase.lowestRentPrior12Months)}), within the allowable ` +
+        `${increase.capPercentage.toFixed(2)}%.`
+    )
+  }
+
+  lines.push(
+    '',
+    `This notice is given under Civil Code § 827 at least ${increase.noticeDays} days before the increase takes effect` +
+      `${context.mailed ? ', including 5 additional days for service by mail (Code Civ. Proc. § 1013)' : ''}. ` +
+      'All other terms of your tenancy remain in full force and effect.',
+    '',
+    `Date served: ${formatLongDate(context.servedOn)}`,
+    `Method of service: ${context.mailed ? 'First-class mail' : 'Personal delivery'}`,
+    '',
+    'Landlord/Agent: ______________________________'
+  )
+
+  return lines.join('\n')
+}
+
+/**
+ * Every drafted notice as one PDF, a page per unit
+ */
+export function renderRentIncreaseNotices(plan: RentIncreasePlan): Buffer {
+  const blocks: PdfBlock[] = []
+  for (const unitPlan of plan.units) {
+    if (!unitPlan.notice) continue
+    const [title, ...body] = unitPlan.notice.split('\n')
+    if (blocks.length > 0) blocks.push({ type: 'pageBreak' })
+    blocks.push(
+      { type: 'heading', text: title },
+      { type: 'text', text: body.join('\n') },
+      { type: 'spacer', height: 12 },
+      {
+        type: 'text',
+        text: 'Prepared with CalReal Deals for informational purposes. Confirm local requirements with legal counsel before serving.',
+        size: 8
+      }
+    )
+  }
+
+  if (blocks.length === 0) {
+    blocks.push({ type: 'text', text: 'No notices: every planned increase was flagged, or no unit has an increase to make.' })
+  }
+
+  return renderPdf(blocks, { title: `Rent increase notices: ${plan.property.address}, ${plan.property.city}` })
+}
+
+function describeRegime(regime: RentRegimeDetermination): string {
+  return regime.regime === 'local' ? regime.jurisdiction!.ordinance : 'AB 1482'
+}
+
+/**
+ * Download file name for a property's notices
+ */
+export function toNoticesFilename(property: Pick<PropertyRow, 'address'>, servedOn: string): string {
+  const slug = property.address.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')
+  return `rent-increase-notices-${slug || 'property'}-${servedOn}.pdf`
+}
+
+function formatRent(value: number): string {
+  return `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+}
+
+function formatLongDate(date: string): string {
+  return toDate(date).toLocaleDateString('en-US', { dateStyle: 'long', timeZone: 'UTC' })
+}
+
+function toDate(date: string): Date {
+  return new Date(`${date}T00:00:00Z`)
+}
+
+function addDays(date: string, days: number): string {
+  const result = toDate(date)
+  result.setUTCDate(result.getUTCDate() + days)
+  return result.toISOString().slice(0, 10)
+}
+
+function addMonths(date: string, months: number): string {
+  const result = toDate(date)
+  result.setUTCMonth(result.getUTCMonth() + months)
+  return result.toISOString().slice(0, 10)
+}
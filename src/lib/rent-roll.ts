@@ -0,0 +1,201 @@
+/**
+ * Rent Roll
+ *
+ * Parses a property manager's rent roll CSV: one row per unit with the current
+ * rent, lease and tenancy dates, the last increase and optionally a planned
+ * increase. Headers are matched by common aliases the same way listing feeds
+ * are. Rows with a missing or implausible value are rejected with every
+ * problem found; a file that can't be read at all throws RentRollError.
+ */
+
+import { parseCsvRecords } from './csv'
+import type { UnitOccupancy } from './property-units'
+
+export interface RentRollUnit {
+  row: number // 1-based position in the file, excluding the header
+  unitNumber: string
+  tenantName?: string
+  occupancy: UnitOccupancy
+  currentRent?: number // Monthly; required for occupied units
+  leaseStart?: string // YYYY-MM-DD
+  tenantSince?: string
+  lastIncreaseDate?: string
+  previousRent?: number // Rent before the last increase
+  plannedRent?: number
+  plannedEffectiveDate?: string
+}
+
+export interface RentRoll {
+  units: RentRollUnit[]
+  rejected: { row: number; errors: string[] }[]
+}
+
+/**
+ * A rent roll that can't be read at all (as opposed to individual bad rows)
+ */
+export class RentRollError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RentRollError'
+  }
+}
+
+export const MAX_RENT_ROLL_UNITS = 500
+
+const MAX_MONTHLY_RENT = 100_000
+
+type RentRollField = Exclude<keyof RentRollUnit, 'row'>
+
+// CSV header aliases, compared after lowercasing and replacing non-alphanumerics with "_"
+const CSV_COLUMNS: Record<RentRollField, string[]> = {
+  unitNumber: ['unit', 'unit_number', 'unit_no', 'apt', 'apartment'],
+  tenantName: ['tenant', 'tenant_name', 'tenants', 'resident', 'resident_name'],
+  occupancy: ['occupancy', 'status', 'unit_status'],
+  currentRent: ['current_rent', 'rent', 'monthly_rent', 'market_rent_charged'],
+  leaseStart: ['lease_start', 'lease_start_date', 'lease_from', 'lease_begin'],
+  tenantSince: ['tenant_since', 'move_in', 'move_in_date', 'moved_in'],
+  lastIncreaseDate: ['last_increase_date', 'last_increase', 'last_rent_increase'],
+  previousRent: ['previous_rent', 'prior_rent', 'rent_before_increase'],
+  plannedRent: ['planned_rent', 'new_rent', 'proposed_rent'],
+  plannedEffectiveDate: ['planned_effective_date', 'effective_date', 'increase_date']
+}
+
+const OCCUPANCY_ALIASES: Record<string, UnitOccupancy> = {
+  occupied: 'occupied',
+  leased: 'occupied',
+  current: 'occupied',
+  vacant: 'vacant',
+  empty: 'vacant',
+  owner: 'owner_occupied',
+  owneroccupied: 'owner_occupied',
+  manager: 'owner_occupied'
+}
+
+/**
+ * Parse and validate a rent roll CSV
+ */
+export function parseRentRoll(text: string): RentRoll {
+  let records: Record<string, string>[]
+  try {
+    records = parseCsvRecords(text)
+  } catch (error) {
+    throw new RentRollError(`Invalid rent roll CSV: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  if (records.length === 0) throw new RentRollError('Rent roll has no units')
+  const columns = Object.keys(records[0]).map(toColumnKey)
+  if (!CSV_COLUMNS.unitNumber.some(alias => columns.includes(alias))) {
+    throw new RentRollError('Rent roll needs a unit column')
+  }
+  if (!CSV_COLUMNS.currentRent.some(alias => columns.includes(alias))) {
+    throw new RentRollError('Rent roll needs a current rent column')
+  }
+  if (records.length > MAX_RENT_ROLL_UNITS) {
+    throw new RentRollError(`Rent roll can have at most ${MAX_RENT_ROLL_UNITS} units`)
+  }
+
+  const rentRoll: RentRoll = { units: [], rejected: [] }
+  const seen = new Set<string>()
+
+  records.forEach((record, index) => {
+    const row = index + 1
+    const result = mapRentRollRecord(record, row)
+    if ('errors' in result) {
+      rentRoll.rejected.push({ row, errors: result.errors })
+    } else if (seen.has(result.unitNumber.toLowerCase())) {
+      rentRoll.rejected.push({ row, errors: [`Unit ${result.unitNumber} appears more than once`] })
+    } else {
+      seen.add(result.unitNumber.toLowerCase())
+      rentRoll.units.push(result)
+    }
+  })
+
+  return rentRoll
+}
+
+function mapRentRollRecord(record: Record<string, string>, row: number): RentRollUnit | { errors: string[] } {
+  const byColumn = new Map(Object.entries(record).map(([column, value]) => [toColumnKey(column), value.trim()]))
+  const field = (name: RentRollField) => {
+    const alias = CSV_COLUMNS[name].find(column => byColumn.get(column))
+    return alias ? byColumn.get(alias) : undefined
+  }
+
+  const errors: string[] = []
+  const rent = (name: RentRollField, label: string) => {
+    const text = field(name)
+    if (text === undefined) return undefined
+    const value = Number(text.replace(/[$,\s]/g, ''))
+    if (!(value > 0 && value <= MAX_MONTHLY_RENT)) {
+      errors.push(`${label} ${text} must be a monthly rent between 0 and ${MAX_MONTHLY_RENT}`)
+      return undefined
+    }
+    return value
+  }
+  const date = (name: RentRollField, label: string) => {
+    const text = field(name)
+    if (text === undefined) return undefined
+    const value = toIsoDate(text)
+    if (!value) errors.push(`${label} ${text} is not a date`)
+    return value
+  }
+
+  const unitNumber = field('unitNumber')
+  if (!unitNumber) errors.push('unit is required')
+
+  const occupancyText = field('occupancy')
+  const occupancy = occupancyText ? OCCUPANCY_ALIASES[occupancyText.toLowerCase().replace(/[^a-z]/g, '')] : undefined
+  if (occupancyText && !occupancy) errors.push(`Unsupported occupancy: ${occupancyText}`)
+
+  const unit: RentRollUnit = {
+    row,
+    unitNumber: unitNumber ?? '',
+    tenantName: field('tenantName'),
+    occupancy: occupancy ?? 'occupied',
+    currentRent: rent('currentRent', 'current_rent'),
+    leaseStart: date('leaseStart', 'lease_start'),
+    tenantSince: date('tenantSince', 'tenant_since'),
+    lastIncreaseDate: date('lastIncreaseDate', 'last_increase_date'),
+    previousRent: rent('previousRent', 'previous_rent'),
+    plannedRent: rent('plannedRent', 'planned_rent'),
+    plannedEffectiveDate: date('plannedEffectiveDate', 'planned_effective_date')
+  }
+
+  // Cross-field checks only make sense once every field parsed
+  if (errors.length === 0) {
+    if (unit.occupancy === 'occupied' && unit.currentRent === undefined) {
+      errors.push('current_rent is required for an occupied unit')
+    }
+    if (unit.previousRent !== undefined && !unit.lastIncreaseDate) {
+      errors.push('previous_rent needs a last_increase_date')
+    }
+    if (unit.previousRent !== undefined && unit.currentRent !== undefined && unit.previousRent > unit.currentRent) {
+      errors.push('previous_rent is higher than current_rent')
+    }
+    if (unit.plannedEffectiveDate && unit.plannedRent === undefined) {
+      errors.push('planned_effective_date needs a planned_rent')
+    }
+  }
+
+  return errors.length > 0 ? { errors } : unit
+}
+
+function toColumnKey(column: string): string {
+  return column.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_')
+}
+
+/**
+ * Parse a YYYY-MM-DD or M/D/YYYY date, as rent roll and lease exports write them, without time zone shifts
+ */
+export function toIsoDate(text: string): string | undefined {
+  const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : us
+      ? [Number(us[3]), Number(us[1]), Number(us[2])]
+      : [NaN, NaN, NaN]
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (Number.isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return undefined
+  return date.toISOString().slice(0, 10)
+}
@@ -0,0 +1,153 @@
+/**
+ * Rent Stabilization Value
+ *
+ * What a rent cap is worth to a buyer-landlord. For an investor it is a cost:
+ * the cap limits how fast rent can follow the market, and it never adds rent.
+ * Two rent streams are projected over the holding period and discounted to
+ * today. On the market path rent resets to market at each lease anniversary.
+ * On the capped path it rises by at most the cap and never above market. A
+ * tenant in place starts both paths from their current rent; a vacant unit
+ * leases at market first. Vacancy decontrol (Costa-Hawkins) resets a unit to
+ * market when its tenant moves out, so the capped path is the expected rent
+ * across annual turnover. The NPV difference is zero when the cap never binds
+ * and negative when it does.
+ */
+
+import { DEFAULT_MARKET_RENT_GROWTH_RATE } from './cash-flow'
+
+export type TenancyScenario = 'tenant_in_place' | 'vacant'
+
+export interface RentStabilizationAssumptions {
+  scenario: TenancyScenario
+  currentRent: number // Monthly rent collected today; market rent when vacant
+  marketRent: number // Monthly market rent today
+  marketRentGrowthRate: number // % per year
+  capPercentage: number | null // Allowed annual increase, %; null when uncapped
+  holdingPeriodYears: number
+  discountRate: number // % per year
+  annualTurnoverRate: number // % of tenancies ending each year
+}
+
+export type RentStabilizationInput =
+  Pick<RentStabilizationAssumptions, 'scenario' | 'marketRent' | 'capPercentage'> &
+  Partial<Omit<RentStabilizationAssumptions, 'scenario' | 'marketRent' | 'capPercentage'>>
+
+export interface RentStabilizationYear {
+  year: number // 1 is the first year of ownership
+  marketPathRent: number // Monthly
+  cappedPathRent: number // Monthly, expected across turnover
+}
+
+export interface RentStabilizationValue {
+  assumptions: RentStabilizationAssumptions
+  years: RentStabilizationYear[]
+  marketPathNpv: number
+  cappedPathNpv: number
+  npvDifference: number // Capped minus market path; negative when the cap costs the investor
+  costPercentage: number // Share of the market path's NPV lost to the cap
+  score: number // 0-10; 10 when the cap costs nothing
+  reasoning: string
+}
+
+export const DEFAULT_HOLDING_PERIOD_YEARS = 10
+export const DEFAULT_RENT_DISCOUNT_RATE = 7.0 // % per year
+export const DEFAULT_ANNUAL_TURNOVER_RATE = 10.0 // % per year
+
+const MAX_SCORE = 10
+const FULL_COST_PERCENTAGE = 20 // Cost share at which the score reaches zero
+const NEGLIGIBLE_COST_PERCENTAGE = 0.1
+
+/**
+ * Project market and capped rent streams over the holding period and score the cap's cost to an investor
+ */
+export function calculateRentStabilizationValue(input: RentStabilizationInput): RentStabilizationValue {
+  const assumptions: RentStabilizationAssumptions = {
+    scenario: input.scenario,
+    currentRent: input.scenario === 'vacant' ? input.marketRent : input.currentRent ?? input.marketRent,
+    marketRent: input.marketRent,
+    marketRentGrowthRate: input.marketRentGrowthRate ?? DEFAULT_MARKET_RENT_GROWTH_RATE,
+    capPercentage: input.capPercentage,
+    holdingPeriodYears: Math.max(1, Math.round(input.holdingPeriodYears ?? DEFAULT_HOLDING_PERIOD_YEARS)),
+    discountRate: input.discountRate ?? DEFAULT_RENT_DISCOUNT_RATE,
+    annualTurnoverRate: input.annualTurnoverRate ?? DEFAULT_ANNUAL_TURNOVER_RATE
+  }
+
+  const growth = assumptions.marketRentGrowthRate / 100
+  const marketRents = Array.from(
+    { length: assumptions.holdingPeriodYears },
+    (_, index) => assumptions.marketRent * Math.pow(1 + growth, index)
+  )
+
+  // Both paths keep the current lease until its first anniversary
+  const marketPath = marketRents.map((rent, index) => (index === 0 ? assumptions.currentRent : rent))
+  const cappedPath = assumptions.capPercentage === null
+    ? marketPath
+    : expectedCappedRents(assumptions.currentRent, marketRents, assumptions.capPercentage / 100, assumptions.annualTurnoverRate / 100)
+
+  const discount = assumptions.discountRate / 100
+  const marketPathNpv = presentValue(marketPath, discount)
+  const cappedPathNpv = presentValue(cappedPath, discount)
+  const npvDifference = cappedPathNpv - marketPathNpv
+  const costPercentage = marketPathNpv > 0 ? Math.max(0, -npvDifference / marketPathNpv) * 100 : 0
+
+  return {
+    assumptions,
+    years: marketPath.map((rent, index) => ({ year: index + 1, marketPathRent: rent, cappedPathRent: cappedPath[index] })),
+    marketPathNpv,
+    cappedPathNpv,
+    npvDifference,
+    costPercentage,
+    score: MAX_SCORE * Math.max(0, 1 - costPercentage / FULL_COST_PERCENTAGE),
+    reasoning: describeRentStabilization(assumptions, npvDifference, costPercentage)
+  }
+}
+
+// Expected capped rent each year: the original tenancy if it survives, else the tenancy that began at the latest turnover
+function expectedCappedRents(currentRent: number, marketRents: number[], cap: number, turnover: number): number[] {
+  const tenancies = marketRents.map((_, start) => cappedTenancy(start === 0 ? currentRent : marketRents[start], start, marketRents, cap))
+
+  return marketRents.map((_, year) => {
+    let expected = Math.pow(1 - turnover, year) * tenancies[0][year]
+    for (let start = 1; start <= year; start++) {
+      expected += turnover * Math.pow(1 - turnover, year - start) * tenancies[start][year]
+    }
+    return expected
+  })
+}
+
+// Rent of one tenancy from its start year; increases are capped, limited to market, and never negative
+function cappedTenancy(startRent: number, start: number, marketRents: number[], cap: number): number[] {
+  const rents = new Array<number>(marketRents.length).fill(0)
+  let rent = startRent
+  for (let year = start; year < marketRents.length; year++) {
+    if (year > start) rent = Math.max(rent, Math.min(rent * (1 + cap), marketRents[year]))
+    rents[year] = rent
+  }
+  return rents
+}
+
+// Annual rent collected through each year, discounted from the year end
+function presentValue(monthlyRents: number[], discount: number): number {
+  return monthlyRents.reduce((sum, rent, index) => sum + (rent * 12) / Math.pow(1 + discount, index + 1), 0)
+}
+
+function describeRentStabilization(
+  assumptions: RentStabilizationAssumptions,
+  npvDifference: number,
+  costPercentage: number
+): string {
+  const { capPercentage, marketRentGrowthRate, holdingPeriodYears } = assumptions
+  if (capPercentage === null) {
+    return `no rent cap, rent can follow ${marketRentGrowthRate.toFixed(1)}% market growth`
+  }
+
+  const belowMarket = assumptions.marketRent > 0 ? (1 - assumptions.currentRent / assumptions.marketRent) * 100 : 0
+  const inPlace = assumptions.scenario === 'tenant_in_place' && belowMarket >= 1
+    ? ` and in-place rent ${belowMarket.toFixed(0)}% below market`
+    : ''
+  if (costPercentage < NEGLIGIBLE_COST_PERCENTAGE) {
+    return `${capPercentage.toFixed(1)}% rent cap stays ahead of ${marketRentGrowthRate.toFixed(1)}% market growth, no cost over ${holdingPeriodYears} years`
+  }
+  return `${capPercentage.toFixed(1)}% rent cap vs ${marketRentGrowthRate.toFixed(1)}% market growth${inPlace} costs ` +
+    `$${Math.round(-npvDifference).toLocaleString()} in present value over ${holdingPeriodYears} years (${costPercentage.toFixed(1)}% of market rents)`
+}
@@ -0,0 +1,263 @@
+/**
+ * Rental Comps Import
+ *
+ * Imports leased rentals from a CSV export (MLS lease closings, property
+ * manager ledgers, rental listing sites) into `rental_comps`, where they
+ * calibrate the market rent model in rent-estimate.ts. Headers are matched by
+ * common aliases and rows are validated the way listing feeds are: a row with a
+ * missing or implausible value is rejected with every problem found. Comps are
+ * upserted on the source's lease id, or on address, unit, ZIP and lease date
+ * when the export has none, so re-importing an export updates rather than
+ * duplicates. Neighborhoods are assigned from the coordinates by the schema
+ * trigger, which also flags the neighborhood's properties for rescoring.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './supabase'
+import { parseCsvRecords } from './csv'
+import { extractStreetAddress, normalizeAddress } from './address-normalization'
+import { CALIFORNIA_BOUNDS, toPropertyType } from './listing-feeds'
+import { toIsoDate } from './rent-roll'
+
+type RentalCompInsert = Database['public']['Tables']['rental_comps']['Insert']
+
+export interface RentalCompImportOptions {
+  source: string // e.g. 'mls', 'zillow_rentals', 'rent_roll'
+  dryRun?: boolean // Map and validate without writing anything
+}
+
+export interface RentalCompImportReport {
+  source: string
+  dryRun: boolean
+  total: number
+  imported: number // Inserted or updated
+  rejected: { row: number; errors: string[] }[]
+}
+
+export type RentalCompMapResult =
+  | { row: number; status: 'mapped'; comp: RentalCompInsert }
+  | { row: number; status: 'rejected'; errors: string[] }
+
+/**
+ * A comps export that can't be read at all (as opposed to individual bad rows)
+ */
+export class RentalCompFeedError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RentalCompFeedError'
+  }
+}
+
+const MAX_MONTHLY_RENT = 100_000
+const MAX_UNIT_SQFT = 20_000
+const MAX_ROOMS = 20
+const MIN_YEAR_BUILT = 1800
+const QUERY_BATCH_SIZE = 200
+const SOURCE_PATTERN = /^[a-z0-9][a-z0-9_-]*$/
+
+type RentalCompField =
+  | 'sourceCompId' | 'address' | 'unitNumber' | 'city' | 'zipCode' | 'latitude' | 'longitude'
+  | 'propertyType' | 'beds' | 'baths' | 'sqft' | 'yearBuilt' | 'monthlyRent' | 'leasedOn'
+
+// CSV header aliases, compared after lowercasing and replacing non-alphanumerics with "_"
+const CSV_COLUMNS: Record<RentalCompField, string[]> = {
+  sourceCompId: ['lease_id', 'listing_id', 'mls_number', 'mls_id', 'comp_id'],
+  address: ['address', 'street_address', 'address_line_1', 'street'],
+  unitNumber: ['unit', 'unit_number', 'apt', 'apartment'],
+  city: ['city'],
+  zipCode: ['zip_code', 'zip', 'zipcode', 'postal_code'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lng', 'lon', 'long'],
+  propertyType: ['property_type', 'home_type', 'type'],
+  beds: ['beds', 'bedrooms', 'bedrooms_total'],
+  baths: ['baths', 'bathrooms', 'bathrooms_total'],
+  sqft: ['sqft', 'sq_ft', 'square_feet', 'living_area'],
+  yearBuilt: ['year_built', 'built'],
+  monthlyRent: ['monthly_rent', 'rent', 'lease_price', 'lease_amount', 'close_price'],
+  leasedOn: ['leased_on', 'lease_date', 'lease_start', 'close_date', 'move_in_date']
+}
+
+/**
+ * Parse, normalize and validate one comps CSV record into a rental_comps insert
+ */
+export function mapRentalCompRecord(
+  record: Record<string, string>,
+  source: string,
+  row: number,
+  now: Date = new Date()
+): RentalCompMapResult {
+  const byColumn = new Map(Object.entries(record).map(([column, value]) => [toColumnKey(column), value.trim()]))
+  const field = (name: RentalCompField) => {
+    const alias = CSV_COLUMNS[name].find(column => byColumn.get(column))
+    return alias ? byColumn.get(alias) : undefined
+  }
+
+  const errors: string[] = []
+  const requireText = (name: RentalCompField, label: string) => {
+    const text = field(name)
+    if (!text) errors.push(`${label} is required`)
+    return text ?? ''
+  }
+  const number = (name: RentalCompField, label: string, required: boolean) => {
+    const text = field(name)
+    if (text === undefined) {
+      if (required) errors.push(`${label} is required`)
+      return NaN
+    }
+    const value = Number(text.replace(/[$,\s]/g, ''))
+    if (Number.isNaN(value)) errors.push(`${label} must be a number`)
+    return value
+  }
+
+  const city = requireText('city', 'city')
+  const address = extractStreetAddress(requireText('address', 'address'), city)
+  const unitNumber = field('unitNumber')?.replace(/^#/, '') || null
+  const zipCode = requireText('zipCode', 'zip_code').slice(0, 5)
+
+  const propertyTypeText = field('propertyType')
+  const propertyType = toPropertyType(propertyTypeText)
+  if (!propertyType) errors.push(propertyTypeText ? `Unsupported property type: ${propertyTypeText}` : 'property_type is required')
+
+  const leasedOnText = requireText('leasedOn', 'leased_on')
+  const leasedOn = leasedOnText ? toIsoDate(leasedOnText) : undefined
+  if (leasedOnText && !leasedOn) errors.push(`leased_on ${leasedOnText} is not a date`)
+
+  const yearBuilt = number('yearBuilt', 'year_built', false)
+
+  const comp: RentalCompInsert = {
+    source,
+    source_comp_id: field('sourceCompId') ?? '',
+    address,
+    unit_number: unitNumber,
+    city,
+    zip_code: zipCode,
+    latitude: number('latitude', 'latitude', true),
+    longitude: number('longitude', 'longitude', true),
+    property_type: propertyType ?? 'single_family',
+    beds: number('beds', 'beds', true),
+    baths: number('baths', 'baths', true),
+    sqft: Math.round(number('sqft', 'sqft', true)),
+    year_built: Number.isNaN(yearBuilt) ? null : yearBuilt,
+    monthly_rent: number('monthlyRent', 'monthly_rent', true),
+    leased_on: leasedOn ?? ''
+  }
+
+  // Range checks only make sense once every field parsed
+  if (errors.length === 0) errors.push(...validateRentalComp(comp, now))
+  if (errors.length > 0) return { row, status: 'rejected', errors }
+
+  // Exports without lease ids are keyed by the unit and lease date
+  if (!comp.source_comp_id) {
+    const street = normalizeAddress(unitNumber ? `${address} #${unitNumber}` : address)
+    comp.source_comp_id = `${street}, ${zipCode}, ${comp.leased_on}`
+  }
+
+  return { row, status: 'mapped', comp }
+}
+
+/**
+ * Validate a mapped comp's values, returning every problem found
+ */
+export function validateRentalComp(comp: RentalCompInsert, now: Date = new Date()): string[] {
+  const errors: string[] = []
+
+  if (!/^9[0-6]\d{3}$/.test(comp.zip_code)) errors.push(`zip_code ${comp.zip_code} is not a California ZIP code`)
+  if (!(comp.monthly_rent > 0 && comp.monthly_rent <= MAX_MONTHLY_RENT)) {
+    errors.push(`monthly_rent must be between 0 and ${MAX_MONTHLY_RENT}`)
+  }
+  if (!(comp.sqft > 0 && comp.sqft <= MAX_UNIT_SQFT)) errors.push(`sqft must be between 0 and ${MAX_UNIT_SQFT}`)
+  if (!Number.isInteger(comp.beds) || comp.beds < 0 || comp.beds > MAX_ROOMS) {
+    errors.push(`beds must be a whole number between 0 and ${MAX_ROOMS}`)
+  }
+  if (!(comp.baths >= 0 && comp.baths <= MAX_ROOMS) || (comp.baths * 2) % 1 !== 0) {
+    errors.push(`baths must be between 0 and ${MAX_ROOMS} in half-bath steps`)
+  }
+
+  const maxYearBuilt = now.getFullYear() + 1
+  if (comp.year_built !== null && (!Number.isInteger(comp.year_built) || comp.year_built < MIN_YEAR_BUILT || comp.year_built > maxYearBuilt)) {
+    errors.push(`year_built must be between ${MIN_YEAR_BUILT} and ${maxYearBuilt}`)
+  }
+
+  const { south, west, north, east } = CALIFORNIA_BOUNDS
+  if (!(comp.latitude >= south && comp.latitude <= north && comp.longitude >= west && comp.longitude <= east)) {
+    errors.push(`latitude/longitude ${comp.latitude}, ${comp.longitude} is outside California`)
+  }
+
+  if (comp.leased_on > now.toISOString().slice(0, 10)) errors.push('leased_on is in the future')
+
+  return errors
+}
+
+/**
+ * Import a rental comps CSV, upserting valid rows and reporting rejected ones
+ * Throws RentalCompFeedError when the export itself can't be read; row problems are reported, not thrown
+ */
+export async function importRentalComps(
+  client: SupabaseClient,
+  text: string,
+  options: RentalCompImportOptions
+): Promise<RentalCompImportReport> {
+  if (!SOURCE_PATTERN.test(options.source)) {
+    throw new RentalCompFeedError('source must be a lowercase identifier such as "mls" or "zillow_rentals"')
+  }
+
+  let records: Record<string, string>[]
+  try {
+    records = parseCsvRecords(text)
+  } catch (error) {
+    throw new RentalCompFeedError(`Invalid rental comps CSV: ${error instanceof Error ? error.message : String(error)}`)
+  }
+  if (records.length === 0) throw new RentalCompFeedError('Rental comps export has no rows')
+
+  const now = new Date()
+  const report: RentalCompImportReport = {
+    source: options.source,
+    dryRun: options.dryRun ?? false,
+    total: records.length,
+    imported: 0,
+    rejected: []
+  }
+
+  // One upsert can't touch the same comp twice, so repeats within the export are rejected
+  const comps: { row: number; comp: RentalCompInsert }[] = []
+  const rowByCompId = new Map<string, number>()
+  records.forEach((record, index) => {
+    const result = mapRentalCompRecord(record, options.source, index + 1, now)
+    if (result.status === 'rejected') {
+      report.rejected.push({ row: result.row, errors: result.errors })
+      return
+    }
+
+    const duplicateOf = rowByCompId.get(result.comp.source_comp_id)
+    if (duplicateOf !== undefined) {
+      report.rejected.push({ row: result.row, errors: [`Duplicate of row ${duplicateOf}`] })
+      return
+    }
+    rowByCompId.set(result.comp.source_comp_id, result.row)
+    comps.push({ row: result.row, comp: result.comp })
+  })
+
+  for (let i = 0; i < comps.length; i += QUERY_BATCH_SIZE) {
+    const batch = comps.slice(i, i + QUERY_BATCH_SIZE)
+    if (options.dryRun) {
+      report.imported += batch.length
+      continue
+    }
+
+    const { error } = await client
+      .from('rental_comps')
+      .upsert(batch.map(entry => entry.comp), { onConflict: 'source,source_comp_id' })
+    if (error) {
+      for (const entry of batch) report.rejected.push({ row: entry.row, errors: [error.message] })
+      continue
+    }
+    report.imported += batch.length
+  }
+
+  report.rejected.sort((a, b) => a.row - b.row)
+  return report
+}
+
+function toColumnKey(column: string): string {
+  return column.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_')
+}
@@ -0,0 +1,245 @@
+/**
+ * Deal Score Rescoring
+ *
+ * The TypeScript scorer is the only implementation of deal scoring. This job
+ * recomputes stored scores with it and writes the algorithm version and full
+ * breakdown alongside, so stored and on-screen scores always agree.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './supabase'
+import { calculateDealScore, DEAL_SCORE_ALGORITHM_VERSION, type PropertyMetrics } from './deal-score'
+import { determineRentRegime } from './rent-control-jurisdictions'
+import { toAb1482ExemptionFacts, toNeighborhoodData, toPropertyMetrics } from './scoring-inputs'
+import { rentalCompCutoffDate } from './rent-estimate'
+
+type PropertyRow = Database['public']['Tables']['properties']['Row']
+type NeighborhoodRow = Database['public']['Tables']['neighborhood_stats']['Row']
+type PropertyUnitRow = Database['public']['Tables']['property_units']['Row']
+type RentalCompRow = Database['public']['Tables']['rental_comps']['Row']
+
+export interface RescoreOptions {
+  propertyIds?: string[]
+  neighborhoodIds?: string[]
+  staleOnly?: boolean // Only rows flagged stale or scored by an older algorithm version
+  batchSize?: number
+}
+
+export interface RescoreReport {
+  algorithmVersion: string
+  processed: number
+  updated: number
+  skipped: { propertyId: string; reason: string }[]
+  failed: { propertyId: string; error: string }[]
+}
+
+export type StoredScoreUpdate = Pick<
+  PropertyRow,
+  | 'deal_score'
+  | 'deal_score_version'
+  | 'deal_score_breakdown'
+  | 'deal_scored_at'
+  | 'deal_score_stale'
+  | 'is_rent_stabilized'
+  | 'rent_cap_percentage'
+  | 'rent_regime'
+  | 'rent_control_jurisdiction'
+>
+
+const DEFAULT_BATCH_SIZE = 200
+
+/**
+ * Compute the stored scoring columns for a property row
+ */
+export function buildStoredScore(
+  property: PropertyRow,
+  neighborhood: NeighborhoodRow,
+  nearbyProperties: PropertyMetrics[] = [],
+  units: PropertyUnitRow[] = [],
+  rentalComps: RentalCompRow[] = []
+): StoredScoreUpdate {
+  const dealScore = calculateDealScore(
+    toPropertyMetrics(property, units),
+    toNeighborhoodData(neighborhood, rentalComps),
+    nearbyProperties
+  )
+  const rentRegime = determineRentRegime({
+    ...toAb1482ExemptionFacts(property),
+    city: property.city,
+    zipCode: property.zip_code,
+    yearBuilt: property.year_built,
+    propertyType: property.property_type,
+    unitCount: units.length || undefined
+  })
+
+  return {
+    deal_score: Math.round(dealScore.totalScore * 100) / 100,
+    deal_score_version: DEAL_SCORE_ALGORITHM_VERSION,
+    deal_score_breakdown: dealScore,
+    deal_scored_at: new Date().toISOString(),
+    deal_score_stale: false,
+    is_rent_stabilized: rentRegime.regime !== 'none',
+    rent_cap_percentage: rentRegime.maxIncreasePercentage,
+    rent_regime: rentRegime.regime,
+    rent_control_jurisdiction: rentRegime.regime === 'local' ? rentRegime.jurisdiction!.id : null
+  }
+}
+
+/**
+ * Recompute and store deal scores in batches
+ */
+export async function rescoreProperties(
+  client: SupabaseClient,
+  options: RescoreOptions = {}
+): Promise<RescoreReport> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+  const report: RescoreReport = {
+    algorithmVersion: DEAL_SCORE_ALGORITHM_VERSION,
+    processed: 0,
+    updated: 0,
+    skipped: [],
+    failed: []
+  }
+
+  const neighborhoodCache = new Map<string, NeighborhoodRow | null>()
+  const compsCache = new Map<string, PropertyMetrics[]>()
+  const rentalCompsCache = new Map<string, RentalCompRow[]>()
+  let lastId: string | null = null
+
+  // Keyset pagination: rescored rows drop out of the stale set, so offsets would skip rows
+  while (true) {
+    let query = client.from('properties').select('*').order('id').limit(batchSize)
+    if (lastId) query = query.gt('id', lastId)
+    if (options.propertyIds?.length) query = query.in('id', options.propertyIds)
+    if (options.neighborhoodIds?.length) query = query.in('neighborhood_id', options.neighborhoodIds)
+    if (options.staleOnly) {
+      query = query.or(
+        `deal_score_stale.eq.true,deal_score_version.is.null,deal_score_version.neq."${DEAL_SCORE_ALGORITHM_VERSION}"`
+      )
+    }
+
+    const { data, error } = await query
+    if (error) throw error
+
+    const rows = (data || []) as PropertyRow[]
+    if (rows.length === 0) break
+
+    await loadNeighborhoods(client, rows, neighborhoodCache, compsCache, rentalCompsCache)
+    const unitsByProperty = await loadUnits(client, rows)
+
+    for (const row of rows) {
+      report.processed++
+
+      const neighborhood = row.neighborhood_id ? neighborhoodCache.get(row.neighborhood_id) : null
+      if (!neighborhood) {
+        report.skipped.push({
+          propertyId: row.id,
+          reason: row.neighborhood_assignment === 'outside'
+            ? 'Outside every neighborhood boundary'
+            : 'No neighborhood statistics to score against'
+        })
+        continue
+      }
+
+      try {
+        const update = buildStoredScore(
+          row,
+          neighborhood,
+          compsCache.get(neighborhood.id),
+          unitsByProperty.get(row.id),
+          rentalCompsCache.get(neighborhood.id)
+        )
+        const { error: updateError } = await client.from('properties').update(update).eq('id', row.id)
+        if (updateError) throw updateError
+        report.updated++
+      } catch (updateError) {
+        report.failed.push({
+          propertyId: row.id,
+          error: updateError instanceof Error ? updateError.message : String(updateError)
+        })
+      }
+    }
+
+    lastId = rows[rows.length - 1].id
+    if (rows.length < batchSize) break
+  }
+
+  return report
+}
+
+/**
+ * Load the rent rolls of a batch's multi-family properties, keyed by property id
+ */
+export async function loadUnits(client: SupabaseClient, rows: PropertyRow[]): Promise<Map<string, PropertyUnitRow[]>> {
+  const unitsByProperty = new Map<string, PropertyUnitRow[]>()
+  const ids = rows.filter(row => row.property_type === 'multi_family').map(row => row.id)
+  if (ids.length === 0) return unitsByProperty
+
+  const { data, error } = await client
+    .from('property_units')
+    .select('*')
+    .in('property_id', ids)
+    .order('unit_number')
+  if (error) throw error
+
+  for (const unit of (data || []) as PropertyUnitRow[]) {
+    const units = unitsByProperty.get(unit.property_id) ?? []
+    units.push(unit)
+    unitsByProperty.set(unit.property_id, units)
+  }
+  return unitsByProperty
+}
+
+/**
+ * Load neighborhood stats, comp candidates and rental comps for any neighborhoods not yet cached
+ */
+export async function loadNeighborhoods(
+  client: SupabaseClient,
+  rows: PropertyRow[],
+  neighborhoodCache: Map<string, NeighborhoodRow | null>,
+  compsCache: Map<string, PropertyMetrics[]>,
+  rentalCompsCache: Map<string, RentalCompRow[]>
+): Promise<void> {
+  const missingIds = Array.from(new Set(
+    rows
+      .map(row => row.neighborhood_id)
+      .filter((id): id is string => !!id && !neighborhoodCache.has(id))
+  ))
+  if (missingIds.length === 0) return
+
+  const { data: neighborhoods, error } = await client
+    .from('neighborhood_stats')
+    .select('*')
+    .in('id', missingIds)
+  if (error) throw error
+
+  for (const id of missingIds) neighborhoodCache.set(id, null)
+  for (const neighborhood of (neighborhoods || []) as NeighborhoodRow[]) {
+    neighborhoodCache.set(neighborhood.id, neighborhood)
+  }
+
+  // Comparable sales are drawn from the same neighborhood
+  const { data: candidates, error: candidatesError } = await client
+    .from('properties')
+    .select('*')
+    .in('neighborhood_id', missingIds)
+  if (candidatesError) throw candidatesError
+
+  for (const id of missingIds) compsCache.set(id, [])
+  for (const candidate of (candidates || []) as PropertyRow[]) {
+    compsCache.get(candidate.neighborhood_id!)?.push(toPropertyMetrics(candidate))
+  }
+
+  // Rental comps calibrate each neighborhood's market rent model
+  const { data: rentalComps, error: rentalCompsError } = await client
+    .from('rental_comps')
+    .select('*')
+    .in('neighborhood_id', missingIds)
+    .gte('leased_on', rentalCompCutoffDate())
+  if (rentalCompsError) throw rentalCompsError
+
+  for (const id of missingIds) rentalCompsCache.set(id, [])
+  for (const comp of (rentalComps || []) as RentalCompRow[]) {
+    rentalCompsCache.get(comp.neighborhood_id!)?.push(comp)
+  }
+}
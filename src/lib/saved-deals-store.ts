@@ -0,0 +1,126 @@
+import { supabase, type Database } from './supabase'
+import { assertDealTransition, type DealStatus } from './deal-pipeline'
+
+type SavedDealRow = Database['public']['Tables']['saved_deals']['Row']
+type PropertyRow = Database['public']['Tables']['properties']['Row']
+
+export type SavedDealEvent = Database['public']['Tables']['saved_deal_events']['Row']
+export type SavedDeal = SavedDealRow & { property: PropertyRow | null }
+
+/**
+ * Current signed-in user id, or throw with a message suitable for the UI
+ */
+async function requireUserId(): Promise<string> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Sign in to save deals')
+  return user.id
+}
+
+/**
+ * Fetch the signed-in user's saved deals with their properties
+ */
+export async function fetchSavedDeals(): Promise<SavedDeal[]> {
+  const { data, error } = await supabase
+    .from('saved_deals')
+    .select('*, property:properties(*)')
+    .order('updated_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as SavedDeal[]
+}
+
+/**
+ * Map of property id to saved deal id for the signed-in user
+ */
+export async function fetchSavedPropertyIds(): Promise<Map<string, string>> {
+  const { data, error } = await supabase
+    .from('saved_deals')
+    .select('id, property_id')
+
+  if (error) throw error
+  return new Map((data || []).map(row => [row.property_id as string, row.id as string]))
+}
+
+/**
+ * Save a property to the signed-in user's pipeline
+ * The schema trigger records the "saved" event in the same transaction
+ */
+export async function saveDeal(propertyId: string, notes?: string): Promise<SavedDealRow> {
+  const userId = await requireUserId()
+
+  const { data, error } = await supabase
+    .from('saved_deals')
+    .insert({ user_id: userId, property_id: propertyId, notes: notes ?? null, status: 'saved' })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data as SavedDealRow
+}
+
+/**
+ * Remove a saved deal (and its activity history)
+ */
+export async function removeSavedDeal(dealId: string): Promise<void> {
+  const { error } = await supabase
+    .from('saved_deals')
+    .delete()
+    .eq('id', dealId)
+
+  if (error) throw error
+}
+
+/**
+ * Move a deal to a new status, recording the change in its activity history
+ * The update and its history row are one transaction (update_saved_deal_status)
+ * Throws DealTransitionError if the move is not an allowed transition
+ */
+export async function updateDealStatus(
+  deal: Pick<SavedDealRow, 'id' | 'status'>,
+  status: DealStatus,
+  note?: string
+): Promise<SavedDealRow> {
+  assertDealTransition(deal.status, status)
+  await requireUserId()
+
+  // Only update if nobody moved the deal in the meantime
+  const { data, error } = await supabase
+    .rpc('update_saved_deal_status', {
+      deal_id: deal.id,
+      expected_status: deal.status,
+      new_status: status,
+      note: note?.trim() || null
+    })
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) throw new Error('This deal was updated elsewhere - refresh and try again')
+
+  return data as SavedDealRow
+}
+
+/**
+ * Replace a deal's free-form notes
+ */
+export async function updateDealNotes(dealId: string, notes: string): Promise<void> {
+  const { error } = await supabase
+    .from('saved_deals')
+    .update({ notes: notes.trim() || null })
+    .eq('id', dealId)
+
+  if (error) throw error
+}
+
+/**
+ * Activity history for a deal, oldest first
+ */
+export async function fetchDealEvents(dealId: string): Promise<SavedDealEvent[]> {
+  const { data, error } = await supabase
+    .from('saved_deal_events')
+    .select('*')
+    .eq('saved_deal_id', dealId)
+    .order('created_at')
+
+  if (error) throw error
+  return (data || []) as SavedDealEvent[]
+}
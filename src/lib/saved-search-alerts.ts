@@ -0,0 +1,294 @@
+/**
+ * Saved Search Alerts
+ *
+ * Scheduled job that re-runs each saved search against properties inserted or
+ * updated since its last run and records alerts for:
+ * - new matches
+ * - price reductions on a known match
+ * - a match's deal score rising to the search's threshold
+ * The first run of a search only records a baseline, so saving a broad search
+ * doesn't flood the user with every existing listing. Undelivered alerts are
+ * then grouped into one digest email per user.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from './supabase'
+import type { EmailSender } from './email'
+import { searchProperties, MAX_SEARCH_LIMIT, type PropertySearchParams, type PropertySearchRow } from './property-search'
+import { formatPrice } from './format'
+
+type SavedSearchRow = Database['public']['Tables']['saved_searches']['Row']
+type SavedSearchMatchRow = Database['public']['Tables']['saved_search_matches']['Row']
+type PropertyAlertRow = Database['public']['Tables']['property_alerts']['Row']
+
+export type PropertyAlertType = PropertyAlertRow['alert_type']
+export type PropertyAlertDraft = Database['public']['Tables']['property_alerts']['Insert']
+
+export interface AlertJobReport {
+  searchesEvaluated: number
+  propertiesChecked: number
+  alertsCreated: number
+  failed: { savedSearchId: string; error: string }[]
+}
+
+export interface DigestReport {
+  delivered: boolean // False for an outbox sender; its alerts stay queued for a real digest
+  digestsSent: number
+  alertsDigested: number
+  failed: { userId: string; error: string }[]
+}
+
+export interface AlertDigest {
+  userId: string
+  to: string
+  subject: string
+  text: string
+  html: string
+  alertIds: string[]
+}
+
+const DEFAULT_SCORE_THRESHOLD = 80
+const VIEW_PARAMS: (keyof PropertySearchParams)[] = ['bounds', 'cursor', 'limit', 'sortBy', 'sortAscending', 'updatedSince']
+
+/**
+ * Strip per-view state (viewport, paging, sort) from discovery params before saving
+ */
+export function toSavedSearchFilters(params: PropertySearchParams): PropertySearchParams {
+  const filters = { ...params }
+  for (const key of VIEW_PARAMS) delete filters[key]
+  return filters
+}
+
+/**
+ * Alerts for one property given what the search last saw of it (null = new match)
+ */
+export function diffSearchMatch(
+  search: Pick<SavedSearchRow, 'id' | 'user_id' | 'name' | 'score_threshold'>,
+  previous: Pick<SavedSearchMatchRow, 'price' | 'deal_score'> | null,
+  property: Pick<PropertySearchRow, 'id' | 'address' | 'city' | 'price' | 'deal_score'>
+): PropertyAlertDraft[] {
+  const base = { user_id: search.user_id, saved_search_id: search.id, property_id: property.id }
+  const label = `${property.address}, ${property.city}`
+
+  if (!previous) {
+    return [{
+      ...base,
+      alert_type: 'new_match',
+      message: `New match for "${search.name}": ${label} at ${formatPrice(property.price)}`,
+      previous_value: null,
+      current_value: property.price
+    }]
+  }
+
+  const alerts: PropertyAlertDraft[] = []
+  const previousPrice = Number(previous.price)
+  if (property.price < previousPrice) {
+    const dropPercentage = ((previousPrice - property.price) / previousPrice) * 100
+    alerts.push({
+      ...base,
+      alert_type: 'price_drop',
+      message: `Price reduced ${dropPercentage.toFixed(1)}% on ${label}: ${formatPrice(previousPrice)} → ${formatPrice(property.price)}`,
+      previous_value: previousPrice,
+      current_value: property.price
+    })
+  }
+
+  const threshold = search.score_threshold ?? DEFAULT_SCORE_THRESHOLD
+  const previousScore = previous.deal_score === null ? null : Number(previous.deal_score)
+  if (property.deal_score !== null && property.deal_score >= threshold && (previousScore === null || previousScore < threshold)) {
+    alerts.push({
+      ...base,
+      alert_type: 'score_threshold',
+      message: `${label} now scores ${property.deal_score.toFixed(1)} (threshold ${threshold})`,
+      previous_value: previousScore,
+      current_value: property.deal_score
+    })
+  }
+
+  return alerts
+}
+
+/**
+ * Evaluate every alert-enabled saved search against recently changed properties
+ */
+export async function evaluateSavedSearches(client: SupabaseClient, now: Date = new Date()): Promise<AlertJobReport> {
+  const report: AlertJobReport = { searchesEvaluated: 0, propertiesChecked: 0, alertsCreated: 0, failed: [] }
+
+  const { data, error } = await client
+    .from('saved_searches')
+    .select('*')
+    .eq('alerts_enabled', true)
+  if (error) throw error
+
+  for (const search of (data || []) as SavedSearchRow[]) {
+    try {
+      const { checked, created } = await evaluateSavedSearch(client, search, now)
+      report.searchesEvaluated++
+      report.propertiesChecked += checked
+      report.alertsCreated += created
+    } catch (searchError) {
+      report.failed.push({
+        savedSearchId: search.id,
+        error: searchError instanceof Error ? searchError.message : String(searchError)
+      })
+    }
+  }
+
+  return report
+}
+
+async function evaluateSavedSearch(
+  client: SupabaseClient,
+  search: SavedSearchRow,
+  now: Date
+): Promise<{ checked: number; created: number }> {
+  const isBaseline = search.last_evaluated_at === null
+  let checked = 0
+  let created = 0
+  let cursor: string | undefined
+
+  do {
+    const page = await searchProperties(client, {
+      ...toSavedSearchFilters(search.filters),
+      updatedSince: search.last_evaluated_at ?? undefined,
+      limit: MAX_SEARCH_LIMIT,
+      cursor
+    })
+    cursor = page.nextCursor ?? undefined
+    if (page.properties.length === 0) break
+
+    const { data: previousRows, error: previousError } = await client
+      .from('saved_search_matches')
+      .select('*')
+      .eq('saved_search_id', search.id)
+      .in('property_id', page.properties.map(property => property.id))
+    if (previousError) throw previousError
+
+    const previousByProperty = new Map(
+      ((previousRows || []) as SavedSearchMatchRow[]).map(row => [row.property_id, row])
+    )
+
+    const alerts = isBaseline
+      ? []
+      : page.properties.flatMap(property =>
+          diffSearchMatch(search, previousByProperty.get(property.id) ?? null, property)
+        )
+
+    if (alerts.length > 0) {
+      const { error: alertError } = await client.from('property_alerts').insert(alerts)
+      if (alertError) throw alertError
+    }
+
+    const { error: matchError } = await client.from('saved_search_matches').upsert(
+      page.properties.map(property => ({
+        saved_search_id: search.id,
+        property_id: property.id,
+        price: property.price,
+        deal_score: property.deal_score,
+        last_seen_at: now.toISOString()
+      })),
+      { onConflict: 'saved_search_id,property_id' }
+    )
+    if (matchError) throw matchError
+
+    checked += page.properties.length
+    created += alerts.length
+  } while (cursor)
+
+  const { error: updateError } = await client
+    .from('saved_searches')
+    .update({ last_evaluated_at: now.toISOString() })
+    .eq('id', search.id)
+  if (updateError) throw updateError
+
+  return { checked, created }
+}
+
+/**
+ * Build one digest per user from alerts not yet emailed
+ */
+export async function buildAlertDigests(client: SupabaseClient): Promise<AlertDigest[]> {
+  const { data, error } = await client
+    .from('property_alerts')
+    .select('*, saved_search:saved_searches(name)')
+    .is('digested_at', null)
+    .order('created_at')
+  if (error) throw error
+
+  const alertsByUser = new Map<string, (PropertyAlertRow & { saved_search: { name: string } | null })[]>()
+  for (const alert of data || []) {
+    const alerts = alertsByUser.get(alert.user_id) ?? []
+    alerts.push(alert)
+    alertsByUser.set(alert.user_id, alerts)
+  }
+
+  const digests: AlertDigest[] = []
+  for (const [userId, alerts] of alertsByUser) {
+    const { data: userData, error: userError } = await client.auth.admin.getUserById(userId)
+    if (userError) throw userError
+    const email = userData.user?.email
+    if (!email) continue
+
+    const bySearch = new Map<string, string[]>()
+    for (const alert of alerts) {
+      const name = alert.saved_search?.name ?? 'Saved search'
+      bySearch.set(name, [...(bySearch.get(name) ?? []), alert.message])
+    }
+
+    const sections = Array.from(bySearch.entries())
+    digests.push({
+      userId,
+      to: email,
+      subject: `${alerts.length} new alert${alerts.length === 1 ? '' : 's'} from your saved searches`,
+      text: sections.map(([name, messages]) => `${name}\n${messages.map(message => `- ${message}`).join('\n')}`).join('\n\n'),
+      html: sections
+        .map(([name, messages]) => `<h3>${escapeHtml(name)}</h3><ul>${messages.map(message => `<li>${escapeHtml(message)}</li>`).join('')}</ul>`)
+        .join(''),
+      alertIds: alerts.map(alert => alert.id)
+    })
+  }
+
+  return digests
+}
+
+/**
+ * Email each user's digest and mark its alerts as digested
+ * Alerts sent only to an outbox aren't marked, so they go out once a real sender is configured
+ */
+export async function sendAlertDigests(client: SupabaseClient, sender: EmailSender): Promise<DigestReport> {
+  const report: DigestReport = { delivered: sender.delivers, digestsSent: 0, alertsDigested: 0, failed: [] }
+
+  for (const digest of await buildAlertDigests(client)) {
+    try {
+      await sender.send({ to: digest.to, subject: digest.subject, text: digest.text, html: digest.html })
+      if (!sender.delivers) {
+        report.digestsSent++
+        continue
+      }
+
+      const { error } = await client
+        .from('property_alerts')
+        .update({ digested_at: new Date().toISOString() })
+        .in('id', digest.alertIds)
+      if (error) throw error
+
+      report.digestsSent++
+      report.alertsDigested += digest.alertIds.length
+    } catch (digestError) {
+      report.failed.push({
+        userId: digest.userId,
+        error: digestError instanceof Error ? digestError.message : String(digestError)
+      })
+    }
+  }
+
+  return report
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,102 @@
+import { supabase, type Database } from './supabase'
+import type { PropertySearchParams } from './property-search'
+import { toSavedSearchFilters } from './saved-search-alerts'
+
+export type SavedSearch = Database['public']['Tables']['saved_searches']['Row']
+export type PropertyAlert = Database['public']['Tables']['property_alerts']['Row']
+
+/**
+ * Fetch the signed-in user's saved searches
+ */
+export async function fetchSavedSearches(): Promise<SavedSearch[]> {
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select('*')
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as SavedSearch[]
+}
+
+/**
+ * Save the current filters by name, replacing any search with the same name
+ */
+export async function saveSearch(
+  name: string,
+  filters: PropertySearchParams,
+  scoreThreshold?: number
+): Promise<SavedSearch> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Sign in to save searches')
+
+  const trimmedName = name.trim()
+  if (!trimmedName) throw new Error('Search name is required')
+
+  // Replacing a search's filters restarts its baseline so old matches aren't reported as new
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .upsert({
+      user_id: user.id,
+      name: trimmedName,
+      filters: toSavedSearchFilters(filters),
+      ...(scoreThreshold !== undefined && { score_threshold: scoreThreshold }),
+      last_evaluated_at: null
+    }, { onConflict: 'user_id,name' })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data as SavedSearch
+}
+
+/**
+ * Turn alerts for a saved search on or off
+ */
+export async function setSavedSearchAlerts(id: string, alertsEnabled: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('saved_searches')
+    .update({ alerts_enabled: alertsEnabled })
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+/**
+ * Delete one of the signed-in user's saved searches
+ */
+export async function deleteSavedSearch(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('saved_searches')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+/**
+ * Fetch the signed-in user's most recent alerts
+ */
+export async function fetchAlerts(limit = 100): Promise<PropertyAlert[]> {
+  const { data, error } = await supabase
+    .from('property_alerts')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []) as PropertyAlert[]
+}
+
+/**
+ * Mark alerts as read
+ */
+export async function markAlertsRead(ids: string[]): Promise<void> {
+  if (ids.length === 0) return
+
+  const { error } = await supabase
+    .from('property_alerts')
+    .update({ read_at: new Date().toISOString() })
+    .in('id', ids)
+
+  if (error) throw error
+}
@@ -0,0 +1,40 @@
+/**
+ * Deal Score Bands
+ *
+ * One set of score thresholds and colors shared by badges, map pins and
+ * clusters so a score reads the same everywhere.
+ */
+
+export type DealScoreBand = 'high' | 'medium' | 'low' | 'unscored'
+
+export const DEAL_SCORE_BAND_CLASSES: Record<DealScoreBand, string> = {
+  high: 'bg-green-500',
+  medium: 'bg-yellow-500',
+  low: 'bg-red-500',
+  unscored: 'bg-gray-500'
+}
+
+// Hex equivalents of the Tailwind 500 shades, for map pins drawn outside Tailwind
+export const DEAL_SCORE_BAND_HEX: Record<DealScoreBand, string> = {
+  high: '#22c55e',
+  medium: '#eab308',
+  low: '#ef4444',
+  unscored: '#6b7280'
+}
+
+/**
+ * Band a deal score falls into
+ */
+export function getDealScoreBand(score: number | null | undefined): DealScoreBand {
+  if (!score) return 'unscored'
+  if (score >= 80) return 'high'
+  if (score >= 60) return 'medium'
+  return 'low'
+}
+
+/**
+ * Tailwind background class for a deal score
+ */
+export function getDealScoreColor(score: number | null | undefined): string {
+  return DEAL_SCORE_BAND_CLASSES[getDealScoreBand(score)]
+}
@@ -0,0 +1,258 @@
+/**
+ * Deal Score Sensitivity
+ *
+ * What-if analysis on the deal score: every scenario rescores the property with
+ * the live engine, so comps, the unit mix and the profile's weights all apply.
+ * Reports the score at list price -10%/-5%/+5%/+10%, the highest offer that
+ * reaches each deal category, where the price sits between the price ratio
+ * buckets, and which neighborhood inputs move the score most. The score is a
+ * step function of price, so offers are found by scanning down from list price
+ * in small steps and then bisecting within the step that crosses the threshold.
+ */
+
+import {
+  calculateDealScore,
+  DEAL_SCORE_CATEGORIES,
+  getDealScoreCategory,
+  type NeighborhoodData,
+  type PropertyMetrics
+} from './deal-score'
+import { DEFAULT_SCORING_PROFILE, type ScoringProfile } from './scoring-profiles'
+import { toNeighborhoodData, toPropertyMetrics } from './scoring-inputs'
+import type { PropertyDetails } from './property-details'
+
+export interface PriceScenario {
+  priceChangePercentage: number
+  price: number
+  totalScore: number
+  scoreChange: number // vs the score at list price
+  category: string
+}
+
+export interface CategoryOffer {
+  category: string
+  minScore: number
+  offerPrice: number | null // Highest price at or below list reaching the category; null when price alone can't
+  priceChangePercentage: number | null // Offer vs list price; 0 when the list price already reaches it
+}
+
+export interface PriceBucketPosition {
+  component: 'Price Advantage' | 'Comparable Sales'
+  marketValue: number // What the ratio is measured against: median $/sqft x sqft, or the comps estimate
+  priceRatio: number
+  fraction: number // Share of the component's weight earned at list price
+  nextBucket: {
+    maxRatio: number
+    fraction: number
+    price: number // Highest price in the next better bucket
+  } | null // Null when already in the best bucket
+}
+
+export type NeighborhoodDriverInput =
+  | 'medianPricePerSqft'
+  | 'medianPrice'
+  | 'avgSqft'
+  | 'avgYearBuilt'
+  | 'priceMomentum'
+  | 'priceAppreciationRate'
+  | 'rentalYield'
+  | 'walkScore'
+  | 'transitScore'
+  | 'crimeRate'
+  | 'schoolRating'
+
+export interface NeighborhoodDriver {
+  input: NeighborhoodDriverInput
+  label: string
+  value: number
+  change: number // Applied each way, in the input's own units
+  scoreIfLower: number // Score change with the input lowered by `change`
+  scoreIfHigher: number // Score change with the input raised by `change`
+  impact: number // Largest absolute score change either way
+}
+
+export interface ScoreSensitivity {
+  price: number
+  totalScore: number
+  category: string
+  profileId: string
+  priceScenarios: PriceScenario[]
+  categoryOffers: CategoryOffer[] // Best category first
+  nextCategoryOffer: CategoryOffer | null // Nearest better category reachable by price; null when none
+  priceBuckets: PriceBucketPosition[]
+  drivers: NeighborhoodDriver[] // Most influential first
+}
+
+export const PRICE_SCENARIO_PERCENTAGES = [-10, -5, 5, 10]
+
+// How far each input is moved each way: a share of its value when relative, otherwise in its own units
+export const NEIGHBORHOOD_DRIVER_INPUTS: Record<NeighborhoodDriverInput, { label: string; change: number; relative: boolean }> = {
+  medianPricePerSqft: { label: 'Median $/sqft', change: 0.1, relative: true },
+  medianPrice: { label: 'Median price', change: 0.1, relative: true },
+  avgSqft: { label: 'Average size', change: 0.1, relative: true },
+  avgYearBuilt: { label: 'Average year built', change: 10, relative: false },
+  priceMomentum: { label: 'Price momentum (% YoY)', change: 2, relative: false },
+  priceAppreciationRate: { label: 'Appreciation rate (%)', change: 2, relative: false },
+  rentalYield: { label: 'Rental yield (%)', change: 1, relative: false },
+  walkScore: { label: 'Walk score', change: 10, relative: false },
+  transitScore: { label: 'Transit score', change: 10, relative: false },
+  crimeRate: { label: 'Crime rate', change: 0.2, relative: true },
+  schoolRating: { label: 'School rating', change: 1, relative: false }
+}
+
+const MAX_DRIVERS = 5
+const MIN_OFFER_RATIO = 0.5 // Offers below half the list price aren't searched
+const OFFER_SCAN_STEP = 0.01 // Share of list price
+const OFFER_ROUNDING = 1000
+
+/**
+ * Score sensitivity to price and neighborhood inputs for one property under a scoring profile
+ */
+export function analyzeScoreSensitivity(
+  property: PropertyMetrics,
+  neighborhood: NeighborhoodData,
+  nearbyProperties?: PropertyMetrics[],
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ScoreSensitivity {
+  const base = calculateDealScore(property, neighborhood, nearbyProperties, profile)
+  const scoreAt = (price: number) => calculateDealScore({ ...property, price }, neighborhood, nearbyProperties, profile).totalScore
+
+  const priceScenarios = PRICE_SCENARIO_PERCENTAGES.map((priceChangePercentage): PriceScenario => {
+    const price = property.price * (1 + priceChangePercentage / 100)
+    const totalScore = scoreAt(price)
+    return {
+      priceChangePercentage,
+      price,
+      totalScore,
+      scoreChange: totalScore - base.totalScore,
+      category: getDealScoreCategory(totalScore).category
+    }
+  })
+
+  const categoryOffers = DEAL_SCORE_CATEGORIES.filter(category => category.minScore > 0).map((category): CategoryOffer => {
+    const offerPrice = base.totalScore >= category.minScore
+      ? property.price
+      : findOfferPrice(property.price, category.minScore, scoreAt)
+    return {
+      category: category.category,
+      minScore: category.minScore,
+      offerPrice,
+      priceChangePercentage: offerPrice === null ? null : (offerPrice / property.price - 1) * 100
+    }
+  })
+
+  // Offers are listed best first, so the nearest better category is the last one not yet reached
+  const nextCategoryOffer = categoryOffers
+    .filter(offer => offer.minScore > base.totalScore && offer.offerPrice !== null)
+    .at(-1) ?? null
+
+  const priceBuckets: PriceBucketPosition[] = []
+  if (profile.enabledComponents.priceAdvantage && property.sqft > 0 && neighborhood.medianPricePerSqft > 0) {
+    priceBuckets.push(locatePriceBucket('Price Advantage', property.price, neighborhood.medianPricePerSqft * property.sqft, profile))
+  }
+  if (base.marketValueEstimate) {
+    priceBuckets.push(locatePriceBucket('Comparable Sales', property.price, base.marketValueEstimate.estimatedValue, profile))
+  }
+
+  return {
+    price: property.price,
+    totalScore: base.totalScore,
+    category: getDealScoreCategory(base.totalScore).category,
+    profileId: profile.id,
+    priceScenarios,
+    categoryOffers,
+    nextCategoryOffer,
+    priceBuckets,
+    drivers: rankNeighborhoodDrivers(property, neighborhood, nearbyProperties, profile, base.totalScore)
+  }
+}
+
+/**
+ * Sensitivity for a loaded property page; null when the property has no neighborhood to score against
+ */
+export function analyzePropertySensitivity(
+  details: PropertyDetails,
+  profile: ScoringProfile = DEFAULT_SCORING_PROFILE
+): ScoreSensitivity | null {
+  if (!details.neighborhood) return null
+
+  return analyzeScoreSensitivity(
+    toPropertyMetrics(details.property, details.units),
+    toNeighborhoodData(details.neighborhood, details.rentalComps),
+    details.nearbyProperties,
+    profile
+  )
+}
+
+// Highest price reaching the score: scan down for the first step that does, then bisect within it
+function findOfferPrice(listPrice: number, minScore: number, scoreAt: (price: number) => number): number | null {
+  let high = listPrice
+  for (let ratio = 1 - OFFER_SCAN_STEP; ratio >= MIN_OFFER_RATIO - 1e-9; ratio -= OFFER_SCAN_STEP) {
+    const price = listPrice * ratio
+    if (scoreAt(price) < minScore) {
+      high = price
+      continue
+    }
+
+    let low = price
+    while (high - low > OFFER_ROUNDING / 2) {
+      const mid = (low + high) / 2
+      if (scoreAt(mid) >= minScore) low = mid
+      else high = mid
+    }
+    const rounded = Math.floor(low / OFFER_ROUNDING) * OFFER_ROUNDING
+    return scoreAt(rounded) >= minScore ? rounded : low
+  }
+  return null
+}
+
+function locatePriceBucket(
+  component: PriceBucketPosition['component'],
+  price: number,
+  marketValue: number,
+  profile: ScoringProfile
+): PriceBucketPosition {
+  const { priceRatioBuckets: buckets, priceRatioFloorFraction } = profile.thresholds
+  const priceRatio = price / marketValue
+  const index = buckets.findIndex(bucket => priceRatio <= bucket.maxRatio)
+
+  // Buckets run from the lowest ratio (best) up; above every bucket the next better one is the last
+  const nextIndex = index === -1 ? buckets.length - 1 : index - 1
+  const next = nextIndex >= 0 ? buckets[nextIndex] : null
+
+  return {
+    component,
+    marketValue,
+    priceRatio,
+    fraction: index === -1 ? priceRatioFloorFraction : buckets[index].fraction,
+    nextBucket: next ? { maxRatio: next.maxRatio, fraction: next.fraction, price: next.maxRatio * marketValue } : null
+  }
+}
+
+function rankNeighborhoodDrivers(
+  property: PropertyMetrics,
+  neighborhood: NeighborhoodData,
+  nearbyProperties: PropertyMetrics[] | undefined,
+  profile: ScoringProfile,
+  baseScore: number
+): NeighborhoodDriver[] {
+  const drivers: NeighborhoodDriver[] = []
+
+  for (const input of Object.keys(NEIGHBORHOOD_DRIVER_INPUTS) as NeighborhoodDriverInput[]) {
+    const { label, change: step, relative } = NEIGHBORHOOD_DRIVER_INPUTS[input]
+    const value = neighborhood[input]
+    if (value === undefined || value === null) continue
+
+    const change = relative ? Math.abs(value) * step : step
+    if (change === 0) continue
+    const scoreWith = (adjusted: number) =>
+      calculateDealScore(property, { ...neighborhood, [input]: adjusted }, nearbyProperties, profile).totalScore - baseScore
+
+    const scoreIfLower = scoreWith(value - change)
+    const scoreIfHigher = scoreWith(value + change)
+    const impact = Math.max(Math.abs(scoreIfLower), Math.abs(scoreIfHigher))
+    if (impact > 0) drivers.push({ input, label, value, change, scoreIfLower, scoreIfHigher, impact })
+  }
+
+  return drivers.sort((a, b) => b.impact - a.impact).slice(0, MAX_DRIVERS)
+}
@@ -0,0 +1,106 @@
+import type { Database } from './supabase'
+import type { NeighborhoodData, PropertyMetrics } from './deal-score'
+import type { Ab1482ExemptionFacts } from './rent-cap-helper'
+import type { PropertyUnit } from './property-units'
+import type { RentalComp } from './rent-estimate'
+
+type PropertyRow = Database['public']['Tables']['properties']['Row']
+type NeighborhoodRow = Database['public']['Tables']['neighborhood_stats']['Row']
+type PropertyUnitRow = Database['public']['Tables']['property_units']['Row']
+type RentalCompRow = Database['public']['Tables']['rental_comps']['Row']
+
+/**
+ * Map a properties row onto the scorer's property input
+ * Pass the building's property_units rows to score a multi-family property by its rent roll
+ */
+export function toPropertyMetrics(row: PropertyRow, units?: PropertyUnitRow[]): PropertyMetrics {
+  return {
+    id: row.id,
+    address: row.address,
+    city: row.city,
+    zipCode: row.zip_code,
+    price: Number(row.price),
+    sqft: Number(row.sqft),
+    beds: Number(row.beds),
+    baths: Number(row.baths),
+    yearBuilt: Number(row.year_built),
+    propertyType: row.property_type,
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    ab1482Facts: toAb1482ExemptionFacts(row),
+    units: units?.length ? units.map(toPropertyUnit) : undefined
+  }
+}
+
+/**
+ * Map a property_units row onto the unit mix input
+ */
+export function toPropertyUnit(row: PropertyUnitRow): PropertyUnit {
+  return {
+    unitNumber: row.unit_number,
+    beds: Number(row.beds),
+    baths: Number(row.baths),
+    sqft: row.sqft === null ? undefined : Number(row.sqft),
+    currentRent: row.current_rent === null ? undefined : Number(row.current_rent),
+    leaseStart: row.lease_start ?? undefined,
+    tenantSince: row.tenant_since ?? undefined,
+    occupancy: row.occupancy
+  }
+}
+
+/**
+ * Map a properties row's AB 1482 exemption columns, leaving unknowns undefined
+ */
+export function toAb1482ExemptionFacts(row: PropertyRow): Ab1482ExemptionFacts {
+  return {
+    ownershipEntity: row.owner_entity_type ?? undefined,
+    exemptionNoticeDelivered: row.ab1482_exemption_notice_delivered ?? undefined,
+    ownerOccupiesUnit: row.owner_occupies_unit ?? undefined,
+    certificateOfOccupancyDate: row.certificate_of_occupancy_date ?? undefined,
+    deedRestrictedAffordable: row.deed_restricted_affordable ?? undefined
+  }
+}
+
+/**
+ * Map a rental_comps row onto the market rent model input
+ */
+export function toRentalComp(row: RentalCompRow): RentalComp {
+  return {
+    id: row.id,
+    address: row.address,
+    unitNumber: row.unit_number ?? undefined,
+    latitude: Number(row.latitude),
+    longitude: Number(row.longitude),
+    propertyType: row.property_type,
+    beds: Number(row.beds),
+    baths: Number(row.baths),
+    sqft: Number(row.sqft),
+    yearBuilt: row.year_built === null ? undefined : Number(row.year_built),
+    monthlyRent: Number(row.monthly_rent),
+    leasedOn: row.leased_on
+  }
+}
+
+/**
+ * Map a neighborhood_stats row onto the scorer's neighborhood input
+ * Pass the neighborhood's rental_comps rows to estimate market rent from comps
+ */
+export function toNeighborhoodData(row: NeighborhoodRow, rentalComps?: RentalCompRow[]): NeighborhoodData {
+  return {
+    medianPricePerSqft: Number(row.median_price_per_sqft),
+    medianPrice: Number(row.median_price),
+    avgSqft: Number(row.avg_sqft),
+    avgBeds: Number(row.avg_beds),
+    avgBaths: Number(row.avg_baths),
+    avgYearBuilt: Number(row.avg_year_built),
+    priceAppreciationRate: row.price_appreciation_rate ?? undefined,
+    priceMomentum: row.price_momentum_yoy ?? undefined,
+    marketCondition: row.market_condition ?? undefined,
+    rentalYield: row.rental_yield ?? undefined,
+    walkScore: row.walk_score ?? undefined,
+    transitScore: row.transit_score ?? undefined,
+    crimeRate: row.crime_rate ?? undefined,
+    schoolRating: row.school_rating ?? undefined,
+    rentalComps: rentalComps?.length ? rentalComps.map(toRentalComp) : undefined
+  }
+}
@@ -0,0 +1,78 @@
+import { supabase, type Database } from './supabase'
+import { validateScoringProfile, type ScoringProfile } from './scoring-profiles'
+
+type ScoringProfileRow = Database['public']['Tables']['scoring_profiles']['Row']
+
+/**
+ * Fetch the signed-in user's saved scoring profiles (latest valid version of each name)
+ * Rows whose definition fails validation are skipped with a warning, falling back to an older version
+ */
+export async function fetchUserScoringProfiles(): Promise<ScoringProfile[]> {
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .select('*')
+    .order('name')
+    .order('version', { ascending: false })
+
+  if (error) throw error
+
+  const latestByName = new Map<string, ScoringProfile>()
+  for (const row of (data || []) as ScoringProfileRow[]) {
+    if (latestByName.has(row.name)) continue
+
+    const profile = fromRow(row)
+    const errors = validateScoringProfile(profile)
+    if (errors.length > 0) {
+      console.warn(`Skipping scoring profile "${row.name}" v${row.version}: ${errors.join('; ')}`)
+      continue
+    }
+    latestByName.set(row.name, profile)
+  }
+
+  return Array.from(latestByName.values())
+}
+
+/**
+ * Save a profile for the signed-in user as the next version of its name
+ */
+export async function saveScoringProfile(
+  profile: Omit<ScoringProfile, 'id' | 'version'>
+): Promise<ScoringProfile> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Sign in to save scoring profiles')
+
+  const { data: latest, error: latestError } = await supabase
+    .from('scoring_profiles')
+    .select('version')
+    .eq('name', profile.name)
+    .order('version', { ascending: false })
+    .limit(1)
+
+  if (latestError) throw latestError
+
+  const version = (latest?.[0]?.version ?? 0) + 1
+  const definition: ScoringProfile = { ...profile, id: profile.name, version }
+
+  const errors = validateScoringProfile(definition)
+  if (errors.length > 0) {
+    throw new Error(`Invalid scoring profile: ${errors.join('; ')}`)
+  }
+
+  const { data, error } = await supabase
+    .from('scoring_profiles')
+    .insert({ user_id: user.id, name: profile.name, version, definition })
+    .select()
+    .single()
+
+  if (error) throw error
+  return fromRow(data as ScoringProfileRow)
+}
+
+function fromRow(row: ScoringProfileRow): ScoringProfile {
+  return {
+    ...(row.definition ?? {}),
+    id: row.id,
+    name: row.name,
+    version: row.version
+  }
+}
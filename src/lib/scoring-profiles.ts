@@ -0,0 +1,258 @@
+/**
+ * Deal Scoring Profiles
+ *
+ * A profile is plain data: component weights, bucket thresholds and which
+ * components are enabled. Buy-and-hold landlords, flippers and owner-occupants
+ * weigh the same property differently, so calculateDealScore accepts a profile
+ * instead of hard-coding its weights.
+ */
+
+export type ScoringComponentKey =
+  | 'priceAdvantage'
+  | 'comparableSales'
+  | 'sizeAdvantage'
+  | 'ageAndRentStabilization'
+  | 'locationBonus'
+  | 'marketTiming'
+
+export interface PriceRatioBucket {
+  maxRatio: number // price / market ratio at or below which this bucket applies
+  fraction: number // share of the component's weight awarded (0-1)
+}
+
+export interface PointsBucket {
+  threshold: number
+  points: number
+}
+
+export interface ScoringThresholds {
+  priceRatioBuckets: PriceRatioBucket[]
+  priceRatioFloorFraction: number // awarded when the ratio exceeds every bucket
+  location: {
+    baseScore: number
+    walkScore: PointsBucket[] // minimum walk score
+    schoolRating: PointsBucket[] // minimum school rating
+    crimeRate: PointsBucket[] // maximum crime rate
+    transitScore: PointsBucket[] // minimum transit score
+  }
+}
+
+export interface ScoringProfile {
+  id: string
+  name: string
+  version: number
+  description: string
+  weights: Record<ScoringComponentKey, number>
+  enabledComponents: Record<ScoringComponentKey, boolean>
+  thresholds: ScoringThresholds
+}
+
+export const SCORING_COMPONENT_KEYS: ScoringComponentKey[] = [
+  'priceAdvantage',
+  'comparableSales',
+  'sizeAdvantage',
+  'ageAndRentStabilization',
+  'locationBonus',
+  'marketTiming'
+]
+
+const DEFAULT_THRESHOLDS: ScoringThresholds = {
+  priceRatioBuckets: [
+    { maxRatio: 0.8, fraction: 1 }, // 20%+ below market
+    { maxRatio: 0.9, fraction: 0.875 }, // 10-20% below market
+    { maxRatio: 0.95, fraction: 0.75 }, // 5-10% below market
+    { maxRatio: 1.0, fraction: 0.625 }, // At or slightly below market
+    { maxRatio: 1.05, fraction: 0.5 }, // 0-5% above market
+    { maxRatio: 1.1, fraction: 0.375 }, // 5-10% above market
+    { maxRatio: 1.2, fraction: 0.25 } // 10-20% above market
+  ],
+  priceRatioFloorFraction: 0.125, // 20%+ above market
+  location: {
+    baseScore: 5,
+    walkScore: [
+      { threshold: 90, points: 3 }, // Walker's Paradise
+      { threshold: 70, points: 2 }, // Very Walkable
+      { threshold: 50, points: 1 } // Somewhat Walkable
+    ],
+    schoolRating: [
+      { threshold: 8, points: 2 }, // Excellent schools
+      { threshold: 6, points: 1 } // Good schools
+    ],
+    crimeRate: [
+      { threshold: 20, points: 2 }, // Very safe
+      { threshold: 40, points: 1 } // Safe
+    ],
+    transitScore: [
+      { threshold: 70, points: 1 } // Good transit
+    ]
+  }
+}
+
+const ALL_COMPONENTS_ENABLED: Record<ScoringComponentKey, boolean> = {
+  priceAdvantage: true,
+  comparableSales: true,
+  sizeAdvantage: true,
+  ageAndRentStabilization: true,
+  locationBonus: true,
+  marketTiming: true
+}
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  id: 'balanced',
+  name: 'Balanced',
+  version: 1,
+  description: 'Original CalReal weighting across price, size, age, location and timing',
+  weights: {
+    priceAdvantage: 25, // Grows to 40 when no comparable sales are found
+    comparableSales: 15,
+    sizeAdvantage: 15,
+    ageAndRentStabilization: 25,
+    locationBonus: 10,
+    marketTiming: 10
+  },
+  enabledComponents: ALL_COMPONENTS_ENABLED,
+  thresholds: DEFAULT_THRESHOLDS
+}
+
+export const BUILT_IN_SCORING_PROFILES: ScoringProfile[] = [
+  DEFAULT_SCORING_PROFILE,
+  {
+    id: 'buy_and_hold',
+    name: 'Buy & Hold Landlord',
+    version: 1,
+    description: 'Favors rental yield, room to grow rents and long-term fundamentals',
+    weights: {
+      priceAdvantage: 20,
+      comparableSales: 10,
+      sizeAdvantage: 10,
+      ageAndRentStabilization: 30,
+      locationBonus: 10,
+      marketTiming: 20
+    },
+    enabledComponents: ALL_COMPONENTS_ENABLED,
+    thresholds: DEFAULT_THRESHOLDS
+  },
+  {
+    id: 'flipper',
+    name: 'Flipper',
+    version: 1,
+    description: 'Favors buying well below market and fast-appreciating areas',
+    weights: {
+      priceAdvantage: 35,
+      comparableSales: 25,
+      sizeAdvantage: 15,
+      ageAndRentStabilization: 0,
+      locationBonus: 10,
+      marketTiming: 15
+    },
+    enabledComponents: { ...ALL_COMPONENTS_ENABLED, ageAndRentStabilization: false },
+    thresholds: {
+      ...DEFAULT_THRESHOLDS,
+      // Flips need a real discount - at-market pricing earns little
+      priceRatioBuckets: [
+        { maxRatio: 0.75, fraction: 1 },
+        { maxRatio: 0.85, fraction: 0.8 },
+        { maxRatio: 0.9, fraction: 0.6 },
+        { maxRatio: 0.95, fraction: 0.4 },
+        { maxRatio: 1.0, fraction: 0.2 }
+      ],
+      priceRatioFloorFraction: 0
+    }
+  },
+  {
+    id: 'owner_occupant',
+    name: 'Owner-Occupant',
+    version: 1,
+    description: 'Favors space, layout, schools and walkability over investment returns',
+    weights: {
+      priceAdvantage: 20,
+      comparableSales: 10,
+      sizeAdvantage: 25,
+      ageAndRentStabilization: 5,
+      locationBonus: 35,
+      marketTiming: 5
+    },
+    enabledComponents: ALL_COMPONENTS_ENABLED,
+    thresholds: DEFAULT_THRESHOLDS
+  }
+]
+
+/**
+ * Look up a built-in profile by id
+ */
+export function getBuiltInScoringProfile(id: string): ScoringProfile | undefined {
+  return BUILT_IN_SCORING_PROFILES.find(profile => profile.id === id)
+}
+
+/**
+ * Sum of enabled component weights, used to normalize the total score to 0-100
+ */
+export function getEnabledWeightTotal(profile: ScoringProfile): number {
+  return SCORING_COMPONENT_KEYS
+    .filter(key => profile.enabledComponents[key])
+    .reduce((sum, key) => sum + profile.weights[key], 0)
+}
+
+/**
+ * Validate an untrusted profile definition (e.g. loaded from Supabase JSON)
+ */
+export function validateScoringProfile(profile: ScoringProfile): string[] {
+  const errors: string[] = []
+
+  if (!profile.name?.trim()) errors.push('Profile name is required')
+  if (!Number.isInteger(profile.version) || profile.version < 1) {
+    errors.push('Profile version must be a positive integer')
+  }
+
+  for (const key of SCORING_COMPONENT_KEYS) {
+    const weight = profile.weights?.[key]
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0) {
+      errors.push(`Weight for ${key} must be a non-negative number`)
+    }
+    if (typeof profile.enabledComponents?.[key] !== 'boolean') {
+      errors.push(`Enabled flag for ${key} is missing`)
+    }
+  }
+
+  if (errors.length === 0 && getEnabledWeightTotal(profile) <= 0) {
+    errors.push('At least one enabled component must have a positive weight')
+  }
+
+  const buckets = Array.isArray(profile.thresholds?.priceRatioBuckets) ? profile.thresholds.priceRatioBuckets : []
+  if (buckets.length === 0) errors.push('At least one price ratio bucket is required')
+  if (buckets.some(bucket => !isFiniteNumber(bucket?.maxRatio) || !isFiniteNumber(bucket?.fraction))) {
+    errors.push('Price ratio buckets need numeric maxRatio and fraction')
+  } else {
+    for (let i = 1; i < buckets.length; i++) {
+      if (buckets[i].maxRatio <= buckets[i - 1].maxRatio) {
+        errors.push('Price ratio buckets must be sorted by ascending maxRatio')
+        break
+      }
+    }
+    if (buckets.some(bucket => bucket.fraction < 0 || bucket.fraction > 1)) {
+      errors.push('Price ratio bucket fractions must be between 0 and 1')
+    }
+  }
+
+  const floorFraction = profile.thresholds?.priceRatioFloorFraction
+  if (!isFiniteNumber(floorFraction) || floorFraction < 0 || floorFraction > 1) {
+    errors.push('Price ratio floor fraction must be between 0 and 1')
+  }
+
+  const location = profile.thresholds?.location
+  if (!isFiniteNumber(location?.baseScore)) errors.push('Location base score must be a number')
+  for (const key of LOCATION_BUCKET_KEYS) {
+    const points = location?.[key]
+    if (!Array.isArray(points) || points.some(bucket => !isFiniteNumber(bucket?.threshold) || !isFiniteNumber(bucket?.points))) {
+      errors.push(`Location ${key} buckets need numeric threshold and points`)
+    }
+  }
+
+  return errors
+}
+
+const LOCATION_BUCKET_KEYS = ['walkScore', 'schoolRating', 'crimeRate', 'transitScore'] as const
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value)
+}
@@ -0,0 +1,54 @@
+import { supabase, type Database } from './supabase'
+import { validateSearchArea, type SearchArea } from './search-areas'
+
+export type SavedSearchArea = Database['public']['Tables']['saved_search_areas']['Row']
+
+/**
+ * Fetch the signed-in user's saved search areas
+ */
+export async function fetchSavedSearchAreas(): Promise<SavedSearchArea[]> {
+  const { data, error } = await supabase
+    .from('saved_search_areas')
+    .select('*')
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as SavedSearchArea[]
+}
+
+/**
+ * Save a search area for the signed-in user, replacing any area with the same name
+ */
+export async function saveSearchArea(name: string, area: SearchArea): Promise<SavedSearchArea> {
+  const { data: { user } } = await supabase.auth.getUser()
+  if (!user) throw new Error('Sign in to save search areas')
+
+  const trimmedName = name.trim()
+  if (!trimmedName) throw new Error('Search area name is required')
+
+  const errors = validateSearchArea(area)
+  if (errors.length > 0) {
+    throw new Error(`Invalid search area: ${errors.join('; ')}`)
+  }
+
+  const { data, error } = await supabase
+    .from('saved_search_areas')
+    .upsert({ user_id: user.id, name: trimmedName, area }, { onConflict: 'user_id,name' })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data as SavedSearchArea
+}
+
+/**
+ * Delete one of the signed-in user's saved search areas
+ */
+export async function deleteSearchArea(id: string): Promise<void> {
+  const { error } = await supabase
+    .from('saved_search_areas')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
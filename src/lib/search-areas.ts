@@ -0,0 +1,132 @@
+/**
+ * Search Areas
+ *
+ * A drawn polygon or circle that limits a property search. Areas round-trip
+ * through a compact URL encoding so a filtered map can be shared:
+ * - polygon: `poly:lat,lng;lat,lng;lat,lng`
+ * - circle:  `circle:lat,lng,radiusMeters`
+ */
+
+import { haversineDistanceMiles } from './comps'
+
+export type SearchArea =
+  | { type: 'polygon'; points: [number, number][] } // [latitude, longitude] vertices, not closed
+  | { type: 'circle'; center: [number, number]; radiusMeters: number }
+
+export const MAX_POLYGON_POINTS = 100
+export const MAX_CIRCLE_RADIUS_METERS = 100_000
+
+const METERS_PER_MILE = 1609.344
+const COORDINATE_PRECISION = 5 // ~1 m
+
+/**
+ * Validate a search area's shape and coordinates
+ */
+export function validateSearchArea(area: SearchArea): string[] {
+  const errors: string[] = []
+  const isCoordinate = ([latitude, longitude]: [number, number]) =>
+    Number.isFinite(latitude) && Number.isFinite(longitude) &&
+    Math.abs(latitude) <= 90 && Math.abs(longitude) <= 180
+
+  if (area.type === 'polygon') {
+    if (area.points.length < 3) errors.push('Polygon needs at least 3 points')
+    if (area.points.length > MAX_POLYGON_POINTS) errors.push(`Polygon can have at most ${MAX_POLYGON_POINTS} points`)
+    if (!area.points.every(isCoordinate)) errors.push('Polygon has an invalid coordinate')
+  } else if (area.type === 'circle') {
+    if (!isCoordinate(area.center)) errors.push('Circle center is not a valid coordinate')
+    if (!Number.isFinite(area.radiusMeters) || area.radiusMeters <= 0 || area.radiusMeters > MAX_CIRCLE_RADIUS_METERS) {
+      errors.push(`Circle radius must be between 0 and ${MAX_CIRCLE_RADIUS_METERS} meters`)
+    }
+  } else {
+    errors.push('Unknown search area type')
+  }
+
+  return errors
+}
+
+/**
+ * Encode a search area for a URL query parameter
+ */
+export function encodeSearchArea(area: SearchArea): string {
+  const round = (value: number) => Number(value.toFixed(COORDINATE_PRECISION))
+
+  if (area.type === 'circle') {
+    return `circle:${round(area.center[0])},${round(area.center[1])},${Math.round(area.radiusMeters)}`
+  }
+  return `poly:${area.points.map(([latitude, longitude]) => `${round(latitude)},${round(longitude)}`).join(';')}`
+}
+
+/**
+ * Decode a search area from its URL encoding; null if malformed or invalid
+ */
+export function decodeSearchArea(value: string): SearchArea | null {
+  const separator = value.indexOf(':')
+  if (separator < 0) return null
+
+  const kind = value.slice(0, separator)
+  const body = value.slice(separator + 1)
+  let area: SearchArea
+
+  if (kind === 'circle') {
+    const [latitude, longitude, radiusMeters] = body.split(',').map(Number)
+    area = { type: 'circle', center: [latitude, longitude], radiusMeters }
+  } else if (kind === 'poly') {
+    area = {
+      type: 'polygon',
+      points: body.split(';').map(point => {
+        const [latitude, longitude] = point.split(',').map(Number)
+        return [latitude, longitude]
+      })
+    }
+  } else {
+    return null
+  }
+
+  return validateSearchArea(area).length === 0 ? area : null
+}
+
+/**
+ * Smallest circle (around the bounding box center) that contains the area
+ * Used to prefilter with the earthdistance index before the exact shape test
+ */
+export function getSearchAreaBoundingCircle(area: SearchArea): { center: [number, number]; radiusMeters: number } {
+  if (area.type === 'circle') return { center: area.center, radiusMeters: area.radiusMeters }
+
+  const latitudes = area.points.map(([latitude]) => latitude)
+  const longitudes = area.points.map(([, longitude]) => longitude)
+  const center: [number, number] = [
+    (Math.min(...latitudes) + Math.max(...latitudes)) / 2,
+    (Math.min(...longitudes) + Math.max(...longitudes)) / 2
+  ]
+  const radiusMiles = Math.max(
+    ...area.points.map(([latitude, longitude]) => haversineDistanceMiles(center[0], center[1], latitude, longitude))
+  )
+
+  return { center, radiusMeters: radiusMiles * METERS_PER_MILE * 1.01 } // Margin for the spherical approximation
+}
+
+/**
+ * Postgres polygon literal with x = longitude, y = latitude
+ */
+export function toPostgresPolygon(points: [number, number][]): string {
+  return `(${points.map(([latitude, longitude]) => `(${longitude},${latitude})`).join(',')})`
+}
+
+/**
+ * [latitude, longitude] vertices from a Postgres polygon literal written by toPostgresPolygon
+ */
+export function parsePostgresPolygon(value: string): [number, number][] {
+  return Array.from(value.matchAll(/\(\s*([^(),\s]+)\s*,\s*([^(),\s]+)\s*\)/g), ([, longitude, latitude]) =>
+    [Number(latitude), Number(longitude)] as [number, number]
+  ).filter(([latitude, longitude]) => Number.isFinite(latitude) && Number.isFinite(longitude))
+}
+
+/**
+ * Short human-readable description of an area
+ */
+export function describeSearchArea(area: SearchArea): string {
+  if (area.type === 'circle') {
+    return `Within ${(area.radiusMeters / METERS_PER_MILE).toFixed(2)} mi`
+  }
+  return `Polygon (${area.points.length} points)`
+}
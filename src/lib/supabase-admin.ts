@@ -0,0 +1,23 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js'
+
+let adminClient: SupabaseClient | null = null
+
+/**
+ * Service-role Supabase client for server-side jobs and route handlers
+ * Bypasses RLS - never import from client components
+ */
+export function getSupabaseAdmin(): SupabaseClient {
+  if (adminClient) return adminClient
+
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('NEXT_PUBLIC_SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set for server-side jobs')
+  }
+
+  adminClient = createClient(supabaseUrl, serviceRoleKey, {
+    auth: { persistSession: false, autoRefreshToken: false }
+  })
+  return adminClient
+}
@@ -1,4 +1,16 @@
 import { createClient } from '@supabase/supabase-js'
+import type { DealScoreBreakdown } from './deal-score'
+import type { ScoringProfile } from './scoring-profiles'
+import type { RentRegime } from './rent-control-jurisdictions'
+import type { OwnershipEntity } from './rent-cap-helper'
+import type { SearchArea } from './search-areas'
+import type { PropertySearchParams } from './property-search'
+import type { ListingFeedFormat } from './listing-feeds'
+import type { ListingStatus, PropertyEventType } from './property-history'
+import type { ListingImportRowResult } from './listing-ingestion'
+import type { NeighborhoodAssignment } from './neighborhood-boundaries'
+import type { MarketCondition } from './market-trends'
+import type { UnitOccupancy } from './property-units'
 
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
@@ -25,15 +37,32 @@ export type Database = {
           property_type: 'single_family' | 'condo' | 'townhouse' | 'multi_family'
           listing_url: string | null
           listing_source: string | null
+          normalized_address: string | null
+          listing_status: ListingStatus
+          listed_at: string
+          off_market_at: string | null
+          last_price_reduction_at: string | null
           neighborhood_id: string | null
+          neighborhood_assignment: NeighborhoodAssignment | null
           deal_score: number | null
+          deal_score_version: string | null
+          deal_score_breakdown: DealScoreBreakdown | null
+          deal_scored_at: string | null
+          deal_score_stale: boolean
           price_per_sqft: number
           is_rent_stabilized: boolean
           rent_cap_percentage: number | null
+          rent_regime: RentRegime | null
+          rent_control_jurisdiction: string | null
+          owner_entity_type: Exclude<OwnershipEntity, 'unknown'> | null
+          ab1482_exemption_notice_delivered: boolean | null
+          owner_occupies_unit: boolean | null
+          certificate_of_occupancy_date: string | null
+          deed_restricted_affordable: boolean | null
           created_at: string
           updated_at: string
         }
-        Insert: Omit<Database['public']['Tables']['properties']['Row'], 'id' | 'created_at' | 'updated_at' | 'price_per_sqft' | 'deal_score' | 'is_rent_stabilized' | 'rent_cap_percentage'>
+        Insert: Omit<Database['public']['Tables']['properties']['Row'], 'id' | 'created_at' | 'updated_at' | 'price_per_sqft' | 'deal_score' | 'deal_score_version' | 'deal_score_breakdown' | 'deal_scored_at' | 'deal_score_stale' | 'is_rent_stabilized' | 'rent_cap_percentage' | 'rent_regime' | 'rent_control_jurisdiction' | 'listed_at' | 'off_market_at' | 'last_price_reduction_at' | 'neighborhood_assignment'> & { listed_at?: string; neighborhood_assignment?: NeighborhoodAssignment }
         Update: Partial<Database['public']['Tables']['properties']['Insert']>
       }
       neighborhood_stats: {
@@ -55,6 +84,12 @@ export type Database = {
           transit_score: number | null
           crime_rate: number | null
           school_rating: number | null
+          stats_sample_size: number | null
+          stats_computed_at: string | null
+          price_momentum_yoy: number | null
+          price_momentum_mom: number | null
+          months_of_inventory: number | null
+          market_condition: MarketCondition | null
           created_at: string
           updated_at: string
         }
@@ -74,6 +109,19 @@ export type Database = {
         Insert: Omit<Database['public']['Tables']['saved_deals']['Row'], 'id' | 'created_at' | 'updated_at'>
         Update: Partial<Database['public']['Tables']['saved_deals']['Insert']>
       }
+      saved_deal_events: {
+        Row: {
+          id: string
+          saved_deal_id: string
+          user_id: string
+          from_status: Database['public']['Tables']['saved_deals']['Row']['status'] | null
+          to_status: Database['public']['Tables']['saved_deals']['Row']['status']
+          note: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['saved_deal_events']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['saved_deal_events']['Insert']>
+      }
       property_images: {
         Row: {
           id: string
@@ -86,6 +134,111 @@ export type Database = {
         Insert: Omit<Database['public']['Tables']['property_images']['Row'], 'id' | 'created_at'>
         Update: Partial<Database['public']['Tables']['property_images']['Insert']>
       }
+      property_units: {
+        Row: {
+          id: string
+          property_id: string
+          unit_number: string
+          beds: number
+          baths: number
+          sqft: number | null
+          current_rent: number | null // Monthly
+          lease_start: string | null
+          tenant_since: string | null
+          occupancy: UnitOccupancy
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['property_units']['Row'], 'id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['property_units']['Insert']>
+      }
+      rental_comps: {
+        Row: {
+          id: string
+          source: string
+          source_comp_id: string
+          address: string
+          unit_number: string | null
+          city: string
+          zip_code: string
+          latitude: number
+          longitude: number
+          neighborhood_id: string | null // Assigned from the coordinates by the schema trigger
+          property_type: 'single_family' | 'condo' | 'townhouse' | 'multi_family'
+          beds: number
+          baths: number
+          sqft: number
+          year_built: number | null
+          monthly_rent: number
+          leased_on: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['rental_comps']['Row'], 'id' | 'neighborhood_id' | 'created_at' | 'updated_at'>
+        Update: Partial<Database['public']['Tables']['rental_comps']['Insert']>
+      }
+      property_events: {
+        Row: {
+          id: string
+          property_id: string
+          event_type: PropertyEventType
+          price: number
+          previous_price: number | null
+          listing_status: ListingStatus
+          previous_listing_status: ListingStatus | null
+          deal_score: number | null
+          previous_deal_score: number | null
+          days_on_market: number
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['property_events']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['property_events']['Insert']>
+      }
+      property_listing_sources: {
+        Row: {
+          id: string
+          property_id: string
+          source: string
+          source_listing_id: string
+          listing_url: string | null
+          price: number | null
+          first_seen_at: string
+          last_seen_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['property_listing_sources']['Row'], 'id' | 'first_seen_at'>
+        Update: Partial<Database['public']['Tables']['property_listing_sources']['Insert']>
+      }
+      listing_import_runs: {
+        Row: {
+          id: string
+          source: string
+          format: ListingFeedFormat
+          total_rows: number
+          inserted: number
+          updated: number
+          skipped: number
+          rejected: number
+          rows: ListingImportRowResult[]
+          started_at: string
+          finished_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['listing_import_runs']['Row'], 'id' | 'finished_at'>
+        Update: Partial<Database['public']['Tables']['listing_import_runs']['Insert']>
+      }
+      neighborhood_boundaries: {
+        Row: {
+          id: string
+          neighborhood_id: string
+          polygon_index: number
+          is_hole: boolean
+          ring: string // Postgres polygon literal, x = longitude, y = latitude
+          area: number
+          source: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['neighborhood_boundaries']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['neighborhood_boundaries']['Insert']>
+      }
       market_trends: {
         Row: {
           id: string
@@ -95,11 +248,78 @@ export type Database = {
           median_price_per_sqft: number | null
           days_on_market: number | null
           inventory_count: number | null
+          sales_count: number | null
           created_at: string
         }
         Insert: Omit<Database['public']['Tables']['market_trends']['Row'], 'id' | 'created_at'>
         Update: Partial<Database['public']['Tables']['market_trends']['Insert']>
       }
+      scoring_profiles: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          version: number
+          definition: ScoringProfile
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['scoring_profiles']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['scoring_profiles']['Insert']>
+      }
+      saved_searches: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          filters: PropertySearchParams
+          score_threshold: number | null
+          alerts_enabled: boolean
+          last_evaluated_at: string | null
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['saved_searches']['Row'], 'id' | 'created_at' | 'last_evaluated_at'>
+        Update: Partial<Database['public']['Tables']['saved_searches']['Row']>
+      }
+      saved_search_matches: {
+        Row: {
+          saved_search_id: string
+          property_id: string
+          price: number
+          deal_score: number | null
+          first_matched_at: string
+          last_seen_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['saved_search_matches']['Row'], 'first_matched_at'>
+        Update: Partial<Database['public']['Tables']['saved_search_matches']['Row']>
+      }
+      property_alerts: {
+        Row: {
+          id: string
+          user_id: string
+          saved_search_id: string
+          property_id: string
+          alert_type: 'new_match' | 'price_drop' | 'score_threshold'
+          message: string
+          previous_value: number | null
+          current_value: number | null
+          created_at: string
+          digested_at: string | null
+          read_at: string | null
+        }
+        Insert: Omit<Database['public']['Tables']['property_alerts']['Row'], 'id' | 'created_at' | 'digested_at' | 'read_at'>
+        Update: Partial<Database['public']['Tables']['property_alerts']['Row']>
+      }
+      saved_search_areas: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          area: SearchArea
+          created_at: string
+        }
+        Insert: Omit<Database['public']['Tables']['saved_search_areas']['Row'], 'id' | 'created_at'>
+        Update: Partial<Database['public']['Tables']['saved_search_areas']['Insert']>
+      }
     }
   }
 }
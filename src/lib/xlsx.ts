@@ -0,0 +1,206 @@
+/**
+ * XLSX Writer
+ *
+ * Just enough Office Open XML to hand lenders a spreadsheet: one or more sheets
+ * of text and numbers with a bold, frozen header row. Cells are plain values
+ * (never formulas), strings are written inline, and the parts are deflated into
+ * a ZIP container with Node's zlib.
+ */
+
+import { deflateRawSync } from 'zlib'
+
+export type SpreadsheetCell = string | number | null
+
+export interface SpreadsheetSheet {
+  name: string // Truncated to Excel's 31 characters
+  rows: SpreadsheetCell[][] // The first row is the header
+}
+
+interface ZipEntry {
+  name: string
+  data: Buffer
+}
+
+const MAX_SHEET_NAME_LENGTH = 31
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main'
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+/**
+ * Build an .xlsx workbook
+ */
+export function buildXlsx(sheets: SpreadsheetSheet[]): Buffer {
+  const names = sheets.map(sheet => toSheetName(sheet.name))
+
+  return zip([
+    { name: '[Content_Types].xml', data: xml(contentTypes(sheets.length)) },
+    { name: '_rels/.rels', data: xml(relationships([['officeDocument', 'xl/workbook.xml']])) },
+    { name: 'xl/workbook.xml', data: xml(workbook(names)) },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      data: xml(relationships([
+        ...sheets.map((_, index) => ['worksheet', `worksheets/sheet${index + 1}.xml`] as [string, string]),
+        ['styles', 'styles.xml']
+      ]))
+    },
+    { name: 'xl/styles.xml', data: xml(STYLES) },
+    ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, data: xml(worksheet(sheet.rows)) }))
+  ])
+}
+
+function contentTypes(sheetCount: number): string {
+  const main = 'application/vnd.openxmlformats-officedocument.spreadsheetml'
+  const sheets = Array.from({ length: sheetCount }, (_, index) =>
+    `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="${main}.worksheet+xml"/>`
+  ).join('')
+
+  return `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    `<Override PartName="/xl/workbook.xml" ContentType="${main}.sheet.main+xml"/>` +
+    `<Override PartName="/xl/styles.xml" ContentType="${main}.styles+xml"/>` +
+    sheets +
+    '</Types>'
+}
+
+function relationships(targets: [string, string][]): string {
+  const items = targets.map(([type, target], index) =>
+    `<Relationship Id="rId${index + 1}" Type="${RELATIONSHIP_NS}/${type}" Target="${target}"/>`
+  ).join('')
+  return `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items}</Relationships>`
+}
+
+function workbook(names: string[]): string {
+  const sheets = names.map((name, index) =>
+    `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`
+  ).join('')
+  return `<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}"><sheets>${sheets}</sheets></workbook>`
+}
+
+// Style 0 is the default; style 1 is the bold header
+const STYLES = `<styleSheet xmlns="${SPREADSHEET_NS}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>'
+
+function worksheet(rows: SpreadsheetCell[][]): string {
+  const body = rows.map((cells, rowIndex) => {
+    const style = rowIndex === 0 ? ' s="1"' : ''
+    const row = cells.map((value, columnIndex) => {
+      const ref = `${columnName(columnIndex)}${rowIndex + 1}`
+      if (value === null || value === '') return ''
+      if (typeof value === 'number') {
+        return Number.isFinite(value) ? `<c r="${ref}"${style}><v>${value}</v></c>` : ''
+      }
+      return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`
+    }).join('')
+    return `<row r="${rowIndex + 1}">${row}</row>`
+  }).join('')
+
+  const frozenHeader = '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+  return `<worksheet xmlns="${SPREADSHEET_NS}">${rows.length > 1 ? frozenHeader : ''}<sheetData>${body}</sheetData></worksheet>`
+}
+
+// 0 -> A, 25 -> Z, 26 -> AA
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+function toSheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, MAX_SHEET_NAME_LENGTH) || 'Sheet'
+}
+
+function xml(body: string): Buffer {
+  return Buffer.from(XML_DECLARATION + body, 'utf8')
+}
+
+// Control characters other than tab and line breaks aren't allowed in XML 1.0
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// ZIP container (APPNOTE 6.3): local headers and deflated data, then the central directory
+function zip(entries: ZipEntry[]): Buffer {
+  const { time, date } = toDosDateTime(new Date())
+  const parts: Buffer[] = []
+  const directory: Buffer[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name, 'utf8')
+    const compressed = deflateRawSync(entry.data)
+    const crc = crc32(entry.data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // Version needed: 2.0 (deflate)
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(8, 8) // Deflate
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(entry.data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    parts.push(local, name, compressed)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // Version made by
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(entry.data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    directory.push(central, name)
+
+    offset += local.length + name.length + compressed.length
+  }
+
+  const directorySize = directory.reduce((size, part) => size + part.length, 0)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(entries.length, 8)
+  end.writeUInt16LE(entries.length, 10)
+  end.writeUInt32LE(directorySize, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...parts, ...directory, end])
+}
+
+function toDosDateTime(now: Date): { time: number; date: number } {
+  return {
+    time: (now.getHours() << 11) | (now.getMinutes() << 5) | Math.floor(now.getSeconds() / 2),
+    date: ((now.getFullYear() - 1980) << 9) | ((now.getMonth() + 1) << 5) | now.getDate()
+  }
+}
+
+const CRC32_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (const byte of data) crc = CRC32_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
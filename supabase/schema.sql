@@ -1,4 +1,9 @@
 -- CalReal Deals Supabase Schema
+
+-- earthdistance powers the location index and radius / bounding-box search
+CREATE EXTENSION IF NOT EXISTS cube;
+CREATE EXTENSION IF NOT EXISTS earthdistance;
+
 -- Properties table with deal scoring and rent cap information
 CREATE TABLE properties (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -16,11 +21,31 @@ CREATE TABLE properties (
   property_type TEXT NOT NULL, -- 'single_family', 'condo', 'townhouse', 'multi_family'
   listing_url TEXT,
   listing_source TEXT, -- 'zillow', 'redfin', 'mls', etc.
+  normalized_address TEXT, -- Deduplication key from src/lib/address-normalization.ts
+  listing_status TEXT NOT NULL DEFAULT 'active', -- 'active', 'pending', 'sold', 'withdrawn'
+  listed_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(), -- Days on market count from here
+  off_market_at TIMESTAMP WITH TIME ZONE, -- Set when sold / withdrawn; stops the days-on-market clock
+  last_price_reduction_at TIMESTAMP WITH TIME ZONE,
   neighborhood_id UUID REFERENCES neighborhood_stats(id),
-  deal_score DECIMAL(5,2), -- Higher score = better deal
+  -- 'boundary' (point-in-polygon), 'outside' (no boundary contains the point), 'manual' (never reassigned);
+  -- NULL = not yet assigned
+  neighborhood_assignment TEXT,
+  deal_score DECIMAL(5,2), -- Higher score = better deal (written by the TypeScript scorer)
+  deal_score_version TEXT, -- DEAL_SCORE_ALGORITHM_VERSION that produced deal_score
+  deal_score_breakdown JSONB, -- Full DealScoreBreakdown from src/lib/deal-score.ts
+  deal_scored_at TIMESTAMP WITH TIME ZONE,
+  deal_score_stale BOOLEAN DEFAULT TRUE, -- Scoring inputs changed since deal_score was written
   price_per_sqft DECIMAL(8,2) GENERATED ALWAYS AS (price / sqft) STORED,
   is_rent_stabilized BOOLEAN DEFAULT FALSE,
-  rent_cap_percentage DECIMAL(5,2), -- AB 1482 rent cap percentage
+  rent_cap_percentage DECIMAL(5,2), -- Allowable annual increase under the governing regime
+  rent_regime TEXT, -- 'local', 'ab1482', 'none' (src/lib/rent-control-jurisdictions.ts)
+  rent_control_jurisdiction TEXT, -- Local ordinance id when rent_regime = 'local'
+  -- AB 1482 exemption facts (Civ. Code § 1947.12(d)); NULL = unknown
+  owner_entity_type TEXT, -- 'individual', 'trust', 'llc', 'llc_corporate_member', 'corporation', 'reit'
+  ab1482_exemption_notice_delivered BOOLEAN,
+  owner_occupies_unit BOOLEAN, -- Owner lived in one unit of a duplex when the tenancy began
+  certificate_of_occupancy_date DATE,
+  deed_restricted_affordable BOOLEAN,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
@@ -44,10 +69,30 @@ CREATE TABLE neighborhood_stats (
   transit_score INTEGER,
   crime_rate DECIMAL(5,2), -- Crime rate per 1000 residents
   school_rating DECIMAL(3,1), -- Average school rating 1-10
+  stats_sample_size INTEGER, -- Listings behind the baseline fields (src/lib/neighborhood-stats.ts)
+  stats_computed_at TIMESTAMP WITH TIME ZONE, -- NULL while the baseline is hand-entered
+  -- Market momentum derived from market_trends (src/lib/market-trends.ts)
+  price_momentum_yoy DECIMAL(6,2), -- % change in median $/sqft over the past year
+  price_momentum_mom DECIMAL(6,2), -- % change in median $/sqft over the past month
+  months_of_inventory DECIMAL(5,1), -- Active inventory / trailing month's sales
+  market_condition TEXT, -- 'sellers', 'balanced', 'buyers'
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Neighborhood boundary rings imported from GeoJSON (src/lib/neighborhood-boundaries.ts).
+-- Each GeoJSON polygon is one outer ring plus zero or more hole rings sharing its polygon_index.
+CREATE TABLE neighborhood_boundaries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  neighborhood_id UUID REFERENCES neighborhood_stats(id) ON DELETE CASCADE NOT NULL,
+  polygon_index INTEGER NOT NULL,
+  is_hole BOOLEAN NOT NULL DEFAULT FALSE,
+  ring POLYGON NOT NULL, -- x = longitude, y = latitude
+  area DOUBLE PRECISION NOT NULL, -- Square degrees; the smallest of overlapping boundaries wins
+  source TEXT, -- GeoJSON file or dataset the ring came from
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- User saved deals
 CREATE TABLE saved_deals (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -60,6 +105,18 @@ CREATE TABLE saved_deals (
   UNIQUE(user_id, property_id)
 );
 
+-- Activity history for saved deals: one row per status change, written by the
+-- record_saved_deal_event trigger (transitions are validated in src/lib/deal-pipeline.ts)
+CREATE TABLE saved_deal_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  saved_deal_id UUID REFERENCES saved_deals(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_status TEXT, -- NULL when the deal was first saved
+  to_status TEXT NOT NULL,
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Property images
 CREATE TABLE property_images (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -70,6 +127,92 @@ CREATE TABLE property_images (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Units of a multi_family property (src/lib/property-units.ts); scoring rolls them up per building
+CREATE TABLE property_units (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id UUID NOT NULL REFERENCES properties(id) ON DELETE CASCADE,
+  unit_number TEXT NOT NULL,
+  beds INTEGER NOT NULL,
+  baths DECIMAL(3,1) NOT NULL,
+  sqft INTEGER,
+  current_rent DECIMAL(10,2), -- Monthly rent in place; NULL when vacant or unknown
+  lease_start DATE, -- Start of the current lease term
+  tenant_since DATE, -- Start of the current tenancy (tenure); earlier than lease_start after renewals
+  occupancy TEXT NOT NULL DEFAULT 'occupied', -- 'occupied', 'vacant', 'owner_occupied'
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(property_id, unit_number)
+);
+
+-- Leased rentals that calibrate the market rent model (src/lib/rent-estimate.ts);
+-- imported by src/lib/rental-comps.ts, one row per unit lease
+CREATE TABLE rental_comps (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  source TEXT NOT NULL,
+  source_comp_id TEXT NOT NULL, -- Source's lease id, or "<normalized address with unit>, <zip>, <leased_on>" when it has none
+  address TEXT NOT NULL,
+  unit_number TEXT,
+  city TEXT NOT NULL,
+  zip_code TEXT NOT NULL,
+  latitude DECIMAL(10,8) NOT NULL,
+  longitude DECIMAL(11,8) NOT NULL,
+  neighborhood_id UUID REFERENCES neighborhood_stats(id) ON DELETE SET NULL, -- Assigned from the coordinates
+  property_type TEXT NOT NULL, -- 'single_family', 'condo', 'townhouse', 'multi_family'
+  beds INTEGER NOT NULL,
+  baths DECIMAL(3,1) NOT NULL,
+  sqft INTEGER NOT NULL,
+  year_built INTEGER,
+  monthly_rent DECIMAL(10,2) NOT NULL,
+  leased_on DATE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(source, source_comp_id)
+);
+
+-- Price, status and deal score history (written by the record_property_event trigger)
+CREATE TABLE property_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id UUID REFERENCES properties(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL, -- 'listed', 'price_change', 'status_change', 'score_change'
+  price DECIMAL(12,2) NOT NULL, -- List price at this point
+  previous_price DECIMAL(12,2),
+  listing_status TEXT NOT NULL,
+  previous_listing_status TEXT,
+  deal_score DECIMAL(5,2),
+  previous_deal_score DECIMAL(5,2),
+  days_on_market INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Every feed listing that resolved to a property (src/lib/listing-ingestion.ts);
+-- one property can be listed by several sources
+CREATE TABLE property_listing_sources (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id UUID REFERENCES properties(id) ON DELETE CASCADE,
+  source TEXT NOT NULL,
+  source_listing_id TEXT NOT NULL, -- Feed's listing id, or "<normalized address>, <zip>" when it has none
+  listing_url TEXT,
+  price DECIMAL(12,2),
+  first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(source, source_listing_id)
+);
+
+-- One row per listing import with its inserted / updated / skipped / rejected report
+CREATE TABLE listing_import_runs (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  source TEXT NOT NULL,
+  format TEXT NOT NULL, -- 'csv', 'reso'
+  total_rows INTEGER NOT NULL,
+  inserted INTEGER NOT NULL,
+  updated INTEGER NOT NULL,
+  skipped INTEGER NOT NULL,
+  rejected INTEGER NOT NULL,
+  rows JSONB NOT NULL, -- ListingImportRowResult[]
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Market trends data
 CREATE TABLE market_trends (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
@@ -78,22 +221,115 @@ CREATE TABLE market_trends (
   median_price DECIMAL(12,2),
   median_price_per_sqft DECIMAL(8,2),
   days_on_market INTEGER,
-  inventory_count INTEGER,
+  inventory_count INTEGER, -- Active listings
+  sales_count INTEGER, -- Sales closed in the 30 days before the snapshot
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   UNIQUE(neighborhood_id, date)
 );
 
+-- User deal scoring profiles (weights, thresholds and enabled components as JSON)
+CREATE TABLE scoring_profiles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  version INTEGER NOT NULL DEFAULT 1,
+  definition JSONB NOT NULL, -- ScoringProfile from src/lib/scoring-profiles.ts
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, name, version)
+);
+
+-- User saved searches (discovery filter sets) evaluated by the alerts job
+CREATE TABLE saved_searches (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL, -- PropertySearchParams from src/lib/property-search.ts
+  score_threshold DECIMAL(5,2) DEFAULT 80, -- Alert when a match's deal score rises to this
+  alerts_enabled BOOLEAN DEFAULT TRUE,
+  last_evaluated_at TIMESTAMP WITH TIME ZONE, -- NULL until the first run seeds the baseline
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
+-- Last seen price / score of each property matching a saved search
+CREATE TABLE saved_search_matches (
+  saved_search_id UUID REFERENCES saved_searches(id) ON DELETE CASCADE,
+  property_id UUID REFERENCES properties(id) ON DELETE CASCADE,
+  price DECIMAL(12,2) NOT NULL,
+  deal_score DECIMAL(5,2),
+  first_matched_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (saved_search_id, property_id)
+);
+
+-- Alerts produced by the saved search job (src/lib/saved-search-alerts.ts)
+CREATE TABLE property_alerts (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  saved_search_id UUID REFERENCES saved_searches(id) ON DELETE CASCADE,
+  property_id UUID REFERENCES properties(id) ON DELETE CASCADE,
+  alert_type TEXT NOT NULL, -- 'new_match', 'price_drop', 'score_threshold'
+  message TEXT NOT NULL,
+  previous_value DECIMAL(12,2),
+  current_value DECIMAL(12,2),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  digested_at TIMESTAMP WITH TIME ZONE, -- Included in an emailed digest
+  read_at TIMESTAMP WITH TIME ZONE
+);
+
+-- User saved search areas (drawn polygons / circles on the discovery map)
+CREATE TABLE saved_search_areas (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  area JSONB NOT NULL, -- SearchArea from src/lib/search-areas.ts
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, name)
+);
+
 -- Enable RLS (Row Level Security)
 ALTER TABLE properties ENABLE ROW LEVEL SECURITY;
 ALTER TABLE saved_deals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_deal_events ENABLE ROW LEVEL SECURITY;
 ALTER TABLE property_images ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scoring_profiles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_areas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_alerts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_listing_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE listing_import_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE neighborhood_boundaries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE property_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rental_comps ENABLE ROW LEVEL SECURITY;
 
 -- RLS Policies
 CREATE POLICY "Properties are viewable by everyone" ON properties FOR SELECT USING (true);
+CREATE POLICY "Property history is viewable by everyone" ON property_events FOR SELECT USING (true);
+CREATE POLICY "Neighborhood boundaries are viewable by everyone" ON neighborhood_boundaries FOR SELECT USING (true);
+CREATE POLICY "Property units are viewable by everyone" ON property_units FOR SELECT USING (true);
+CREATE POLICY "Rental comps are viewable by everyone" ON rental_comps FOR SELECT USING (true);
 CREATE POLICY "Users can view their own saved deals" ON saved_deals FOR SELECT USING (auth.uid() = user_id);
 CREATE POLICY "Users can insert their own saved deals" ON saved_deals FOR INSERT WITH CHECK (auth.uid() = user_id);
 CREATE POLICY "Users can update their own saved deals" ON saved_deals FOR UPDATE USING (auth.uid() = user_id);
 CREATE POLICY "Users can delete their own saved deals" ON saved_deals FOR DELETE USING (auth.uid() = user_id);
+CREATE POLICY "Users can view their own deal activity" ON saved_deal_events FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can view their own scoring profiles" ON scoring_profiles FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own scoring profiles" ON scoring_profiles FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own scoring profiles" ON scoring_profiles FOR DELETE USING (auth.uid() = user_id);
+CREATE POLICY "Users can view their own search areas" ON saved_search_areas FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own search areas" ON saved_search_areas FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own search areas" ON saved_search_areas FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own search areas" ON saved_search_areas FOR DELETE USING (auth.uid() = user_id);
+CREATE POLICY "Users can view their own saved searches" ON saved_searches FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can insert their own saved searches" ON saved_searches FOR INSERT WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users can update their own saved searches" ON saved_searches FOR UPDATE USING (auth.uid() = user_id);
+CREATE POLICY "Users can delete their own saved searches" ON saved_searches FOR DELETE USING (auth.uid() = user_id);
+CREATE POLICY "Users can view their own alerts" ON property_alerts FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can update their own alerts" ON property_alerts FOR UPDATE USING (auth.uid() = user_id);
+-- saved_search_matches has no policies: only the alerts job (service role) reads and writes it
+-- property_listing_sources and listing_import_runs have no policies: only ingestion (service role) uses them
 
 -- Indexes for performance
 CREATE INDEX idx_properties_location ON properties USING GIST (
@@ -104,102 +340,454 @@ CREATE INDEX idx_properties_deal_score ON properties(deal_score DESC);
 CREATE INDEX idx_properties_neighborhood ON properties(neighborhood_id);
 CREATE INDEX idx_properties_year_built ON properties(year_built);
 CREATE INDEX idx_properties_rent_stabilized ON properties(is_rent_stabilized);
+CREATE INDEX idx_properties_rent_regime ON properties(rent_regime);
+CREATE INDEX idx_properties_deal_score_stale ON properties(deal_score_stale) WHERE deal_score_stale;
 
 CREATE INDEX idx_neighborhood_stats_location ON neighborhood_stats(name, city, state);
 CREATE INDEX idx_saved_deals_user ON saved_deals(user_id);
 CREATE INDEX idx_saved_deals_status ON saved_deals(status);
+CREATE INDEX idx_saved_deal_events_deal ON saved_deal_events(saved_deal_id, created_at);
+CREATE INDEX idx_scoring_profiles_user ON scoring_profiles(user_id, name, version DESC);
+CREATE INDEX idx_saved_search_areas_user ON saved_search_areas(user_id, name);
+CREATE INDEX idx_saved_searches_user ON saved_searches(user_id, name);
+CREATE INDEX idx_property_alerts_user ON property_alerts(user_id, created_at DESC);
+CREATE INDEX idx_property_alerts_undigested ON property_alerts(user_id) WHERE digested_at IS NULL;
+CREATE INDEX idx_properties_updated_at ON properties(updated_at);
+CREATE INDEX idx_properties_normalized_address ON properties(normalized_address);
+CREATE INDEX idx_properties_listing_status ON properties(listing_status);
+CREATE INDEX idx_properties_last_price_reduction ON properties(last_price_reduction_at) WHERE last_price_reduction_at IS NOT NULL;
+CREATE INDEX idx_property_events_property ON property_events(property_id, created_at);
+CREATE INDEX idx_property_listing_sources_property ON property_listing_sources(property_id);
+CREATE INDEX idx_neighborhood_boundaries_neighborhood ON neighborhood_boundaries(neighborhood_id, polygon_index);
+CREATE INDEX idx_properties_neighborhood_assignment ON properties(neighborhood_assignment);
+-- property_units(property_id) is covered by its UNIQUE (property_id, unit_number) index
+CREATE INDEX idx_rental_comps_neighborhood ON rental_comps(neighborhood_id, leased_on DESC);
 
--- Function to calculate deal score
-CREATE OR REPLACE FUNCTION calculate_deal_score(
-  p_price DECIMAL,
-  p_sqft INTEGER,
-  p_neighborhood_median_price_per_sqft DECIMAL,
-  p_year_built INTEGER,
-  p_is_rent_stabilized BOOLEAN
-) RETURNS DECIMAL AS $$
-DECLARE
-  price_ratio DECIMAL;
-  age_factor DECIMAL;
-  rent_stabilization_bonus DECIMAL;
-  base_score DECIMAL := 50.0;
+-- Deal scores, rent regime, rent stabilization status and rent cap percentage are computed
+-- by the TypeScript scorer (src/lib/rescoring.ts), never in SQL, so stored and
+-- on-screen scores always agree. This trigger only flags rows whose scoring
+-- inputs changed so the rescoring job picks them up.
+CREATE OR REPLACE FUNCTION mark_deal_score_stale()
+RETURNS TRIGGER AS $$
 BEGIN
-  -- Price comparison (lower price = higher score)
-  IF p_neighborhood_median_price_per_sqft > 0 THEN
-    price_ratio := (p_price / p_sqft) / p_neighborhood_median_price_per_sqft;
-  ELSE
-    price_ratio := 1.0;
-  END IF;
-  
-  -- Age factor (older properties get bonus for potential rent stabilization)
-  age_factor := CASE 
-    WHEN p_year_built < (EXTRACT(YEAR FROM NOW()) - 50) THEN 15.0
-    WHEN p_year_built < (EXTRACT(YEAR FROM NOW()) - 30) THEN 10.0
-    WHEN p_year_built < (EXTRACT(YEAR FROM NOW()) - 15) THEN 5.0
-    ELSE 0.0
-  END;
-  
-  -- Rent stabilization bonus
-  rent_stabilization_bonus := CASE 
-    WHEN p_is_rent_stabilized THEN 20.0
-    ELSE 0.0
-  END;
-  
-  -- Calculate final score (0-100)
-  RETURN LEAST(100.0, GREATEST(0.0, 
-    base_score + 
-    (1.0 - price_ratio) * 30.0 + -- Price factor (up to 30 points)
-    age_factor + -- Age factor (up to 15 points)
-    rent_stabilization_bonus -- Rent stabilization bonus (up to 20 points)
-  ));
+  IF TG_OP = 'INSERT' THEN
+    NEW.deal_score_stale = TRUE;
+  ELSIF (NEW.price, NEW.sqft, NEW.beds, NEW.baths, NEW.year_built, NEW.property_type,
+         NEW.latitude, NEW.longitude, NEW.neighborhood_id, NEW.city, NEW.zip_code, NEW.owner_entity_type,
+         NEW.ab1482_exemption_notice_delivered, NEW.owner_occupies_unit,
+         NEW.certificate_of_occupancy_date, NEW.deed_restricted_affordable)
+        IS DISTINCT FROM
+        (OLD.price, OLD.sqft, OLD.beds, OLD.baths, OLD.year_built, OLD.property_type,
+         OLD.latitude, OLD.longitude, OLD.neighborhood_id, OLD.city, OLD.zip_code, OLD.owner_entity_type,
+         OLD.ab1482_exemption_notice_delivered, OLD.owner_occupies_unit,
+         OLD.certificate_of_occupancy_date, OLD.deed_restricted_affordable) THEN
+    NEW.deal_score_stale = TRUE;
+  END IF;
+
+  RETURN NEW;
 END;
 $$ LANGUAGE plpgsql;
 
--- Function to check AB 1482 rent cap eligibility
-CREATE OR REPLACE FUNCTION check_rent_cap_eligibility(p_year_built INTEGER) 
-RETURNS BOOLEAN AS $$
+CREATE TRIGGER trigger_mark_deal_score_stale
+  BEFORE INSERT OR UPDATE ON properties
+  FOR EACH ROW EXECUTE FUNCTION mark_deal_score_stale();
+
+-- Units feed the multi-family unit mix score, so any unit change flags the building stale
+CREATE OR REPLACE FUNCTION mark_unit_property_score_stale()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    UPDATE properties SET deal_score_stale = TRUE WHERE id = NEW.property_id;
+  END IF;
+  -- A unit moved to another property, or was deleted
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.property_id IS DISTINCT FROM NEW.property_id) THEN
+    UPDATE properties SET deal_score_stale = TRUE WHERE id = OLD.property_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_mark_unit_property_score_stale
+  AFTER INSERT OR UPDATE OR DELETE ON property_units
+  FOR EACH ROW EXECUTE FUNCTION mark_unit_property_score_stale();
+
+-- Rental comps calibrate the market rent estimate of every property in their
+-- neighborhood, so any comp change flags those properties stale. Already-stale
+-- rows are skipped so a bulk import only rewrites each property once.
+CREATE OR REPLACE FUNCTION mark_rental_comp_neighborhood_stale()
+RETURNS TRIGGER AS $$
 BEGIN
-  -- AB 1482 applies to properties older than 15 years
-  RETURN p_year_built < (EXTRACT(YEAR FROM NOW()) - 15);
+  IF TG_OP <> 'DELETE' AND NEW.neighborhood_id IS NOT NULL THEN
+    UPDATE properties SET deal_score_stale = TRUE
+    WHERE neighborhood_id = NEW.neighborhood_id AND deal_score_stale IS NOT TRUE;
+  END IF;
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.neighborhood_id IS DISTINCT FROM NEW.neighborhood_id) THEN
+    UPDATE properties SET deal_score_stale = TRUE
+    WHERE neighborhood_id = OLD.neighborhood_id AND deal_score_stale IS NOT TRUE;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_mark_rental_comp_neighborhood_stale
+  AFTER INSERT OR UPDATE OR DELETE ON rental_comps
+  FOR EACH ROW EXECUTE FUNCTION mark_rental_comp_neighborhood_stale();
+
+-- Most specific neighborhood whose boundary contains the point (inside an outer ring, outside its holes)
+CREATE OR REPLACE FUNCTION find_neighborhood_id(lat DECIMAL, lng DECIMAL)
+RETURNS UUID AS $$
+  SELECT b.neighborhood_id
+  FROM neighborhood_boundaries b
+  WHERE NOT b.is_hole
+    AND b.ring @> point(lng, lat)
+    AND NOT EXISTS (
+      SELECT 1 FROM neighborhood_boundaries h
+      WHERE h.is_hole
+        AND h.neighborhood_id = b.neighborhood_id
+        AND h.polygon_index = b.polygon_index
+        AND h.ring @> point(lng, lat)
+    )
+  ORDER BY b.area ASC
+  LIMIT 1;
+$$ LANGUAGE sql STABLE;
+
+-- Assigns neighborhood_id from the coordinates on insert (unless one is
+-- supplied) and when the coordinates change. A neighborhood_id given without an
+-- assignment, on insert or on a row assigned before boundaries existed, is
+-- 'manual' and left alone. Properties outside every boundary are flagged
+-- 'outside' and lose their stored score, since there is no baseline to score
+-- them against.
+CREATE OR REPLACE FUNCTION assign_property_neighborhood()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.neighborhood_assignment IS NULL AND NEW.neighborhood_id IS NOT NULL THEN
+    NEW.neighborhood_assignment = 'manual';
+  END IF;
+
+  IF NEW.neighborhood_assignment = 'manual' THEN
+    RETURN NEW;
+  END IF;
+
+  IF (TG_OP = 'INSERT' AND NEW.neighborhood_id IS NULL)
+     OR (TG_OP = 'UPDATE' AND (NEW.latitude, NEW.longitude) IS DISTINCT FROM (OLD.latitude, OLD.longitude)) THEN
+    NEW.neighborhood_id = find_neighborhood_id(NEW.latitude, NEW.longitude);
+    NEW.neighborhood_assignment = CASE WHEN NEW.neighborhood_id IS NULL THEN 'outside' ELSE 'boundary' END;
+  END IF;
+
+  IF NEW.neighborhood_assignment = 'outside' THEN
+    NEW.deal_score = NULL;
+    NEW.deal_score_breakdown = NULL;
+    NEW.deal_scored_at = NULL;
+  END IF;
+
+  RETURN NEW;
 END;
 $$ LANGUAGE plpgsql;
 
--- Trigger to automatically update deal score and rent stabilization status
-CREATE OR REPLACE FUNCTION update_property_metrics()
+-- Fires before trigger_mark_deal_score_stale (alphabetical), so a new neighborhood flags the score stale
+CREATE TRIGGER trigger_assign_property_neighborhood
+  BEFORE INSERT OR UPDATE ON properties
+  FOR EACH ROW EXECUTE FUNCTION assign_property_neighborhood();
+
+-- Properties linked to a neighborhood before boundaries were tracked keep that link
+UPDATE properties
+SET neighborhood_assignment = 'manual'
+WHERE neighborhood_assignment IS NULL AND neighborhood_id IS NOT NULL;
+
+-- Rental comps take their neighborhood from the coordinates, like properties;
+-- comps outside every boundary keep a NULL neighborhood_id
+CREATE OR REPLACE FUNCTION assign_rental_comp_neighborhood()
 RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR (NEW.latitude, NEW.longitude) IS DISTINCT FROM (OLD.latitude, OLD.longitude) THEN
+    NEW.neighborhood_id = find_neighborhood_id(NEW.latitude, NEW.longitude);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_assign_rental_comp_neighborhood
+  BEFORE INSERT OR UPDATE ON rental_comps
+  FOR EACH ROW EXECUTE FUNCTION assign_rental_comp_neighborhood();
+
+-- Bulk backfill after boundaries change: reassigns every non-manual property
+-- whose neighborhood differs from its boundary lookup and returns the counts.
+-- Rental comps are reassigned the same way but not counted.
+CREATE OR REPLACE FUNCTION backfill_property_neighborhoods()
+RETURNS TABLE (reassigned INTEGER, outside INTEGER) AS $$
 DECLARE
-  neighborhood_median DECIMAL;
+  reassigned_count INTEGER;
 BEGIN
-  -- Get neighborhood median price per sqft
-  SELECT median_price_per_sqft INTO neighborhood_median
-  FROM neighborhood_stats
-  WHERE id = NEW.neighborhood_id;
-  
-  -- Update deal score
-  NEW.deal_score = calculate_deal_score(
-    NEW.price, 
-    NEW.sqft, 
-    COALESCE(neighborhood_median, NEW.price / NEW.sqft),
-    NEW.year_built,
-    NEW.is_rent_stabilized
-  );
-  
-  -- Update rent stabilization status
-  NEW.is_rent_stabilized = check_rent_cap_eligibility(NEW.year_built);
-  
-  -- Set rent cap percentage (5% + inflation for AB 1482)
-  IF NEW.is_rent_stabilized THEN
-    NEW.rent_cap_percentage = 5.0; -- Base 5% + inflation adjustment
+  WITH lookup AS (
+    SELECT p.id, find_neighborhood_id(p.latitude, p.longitude) AS neighborhood_id
+    FROM properties p
+    WHERE p.neighborhood_assignment IS DISTINCT FROM 'manual'
+  )
+  UPDATE properties p
+  SET
+    neighborhood_id = lookup.neighborhood_id,
+    neighborhood_assignment = CASE WHEN lookup.neighborhood_id IS NULL THEN 'outside' ELSE 'boundary' END
+  FROM lookup
+  WHERE p.id = lookup.id
+    AND (p.neighborhood_id IS DISTINCT FROM lookup.neighborhood_id
+         OR p.neighborhood_assignment IS DISTINCT FROM CASE WHEN lookup.neighborhood_id IS NULL THEN 'outside' ELSE 'boundary' END);
+  GET DIAGNOSTICS reassigned_count = ROW_COUNT;
+
+  WITH comp_lookup AS (
+    SELECT c.id, find_neighborhood_id(c.latitude, c.longitude) AS neighborhood_id
+    FROM rental_comps c
+  )
+  UPDATE rental_comps c
+  SET neighborhood_id = comp_lookup.neighborhood_id
+  FROM comp_lookup
+  WHERE c.id = comp_lookup.id AND c.neighborhood_id IS DISTINCT FROM comp_lookup.neighborhood_id;
+
+  RETURN QUERY
+  SELECT reassigned_count, COUNT(*)::INTEGER FROM properties WHERE neighborhood_assignment = 'outside';
+END;
+$$ LANGUAGE plpgsql;
+
+-- Whole days a listing has been on the market (src/lib/property-history.ts mirrors this)
+CREATE OR REPLACE FUNCTION listing_days_on_market(listed_at TIMESTAMP WITH TIME ZONE, off_market_at TIMESTAMP WITH TIME ZONE)
+RETURNS INTEGER AS $$
+  SELECT GREATEST(0, FLOOR(EXTRACT(EPOCH FROM (COALESCE(off_market_at, NOW()) - listed_at)) / 86400))::INTEGER;
+$$ LANGUAGE sql STABLE;
+
+-- Listing lifecycle: the days-on-market clock stops when a listing leaves the
+-- market and restarts when it comes back (unless the update brings its own list
+-- date), and price cuts are timestamped for the "price reduced" search filter
+CREATE OR REPLACE FUNCTION track_listing_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.listing_status IN ('sold', 'withdrawn') THEN
+    IF TG_OP = 'INSERT' OR OLD.listing_status NOT IN ('sold', 'withdrawn') THEN
+      NEW.off_market_at = NOW();
+    END IF;
   ELSE
-    NEW.rent_cap_percentage = NULL;
+    IF TG_OP = 'UPDATE' AND OLD.listing_status IN ('sold', 'withdrawn') AND NEW.listed_at IS NOT DISTINCT FROM OLD.listed_at THEN
+      NEW.listed_at = NOW();
+    END IF;
+    NEW.off_market_at = NULL;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.price < OLD.price THEN
+    NEW.last_price_reduction_at = NOW();
   END IF;
-  
+
   RETURN NEW;
 END;
 $$ LANGUAGE plpgsql;
 
-CREATE TRIGGER trigger_update_property_metrics
+CREATE TRIGGER trigger_track_listing_changes
   BEFORE INSERT OR UPDATE ON properties
-  FOR EACH ROW EXECUTE FUNCTION update_property_metrics();
+  FOR EACH ROW EXECUTE FUNCTION track_listing_changes();
+
+-- Price, status and deal score history: one property_events row per change,
+-- each carrying the price, status, score and days on market at that point
+CREATE OR REPLACE FUNCTION record_property_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  current_days_on_market INTEGER := listing_days_on_market(NEW.listed_at, NEW.off_market_at);
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO property_events (property_id, event_type, price, listing_status, deal_score, days_on_market)
+    VALUES (NEW.id, 'listed', NEW.price, NEW.listing_status, NEW.deal_score, current_days_on_market);
+    RETURN NULL;
+  END IF;
+
+  IF NEW.price IS DISTINCT FROM OLD.price THEN
+    INSERT INTO property_events (property_id, event_type, price, previous_price, listing_status, deal_score, days_on_market)
+    VALUES (NEW.id, 'price_change', NEW.price, OLD.price, NEW.listing_status, NEW.deal_score, current_days_on_market);
+  END IF;
+
+  IF NEW.listing_status IS DISTINCT FROM OLD.listing_status THEN
+    INSERT INTO property_events (property_id, event_type, price, listing_status, previous_listing_status, deal_score, days_on_market)
+    VALUES (NEW.id, 'status_change', NEW.price, NEW.listing_status, OLD.listing_status, NEW.deal_score, current_days_on_market);
+  END IF;
+
+  IF NEW.deal_score IS DISTINCT FROM OLD.deal_score THEN
+    INSERT INTO property_events (property_id, event_type, price, listing_status, deal_score, previous_deal_score, days_on_market)
+    VALUES (NEW.id, 'score_change', NEW.price, NEW.listing_status, NEW.deal_score, OLD.deal_score, current_days_on_market);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_record_property_event
+  AFTER INSERT OR UPDATE ON properties
+  FOR EACH ROW EXECUTE FUNCTION record_property_event();
+
+-- Saving a deal and every status change write their history row in the same
+-- transaction, so a deal can't move without a matching event. The optional note
+-- comes from update_saved_deal_status through a transaction-local setting.
+-- Clients have no INSERT policy on saved_deal_events, so this trigger (running
+-- as its owner) is the only writer and the history can't be forged or backdated.
+CREATE OR REPLACE FUNCTION record_saved_deal_event()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM NEW.status THEN
+    INSERT INTO saved_deal_events (saved_deal_id, user_id, from_status, to_status, note)
+    VALUES (
+      NEW.id,
+      NEW.user_id,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+      NEW.status,
+      NULLIF(current_setting('app.saved_deal_status_note', TRUE), '')
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, pg_temp;
+
+CREATE TRIGGER trigger_record_saved_deal_event
+  AFTER INSERT OR UPDATE OF status ON saved_deals
+  FOR EACH ROW EXECUTE FUNCTION record_saved_deal_event();
+
+-- Move a deal only if it is still in expected_status; returns no row when it was
+-- moved elsewhere in the meantime (src/lib/saved-deals-store.ts)
+CREATE OR REPLACE FUNCTION update_saved_deal_status(
+  deal_id UUID,
+  expected_status TEXT,
+  new_status TEXT,
+  note TEXT DEFAULT NULL
+)
+RETURNS SETOF saved_deals AS $$
+BEGIN
+  PERFORM set_config('app.saved_deal_status_note', COALESCE(note, ''), TRUE);
+  RETURN QUERY
+    UPDATE saved_deals SET status = new_status
+    WHERE id = deal_id AND status = expected_status
+    RETURNING *;
+  PERFORM set_config('app.saved_deal_status_note', '', TRUE);
+END;
+$$ LANGUAGE plpgsql;
+
+-- Discovery search (src/lib/property-search.ts). Radius, bounding-box and
+-- drawn-area filters prefilter with earth_box so they use
+-- idx_properties_location, then apply the exact distance / lat-lng / polygon test. Returns one row past page_size so
+-- the caller knows whether another page exists; sort_missing + sort_key + id is the cursor.
+-- Rows without a sort value (unscored properties) come last in either direction.
+CREATE OR REPLACE FUNCTION search_properties(
+  search_text TEXT DEFAULT NULL,
+  min_price NUMERIC DEFAULT NULL,
+  max_price NUMERIC DEFAULT NULL,
+  property_types TEXT[] DEFAULT NULL,
+  min_deal_score NUMERIC DEFAULT NULL,
+  rent_stabilized_only BOOLEAN DEFAULT FALSE,
+  rent_regime_filter TEXT DEFAULT NULL,
+  min_beds INTEGER DEFAULT NULL,
+  min_baths NUMERIC DEFAULT NULL,
+  min_year_built INTEGER DEFAULT NULL,
+  max_year_built INTEGER DEFAULT NULL,
+  min_sqft INTEGER DEFAULT NULL,
+  max_sqft INTEGER DEFAULT NULL,
+  center_lat DOUBLE PRECISION DEFAULT NULL,
+  center_lng DOUBLE PRECISION DEFAULT NULL,
+  radius_meters DOUBLE PRECISION DEFAULT NULL,
+  bounds_south DOUBLE PRECISION DEFAULT NULL,
+  bounds_west DOUBLE PRECISION DEFAULT NULL,
+  bounds_north DOUBLE PRECISION DEFAULT NULL,
+  bounds_east DOUBLE PRECISION DEFAULT NULL,
+  area_center_lat DOUBLE PRECISION DEFAULT NULL, -- Circle enclosing the drawn search area
+  area_center_lng DOUBLE PRECISION DEFAULT NULL,
+  area_radius_meters DOUBLE PRECISION DEFAULT NULL,
+  area_polygon TEXT DEFAULT NULL, -- Drawn polygon as '((lng,lat),...)'; NULL for circles
+  updated_since TIMESTAMP WITH TIME ZONE DEFAULT NULL, -- Only rows inserted/updated after this (alert jobs)
+  price_reduced_within_days INTEGER DEFAULT NULL,
+  min_days_on_market INTEGER DEFAULT NULL,
+  max_days_on_market INTEGER DEFAULT NULL,
+  include_off_market BOOLEAN DEFAULT FALSE, -- Include sold and withdrawn listings
+  sort_by TEXT DEFAULT 'deal_score', -- 'deal_score', 'price', 'price_per_sqft', 'distance'
+  sort_ascending BOOLEAN DEFAULT FALSE,
+  cursor_value DOUBLE PRECISION DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  cursor_missing BOOLEAN DEFAULT FALSE, -- The cursor row had no sort value
+  page_size INTEGER DEFAULT 50
+)
+RETURNS SETOF JSONB AS $$
+  WITH area AS (
+    SELECT
+      CASE WHEN center_lat IS NOT NULL AND center_lng IS NOT NULL
+        THEN ll_to_earth(center_lat, center_lng) END AS center,
+      CASE WHEN bounds_south IS NOT NULL
+        THEN ll_to_earth((bounds_south + bounds_north) / 2, (bounds_west + bounds_east) / 2) END AS bounds_center,
+      CASE WHEN bounds_south IS NOT NULL
+        THEN earth_distance(
+          ll_to_earth((bounds_south + bounds_north) / 2, (bounds_west + bounds_east) / 2),
+          ll_to_earth(bounds_north, bounds_east)
+        ) END AS bounds_radius,
+      CASE WHEN area_center_lat IS NOT NULL AND area_center_lng IS NOT NULL
+        THEN ll_to_earth(area_center_lat, area_center_lng) END AS area_center,
+      area_polygon::polygon AS area_shape
+  ),
+  matches AS (
+    SELECT p.*,
+      earth_distance(area.center, ll_to_earth(p.latitude, p.longitude)) AS distance_meters,
+      listing_days_on_market(p.listed_at, p.off_market_at) AS days_on_market
+    FROM properties p, area,
+      -- Typed % and _ match literally
+      (SELECT replace(replace(replace(search_text, '\', '\\'), '%', '\%'), '_', '\_') AS pattern) escaped_text
+    WHERE (search_text IS NULL
+        OR p.address ILIKE '%' || escaped_text.pattern || '%'
+        OR p.city ILIKE '%' || escaped_text.pattern || '%'
+        OR p.zip_code LIKE escaped_text.pattern || '%')
+      AND (min_price IS NULL OR p.price >= min_price)
+      AND (max_price IS NULL OR p.price <= max_price)
+      AND (property_types IS NULL OR p.property_type = ANY(property_types))
+      AND (min_deal_score IS NULL OR p.deal_score >= min_deal_score)
+      AND (NOT rent_stabilized_only OR p.is_rent_stabilized)
+      AND (rent_regime_filter IS NULL OR p.rent_regime = rent_regime_filter)
+      AND (min_beds IS NULL OR p.beds >= min_beds)
+      AND (min_baths IS NULL OR p.baths >= min_baths)
+      AND (min_year_built IS NULL OR p.year_built >= min_year_built)
+      AND (max_year_built IS NULL OR p.year_built <= max_year_built)
+      AND (min_sqft IS NULL OR p.sqft >= min_sqft)
+      AND (max_sqft IS NULL OR p.sqft <= max_sqft)
+      AND (radius_meters IS NULL OR (
+        earth_box(area.center, radius_meters) @> ll_to_earth(p.latitude, p.longitude)
+        AND earth_distance(area.center, ll_to_earth(p.latitude, p.longitude)) <= radius_meters))
+      AND (area.bounds_center IS NULL OR (
+        earth_box(area.bounds_center, area.bounds_radius) @> ll_to_earth(p.latitude, p.longitude)
+        AND p.latitude BETWEEN bounds_south AND bounds_north
+        AND p.longitude BETWEEN bounds_west AND bounds_east))
+      AND (area.area_center IS NULL OR (
+        earth_box(area.area_center, area_radius_meters) @> ll_to_earth(p.latitude, p.longitude)
+        AND earth_distance(area.area_center, ll_to_earth(p.latitude, p.longitude)) <= area_radius_meters))
+      AND (area.area_shape IS NULL OR area.area_shape @> point(p.longitude, p.latitude))
+      AND (updated_since IS NULL OR p.updated_at > updated_since)
+      AND (include_off_market OR p.listing_status IN ('active', 'pending'))
+      AND (price_reduced_within_days IS NULL
+        OR p.last_price_reduction_at >= NOW() - make_interval(days => price_reduced_within_days))
+      AND (min_days_on_market IS NULL OR listing_days_on_market(p.listed_at, p.off_market_at) >= min_days_on_market)
+      AND (max_days_on_market IS NULL OR listing_days_on_market(p.listed_at, p.off_market_at) <= max_days_on_market)
+  ),
+  keyed AS (
+    SELECT m.*, raw.sort_key IS NULL AS sort_missing, COALESCE(raw.sort_key, 0) AS sort_key
+    FROM matches m
+    CROSS JOIN LATERAL (
+      SELECT CASE sort_by
+        WHEN 'price' THEN m.price::DOUBLE PRECISION
+        WHEN 'price_per_sqft' THEN m.price_per_sqft::DOUBLE PRECISION
+        WHEN 'distance' THEN m.distance_meters
+        ELSE m.deal_score::DOUBLE PRECISION
+      END AS sort_key
+    ) raw
+  )
+  SELECT to_jsonb(k) FROM keyed k
+  WHERE cursor_id IS NULL
+    OR k.sort_missing > cursor_missing
+    OR (k.sort_missing = cursor_missing AND (
+      (sort_ascending AND (k.sort_key, k.id) > (cursor_value, cursor_id))
+      OR (NOT sort_ascending AND (k.sort_key, k.id) < (cursor_value, cursor_id))))
+  ORDER BY
+    k.sort_missing ASC,
+    CASE WHEN sort_ascending THEN k.sort_key END ASC,
+    CASE WHEN NOT sort_ascending THEN k.sort_key END DESC,
+    CASE WHEN sort_ascending THEN k.id END ASC,
+    CASE WHEN NOT sort_ascending THEN k.id END DESC
+  LIMIT page_size + 1;
+$$ LANGUAGE sql STABLE;
 
 -- Updated timestamp trigger
 CREATE OR REPLACE FUNCTION update_updated_at_column()
@@ -221,3 +809,11 @@ CREATE TRIGGER update_neighborhood_stats_updated_at
 CREATE TRIGGER update_saved_deals_updated_at
   BEFORE UPDATE ON saved_deals
   FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_property_units_updated_at
+  BEFORE UPDATE ON property_units
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_rental_comps_updated_at
+  BEFORE UPDATE ON rental_comps
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();